@@ -1,8 +1,53 @@
+import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createSupabaseClient } from '../lib/supabase.js';
+import {
+  backfillBalanceSnapshots,
+  buildNetWorthSeries,
+  fetchBalanceSnapshots,
+  type NetWorthPeriod,
+} from '../lib/balanceSnapshots.js';
+import { buildManualAccount, recordManualValue, validateManualAccount } from '../lib/manualAccounts.js';
+import { markItemHealthy } from '../lib/itemSync.js';
+import { countItemData, unlinkItem, UNLINK_MODES, type UnlinkMode } from '../lib/itemUnlink.js';
+import { buildDataArchive, collectUserData, DATA_EXPORT_FORMATS, type DataExportFormat } from '../lib/dataExport.js';
 
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments.production,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID || '',
+      'PLAID-SECRET': process.env.PLAID_SECRET || '',
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
+
+const NET_WORTH_PERIODS: NetWorthPeriod[] = ['1M', '3M', '6M', '1Y', 'ALL'];
+
+/**
+ * List accounts, delete the user's account, or work with balance history
+ * GET ?include_archived=true also lists accounts kept from unlinked institutions
+ * GET ?action=history&period=6M returns the net worth series for the period
+ * POST ?action=backfill rebuilds past balances from transactions
+ * POST/PATCH/DELETE ?action=manual adds, updates or removes a manually tracked account
+ * GET ?action=value-history&account_id= lists the values logged for an account
+ * GET ?action=export&format=zip|json downloads everything stored for the user
+ * POST ?action=reconnected&item_id= clears an institution's error after the user signs in again
+ * GET ?action=unlink&item_id= counts what unlinking an institution would affect
+ * DELETE ?action=unlink&item_id=&mode=archive|delete unlinks one institution
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'GET' && req.method !== 'DELETE') {
+  const action = typeof req.query.action === 'string' ? req.query.action : undefined;
+  const isManualRequest = action === 'manual' && ['POST', 'PATCH', 'DELETE'].includes(req.method || '');
+  const isUnlinkRequest = action === 'unlink' && ['GET', 'DELETE'].includes(req.method || '');
+
+  const isPostAction = req.method === 'POST' && (action === 'backfill' || action === 'reconnected');
+
+  if (req.method !== 'GET' && req.method !== 'DELETE' && !isPostAction && !isManualRequest) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
@@ -20,8 +65,144 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
+    // Handle ?action=manual - Manually tracked accounts (checked first so DELETE never reaches account deletion)
+    if (isManualRequest) {
+      return handleManualAccount(req, res, supabase, user.id);
+    }
+
+    // Handle ?action=unlink - Remove one institution (also checked before account deletion)
+    if (isUnlinkRequest) {
+      return handleUnlink(req, res, supabase, user.id);
+    }
+
+    // Handle GET ?action=value-history - Values logged for one account
+    if (req.method === 'GET' && action === 'value-history') {
+      const accountId = typeof req.query.account_id === 'string' ? req.query.account_id : undefined;
+      if (!accountId) {
+        return res.status(400).json({ error: 'account_id is required' });
+      }
+
+      const { data: history, error: historyError } = await supabase
+        .from('account_balance_snapshots')
+        .select('snapshot_date, balance_current, source, note')
+        .eq('user_id', user.id)
+        .eq('account_id', accountId)
+        .order('snapshot_date', { ascending: false })
+        .limit(500);
+
+      if (historyError) {
+        console.error('Error fetching value history:', historyError);
+        return res.status(500).json({ error: 'Failed to fetch value history' });
+      }
+
+      return res.json({ history: history || [] });
+    }
+
+    // Handle POST ?action=reconnected - The user finished Link in update mode
+    if (req.method === 'POST' && action === 'reconnected') {
+      const itemId = typeof req.query.item_id === 'string' ? req.query.item_id : undefined;
+      if (!itemId) {
+        return res.status(400).json({ error: 'item_id is required' });
+      }
+
+      const { data: item } = await supabase
+        .from('plaid_items')
+        .select('id')
+        .eq('id', itemId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!item) {
+        return res.status(404).json({ error: 'Institution not found' });
+      }
+
+      try {
+        await markItemHealthy(supabase, item.id);
+      } catch (error) {
+        console.error('Error updating institution status:', error);
+        return res.status(500).json({ error: 'Failed to update institution status' });
+      }
+
+      return res.json({ success: true });
+    }
+
+    // Handle GET ?action=export - Download all of the user's data
+    if (req.method === 'GET' && action === 'export') {
+      const format = (typeof req.query.format === 'string' ? req.query.format : 'zip') as DataExportFormat;
+      if (!DATA_EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${DATA_EXPORT_FORMATS.join(', ')}` });
+      }
+
+      let data: Awaited<ReturnType<typeof collectUserData>>;
+      let archive: Buffer;
+      try {
+        data = await collectUserData(supabase, user);
+        archive = buildDataArchive(data, format);
+      } catch (exportError) {
+        console.error('❌ Error exporting user data:', exportError);
+        return res.status(500).json({ error: 'Failed to export data' });
+      }
+      console.log(`📦 Exported all data for ${user.email} as ${format.toUpperCase()} (${archive.length} bytes)`);
+
+      res.setHeader('Content-Type', format === 'zip' ? 'application/zip' : 'application/json; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="rocket-bucks-export-${data.exported_at.split('T')[0]}.${format}"`
+      );
+      return res.status(200).send(archive);
+    }
+
+    // Handle POST ?action=backfill - Reconstruct balance history from transactions
+    if (req.method === 'POST') {
+      const snapshotCount = await backfillBalanceSnapshots(supabase, user.id);
+      console.log(`📈 Backfilled ${snapshotCount} balance snapshots for ${user.email}`);
+      return res.json({ success: true, snapshots: snapshotCount });
+    }
+
+    // Handle GET ?action=history - Net worth over time from balance snapshots
+    if (req.method === 'GET' && action === 'history') {
+      const period = NET_WORTH_PERIODS.includes(req.query.period as NetWorthPeriod)
+        ? (req.query.period as NetWorthPeriod)
+        : '6M';
+
+      const { data: accounts, error: accountsError } = await supabase
+        .from('accounts')
+        .select('id, type')
+        .eq('user_id', user.id)
+        .is('archived_at', null);
+
+      if (accountsError) {
+        console.error('Error fetching accounts for history:', accountsError);
+        return res.status(500).json({ error: 'Failed to fetch net worth history' });
+      }
+
+      // Earlier snapshots are included so accounts without activity in the period keep their balance
+      let { data: snapshots, error: snapshotsError } = await fetchBalanceSnapshots(supabase, user.id);
+
+      // Accounts linked before snapshots existed get their history reconstructed on first view
+      if (!snapshotsError && snapshots.length === 0 && (accounts || []).length > 0) {
+        await backfillBalanceSnapshots(supabase, user.id);
+        ({ data: snapshots, error: snapshotsError } = await fetchBalanceSnapshots(supabase, user.id));
+      }
+
+      if (snapshotsError) {
+        console.error('Error fetching balance snapshots:', snapshotsError);
+        return res.status(500).json({ error: 'Failed to fetch net worth history' });
+      }
+
+      return res.json({
+        period,
+        points: buildNetWorthSeries(accounts || [], snapshots, period),
+      });
+    }
+
     // Handle DELETE - Delete entire user account and all data
+    // Only a bare DELETE does this; an unknown action must never fall through to it
     if (req.method === 'DELETE') {
+      if (action) {
+        return res.status(400).json({ error: `Unknown action: ${action}` });
+      }
+
       console.log(`🗑️  DELETING ENTIRE USER ACCOUNT: ${user.email} (${user.id})`);
 
       // Get counts for reporting
@@ -41,7 +222,43 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         .eq('user_id', user.id);
 
       // Delete in order (due to foreign key constraints):
-      // 1. Delete transactions
+      // 1. Delete transaction splits
+      const { error: splitsError } = await supabase
+        .from('transaction_splits')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (splitsError) {
+        console.error('Error deleting transaction splits:', splitsError);
+      } else {
+        console.log(`✅ Deleted transaction splits`);
+      }
+
+      // 2. Delete transfer matches
+      const { error: transferMatchesError } = await supabase
+        .from('transfer_matches')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (transferMatchesError) {
+        console.error('Error deleting transfer matches:', transferMatchesError);
+      } else {
+        console.log(`✅ Deleted transfer matches`);
+      }
+
+      // 3. Delete recurring amount changes
+      const { error: amountChangesError } = await supabase
+        .from('recurring_amount_changes')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (amountChangesError) {
+        console.error('Error deleting recurring amount changes:', amountChangesError);
+      } else {
+        console.log(`✅ Deleted recurring amount changes`);
+      }
+
+      // 4. Delete transactions
       const { error: txError } = await supabase
         .from('transactions')
         .delete()
@@ -53,7 +270,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`✅ Deleted ${transactionsCount || 0} transactions`);
       }
 
-      // 2. Delete recurring transactions
+      // 5. Delete recurring transactions
       const { error: recurringError } = await supabase
         .from('recurring_transactions')
         .delete()
@@ -65,7 +282,79 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`✅ Deleted recurring transactions`);
       }
 
-      // 3. Delete accounts
+      // 6. Delete budgets
+      const { error: budgetsError } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (budgetsError) {
+        console.error('Error deleting budgets:', budgetsError);
+      } else {
+        console.log(`✅ Deleted budgets`);
+      }
+
+      // 7. Delete categorization rules
+      const { error: rulesError } = await supabase
+        .from('categorization_rules')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (rulesError) {
+        console.error('Error deleting categorization rules:', rulesError);
+      } else {
+        console.log(`✅ Deleted categorization rules`);
+      }
+
+      // 8. Delete merchant category memory
+      const { error: memoryError } = await supabase
+        .from('merchant_category_memory')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (memoryError) {
+        console.error('Error deleting merchant category memory:', memoryError);
+      } else {
+        console.log(`✅ Deleted merchant category memory`);
+      }
+
+      // 9. Delete balance snapshots
+      const { error: snapshotsError } = await supabase
+        .from('account_balance_snapshots')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (snapshotsError) {
+        console.error('Error deleting balance snapshots:', snapshotsError);
+      } else {
+        console.log(`✅ Deleted balance snapshots`);
+      }
+
+      // 10. Delete AI chat conversations (messages cascade)
+      const { error: chatError } = await supabase
+        .from('chat_conversations')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (chatError) {
+        console.error('Error deleting chat conversations:', chatError);
+      } else {
+        console.log(`✅ Deleted chat conversations`);
+      }
+
+      // 11. Delete the rest of the AI context audit (entries from threads went with step 10)
+      const { error: auditError } = await supabase
+        .from('ai_context_audit')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (auditError) {
+        console.error('Error deleting AI context audit:', auditError);
+      } else {
+        console.log(`✅ Deleted AI context audit`);
+      }
+
+      // 12. Delete accounts
       const { error: accountsError } = await supabase
         .from('accounts')
         .delete()
@@ -77,7 +366,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`✅ Deleted ${accountsCount || 0} accounts`);
       }
 
-      // 4. Delete Plaid items
+      // 13. Delete Plaid items
       const { error: itemsError } = await supabase
         .from('plaid_items')
         .delete()
@@ -89,7 +378,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`✅ Deleted ${plaidItemsCount || 0} Plaid items`);
       }
 
-      // 5. Delete the user's auth account from Supabase
+      // 14. Delete the user's auth account from Supabase
       const { error: deleteUserError } = await supabase.auth.admin.deleteUser(user.id);
 
       if (deleteUserError) {
@@ -116,21 +405,210 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // Handle GET - List accounts
-    const { data: accounts, error: accountsError } = await supabase
+    let accountsQuery = supabase
       .from('accounts')
       .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+      .eq('user_id', user.id);
+
+    // Archived accounts are history only; they stay out of balances unless asked for
+    if (req.query.include_archived !== 'true') {
+      accountsQuery = accountsQuery.is('archived_at', null);
+    }
+
+    const { data: accounts, error: accountsError } = await accountsQuery.order('created_at', { ascending: false });
 
     if (accountsError) {
       console.error('Error fetching accounts:', accountsError);
       return res.status(500).json({ error: 'Failed to fetch accounts' });
     }
 
-    res.json({ accounts: accounts || [] });
+    // Connection health per institution; never send access tokens or cursors to the browser
+    const { data: items, error: itemsError } = await supabase
+      .from('plaid_items')
+      .select('id, institution_name, status, error_code, error_message, consent_expires_at, last_synced_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (itemsError) {
+      console.error('Error fetching institutions:', itemsError);
+      return res.status(500).json({ error: 'Failed to fetch accounts' });
+    }
+
+    res.json({ accounts: accounts || [], items: items || [] });
   } catch (error: any) {
     console.error('Error with accounts:', error);
     res.status(500).json({ error: error.message || 'Failed to process request' });
   }
 }
 
+/**
+ * Add (POST), update (PATCH) or remove (DELETE) a manually tracked account.
+ * A balance in the body is logged as a value entry for `as_of` (default today).
+ */
+async function handleManualAccount(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  try {
+    const body = req.body || {};
+
+    if (req.method === 'POST') {
+      const validationError = validateManualAccount(body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data: account, error: insertError } = await supabase
+        .from('accounts')
+        .insert(buildManualAccount(userId, body))
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error creating manual account:', insertError);
+        return res.status(500).json({ error: 'Failed to create account' });
+      }
+
+      await recordManualValue(supabase, userId, account.id, Number(body.balance) || 0, {
+        asOf: body.as_of,
+        note: body.note,
+      });
+
+      console.log(`🏠 Added manual account ${account.name} (${account.type})`);
+      return res.status(201).json({ account });
+    }
+
+    const accountId = typeof req.query.account_id === 'string' ? req.query.account_id : undefined;
+    if (!accountId) {
+      return res.status(400).json({ error: 'account_id is required' });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('accounts')
+      .select('id, name, plaid_item_id, archived_at')
+      .eq('id', accountId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching account:', fetchError);
+      return res.status(500).json({ error: 'Failed to update account' });
+    }
+    if (!existing) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    // Plaid keeps linked balances current; they are removed by unlinking the institution
+    if (existing.plaid_item_id) {
+      return res.status(400).json({ error: 'Only manual accounts can be changed here' });
+    }
+    // Archived accounts keep an unlinked institution's history; they can be deleted but not changed
+    if (existing.archived_at && req.method !== 'DELETE') {
+      return res.status(400).json({ error: 'Archived accounts are read-only' });
+    }
+
+    if (req.method === 'DELETE') {
+      // Transactions and value history go with the account (ON DELETE CASCADE)
+      const { error: deleteError } = await supabase
+        .from('accounts')
+        .delete()
+        .eq('id', accountId)
+        .eq('user_id', userId);
+
+      if (deleteError) {
+        console.error('Error deleting manual account:', deleteError);
+        return res.status(500).json({ error: 'Failed to delete account' });
+      }
+
+      console.log(`🗑️  Deleted manual account ${existing.name}`);
+      return res.json({ success: true });
+    }
+
+    // PATCH
+    const validationError = validateManualAccount(body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const updates: Record<string, unknown> = {};
+    ['name', 'type', 'subtype', 'institution_name'].forEach((field) => {
+      if (body[field] !== undefined) {
+        updates[field] = typeof body[field] === 'string' ? body[field].trim() || null : body[field];
+      }
+    });
+
+    if (Object.keys(updates).length > 0) {
+      const { error: updateError } = await supabase
+        .from('accounts')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', accountId)
+        .eq('user_id', userId);
+
+      if (updateError) {
+        console.error('Error updating manual account:', updateError);
+        return res.status(500).json({ error: 'Failed to update account' });
+      }
+    }
+
+    if (body.balance !== undefined && body.balance !== null) {
+      await recordManualValue(supabase, userId, accountId, Number(body.balance), {
+        asOf: body.as_of,
+        note: body.note,
+      });
+    }
+
+    const { data: account } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('id', accountId)
+      .single();
+
+    return res.json({ account });
+  } catch (error) {
+    console.error('❌ Error with manual account:', error);
+    res.status(500).json({ error: 'Failed to save account' });
+  }
+}
+
+/**
+ * Preview (GET) or carry out (DELETE) unlinking one institution. DELETE takes
+ * mode=archive to keep its accounts and transactions as read-only history, or
+ * mode=delete to remove them.
+ */
+async function handleUnlink(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  try {
+    const itemId = typeof req.query.item_id === 'string' ? req.query.item_id : undefined;
+    if (!itemId) {
+      return res.status(400).json({ error: 'item_id is required' });
+    }
+
+    const { data: item, error: itemError } = await supabase
+      .from('plaid_items')
+      .select('*')
+      .eq('id', itemId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (itemError) {
+      console.error('Error fetching institution:', itemError);
+      return res.status(500).json({ error: 'Failed to unlink institution' });
+    }
+    if (!item) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+
+    if (req.method === 'GET') {
+      const counts = await countItemData(supabase, item.id, userId);
+      return res.json({ institution_name: item.institution_name, ...counts });
+    }
+
+    const mode = req.query.mode as UnlinkMode;
+    if (!UNLINK_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${UNLINK_MODES.join(', ')}` });
+    }
+
+    const counts = await unlinkItem(supabase, plaidClient, item, userId, mode);
+    console.log(`🔌 Unlinked ${item.institution_name} (${mode}): ${counts.accounts} accounts, ${counts.transactions} transactions`);
+
+    return res.json({ success: true, mode, institution_name: item.institution_name, ...counts });
+  } catch (error) {
+    console.error('❌ Error unlinking institution:', error);
+    return res.status(500).json({ error: 'Failed to unlink institution' });
+  }
+}
@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createSupabaseClient } from '../../lib/supabase.js';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// An audit row with the title of the thread it belongs to
+type AuditRow = Record<string, unknown> & { chat_conversations: { title: string } | null };
+
+/**
+ * What the AI advisor sent to its model, one entry per question, newest first
+ * GET - ?conversation_id= limits it to one thread, ?limit= up to 100
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const supabase = createSupabaseClient(token);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const parsedLimit = Math.floor(Number(req.query.limit));
+  const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? Math.min(parsedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+  try {
+    let query = supabase
+      .from('ai_context_audit')
+      .select<string, AuditRow>('id, conversation_id, message_id, privacy_level, provider, model, status, sent_messages, rounds, token_usage, created_at, chat_conversations ( title )')
+      .eq('user_id', user.id);
+
+    if (typeof req.query.conversation_id === 'string' && req.query.conversation_id) {
+      query = query.eq('conversation_id', req.query.conversation_id);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+    if (error) throw error;
+
+    const entries = (data || []).map(({ chat_conversations: conversation, ...entry }) => ({
+      ...entry,
+      conversation_title: conversation?.title ?? null,
+    }));
+    return res.json({ entries });
+  } catch (error) {
+    console.error('❌ Error fetching AI context audit:', error);
+    return res.status(500).json({ error: 'Failed to fetch AI context audit' });
+  }
+}
@@ -1,10 +1,58 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { createSupabaseClient } from '../../lib/supabase.js';
+import { formatDateKey, getInsights } from '../../lib/analytics.js';
+import { addUsage, createLlmProvider } from '../../lib/llmProviders.js';
+import { createContextAudit, loadRedactor, withRedaction } from '../../lib/aiPrivacy.js';
+import { ADVISOR_TOOLS, runAdvisorTool } from '../../lib/advisorTools.js';
+import {
+  appendMessages,
+  createConversation,
+  getConversation,
+  loadRecentMessages,
+  type ChatConversation,
+  type TokenUsage,
+} from '../../lib/chatConversations.js';
 
 const MAX_CHAT_HISTORY = 8;
+// Rounds of tool calls before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
+// A tool call as the model requests it, in the OpenAI format every provider returns
+interface ToolCallRequest {
+  id: string;
+  type?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatMessage {
+  role: string;
+  content: string | null;
+  tool_calls?: ToolCallRequest[];
+  tool_call_id?: string;
+}
+
+// A provider's reply to one round
+interface Completion {
+  message: ChatMessage;
+  usage?: TokenUsage | null;
+}
+
+// The parts of the privacy redactor from lib/aiPrivacy that tool calls go through
+interface ToolRedactor {
+  allowsTool(name: string, args: unknown): boolean;
+  redactToolResult(result: unknown): unknown;
+}
+
+// The calls the handler makes on a provider from lib/llmProviders
+interface CompletionProvider {
+  complete(request: object): Promise<Completion>;
+  stream(request: object, options: { onToken: (text: string) => void; signal: AbortSignal }): Promise<Completion>;
+}
 
 // Helper constants
-const liabilityAccountTypes = new Set(['credit', 'loan', 'mortgage', 'liability', 'other liability']);
+const liabilityAccountTypes = new Set(['credit', 'loan', 'mortgage', 'liability', 'other liability', 'other_debt']);
 
 // Helper functions
 function normalizeAmount(value: any): number {
@@ -73,28 +121,29 @@ async function buildFinancialContext(supabase: any, userId: string) {
   try {
     const thirtyDaysAgo = new Date(now);
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const sixtyDaysAgo = new Date(now);
-    sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
 
-    const [accountsResult, recurringResult, transactionsResult] = await Promise.all([
+    const [accountsResult, recurringResult, periodInsights] = await Promise.all([
       supabase
         .from('accounts')
-        .select('name, institution_name, type, subtype, balance_current, balance_available')
-        .eq('user_id', userId),
+        .select('name, institution_name, type, subtype, balance_current, balance_available, plaid_item_id')
+        .eq('user_id', userId)
+        .is('archived_at', null),
       supabase
         .from('recurring_transactions')
         .select('name, merchant_name, expected_amount, frequency, next_due_date, transaction_type, is_subscription')
         .eq('user_id', userId)
+        .eq('not_recurring', false)
         .order('expected_amount', { ascending: false })
         .limit(20),
-      supabase
-        .from('transactions')
-        .select('amount, date, name, merchant_name, plaid_primary_category, user_category_name, transaction_type, is_transfer')
-        .eq('user_id', userId)
-        .gte('date', sixtyDaysAgo.toISOString().split('T')[0])
-        .lte('date', now.toISOString().split('T')[0])
-        .order('date', { ascending: false })
-        .limit(600),
+      // Same numbers as the Spending page: last 30 days compared with the 30 before
+      getInsights(supabase, userId, {
+        start_date: formatDateKey(thirtyDaysAgo),
+        end_date: formatDateKey(now),
+        compare: true,
+      }).catch((error) => {
+        console.error('AI context: failed to load insights', error);
+        return null;
+      }),
     ]);
 
     if (accountsResult.error) {
@@ -103,13 +152,9 @@ async function buildFinancialContext(supabase: any, userId: string) {
     if (recurringResult.error) {
       console.error('AI context: failed to load recurring transactions', recurringResult.error);
     }
-    if (transactionsResult.error) {
-      console.error('AI context: failed to load transactions', transactionsResult.error);
-    }
 
     const accounts = accountsResult.data || [];
     const recurring = recurringResult.data || [];
-    const transactions = transactionsResult.data || [];
 
     accounts.forEach((account: any) => {
       const accountType = (account.type || '').toLowerCase();
@@ -139,109 +184,32 @@ async function buildFinancialContext(supabase: any, userId: string) {
         name: account.name,
         institution: account.institution_name,
         type: account.type,
+        // Houses, cars and other manual accounts carry the user's own estimate
+        manual: !account.plaid_item_id,
         balance: normalizeAmount(account.balance_current ?? account.balance_available ?? 0),
       }))
       .sort((a: any, b: any) => b.balance - a.balance)
       .slice(0, 5);
 
-    // Helper function to get category name (same logic as Spending page)
-    const getCategoryName = (tx: any) => {
-      return tx.user_category_name ||
-             tx.plaid_primary_category ||
-             'Uncategorized';
-    };
-
-    // Filter expenses: exclude transfers and income-categorized transactions
-    const expenses = transactions.filter((tx: any) => {
-      const categoryName = getCategoryName(tx);
-      const txName = (tx.name || '').toLowerCase();
-      const merchantName = (tx.merchant_name || '').toLowerCase();
-      const fullName = `${txName} ${merchantName}`;
-      
-      // Check if this looks like a credit card payment or transfer
-      const isCreditCardPayment = 
-        /payment.*(american express|amex|chase|discover|capital one|citibank|card)/i.test(fullName) ||
-        /(american express|amex|chase|discover|capital one|citibank).*payment/i.test(fullName) ||
-        /ach.*(payment|transfer)/i.test(fullName) ||
-        /payment.*thank you/i.test(fullName) ||
-        /online transfer/i.test(fullName) ||
-        /zelle|venmo|paypal|cash app/i.test(fullName);
-      
-      return tx.transaction_type === 'expense' && 
-             normalizeAmount(tx.amount) > 0 && 
-             tx.date &&
-             !tx.is_transfer &&
-             !isCreditCardPayment &&
-             categoryName !== 'Income' && 
-             categoryName !== 'Transfer';
-    });
-
-    // Filter income: only count transactions categorized as "Income"
-    const incomes = transactions.filter((tx: any) => {
-      const categoryName = getCategoryName(tx);
-      return categoryName === 'Income' && tx.date;
-    });
-
-    const expensesLast30 = expenses.filter((tx: any) => {
-      const txDate = tx.date ? new Date(tx.date) : null;
-      return txDate && txDate >= thirtyDaysAgo;
-    });
-    const expensesPrev30 = expenses.filter((tx: any) => {
-      const txDate = tx.date ? new Date(tx.date) : null;
-      return txDate && txDate < thirtyDaysAgo && txDate >= sixtyDaysAgo;
-    });
-    const incomesLast30 = incomes.filter((tx: any) => {
-      const txDate = tx.date ? new Date(tx.date) : null;
-      return txDate && txDate >= thirtyDaysAgo;
-    });
-
-    context.spending.totalSpending30 = expensesLast30.reduce(
-      (sum: number, tx: any) => sum + normalizeAmount(tx.amount),
-      0
-    );
-    context.spending.prevSpending30 = expensesPrev30.reduce(
-      (sum: number, tx: any) => sum + normalizeAmount(tx.amount),
-      0
-    );
-    context.spending.spendingChange =
-      context.spending.totalSpending30 - context.spending.prevSpending30;
-    context.spending.averageDaily =
-      context.spending.totalSpending30 > 0 ? context.spending.totalSpending30 / 30 : 0;
-    context.spending.totalIncome30 = incomesLast30.reduce(
-      (sum: number, tx: any) => sum + Math.abs(normalizeAmount(tx.amount)),
-      0
-    );
-    context.spending.netCashFlow30 =
-      context.spending.totalIncome30 - context.spending.totalSpending30;
-
-    const categoryMap: Record<string, number> = {};
-    expensesLast30.forEach((tx: any) => {
-      const category = getCategoryName(tx) || 'Other';
-      const amount = normalizeAmount(tx.amount);
-      categoryMap[category] = (categoryMap[category] || 0) + amount;
-    });
-    context.spending.topCategories = Object.entries(categoryMap)
-      .map(([name, amount]) => ({
+    if (periodInsights) {
+      context.spending.totalSpending30 = periodInsights.spending;
+      context.spending.prevSpending30 = periodInsights.previous?.spending || 0;
+      context.spending.spendingChange =
+        context.spending.totalSpending30 - context.spending.prevSpending30;
+      context.spending.averageDaily =
+        context.spending.totalSpending30 > 0 ? context.spending.totalSpending30 / 30 : 0;
+      context.spending.totalIncome30 = periodInsights.income;
+      context.spending.netCashFlow30 = periodInsights.net_cash_flow;
+      context.spending.topCategories = periodInsights.categories
+        .slice(0, 4)
+        .map(({ name, amount, percent }) => ({ name, amount, percent }));
+      context.spending.largePurchases = periodInsights.largest_purchases.map(({ name, amount, date, category }) => ({
         name,
         amount,
-        percent:
-          context.spending.totalSpending30 > 0
-            ? Math.round((amount / context.spending.totalSpending30) * 100)
-            : 0,
-      }))
-      .sort((a, b) => b.amount - a.amount)
-      .slice(0, 4);
-
-    context.spending.largePurchases = expensesLast30
-      .slice()
-      .sort((a: any, b: any) => normalizeAmount(b.amount) - normalizeAmount(a.amount))
-      .slice(0, 3)
-      .map((tx: any) => ({
-        name: tx.merchant_name || tx.name || 'Transaction',
-        amount: normalizeAmount(tx.amount),
-        date: tx.date,
-        category: tx.plaid_primary_category || 'General',
+        date,
+        category,
       }));
+    }
 
     const expenseRecurring = recurring.filter(
       (item: any) => item.transaction_type === 'expense'
@@ -374,7 +342,7 @@ function summarizeContextForPrompt(context: any): string {
     const accountsText = context.accounts.topAccounts
       .map(
         (account: any) =>
-          `${account.name || account.institution || 'Account'} (${account.type || 'account'}): ${formatCurrency(
+          `${account.name || account.institution || 'Account'} (${(account.type || 'account').replace(/_/g, ' ')}${account.manual ? ', tracked manually' : ''}): ${formatCurrency(
             account.balance
           )}`
       )
@@ -389,32 +357,39 @@ function summarizeContextForPrompt(context: any): string {
   return lines.join('\n');
 }
 
-function extractMessageText(completion: any): string {
-  if (!completion?.choices?.length) {
-    return '';
+async function runToolCall(supabase: SupabaseClient, userId: string, redactor: ToolRedactor, call: ToolCallRequest) {
+  const name = call?.function?.name || '';
+  const rawArguments = call?.function?.arguments;
+  let args: unknown = rawArguments;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    // Shown as sent; runAdvisorTool reports the bad JSON to the model
   }
 
-  const content = completion.choices[0]?.message?.content;
-  if (typeof content === 'string') {
-    return content;
+  let result: unknown;
+  try {
+    // The model may still ask for a tool the privacy setting withholds, e.g. from an older thread
+    result = redactor.allowsTool(name, args)
+      ? await runAdvisorTool(supabase, userId, name, rawArguments)
+      : { error: 'This query is not available at the user\'s AI privacy setting. Answer from totals instead.' };
+  } catch (error) {
+    console.error(`AI chat: tool ${name} failed`, error);
+    result = { error: 'The query failed. Try different arguments or answer without it.' };
   }
 
-  if (Array.isArray(content)) {
-    return content
-      .map((part) => {
-        if (typeof part === 'string') return part;
-        if (part && typeof part.text === 'string') return part.text;
-        return '';
-      })
-      .join('')
-      .trim();
+  // The user sees the real result; the model gets the redacted one
+  let content = JSON.stringify(redactor.redactToolResult(result));
+  if (content.length > MAX_TOOL_RESULT_LENGTH) {
+    content = `${content.slice(0, MAX_TOOL_RESULT_LENGTH)}... (truncated)`;
   }
 
-  if (content && typeof content.text === 'string') {
-    return content.text;
-  }
+  return { name, arguments: args, result, content };
+}
 
-  return '';
+// One Server-Sent Event; the page reads these with fetch since EventSource can't POST
+function writeEvent(res: VercelResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -423,13 +398,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const openRouterApiKey = process.env.OPENROUTER_API_KEY || '';
-    const openRouterModel = process.env.OPENROUTER_MODEL || 'anthropic/claude-3.5-sonnet';
-    const openRouterReferer =
-      process.env.OPENROUTER_APP_URL ||
-      (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'https://rocket-money-azure.vercel.app');
-
-    if (!openRouterApiKey) {
+    const advisor = createLlmProvider();
+    if (!advisor) {
       return res.status(503).json({ error: 'AI advisor is not configured.' });
     }
 
@@ -438,7 +408,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { message, conversation } = req.body || {};
+    const { message, conversation, conversation_id, stream } = req.body || {};
     if (!message || typeof message !== 'string' || !message.trim()) {
       return res.status(400).json({ error: 'Message is required' });
     }
@@ -456,11 +426,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     console.log(`AI chat: generating advice for user ${user.id}`);
 
-    const financialContext = await buildFinancialContext(supabase, user.id);
-    const contextSummary = summarizeContextForPrompt(financialContext);
+    const [financialContext, redactor] = await Promise.all([
+      buildFinancialContext(supabase, user.id),
+      loadRedactor(supabase, user.id),
+    ]);
+    const contextSummary = summarizeContextForPrompt(redactor.redactContext(financialContext));
+
+    // A saved thread supplies its own history; otherwise use what the client sent
+    let savedConversation: ChatConversation | null = null;
+    if (conversation_id) {
+      savedConversation = await getConversation(supabase, user.id, String(conversation_id));
+      if (!savedConversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+    }
+
+    const historySource = savedConversation
+      ? await loadRecentMessages(supabase, user.id, savedConversation.id, MAX_CHAT_HISTORY)
+      : conversation;
 
-    const normalizedHistory = Array.isArray(conversation)
-      ? conversation
+    const normalizedHistory = Array.isArray(historySource)
+      ? historySource
           .filter(
             (entry: any) =>
               entry &&
@@ -477,52 +463,156 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       : [];
 
     const systemPrompt =
-      'You are Rocket Bucks AI, a fiduciary-quality financial coach. Provide concise and actionable guidance covering budgets, savings, debt payoff, investing, and bill negotiation. Use Markdown formatting with short headings, numbered steps, and bullet lists when helpful. Reference exact numbers from the financial snapshot or chat history and acknowledge when information is unavailable. Encourage healthy financial habits and note that users should double-check details before acting.';
-
-    const payload = {
-      model: openRouterModel,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        {
-          role: 'system',
-          content: `Financial snapshot:\n${contextSummary}\nOnly rely on these values unless the user provides newer numbers.`,
-        },
-        ...normalizedHistory,
-        { role: 'user', content: trimmedMessage },
-      ],
-      temperature: 0.35,
-      max_tokens: 600,
-      top_p: 0.9,
-    };
+      'You are Rocket Bucks AI, a fiduciary-quality financial coach. Provide concise and actionable guidance covering budgets, savings, debt payoff, investing, and bill negotiation. Use Markdown formatting with short headings, numbered steps, and bullet lists when helpful. Reference exact numbers from the financial snapshot, tool results or chat history and acknowledge when information is unavailable. Encourage healthy financial habits and note that users should double-check details before acting.';
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openRouterApiKey}`,
-        'HTTP-Referer': openRouterReferer,
-        'X-Title': 'Rocket Bucks AI',
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'system',
+        content: `Today is ${formatDateKey(new Date())}.\nFinancial snapshot:\n${contextSummary}\nFor questions the snapshot does not cover (a specific merchant, month or comparison between periods), call the tools to look the numbers up rather than estimating. Transaction amounts are positive for money spent and negative for money received.`,
       },
-      body: JSON.stringify(payload),
+      ...normalizedHistory,
+      { role: 'user', content: trimmedMessage },
+    ];
+
+    // Streaming relays the answer as it is written: `token` events with text,
+    // a `tool_call` event per query run, then `done` with the usual JSON body
+    const streaming = stream === true;
+    const abortController = new AbortController();
+    const fail = (status: number, error: string) => {
+      if (!streaming) {
+        return res.status(status).json({ error });
+      }
+      writeEvent(res, 'error', { error });
+      return res.end();
+    };
+
+    if (streaming) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      // The browser closing the connection (the user pressed Stop) cancels the model request
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          abortController.abort();
+        }
+      });
+    }
+
+    const toolCalls: { name: string; arguments: unknown; result: unknown }[] = [];
+    let completion: Completion | null = null;
+    // Tokens across every round, as reported by the provider
+    let usage: TokenUsage | null = null;
+
+    // Every request goes out through the privacy layer, which logs what it sent before sending it
+    const audit = createContextAudit(supabase, user.id, {
+      conversation_id: savedConversation?.id ?? null,
+      privacy_level: redactor.level,
+      provider: advisor.name,
+      model: advisor.model,
     });
+    const redactedAdvisor: CompletionProvider = withRedaction(advisor, redactor, { onSend: audit.record });
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const request = {
+        messages,
+        // The last round offers no tools so the model has to answer
+        tools: advisor.supportsTools && round < MAX_TOOL_ROUNDS ? ADVISOR_TOOLS : undefined,
+        temperature: 0.35,
+        max_tokens: 600,
+        top_p: 0.9,
+      };
+
+      try {
+        completion = streaming
+          ? await redactedAdvisor.stream(request, {
+              onToken: (text: string) => writeEvent(res, 'token', { text }),
+              signal: abortController.signal,
+            })
+          : await redactedAdvisor.complete(request);
+        usage = addUsage(usage, completion.usage);
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log(`AI chat: user ${user.id} stopped the response`);
+          await audit.finish({ status: 'stopped', token_usage: usage });
+          return;
+        }
+        console.error('AI chat: model request failed', error);
+        await audit.finish({ status: 'failed', token_usage: usage });
+        return fail(502, 'AI advisor is temporarily unavailable.');
+      }
+
+      // Nothing is saved for a stopped answer
+      if (abortController.signal.aborted) {
+        console.log(`AI chat: user ${user.id} stopped the response`);
+        await audit.finish({ status: 'stopped', token_usage: usage });
+        return;
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter error:', errorText);
-      return res.status(502).json({ error: 'AI advisor is temporarily unavailable.' });
+      const assistantMessage = completion.message;
+      const requestedCalls = Array.isArray(assistantMessage?.tool_calls) ? assistantMessage.tool_calls : [];
+      if (requestedCalls.length === 0 || round === MAX_TOOL_ROUNDS) {
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: assistantMessage.content || null, tool_calls: requestedCalls });
+      for (const call of requestedCalls) {
+        const { content, ...toolCall } = await runToolCall(supabase, user.id, redactor, call);
+        console.log(`AI chat: ran ${toolCall.name} for user ${user.id}`);
+        toolCalls.push(toolCall);
+        messages.push({ role: 'tool', tool_call_id: call.id, content });
+        if (streaming) {
+          writeEvent(res, 'tool_call', toolCall);
+        }
+      }
     }
 
-    const completion = await response.json();
-    const aiMessage = extractMessageText(completion).trim();
+    const aiMessage = (completion?.message?.content || '').trim();
+
+    if (usage) {
+      console.log(
+        `AI chat: ${advisor.name}/${advisor.model} used ${usage.total_tokens} tokens (${usage.prompt_tokens} prompt, ${usage.completion_tokens} completion) for user ${user.id}`
+      );
+    }
 
     if (!aiMessage) {
-      console.error('OpenRouter returned an empty message payload:', completion);
-      return res.status(502).json({ error: 'AI advisor returned an empty response.' });
+      console.error('AI advisor returned an empty message payload:', completion);
+      await audit.finish({ status: 'failed', token_usage: usage });
+      return fail(502, 'AI advisor returned an empty response.');
+    }
+
+    // A failure to save shouldn't cost the user the answer they waited for
+    let answerId: string | null = null;
+    try {
+      if (!savedConversation) {
+        savedConversation = await createConversation(supabase, user.id, trimmedMessage);
+      }
+      const saved = await appendMessages(supabase, user.id, savedConversation.id, [
+        { role: 'user', content: trimmedMessage },
+        { role: 'assistant', content: aiMessage, tool_calls: toolCalls, token_usage: usage },
+      ]);
+      answerId = saved.find((row) => row.role === 'assistant')?.id ?? null;
+    } catch (saveError) {
+      console.error('AI chat: failed to save conversation', saveError);
     }
 
-    res.json({
+    await audit.finish({
+      status: 'answered',
+      conversation_id: savedConversation?.id ?? null,
+      message_id: answerId,
+      token_usage: usage,
+    });
+
+    const result = {
       message: aiMessage,
-      model: openRouterModel,
+      conversation: savedConversation,
+      model: advisor.model,
+      tool_calls: toolCalls,
+      usage,
+      privacy_level: redactor.level,
       context: {
         netWorth: financialContext.totals.netWorth,
         totalAssets: financialContext.totals.totalAssets,
@@ -534,9 +624,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         generatedAt: financialContext.generatedAt,
       },
       context_summary: contextSummary,
-    });
+    };
+
+    if (streaming) {
+      writeEvent(res, 'done', result);
+      return res.end();
+    }
+    res.json(result);
   } catch (error: any) {
     console.error('Error generating AI advice:', error);
+    if (res.headersSent) {
+      writeEvent(res, 'error', { error: 'Failed to generate AI advice' });
+      return res.end();
+    }
     res.status(500).json({ error: 'Failed to generate AI advice' });
   }
 }
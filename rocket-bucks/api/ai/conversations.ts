@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createSupabaseClient } from '../../lib/supabase.js';
+import { getConversation, MAX_TITLE_LENGTH, searchConversations } from '../../lib/chatConversations.js';
+
+/**
+ * Saved AI advisor conversations
+ * GET - list threads, most recent first (?search= matches titles and message text)
+ * GET ?id= - one thread with all of its messages
+ * PATCH ?id= - rename a thread ({ title })
+ * DELETE ?id= - delete a thread and its messages
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const supabase = createSupabaseClient(token);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  if (req.method === 'GET' && !id) {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+
+    try {
+      if (search) {
+        return res.json({ conversations: await searchConversations(supabase, user.id, search) });
+      }
+
+      const { data, error } = await supabase
+        .from('chat_conversations')
+        .select('id, title, created_at, updated_at')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return res.json({ conversations: data || [] });
+    } catch (error) {
+      console.error('❌ Error fetching conversations:', error);
+      return res.status(500).json({ error: 'Failed to fetch conversations' });
+    }
+  }
+
+  if (!id) {
+    return res.status(400).json({ error: 'id is required' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const conversation = await getConversation(supabase, user.id, id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const { data: messages, error } = await supabase
+        .from('chat_messages')
+        .select('id, role, content, tool_calls, created_at')
+        .eq('conversation_id', id)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return res.json({ conversation, messages: messages || [] });
+    } catch (error) {
+      console.error('❌ Error fetching conversation:', error);
+      return res.status(500).json({ error: 'Failed to fetch conversation' });
+    }
+  }
+
+  if (req.method === 'PATCH') {
+    const title = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
+    if (!title) {
+      return res.status(400).json({ error: 'A title is required' });
+    }
+
+    const { data: conversation, error } = await supabase
+      .from('chat_conversations')
+      .update({ title: title.slice(0, MAX_TITLE_LENGTH) })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id, title, created_at, updated_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error renaming conversation:', error);
+      return res.status(500).json({ error: 'Failed to rename conversation' });
+    }
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    return res.json({ conversation });
+  }
+
+  if (req.method === 'DELETE') {
+    // Messages go with the conversation (ON DELETE CASCADE)
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('❌ Error deleting conversation:', error);
+      return res.status(500).json({ error: 'Failed to delete conversation' });
+    }
+
+    return res.json({ success: true });
+  }
+
+  res.status(405).json({ error: 'Method not allowed' });
+}
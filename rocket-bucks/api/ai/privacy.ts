@@ -0,0 +1,58 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createSupabaseClient } from '../../lib/supabase.js';
+import { getPrivacyLevel, isPrivacyLevel } from '../../lib/aiPrivacy.js';
+
+/**
+ * How much of the user's financial detail the AI advisor may share with its model
+ * GET - { privacy_level }
+ * PATCH - { privacy_level: 'full' | 'anonymized' | 'aggregates' }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const supabase = createSupabaseClient(token);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      return res.json({ privacy_level: await getPrivacyLevel(supabase, user.id) });
+    } catch (error) {
+      console.error('❌ Error fetching AI privacy setting:', error);
+      return res.status(500).json({ error: 'Failed to fetch AI privacy setting' });
+    }
+  }
+
+  if (req.method === 'PATCH') {
+    const level = req.body?.privacy_level;
+    if (!isPrivacyLevel(level)) {
+      return res.status(400).json({ error: 'privacy_level must be full, anonymized or aggregates' });
+    }
+
+    const { data: profile, error } = await supabase
+      .from('users')
+      .update({ ai_privacy_level: level, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+      .select('ai_privacy_level')
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Error updating AI privacy setting:', error);
+      return res.status(500).json({ error: 'Failed to update AI privacy setting' });
+    }
+    if (!profile) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    return res.json({ privacy_level: profile.ai_privacy_level });
+  }
+
+  res.status(405).json({ error: 'Method not allowed' });
+}
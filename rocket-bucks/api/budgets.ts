@@ -0,0 +1,181 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createSupabaseClient } from '../lib/supabase.js';
+import { calculateBudgetProgress, getMonthKey, getMonthRange, type Budget, type BudgetTransaction } from '../lib/budgets.js';
+import { loadAnalyticsTransactions } from '../lib/analytics.js';
+
+/**
+ * Get, create, update, or delete monthly budgets
+ * GET returns each budget with spent vs. limit for the requested month (?month=YYYY-MM)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const token = authHeader.replace('Bearer ', '');
+  const supabase = createSupabaseClient(token);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (req.method === 'GET') {
+    const { month } = req.query;
+    const monthKey = typeof month === 'string' && /^\d{4}-\d{2}$/.test(month)
+      ? month
+      : getMonthKey(new Date());
+
+    const { data: budgets, error } = await supabase
+      .from('budgets')
+      .select(`
+        *,
+        transaction_categories (
+          name,
+          icon,
+          color
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching budgets:', error);
+      return res.status(500).json({ error: 'Failed to fetch budgets' });
+    }
+
+    if (!budgets || budgets.length === 0) {
+      return res.json({ budgets: [], month: monthKey, totals: { limit: 0, available: 0, spent: 0, remaining: 0 } });
+    }
+
+    // Rollover budgets need every month since they started, others only the requested month
+    const { startDate: monthStart, endDate } = getMonthRange(monthKey);
+    const startDate = budgets
+      .filter((budget: Budget) => budget.rollover)
+      .reduce((earliest: string, budget: Budget) =>
+        (budget.start_month && budget.start_month < earliest ? budget.start_month : earliest), monthStart);
+
+    // Split transactions count toward each split's category
+    let budgetTransactions: BudgetTransaction[];
+    try {
+      budgetTransactions = await loadAnalyticsTransactions(supabase, user.id, startDate, endDate);
+    } catch (txError) {
+      console.error('Error fetching transactions for budgets:', txError);
+      return res.status(500).json({ error: 'Failed to calculate budgets' });
+    }
+
+    const budgetsWithProgress = budgets.map((budget: Budget) => ({
+      ...budget,
+      category_name: budget.user_category_name || budget.transaction_categories?.name || 'Uncategorized',
+      ...calculateBudgetProgress(budget, budgetTransactions, monthKey),
+    }));
+
+    const totals = budgetsWithProgress.reduce(
+      (sum, budget) => ({
+        limit: sum.limit + Number(budget.monthly_limit || 0),
+        available: sum.available + budget.available,
+        spent: sum.spent + budget.spent,
+        remaining: sum.remaining + budget.remaining,
+      }),
+      { limit: 0, available: 0, spent: 0, remaining: 0 }
+    );
+
+    res.json({ budgets: budgetsWithProgress, month: monthKey, totals });
+  } else if (req.method === 'POST') {
+    // Create a new budget
+    const { category_id, user_category_name, monthly_limit, rollover, start_month } = req.body;
+
+    if (!category_id && !user_category_name) {
+      return res.status(400).json({ error: 'category_id or user_category_name is required' });
+    }
+
+    if (monthly_limit === undefined || Number(monthly_limit) < 0 || Number.isNaN(Number(monthly_limit))) {
+      return res.status(400).json({ error: 'A non-negative monthly_limit is required' });
+    }
+
+    const { data: budget, error } = await supabase
+      .from('budgets')
+      .insert({
+        user_id: user.id,
+        category_id: category_id || null,
+        user_category_name: category_id ? null : user_category_name,
+        monthly_limit: Number(monthly_limit),
+        rollover: rollover || false,
+        start_month: start_month || getMonthRange(getMonthKey(new Date())).startDate,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating budget:', error);
+      return res.status(500).json({ error: 'Failed to create budget' });
+    }
+
+    res.json({ budget });
+  } else if (req.method === 'PATCH' || req.method === 'PUT') {
+    // Update a budget
+    const { budget_id } = req.query;
+    const { monthly_limit, rollover, category_id, user_category_name } = req.body;
+
+    if (!budget_id) {
+      return res.status(400).json({ error: 'budget_id is required' });
+    }
+
+    const updates: Partial<Budget> = {};
+    if (monthly_limit !== undefined) {
+      if (Number(monthly_limit) < 0 || Number.isNaN(Number(monthly_limit))) {
+        return res.status(400).json({ error: 'monthly_limit must be a non-negative number' });
+      }
+      updates.monthly_limit = Number(monthly_limit);
+    }
+    if (rollover !== undefined) updates.rollover = rollover;
+    if (category_id !== undefined) {
+      updates.category_id = category_id;
+      updates.user_category_name = null;
+    } else if (user_category_name !== undefined) {
+      updates.user_category_name = user_category_name;
+      updates.category_id = null;
+    }
+
+    const { data: budget, error } = await supabase
+      .from('budgets')
+      .update(updates)
+      .eq('id', budget_id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating budget:', error);
+      return res.status(500).json({ error: 'Failed to update budget' });
+    }
+
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    res.json({ budget });
+  } else if (req.method === 'DELETE') {
+    const { budget_id } = req.query;
+
+    if (!budget_id) {
+      return res.status(400).json({ error: 'budget_id is required' });
+    }
+
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', budget_id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting budget:', error);
+      return res.status(500).json({ error: 'Failed to delete budget' });
+    }
+
+    res.json({ success: true });
+  } else {
+    res.status(405).json({ error: 'Method not allowed' });
+  }
+}
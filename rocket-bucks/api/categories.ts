@@ -1,9 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createSupabaseClient } from '../lib/supabase.js';
+import { sortRules, validateRule, type CategorizationRule } from '../lib/categorizationRules.js';
+
+// Fields accepted when creating or updating a categorization rule
+const RULE_FIELDS = [
+  'name',
+  'priority',
+  'is_active',
+  'name_pattern',
+  'merchant_pattern',
+  'min_amount',
+  'max_amount',
+  'account_id',
+  'payment_channel',
+  'category_id',
+  'user_category_name',
+  'tags',
+  'notes',
+  'excluded_from_budget',
+  'is_transfer',
+];
 
 /**
  * Get all categories (system + user-defined)
  * Create/update user-defined categories
+ * Manage categorization rules with ?resource=rules
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const authHeader = req.headers.authorization;
@@ -19,6 +41,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 
+  if (req.query.resource === 'rules') {
+    return handleRules(req, res, supabase, user.id);
+  }
+
   if (req.method === 'GET') {
     // Get all categories (system + user's custom categories)
     const { data: categories, error } = await supabase
@@ -98,3 +124,107 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+
+// Pick rule fields from the request body, treating empty strings as unset
+function pickRuleFields(body: Record<string, unknown>): Partial<CategorizationRule> {
+  const fields: Record<string, unknown> = {};
+  RULE_FIELDS.forEach((field) => {
+    if (body[field] === undefined) return;
+    fields[field] = body[field] === '' ? null : body[field];
+  });
+  if (fields.min_amount !== undefined && fields.min_amount !== null) fields.min_amount = Number(fields.min_amount);
+  if (fields.max_amount !== undefined && fields.max_amount !== null) fields.max_amount = Number(fields.max_amount);
+  return fields as Partial<CategorizationRule>;
+}
+
+/**
+ * Get, create, update, or delete categorization rules
+ */
+async function handleRules(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  if (req.method === 'GET') {
+    const { data: rules, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching categorization rules:', error);
+      return res.status(500).json({ error: 'Failed to fetch rules' });
+    }
+
+    res.json({ rules: sortRules(rules || []) });
+  } else if (req.method === 'POST' || req.method === 'PATCH' || req.method === 'PUT') {
+    const { rule_id } = req.query;
+    const isUpdate = req.method !== 'POST';
+
+    if (isUpdate && !rule_id) {
+      return res.status(400).json({ error: 'rule_id is required' });
+    }
+
+    const fields = pickRuleFields(req.body || {});
+
+    // Rules store the category name too, since transactions are displayed by user_category_name
+    if (fields.category_id && !fields.user_category_name) {
+      const { data: category } = await supabase
+        .from('transaction_categories')
+        .select('name')
+        .eq('id', fields.category_id)
+        .single();
+      fields.user_category_name = category?.name || null;
+    }
+
+    let existing: Partial<CategorizationRule> = {};
+    if (isUpdate) {
+      const { data } = await supabase
+        .from('categorization_rules')
+        .select('*')
+        .eq('id', rule_id)
+        .eq('user_id', userId)
+        .single();
+
+      if (!data) {
+        return res.status(404).json({ error: 'Rule not found' });
+      }
+      existing = data;
+    }
+
+    const validationError = validateRule({ ...existing, ...fields });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const query = isUpdate
+      ? supabase.from('categorization_rules').update(fields).eq('id', rule_id).eq('user_id', userId)
+      : supabase.from('categorization_rules').insert({ ...fields, user_id: userId });
+
+    const { data: rule, error } = await query.select().single();
+
+    if (error) {
+      console.error(`Error ${isUpdate ? 'updating' : 'creating'} categorization rule:`, error);
+      return res.status(500).json({ error: `Failed to ${isUpdate ? 'update' : 'create'} rule` });
+    }
+
+    res.json({ rule });
+  } else if (req.method === 'DELETE') {
+    const { rule_id } = req.query;
+
+    if (!rule_id) {
+      return res.status(400).json({ error: 'rule_id is required' });
+    }
+
+    const { error } = await supabase
+      .from('categorization_rules')
+      .delete()
+      .eq('id', rule_id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting categorization rule:', error);
+      return res.status(500).json({ error: 'Failed to delete rule' });
+    }
+
+    res.json({ success: true });
+  } else {
+    res.status(405).json({ error: 'Method not allowed' });
+  }
+}
@@ -1,6 +1,7 @@
-import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
+import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode, type LinkTokenCreateRequest } from 'plaid';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createSupabaseClient } from '../lib/supabase.js';
+import { getItemAccessToken } from '../lib/itemSync.js';
 
 // Initialize Plaid client
 const configuration = new Configuration({
@@ -15,6 +16,15 @@ const configuration = new Configuration({
 
 const plaidClient = new PlaidApi(configuration);
 
+// Where Plaid should send transaction and item webhooks. Plaid can't reach
+// localhost, so local links go without one unless PLAID_WEBHOOK_URL is set.
+const getWebhookUrl = (req: VercelRequest) => {
+  if (process.env.PLAID_WEBHOOK_URL) return process.env.PLAID_WEBHOOK_URL;
+  const host = req.headers.host;
+  if (!host || host.startsWith('localhost') || host.startsWith('127.0.0.1')) return undefined;
+  return `https://${host}/api/plaid/webhook`;
+};
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -36,16 +46,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    const request = {
+    const request: LinkTokenCreateRequest = {
       user: {
         client_user_id: user.id, // Use actual user ID
       },
       client_name: 'Rocket Bucks',
-      products: [Products.Transactions],
       country_codes: [CountryCode.Us],
       language: 'en',
+      webhook: getWebhookUrl(req),
     };
 
+    // Update mode: pass { item_id } to let the user sign in to an existing institution again
+    const itemId = req.body?.item_id;
+    if (itemId) {
+      const { data: item, error: itemError } = await supabase
+        .from('plaid_items')
+        .select('id, access_token')
+        .eq('id', itemId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (itemError || !item) {
+        return res.status(404).json({ error: 'Institution not found' });
+      }
+
+      // Products come from the existing item and must be left out in update mode
+      request.access_token = getItemAccessToken(item);
+    } else {
+      request.products = [Products.Transactions];
+      // Ask Plaid for the maximum history so the first sync backfills everything
+      request.transactions = {
+        days_requested: 730,
+      };
+    }
+
     const response = await plaidClient.linkTokenCreate(request);
     res.json({ link_token: response.data.link_token });
   } catch (error: any) {
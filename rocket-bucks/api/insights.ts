@@ -0,0 +1,70 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createSupabaseClient } from '../lib/supabase.js';
+import { formatDateKey, getInsights } from '../lib/analytics.js';
+import type { SeriesGrouping } from '../lib/analytics.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Helper to get single value (handle arrays from Vercel)
+function getParam(params: VercelRequest['query'], key: string): string | undefined {
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Spending, income, bills, cash flow, category breakdown, top merchants and
+ * largest purchases for a date range
+ * GET ?start_date=YYYY-MM-DD&end_date=YYYY-MM-DD&group_by=day|month&compare=true
+ * Defaults to the current month; compare adds totals for the period before it
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const now = new Date();
+    const startParam = getParam(req.query, 'start_date');
+    const endParam = getParam(req.query, 'end_date');
+    const groupByParam = getParam(req.query, 'group_by');
+
+    if ((startParam && !DATE_PATTERN.test(startParam)) || (endParam && !DATE_PATTERN.test(endParam))) {
+      return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format' });
+    }
+    if (groupByParam && groupByParam !== 'day' && groupByParam !== 'month') {
+      return res.status(400).json({ error: "group_by must be 'day' or 'month'" });
+    }
+
+    const start_date = startParam || formatDateKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)));
+    const end_date = endParam || formatDateKey(now);
+    if (start_date > end_date) {
+      return res.status(400).json({ error: 'start_date must be on or before end_date' });
+    }
+
+    const insights = await getInsights(supabase, user.id, {
+      start_date,
+      end_date,
+      group_by: (groupByParam as SeriesGrouping) || 'day',
+      compare: getParam(req.query, 'compare') === 'true',
+      limit: Number(getParam(req.query, 'limit')) || undefined,
+    });
+
+    res.json(insights);
+  } catch (error) {
+    console.error('❌ Error calculating insights:', error);
+    res.status(500).json({ error: 'Failed to calculate insights' });
+  }
+}
@@ -0,0 +1,120 @@
+import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { markItemHealthy, recordItemError, runRecurringChecks, syncItem } from '../../lib/itemSync.js';
+import { verifyPlaidWebhook } from '../../lib/plaidWebhook.js';
+
+// Initialize Plaid client
+const configuration = new Configuration({
+  basePath: PlaidEnvironments.production,
+  baseOptions: {
+    headers: {
+      'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID || '',
+      'PLAID-SECRET': process.env.PLAID_SECRET || '',
+    },
+  },
+});
+
+const plaidClient = new PlaidApi(configuration);
+
+// The signature covers the exact bytes Plaid sent, so read the body ourselves
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+function readRawBody(req: VercelRequest): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Plaid webhook receiver
+ * POST /api/plaid/webhook
+ *
+ * TRANSACTIONS SYNC_UPDATES_AVAILABLE / DEFAULT_UPDATE - sync just that item
+ * ITEM ERROR - record the error so the user can reconnect
+ * ITEM LOGIN_REPAIRED - mark the item healthy again
+ * ITEM PENDING_EXPIRATION - record when the user's consent runs out
+ *
+ * There is no user session here, so this uses the service role client and
+ * scopes every write to the item Plaid named.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!supabaseAdmin) {
+    console.error('❌ Plaid webhook received but SUPABASE_SERVICE_ROLE_KEY is not configured');
+    return res.status(500).json({ error: 'Webhooks are not configured' });
+  }
+
+  try {
+    const rawBody = await readRawBody(req);
+    const verificationHeader = req.headers['plaid-verification'];
+    const verified = await verifyPlaidWebhook(
+      plaidClient,
+      rawBody,
+      Array.isArray(verificationHeader) ? verificationHeader[0] : verificationHeader
+    );
+    if (!verified) {
+      console.warn('⚠️  Rejected Plaid webhook with a missing or invalid signature');
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    const { webhook_type, webhook_code, item_id, error, consent_expiration_time } = JSON.parse(rawBody);
+    console.log(`📬 Plaid webhook: ${webhook_type} ${webhook_code} for item ${item_id}`);
+
+    const { data: item, error: itemError } = await supabaseAdmin
+      .from('plaid_items')
+      .select('*')
+      .eq('item_id', item_id)
+      .maybeSingle();
+
+    if (itemError) {
+      throw itemError;
+    }
+    if (!item) {
+      // Items removed on our side can still get webhooks for a while
+      console.warn(`⚠️  Plaid webhook for unknown item ${item_id}`);
+      return res.json({ received: true });
+    }
+
+    if (webhook_type === 'TRANSACTIONS' && (webhook_code === 'SYNC_UPDATES_AVAILABLE' || webhook_code === 'DEFAULT_UPDATE')) {
+      // Syncing resumes from the stored cursor, so a retried webhook is harmless
+      const syncResult = await syncItem(supabaseAdmin, plaidClient, item, item.user_id);
+      await runRecurringChecks(supabaseAdmin, item.user_id);
+      console.log(`✅ Webhook sync complete for ${item.institution_name}: ${syncResult.added + syncResult.modified} transactions synced`);
+    } else if (webhook_type === 'ITEM' && webhook_code === 'ERROR') {
+      await recordItemError(supabaseAdmin, item.id, error || {});
+      console.log(`⚠️  ${item.institution_name} needs attention: ${error?.error_code}`);
+    } else if (webhook_type === 'ITEM' && webhook_code === 'LOGIN_REPAIRED') {
+      // The user fixed their login in another app that uses Plaid
+      await markItemHealthy(supabaseAdmin, item.id);
+      console.log(`✅ ${item.institution_name} login repaired`);
+    } else if (webhook_type === 'ITEM' && webhook_code === 'PENDING_EXPIRATION') {
+      const { error: updateError } = await supabaseAdmin
+        .from('plaid_items')
+        .update({
+          status: 'pending_expiration',
+          consent_expires_at: consent_expiration_time || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', item.id);
+      if (updateError) throw updateError;
+      console.log(`⏳ ${item.institution_name} consent expires ${consent_expiration_time}`);
+    }
+
+    res.json({ received: true });
+  } catch (error) {
+    // A non-200 response makes Plaid retry the webhook
+    console.error('❌ Error handling Plaid webhook:', error);
+    res.status(500).json({ error: 'Failed to handle webhook' });
+  }
+}
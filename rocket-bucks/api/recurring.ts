@@ -1,8 +1,66 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createSupabaseClient } from '../lib/supabase.js';
+import { buildCancellationDraft, CANCELLATION_METHODS } from '../lib/subscriptionCancellation.js';
+import type { CancellableStream, CancellationDraftFormat } from '../lib/subscriptionCancellation.js';
+import { detectRecurringAmountChanges } from '../lib/recurringAlerts.js';
+import { syncDetectedRecurring } from '../lib/recurringDetector.js';
+import { reconcileRecurringPayments } from '../lib/recurringReconciliation.js';
+import { advanceDueDate, RECURRING_FREQUENCIES, SCHEDULED_FREQUENCIES } from '../lib/recurringStreams.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Helper to get single value (handle arrays from Vercel)
+function getParam(params: VercelRequest['query'], key: string): string | undefined {
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Fields users can change with PATCH
+const EDITABLE_FIELDS = [
+  'name', 'merchant_name', 'account_id', 'category_id', 'expected_amount', 'frequency',
+  'day_of_month', 'day_of_week', 'start_date', 'next_due_date', 'transaction_type',
+  'is_subscription', 'notes', 'is_paused', 'amount_alert_threshold',
+];
+
+// Editing any of these takes the schedule over from the detector
+const SCHEDULE_FIELDS = ['expected_amount', 'frequency', 'day_of_month', 'day_of_week', 'next_due_date'];
+
+/**
+ * Problems with a stream's schedule fields, or null if they're valid
+ */
+function validateSchedule(body: Record<string, unknown>): string | null {
+  if (body.frequency !== undefined && !RECURRING_FREQUENCIES.includes(String(body.frequency))) {
+    return `frequency must be one of: ${RECURRING_FREQUENCIES.join(', ')}`;
+  }
+  const dayOfMonth = Number(body.day_of_month);
+  if (body.day_of_month != null && !(Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31)) {
+    return 'day_of_month must be between 1 and 31';
+  }
+  const dayOfWeek = Number(body.day_of_week);
+  if (body.day_of_week != null && !(Number.isInteger(dayOfWeek) && dayOfWeek >= 0 && dayOfWeek <= 6)) {
+    return 'day_of_week must be between 0 (Sunday) and 6';
+  }
+  if (body.expected_amount != null && !(Number(body.expected_amount) >= 0)) {
+    return 'expected_amount must be a positive number';
+  }
+  for (const field of ['start_date', 'next_due_date']) {
+    if (body[field] && !DATE_PATTERN.test(String(body[field]))) {
+      return `${field} must be YYYY-MM-DD`;
+    }
+  }
+  return null;
+}
 
 /**
  * Get, create, update, or delete recurring transactions
+ * ?action=cancellation tracks a subscription cancellation
+ * ?action=cancellation-draft writes a cancellation email or letter
+ * ?action=amount-changes lists, detects and dismisses price increases
+ * ?action=detect finds recurring streams in the user's transactions and
+ *   settles past due dates as paid, late or missed
+ * ?action=merge folds one stream into another
+ * ?action=not-recurring hides a stream so sync won't recreate it
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const authHeader = req.headers.authorization;
@@ -18,6 +76,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(401).json({ error: 'Invalid token' });
   }
 
+  const action = getParam(req.query, 'action');
+  if (action === 'cancellation') {
+    return handleCancellation(req, res, supabase, user.id);
+  } else if (action === 'cancellation-draft') {
+    return handleCancellationDraft(req, res, supabase, user);
+  } else if (action === 'amount-changes') {
+    return handleAmountChanges(req, res, supabase, user.id);
+  } else if (action === 'detect') {
+    return handleDetect(req, res, supabase, user.id);
+  } else if (action === 'merge') {
+    return handleMerge(req, res, supabase, user.id);
+  } else if (action === 'not-recurring') {
+    return handleNotRecurring(req, res, supabase, user.id);
+  }
+
   if (req.method === 'GET') {
     // Get recurring transactions
     const { active_only, upcoming_only } = req.query;
@@ -35,9 +108,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           name,
           icon,
           color
+        ),
+        post_cancel_transaction:transactions!post_cancel_transaction_id (
+          id,
+          date,
+          amount,
+          name
+        ),
+        recurring_amount_changes (
+          id,
+          transaction_id,
+          transaction_date,
+          previous_amount,
+          new_amount,
+          change_amount,
+          change_percent,
+          kind,
+          status
         )
       `)
       .eq('user_id', user.id)
+      .eq('not_recurring', false)
       .order('next_due_date', { ascending: true, nullsFirst: false });
 
     if (active_only === 'true') {
@@ -48,6 +139,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const today = new Date().toISOString().split('T')[0];
       query = query
         .eq('is_active', true)
+        .eq('is_paused', false)
         .gte('next_due_date', today)
         .order('next_due_date', { ascending: true });
     }
@@ -110,6 +202,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Name and frequency are required' });
     }
 
+    const scheduleError = validateSchedule(req.body);
+    if (scheduleError) {
+      return res.status(400).json({ error: scheduleError });
+    }
+
     const { data: recurring, error } = await supabase
       .from('recurring_transactions')
       .insert({
@@ -129,6 +226,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         merchant_name: merchant_name || null,
         notes: notes || null,
         is_active: true,
+        source: 'manual',
       })
       .select()
       .single();
@@ -142,12 +240,34 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   } else if (req.method === 'PATCH' || req.method === 'PUT') {
     // Update recurring transaction
     const { recurring_id } = req.query;
-    const updates = req.body;
+    const body = req.body || {};
 
     if (!recurring_id) {
       return res.status(400).json({ error: 'recurring_id is required' });
     }
 
+    const scheduleError = validateSchedule(body);
+    if (scheduleError) {
+      return res.status(400).json({ error: scheduleError });
+    }
+
+    const updates: Record<string, unknown> = {};
+    EDITABLE_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) {
+        updates[field] = body[field] === '' ? null : body[field];
+      }
+    });
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    // A user's edits shouldn't be overwritten by the next Plaid sync or detection run
+    if (SCHEDULE_FIELDS.some((field) => field in updates) || 'name' in updates) {
+      updates.source = 'manual';
+      updates.confidence = null;
+    }
+
     const { data: recurring, error } = await supabase
       .from('recurring_transactions')
       .update(updates)
@@ -167,7 +287,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     res.json({ recurring });
   } else if (req.method === 'DELETE') {
-    // Delete recurring transaction (or mark as inactive)
+    // Delete recurring transaction; its transactions stay, unlinked
     const { recurring_id } = req.query;
 
     if (!recurring_id) {
@@ -176,7 +296,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const { error } = await supabase
       .from('recurring_transactions')
-      .update({ is_active: false, end_date: new Date().toISOString().split('T')[0] })
+      .delete()
       .eq('id', recurring_id)
       .eq('user_id', user.id);
 
@@ -191,3 +311,462 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+
+/**
+ * Track cancelling a subscription
+ * POST: mark as cancel requested with the method, contact, deadline and cancel date
+ * PATCH { status: 'cancelled' | 'cancel_requested' }: confirm by hand, or keep
+ *   waiting after a charge arrived past the cancel date
+ * DELETE: withdraw the request
+ */
+async function handleCancellation(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  const recurringId = getParam(req.query, 'recurring_id');
+  if (!recurringId) {
+    return res.status(400).json({ error: 'recurring_id is required' });
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('recurring_transactions')
+      .select<string, { id: string; cancel_date: string | null; post_cancel_transaction: { date: string } | null }>(`
+        id,
+        cancel_date,
+        post_cancel_transaction:transactions!post_cancel_transaction_id (
+          date
+        )
+      `)
+      .eq('id', recurringId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+    if (!existing) {
+      return res.status(404).json({ error: 'Recurring transaction not found' });
+    }
+
+    let changes: Record<string, unknown>;
+
+    if (req.method === 'POST') {
+      const { method, contact, deadline, cancel_date, notes } = req.body || {};
+
+      if (method && !CANCELLATION_METHODS.includes(method)) {
+        return res.status(400).json({ error: `method must be one of: ${CANCELLATION_METHODS.join(', ')}` });
+      }
+      if ((deadline && !DATE_PATTERN.test(deadline)) || (cancel_date && !DATE_PATTERN.test(cancel_date))) {
+        return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format' });
+      }
+
+      changes = {
+        cancellation_status: 'cancel_requested',
+        cancellation_method: method || null,
+        cancellation_contact: contact || null,
+        cancellation_deadline: deadline || null,
+        cancel_date: cancel_date || new Date().toISOString().split('T')[0],
+        cancellation_requested_at: new Date().toISOString(),
+        cancellation_verified_at: null,
+        post_cancel_transaction_id: null,
+      };
+      if (notes !== undefined) {
+        changes.notes = notes || null;
+      }
+    } else if (req.method === 'PATCH') {
+      const { status } = req.body || {};
+      if (status !== 'cancelled' && status !== 'cancel_requested') {
+        return res.status(400).json({ error: "status must be 'cancelled' or 'cancel_requested'" });
+      }
+
+      changes = { cancellation_status: status, post_cancel_transaction_id: null };
+      // Only charges after the one the user has already dealt with are flagged again
+      const lateChargeDate = existing.post_cancel_transaction?.date;
+      if (lateChargeDate && (!existing.cancel_date || lateChargeDate > existing.cancel_date)) {
+        changes.cancel_date = lateChargeDate;
+      }
+      if (status === 'cancelled') {
+        changes.cancellation_verified_at = new Date().toISOString();
+        changes.is_active = false;
+        changes.end_date = changes.cancel_date || existing.cancel_date || new Date().toISOString().split('T')[0];
+        changes.next_due_date = null;
+      }
+    } else if (req.method === 'DELETE') {
+      changes = {
+        cancellation_status: null,
+        cancellation_method: null,
+        cancellation_contact: null,
+        cancellation_deadline: null,
+        cancel_date: null,
+        cancellation_requested_at: null,
+        cancellation_verified_at: null,
+        post_cancel_transaction_id: null,
+        is_active: true,
+        end_date: null,
+      };
+    } else {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { data: recurring, error } = await supabase
+      .from('recurring_transactions')
+      .update(changes)
+      .eq('id', recurringId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    res.json({ recurring });
+  } catch (error) {
+    console.error('❌ Error updating cancellation:', error);
+    res.status(500).json({ error: 'Failed to update cancellation' });
+  }
+}
+
+/**
+ * Draft a cancellation email or letter for a subscription
+ * GET ?recurring_id=...&format=email|letter
+ */
+async function handleCancellationDraft(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, user: User) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const recurringId = getParam(req.query, 'recurring_id');
+  const format = (getParam(req.query, 'format') || 'email') as CancellationDraftFormat;
+  if (!recurringId) {
+    return res.status(400).json({ error: 'recurring_id is required' });
+  }
+  if (format !== 'email' && format !== 'letter') {
+    return res.status(400).json({ error: "format must be 'email' or 'letter'" });
+  }
+
+  try {
+    const { data: recurring, error } = await supabase
+      .from('recurring_transactions')
+      .select<string, CancellableStream>(`
+        *,
+        accounts (
+          mask
+        )
+      `)
+      .eq('id', recurringId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!recurring) {
+      return res.status(404).json({ error: 'Recurring transaction not found' });
+    }
+
+    const draft = buildCancellationDraft(recurring, {
+      format,
+      userName: user.user_metadata?.full_name || user.user_metadata?.name || user.email || 'Account holder',
+      userEmail: user.email || null,
+    });
+
+    res.json({ draft });
+  } catch (error) {
+    console.error('❌ Error drafting cancellation:', error);
+    res.status(500).json({ error: 'Failed to draft cancellation' });
+  }
+}
+
+/**
+ * Charges above a stream's usual amount
+ * GET ?recurring_id=...&status=new: change history, newest first
+ * POST ?recurring_id=...: check for new changes now (all streams without recurring_id)
+ * PATCH ?change_id=... { status: 'new' | 'dismissed' }
+ */
+async function handleAmountChanges(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  const recurringId = getParam(req.query, 'recurring_id');
+
+  try {
+    if (req.method === 'GET') {
+      let query = supabase
+        .from('recurring_amount_changes')
+        .select(`
+          *,
+          recurring_transactions (
+            name,
+            frequency
+          )
+        `)
+        .eq('user_id', userId)
+        .order('transaction_date', { ascending: false });
+
+      if (recurringId) {
+        query = query.eq('recurring_transaction_id', recurringId);
+      }
+      const status = getParam(req.query, 'status');
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data: changes, error } = await query;
+      if (error) {
+        throw error;
+      }
+
+      return res.json({ changes: changes || [] });
+    }
+
+    if (req.method === 'POST') {
+      const result = await detectRecurringAmountChanges(supabase, userId, { recurringId });
+      return res.json({ success: true, ...result });
+    }
+
+    if (req.method === 'PATCH') {
+      const changeId = getParam(req.query, 'change_id');
+      const { status } = req.body || {};
+      if (!changeId) {
+        return res.status(400).json({ error: 'change_id is required' });
+      }
+      if (status !== 'new' && status !== 'dismissed') {
+        return res.status(400).json({ error: "status must be 'new' or 'dismissed'" });
+      }
+
+      const { data: change, error } = await supabase
+        .from('recurring_amount_changes')
+        .update({ status })
+        .eq('id', changeId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      if (!change) {
+        return res.status(404).json({ error: 'Amount change not found' });
+      }
+
+      return res.json({ change });
+    }
+
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('❌ Error handling recurring amount changes:', error);
+    res.status(500).json({ error: 'Failed to process amount changes' });
+  }
+}
+
+/**
+ * POST: detect recurring streams from transaction history (Plaid or imported),
+ * then reconcile their due dates. Sync does the same for Plaid users; this
+ * covers accounts that only have imported transactions.
+ */
+async function handleDetect(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await syncDetectedRecurring(supabase, userId);
+    console.log(`🔁 Detected ${result.created_count} new and ${result.updated_count} updated recurring streams`);
+    const reconciliation = await reconcileRecurringPayments(supabase, userId);
+    res.json({
+      success: true,
+      ...result,
+      missed_count: reconciliation.missed_count,
+      late_count: reconciliation.late_count,
+      ended_count: reconciliation.ended_count,
+    });
+  } catch (error) {
+    console.error('❌ Error detecting recurring streams:', error);
+    res.status(500).json({ error: 'Failed to detect recurring transactions' });
+  }
+}
+
+// The fields of the two streams a merge reads
+interface MergedStream {
+  id: string;
+  name: string;
+  not_recurring: boolean;
+  frequency: string | null;
+  day_of_month: number | null;
+  start_date: string | null;
+  last_transaction_date: string | null;
+  next_due_date: string | null;
+}
+
+/**
+ * POST ?recurring_id=<kept stream> { merge_id }: move the other stream's
+ * transactions onto the kept one and hide it. Later syncs and detection runs
+ * that find the merged stream again link its charges to the kept stream.
+ */
+async function handleMerge(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const keepId = getParam(req.query, 'recurring_id');
+  const { merge_id: mergeId } = req.body || {};
+  if (!keepId || !mergeId) {
+    return res.status(400).json({ error: 'recurring_id and merge_id are required' });
+  }
+  if (keepId === mergeId) {
+    return res.status(400).json({ error: 'Cannot merge a recurring transaction into itself' });
+  }
+
+  try {
+    const { data: streams, error: streamsError } = await supabase
+      .from('recurring_transactions')
+      .select<string, MergedStream>('*')
+      .eq('user_id', userId)
+      .in('id', [keepId, mergeId]);
+    if (streamsError) {
+      throw streamsError;
+    }
+
+    const kept = (streams || []).find((stream) => stream.id === keepId);
+    const merged = (streams || []).find((stream) => stream.id === mergeId);
+    if (!kept || !merged || kept.not_recurring || merged.not_recurring) {
+      return res.status(404).json({ error: 'Recurring transaction not found' });
+    }
+
+    const { error: moveError } = await supabase
+      .from('transactions')
+      .update({ recurring_transaction_id: keepId })
+      .eq('user_id', userId)
+      .eq('recurring_transaction_id', mergeId);
+    if (moveError) {
+      throw moveError;
+    }
+
+    // Alerts were measured against the merged stream's amounts; re-check below
+    await supabase
+      .from('recurring_amount_changes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('recurring_transaction_id', mergeId);
+
+    const { error: hideError } = await supabase
+      .from('recurring_transactions')
+      .update({ not_recurring: true, merged_into_id: keepId, is_active: false })
+      .eq('id', mergeId)
+      .eq('user_id', userId);
+    if (hideError) {
+      throw hideError;
+    }
+
+    // Recount the kept stream from its transactions (the stats trigger fired once per moved row)
+    const { data: linked, error: linkedError } = await supabase
+      .from('transactions')
+      .select('date, amount')
+      .eq('user_id', userId)
+      .eq('recurring_transaction_id', keepId)
+      .order('date', { ascending: true });
+    if (linkedError) {
+      throw linkedError;
+    }
+
+    const updates: Record<string, unknown> = {
+      start_date: [kept.start_date, merged.start_date].filter(Boolean).sort()[0] || kept.start_date,
+    };
+    if (linked && linked.length > 0) {
+      const lastDate = linked[linked.length - 1].date;
+      updates.total_occurrences = linked.length;
+      updates.average_amount = Math.round(
+        (linked.reduce((sum, tx) => sum + Math.abs(Number(tx.amount)), 0) / linked.length) * 100
+      ) / 100;
+      updates.last_transaction_date = lastDate;
+      if (kept.frequency && SCHEDULED_FREQUENCIES.includes(kept.frequency) && (!kept.last_transaction_date || lastDate > kept.last_transaction_date)) {
+        updates.next_due_date = advanceDueDate(lastDate, kept.frequency, kept.day_of_month);
+      } else {
+        updates.next_due_date = kept.next_due_date;
+      }
+    }
+
+    const { data: recurring, error: updateError } = await supabase
+      .from('recurring_transactions')
+      .update(updates)
+      .eq('id', keepId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+    if (updateError) {
+      throw updateError;
+    }
+
+    try {
+      await detectRecurringAmountChanges(supabase, userId, { recurringId: keepId });
+    } catch (error) {
+      console.error('❌ Error re-checking amounts after merge:', error);
+    }
+
+    console.log(`🔗 Merged recurring ${merged.name} into ${kept.name}`);
+    res.json({ recurring });
+  } catch (error) {
+    console.error('❌ Error merging recurring transactions:', error);
+    res.status(500).json({ error: 'Failed to merge recurring transactions' });
+  }
+}
+
+/**
+ * POST ?recurring_id=...: mark a stream "not recurring". Its transactions are
+ * unlinked and Plaid sync and detection leave it alone from then on.
+ * DELETE ?recurring_id=...: undo
+ */
+async function handleNotRecurring(req: VercelRequest, res: VercelResponse, supabase: SupabaseClient, userId: string) {
+  const recurringId = getParam(req.query, 'recurring_id');
+  if (!recurringId) {
+    return res.status(400).json({ error: 'recurring_id is required' });
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { data: recurring, error } = await supabase
+        .from('recurring_transactions')
+        .update({ not_recurring: true, is_active: false })
+        .eq('id', recurringId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+      if (error) {
+        throw error;
+      }
+      if (!recurring) {
+        return res.status(404).json({ error: 'Recurring transaction not found' });
+      }
+
+      const { error: unlinkError } = await supabase
+        .from('transactions')
+        .update({ recurring_transaction_id: null, is_recurring: false })
+        .eq('user_id', userId)
+        .eq('recurring_transaction_id', recurringId);
+      if (unlinkError) {
+        throw unlinkError;
+      }
+
+      return res.json({ recurring });
+    }
+
+    if (req.method === 'DELETE') {
+      const { data: recurring, error } = await supabase
+        .from('recurring_transactions')
+        .update({ not_recurring: false, merged_into_id: null, is_active: true })
+        .eq('id', recurringId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+      if (error) {
+        throw error;
+      }
+      if (!recurring) {
+        return res.status(404).json({ error: 'Recurring transaction not found' });
+      }
+
+      return res.json({ recurring });
+    }
+
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('❌ Error updating not-recurring status:', error);
+    res.status(500).json({ error: 'Failed to update recurring transaction' });
+  }
+}
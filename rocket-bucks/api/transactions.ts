@@ -1,8 +1,59 @@
 import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createSupabaseClient } from '../lib/supabase.js';
-import { decrypt, isEncrypted } from '../lib/encryption.js';
+import { createSupabaseClient, fetchAllRows } from '../lib/supabase.js';
 import { autoCategorizeTransaction } from '../lib/categorization.js';
+import {
+  findMerchantTransactionsToRecategorize,
+  loadMerchantMemory,
+  lookupMerchantCategory,
+  normalizeMerchant,
+  recordCategoryCorrection,
+} from '../lib/merchantMemory.js';
+import {
+  applyRuleChanges,
+  diffRuleUpdates,
+  getRuleUpdates,
+  loadActiveRules,
+  RULE_ACTION_FIELDS,
+  type RuleActionField,
+  type RuleTransaction,
+  type RuleUpdates,
+} from '../lib/categorizationRules.js';
+import { applyUserCategorization } from '../lib/plaidSync.js';
+import { runRecurringChecks, syncItem } from '../lib/itemSync.js';
+import { validateSplits, type TransactionSplitInput } from '../lib/splits.js';
+import {
+  clearPendingTransferMatches,
+  linkTransferPairs,
+  matchTransfers,
+  TRANSFER_MATCH_WINDOW_DAYS,
+  type TransferSide,
+} from '../lib/transferMatcher.js';
+import { syncDetectedRecurring } from '../lib/recurringDetector.js';
+import { recordBalanceSnapshots } from '../lib/balanceSnapshots.js';
+import { buildManualAccount, MANUAL_ACCOUNT_TYPES } from '../lib/manualAccounts.js';
+import {
+  createTransactionExporter,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportTransaction,
+} from '../lib/transactionExport.js';
+import {
+  IMPORT_FORMATS,
+  loadExistingForImport,
+  mapCsvRows,
+  mapImportedTransaction,
+  mapOfxAccountType,
+  markDuplicates,
+  parseCsv,
+  parseOfx,
+  suggestCsvMapping,
+  validateCsvMapping,
+  type ImportedTransaction,
+  type ImportError,
+  type ImportFormat,
+} from '../lib/transactionImport.js';
 
 // Initialize Plaid client
 const configuration = new Configuration({
@@ -17,25 +68,16 @@ const configuration = new Configuration({
 
 const plaidClient = new PlaidApi(configuration);
 
-// Helper function to calculate next due date based on frequency
-function calculateNextDueDate(lastDate: string | null, frequency: string): string | null {
-  if (!lastDate) return null;
-  
-  const date = new Date(lastDate);
-  const freqLower = frequency.toLowerCase();
-  
-  if (freqLower.includes('week')) {
-    date.setDate(date.getDate() + 7);
-  } else if (freqLower.includes('month')) {
-    date.setMonth(date.getMonth() + 1);
-  } else if (freqLower.includes('year')) {
-    date.setFullYear(date.getFullYear() + 1);
-  } else {
-    // Default to monthly
-    date.setMonth(date.getMonth() + 1);
-  }
-  
-  return date.toISOString().split('T')[0];
+// Ids are interpolated into PostgREST filter strings, so anything else is rejected
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Unlinking an institution in archive mode keeps its transactions as read-only history
+const ARCHIVED_TRANSACTION_ERROR = 'Transactions in archived accounts are read-only';
+
+// For rows selected with accounts!account_id ( archived_at )
+function isArchivedTransaction(tx: unknown): boolean {
+  const account = (tx as { accounts?: { archived_at?: string | null } | null } | null)?.accounts;
+  return !!account?.archived_at;
 }
 
 // Helper to get single value (handle arrays from Vercel)
@@ -55,8 +97,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return handleSync(req, res);
   } else if (action === 'search') {
     return handleSearch(req, res);
+  } else if (action === 'export') {
+    return handleExport(req, res);
   } else if (action === 'auto-categorize') {
     return handleAutoCategorize(req, res);
+  } else if (action === 'apply-rules') {
+    return handleApplyRules(req, res);
+  } else if (action === 'apply-merchant-category') {
+    return handleApplyMerchantCategory(req, res);
+  } else if (action === 'splits') {
+    return handleSplits(req, res);
+  } else if (action === 'match-transfers') {
+    return handleMatchTransfers(req, res);
+  } else if (action === 'transfers') {
+    return handleTransfers(req, res);
+  } else if (action === 'import') {
+    return handleImport(req, res);
   } else if (req.method === 'PATCH' || req.method === 'PUT') {
     return handleUpdate(req, res);
   } else if (req.method === 'GET') {
@@ -96,230 +152,35 @@ async function handleSync(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'No accounts connected. Please connect an account first.' });
     }
 
-    // Fetch transactions from Plaid for all items
     const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    const startDate = thirtyDaysAgo.toISOString().split('T')[0];
-    const endDate = now.toISOString().split('T')[0];
 
-    console.log(`🔄 Manual sync: Syncing transactions for user ${user.id} from ${startDate} to ${endDate}`);
+    console.log(`🔄 Manual sync: Syncing transactions for user ${user.id}`);
 
     let totalSynced = 0;
-    const encryptionKey = process.env.ENCRYPTION_KEY || '';
+    let totalRemoved = 0;
+    let totalReplacedPending = 0;
 
     for (const item of plaidItems) {
       try {
-        // Decrypt access token if it's encrypted
-        let accessToken = item.access_token;
-        if (encryptionKey && isEncrypted(accessToken)) {
-          try {
-            accessToken = decrypt(accessToken, encryptionKey);
-          } catch (decryptError) {
-            console.error(`Error decrypting access token for item ${item.id}:`, decryptError);
-            continue;
-          }
-        }
-
-        const response = await plaidClient.transactionsGet({
-          access_token: accessToken,
-          start_date: startDate,
-          end_date: endDate,
-        });
-
-        console.log(`✅ Fetched ${response.data.transactions.length} transactions from ${item.institution_name}`);
-
-        // Get account mappings
-        const { data: accounts } = await supabase
-          .from('accounts')
-          .select('id, account_id')
-          .eq('plaid_item_id', item.id);
-
-        const accountMap = new Map(accounts?.map(a => [a.account_id, a.id]) || []);
-
-        // Store transactions in database
-        if (response.data.transactions.length > 0) {
-          const transactionsToInsert = response.data.transactions.map((tx: any) => {
-            const dbAccountId = accountMap.get(tx.account_id);
-            
-            // Auto-categorize if Plaid didn't provide a category
-            const plaidCategory = tx.category?.[0] || null;
-            let userCategory = null;
-            
-            if (!plaidCategory) {
-              // Use our auto-categorization as fallback
-              const autoCategory = autoCategorizeTransaction(tx.name, tx.merchant_name);
-              if (autoCategory && autoCategory !== 'Uncategorized') {
-                userCategory = autoCategory;
-              }
-            }
-            
-            return {
-              user_id: user.id,
-              account_id: dbAccountId,
-              transaction_id: tx.transaction_id,
-              amount: tx.amount,
-              date: tx.date,
-              authorized_date: tx.authorized_date || null,
-              posted_date: tx.date,
-              name: tx.name,
-              // Plaid categorization
-              plaid_category: tx.category || [],
-              plaid_primary_category: plaidCategory,
-              plaid_detailed_category: tx.category ? tx.category.join(' > ') : null,
-              // User categorization (fallback when Plaid doesn't provide)
-              user_category_name: userCategory,
-              // Merchant and location
-              merchant_name: tx.merchant_name || null,
-              location_city: tx.location?.city || null,
-              location_state: tx.location?.region || null,
-              location_country: tx.location?.country || null,
-              location_address: tx.location?.address || null,
-              location_lat: tx.location?.lat || null,
-              location_lon: tx.location?.lon || null,
-              // Transaction metadata
-              // Plaid: positive = debit (expense), negative = credit (income)
-              transaction_type: tx.amount > 0 ? 'expense' : 'income',
-              payment_channel: tx.payment_channel || null,
-              check_number: tx.check_number || null,
-              // Flags
-              pending: tx.pending || false,
-              is_transfer: tx.amount === 0 || false,
-            };
-          }).filter((tx: any) => tx.account_id);
-
-          if (transactionsToInsert.length > 0) {
-            const { error: upsertError } = await supabase
-              .from('transactions')
-              .upsert(transactionsToInsert, {
-                onConflict: 'account_id,transaction_id',
-              });
-            
-            if (upsertError) {
-              console.error(`❌ Error storing transactions for item ${item.id}:`, upsertError);
-              throw new Error(`Failed to store transactions: ${upsertError.message}`);
-            }
-            
-            console.log(`💾 Stored ${transactionsToInsert.length} transactions in database`);
-            totalSynced += transactionsToInsert.length;
-          }
-        }
-
-        // Update the plaid_item's updated_at timestamp to track last sync
-        await supabase
-          .from('plaid_items')
-          .update({ updated_at: now.toISOString() })
-          .eq('id', item.id);
-
-        // Also fetch recurring transaction streams
-        try {
-          const recurringResponse = await plaidClient.transactionsRecurringGet({
-            access_token: accessToken,
-            account_ids: accounts?.map(a => a.account_id) || [],
-          });
-
-          console.log(`✅ Found ${recurringResponse.data.inflow_streams.length} recurring inflows and ${recurringResponse.data.outflow_streams.length} recurring outflows for ${item.institution_name}`);
-
-          // Store recurring streams
-          const recurringToInsert: any[] = [];
-          
-          // Process outflow streams
-          for (const stream of recurringResponse.data.outflow_streams) {
-            const dbAccountId = accountMap.get(stream.account_id);
-            if (!dbAccountId) continue;
-
-            // Check if it's a subscription based on category or merchant name
-            const merchantName = (stream.merchant_name || stream.description || '').toLowerCase();
-            const categoryMatch = stream.category?.some((cat: string) => 
-              cat.toLowerCase().includes('subscription') || 
-              cat.toLowerCase().includes('software') ||
-              cat.toLowerCase().includes('streaming')
-            );
-            
-            // Common subscription merchant names/keywords
-            const subscriptionKeywords = [
-              'cursor', 'openai', 'apple', 'squarespace', 'workspace', 'worksp', 'spotify', 'netflix',
-              'disney', 'hulu', 'amazon prime', 'youtube premium', 'adobe', 'microsoft',
-              'google', 'dropbox', 'slack', 'zoom', 'notion', 'figma', 'canva', 'github',
-              'gitlab', 'atlassian', 'jira', 'confluence', 'salesforce', 'hubspot', 'zendesk',
-              'intercom', 'mailchimp', 'sendgrid', 'twilio', 'stripe', 'paypal', 'shopify',
-              'wix', 'wordpress', 'webflow', 'framer', 'linear', 'vercel', 'netlify',
-              'cloudflare', 'aws', 'azure', 'gcp', 'digitalocean', 'heroku', 'mongodb',
-              'redis', 'elastic', 'datadog', 'sentry', 'new relic', 'loggly', 'papertrail'
-            ];
-            
-            const merchantMatch = subscriptionKeywords.some(keyword => 
-              merchantName.includes(keyword)
-            );
-            
-            const isSubscription = categoryMatch || merchantMatch;
-
-            recurringToInsert.push({
-              user_id: user.id,
-              account_id: dbAccountId,
-              name: stream.merchant_name || stream.description || 'Unknown',
-              merchant_name: stream.merchant_name || null,
-              expected_amount: stream.last_amount?.amount || stream.average_amount?.amount || 0,
-              average_amount: stream.average_amount?.amount || 0,
-              frequency: stream.frequency.toLowerCase(),
-              start_date: stream.first_date || new Date().toISOString().split('T')[0],
-              last_transaction_date: stream.last_date || null,
-              next_due_date: calculateNextDueDate(stream.last_date, stream.frequency),
-              transaction_type: 'expense',
-              is_subscription: isSubscription,
-              is_active: stream.status === 'MATURE',
-              total_occurrences: stream.transaction_ids ? stream.transaction_ids.length : 0,
-              notes: stream.category?.join(', ') || null,
-            });
-          }
-
-          // Process inflow streams
-          for (const stream of recurringResponse.data.inflow_streams) {
-            const dbAccountId = accountMap.get(stream.account_id);
-            if (!dbAccountId) continue;
-
-            recurringToInsert.push({
-              user_id: user.id,
-              account_id: dbAccountId,
-              name: stream.merchant_name || stream.description || 'Unknown',
-              merchant_name: stream.merchant_name || null,
-              expected_amount: Math.abs(stream.last_amount?.amount || stream.average_amount?.amount || 0),
-              average_amount: Math.abs(stream.average_amount?.amount || 0),
-              frequency: stream.frequency.toLowerCase(),
-              start_date: stream.first_date || new Date().toISOString().split('T')[0],
-              last_transaction_date: stream.last_date || null,
-              next_due_date: calculateNextDueDate(stream.last_date, stream.frequency),
-              transaction_type: 'income',
-              is_subscription: false,
-              is_active: stream.status === 'MATURE',
-              total_occurrences: stream.transaction_ids ? stream.transaction_ids.length : 0,
-              notes: stream.category?.join(', ') || null,
-            });
-          }
-
-          if (recurringToInsert.length > 0) {
-            await supabase
-              .from('recurring_transactions')
-              .upsert(recurringToInsert, {
-                onConflict: 'user_id,name,account_id',
-              });
-            console.log(`💾 Stored ${recurringToInsert.length} recurring transactions for ${item.institution_name}`);
-          }
-        } catch (recurringError: any) {
-          console.error(`⚠️  Warning: Failed to fetch recurring streams for ${item.institution_name}:`, recurringError);
-          // Continue even if recurring fails
-        }
-
+        const syncResult = await syncItem(supabase, plaidClient, item, user.id);
+        totalSynced += syncResult.added + syncResult.modified;
+        totalRemoved += syncResult.removed;
+        totalReplacedPending += syncResult.replaced_pending;
       } catch (error: any) {
         console.error(`Error fetching transactions for item ${item.id}:`, error);
         // Continue with other items even if one fails
       }
     }
 
+    await runRecurringChecks(supabase, user.id);
+
     console.log(`✅ Manual sync complete: ${totalSynced} transactions synced`);
     res.json({ 
       success: true,
       message: `Successfully synced ${totalSynced} transaction${totalSynced !== 1 ? 's' : ''} and recurring charges`,
       synced_count: totalSynced,
+      removed_count: totalRemoved,
+      replaced_pending_count: totalReplacedPending,
       synced_at: now.toISOString()
     });
   } catch (error: any) {
@@ -331,6 +192,103 @@ async function handleSync(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// The filters a transactions query needs for the search filters below
+interface SearchableQuery<Query> {
+  textSearch(column: string, query: string, options?: { type?: 'plain' | 'phrase' | 'websearch' }): Query;
+  ilike(column: string, pattern: string): Query;
+  eq(column: string, value: unknown): Query;
+  gte(column: string, value: unknown): Query;
+  lte(column: string, value: unknown): Query;
+  contains(column: string, value: string[]): Query;
+}
+
+/**
+ * Apply the search filters shared by ?action=search and ?action=export
+ */
+function applySearchFilters<Query extends SearchableQuery<Query>>(query: Query, params: Record<string, unknown>): Query {
+  const search = getParam(params, 'search');
+  const category_id = getParam(params, 'category_id');
+  const user_category_name = getParam(params, 'user_category_name');
+  const merchant_name = getParam(params, 'merchant_name');
+  const account_id = getParam(params, 'account_id');
+  const start_date = getParam(params, 'start_date');
+  const end_date = getParam(params, 'end_date');
+  const transaction_type = getParam(params, 'transaction_type');
+  const pending = getParam(params, 'pending');
+  const tags = getParam(params, 'tags');
+  const min_amount = getParam(params, 'min_amount');
+  const max_amount = getParam(params, 'max_amount');
+
+  if (search) {
+    try {
+      query = query.textSearch('name', String(search), { type: 'websearch' });
+    } catch (textSearchError) {
+      console.warn('textSearch not available, using ilike fallback:', textSearchError);
+      query = query.ilike('name', `%${String(search)}%`);
+    }
+  }
+
+  if (category_id) {
+    query = query.eq('category_id', category_id);
+  }
+
+  if (user_category_name) {
+    query = query.eq('user_category_name', user_category_name);
+  }
+
+  if (merchant_name) {
+    query = query.ilike('merchant_name', `%${merchant_name}%`);
+  }
+
+  if (account_id) {
+    query = query.eq('account_id', account_id);
+  }
+
+  if (start_date) {
+    query = query.gte('date', start_date);
+  }
+
+  if (end_date) {
+    query = query.lte('date', end_date);
+  }
+
+  if (transaction_type) {
+    query = query.eq('transaction_type', transaction_type);
+  }
+
+  if (pending !== undefined) {
+    query = query.eq('pending', pending === 'true' || pending === true);
+  }
+
+  if (tags) {
+    let tagsArray: string[];
+    if (Array.isArray(tags)) {
+      tagsArray = tags;
+    } else if (typeof tags === 'string') {
+      try {
+        tagsArray = JSON.parse(tags);
+      } catch {
+        tagsArray = [tags];
+      }
+    } else {
+      tagsArray = [String(tags)];
+    }
+    if (tagsArray.length > 0) {
+      query = query.contains('tags', tagsArray);
+    }
+  }
+
+  if (min_amount !== undefined) {
+    query = query.gte('amount', min_amount);
+  }
+
+  if (max_amount !== undefined) {
+    query = query.lte('amount', max_amount);
+  }
+
+  return query;
+}
+
 // Handle search operation
 async function handleSearch(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'GET' && req.method !== 'POST') {
@@ -363,18 +321,6 @@ async function handleSearch(req: VercelRequest, res: VercelResponse) {
     // Get query parameters
     const params = req.method === 'GET' ? req.query : req.body;
     
-    const search = getParam(params, 'search');
-    const category_id = getParam(params, 'category_id');
-    const user_category_name = getParam(params, 'user_category_name');
-    const merchant_name = getParam(params, 'merchant_name');
-    const account_id = getParam(params, 'account_id');
-    const start_date = getParam(params, 'start_date');
-    const end_date = getParam(params, 'end_date');
-    const transaction_type = getParam(params, 'transaction_type');
-    const pending = getParam(params, 'pending');
-    const tags = getParam(params, 'tags');
-    const min_amount = getParam(params, 'min_amount');
-    const max_amount = getParam(params, 'max_amount');
     const limit = Number(getParam(params, 'limit', 100));
     const offset = Number(getParam(params, 'offset', 0));
     const sort_by = getParam(params, 'sort_by', 'date');
@@ -392,81 +338,32 @@ async function handleSearch(req: VercelRequest, res: VercelResponse) {
           type,
           subtype
         ),
+        transfer_account:accounts!transfer_to_account_id (
+          name,
+          mask,
+          institution_name
+        ),
         transaction_categories (
           name,
           icon,
           color
+        ),
+        transaction_splits (
+          id,
+          amount,
+          category_id,
+          user_category_name,
+          notes,
+          transaction_categories (
+            name,
+            icon,
+            color
+          )
         )
       `, { count: 'exact' })
       .eq('user_id', user.id);
 
-    // Apply filters
-    if (search) {
-      try {
-        query = query.textSearch('name', String(search), { type: 'websearch' });
-      } catch (textSearchError) {
-        console.warn('textSearch not available, using ilike fallback:', textSearchError);
-        query = query.ilike('name', `%${String(search)}%`);
-      }
-    }
-
-    if (category_id) {
-      query = query.eq('category_id', category_id);
-    }
-
-    if (user_category_name) {
-      query = query.eq('user_category_name', user_category_name);
-    }
-
-    if (merchant_name) {
-      query = query.ilike('merchant_name', `%${merchant_name}%`);
-    }
-
-    if (account_id) {
-      query = query.eq('account_id', account_id);
-    }
-
-    if (start_date) {
-      query = query.gte('date', start_date);
-    }
-
-    if (end_date) {
-      query = query.lte('date', end_date);
-    }
-
-    if (transaction_type) {
-      query = query.eq('transaction_type', transaction_type);
-    }
-
-    if (pending !== undefined) {
-      query = query.eq('pending', pending === 'true' || pending === true);
-    }
-
-    if (tags) {
-      let tagsArray: string[];
-      if (Array.isArray(tags)) {
-        tagsArray = tags;
-      } else if (typeof tags === 'string') {
-        try {
-          tagsArray = JSON.parse(tags);
-        } catch {
-          tagsArray = [tags];
-        }
-      } else {
-        tagsArray = [String(tags)];
-      }
-      if (tagsArray.length > 0) {
-        query = query.contains('tags', tagsArray);
-      }
-    }
-
-    if (min_amount !== undefined) {
-      query = query.gte('amount', min_amount);
-    }
-
-    if (max_amount !== undefined) {
-      query = query.lte('amount', max_amount);
-    }
+    query = applySearchFilters(query, params);
 
     // Order and paginate
     const ascending = sort_order === 'asc' || sort_order === 'ascending';
@@ -501,6 +398,122 @@ async function handleSearch(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// Rows fetched per page while streaming an export
+const EXPORT_PAGE_SIZE = 1000;
+
+// Handle export operation - streams every transaction matching the search filters
+async function handleExport(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const params = req.method === 'GET' ? req.query : (req.body || {});
+    const format = String(getParam(params, 'format', 'csv')).toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const ascending = ['asc', 'ascending'].includes(getParam(params, 'sort_order', 'desc'));
+    const orderBy = getParam(params, 'sort_by', 'date');
+
+    const buildQuery = () => {
+      let query = supabase
+        .from('transactions')
+        .select<string, ExportTransaction>(`
+          *,
+          accounts!account_id (
+            id,
+            name,
+            mask,
+            institution_name,
+            type,
+            subtype,
+            balance_current,
+            currency_code
+          ),
+          transaction_categories (
+            name
+          ),
+          transaction_splits (
+            amount,
+            user_category_name,
+            notes,
+            transaction_categories (
+              name
+            )
+          )
+        `)
+        .eq('user_id', user.id);
+
+      query = applySearchFilters(query, params);
+
+      // QIF starts a new account block whenever the account changes, so keep each account together
+      if (format === 'qif') {
+        query = query.order('account_id');
+      }
+
+      // id breaks ties so pages don't overlap
+      return query.order(orderBy, { ascending }).order('id');
+    };
+
+    // Fetch the first page before sending headers so query errors can still return JSON
+    let page = await buildQuery().range(0, EXPORT_PAGE_SIZE - 1);
+    if (page.error) {
+      console.error('❌ Error exporting transactions:', page.error);
+      return res.status(500).json({ error: 'Failed to export transactions' });
+    }
+
+    const exporter = createTransactionExporter(format);
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="transactions_${new Date().toISOString().split('T')[0]}.${format}"`
+    );
+    res.write(exporter.start());
+
+    let exportedCount = 0;
+    for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+      const rows = page.data || [];
+      res.write(exporter.write(rows));
+      exportedCount += rows.length;
+      if (rows.length < EXPORT_PAGE_SIZE) break;
+
+      page = await buildQuery().range(from + EXPORT_PAGE_SIZE, from + 2 * EXPORT_PAGE_SIZE - 1);
+      if (page.error) {
+        // Headers are already sent, so abort the download rather than finish a
+        // file that looks complete but is missing transactions
+        console.error('❌ Error exporting transactions:', page.error);
+        res.destroy(new Error(`Failed to export transactions: ${page.error.message}`));
+        return;
+      }
+    }
+
+    res.end(exporter.end());
+    console.log(`📤 Exported ${exportedCount} transactions as ${format.toUpperCase()} for ${user.email}`);
+  } catch (error) {
+    console.error('❌ Error exporting transactions:', error);
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    res.status(500).json({ error: 'Failed to export transactions' });
+  }
+}
+
 // Handle auto-categorize operation
 async function handleAutoCategorize(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
@@ -524,7 +537,7 @@ async function handleAutoCategorize(req: VercelRequest, res: VercelResponse) {
     // Get all uncategorized transactions
     const { data: transactions, error: fetchError } = await supabase
       .from('transactions')
-      .select('id, name, merchant_name, plaid_primary_category, user_category_name')
+      .select('id, name, merchant_name, amount, account_id, payment_channel, plaid_primary_category, user_category_name, category_id, tags, notes, excluded_from_budget, is_transfer, accounts!account_id ( archived_at )')
       .eq('user_id', user.id)
       .is('user_category_name', null);
 
@@ -543,11 +556,37 @@ async function handleAutoCategorize(req: VercelRequest, res: VercelResponse) {
 
     console.log(`🏷️  Auto-categorizing ${transactions.length} transactions for user ${user.id}`);
 
+    // User rules, then categories learned from the user's corrections, take
+    // precedence over the built-in keyword mappings
+    const rules = await loadActiveRules(supabase, user.id);
+    const merchantMemory = await loadMerchantMemory(supabase, user.id);
+
     // Categorize each transaction
     const updates: any[] = [];
+    const ruleUpdates: { id: string; changes: RuleUpdates }[] = [];
     let categorizedCount = 0;
 
     for (const tx of transactions) {
+      if (isArchivedTransaction(tx)) continue;
+      if (rules.length > 0) {
+        const changes = diffRuleUpdates(tx, getRuleUpdates(rules, tx).updates);
+        if (Object.keys(changes).length > 0) {
+          ruleUpdates.push({ id: tx.id, changes });
+          if (changes.user_category_name) categorizedCount++;
+          continue;
+        }
+      }
+
+      const learned = lookupMerchantCategory(merchantMemory, tx);
+      if (learned) {
+        ruleUpdates.push({
+          id: tx.id,
+          changes: { category_id: learned.category_id, user_category_name: learned.user_category_name },
+        });
+        categorizedCount++;
+        continue;
+      }
+
       // Skip if already has a Plaid category or user category
       if (tx.plaid_primary_category || tx.user_category_name) {
         continue;
@@ -583,6 +622,11 @@ async function handleAutoCategorize(req: VercelRequest, res: VercelResponse) {
       console.log(`✅ Successfully categorized ${categorizedCount} transactions`);
     }
 
+    if (ruleUpdates.length > 0) {
+      await applyRuleChanges(supabase, user.id, ruleUpdates);
+      console.log(`✅ Applied rules and learned categories to ${ruleUpdates.length} transactions`);
+    }
+
     res.json({
       success: true,
       message: `Successfully categorized ${categorizedCount} transaction${categorizedCount !== 1 ? 's' : ''}`,
@@ -599,6 +643,745 @@ async function handleAutoCategorize(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+// Handle apply-rules operation
+// Runs categorization rules over existing transactions; dry_run returns the changes without saving them
+async function handleApplyRules(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { dry_run = false, rule_id } = req.body || {};
+
+    let rules = await loadActiveRules(supabase, user.id);
+    if (rule_id) {
+      rules = rules.filter((rule) => rule.id === rule_id);
+    }
+
+    if (rules.length === 0) {
+      return res.json({ success: true, dry_run, matched_count: 0, changed_count: 0, changes: [] });
+    }
+
+    const { data: transactions, error: fetchError } = await fetchAllRows(() => supabase
+      .from('transactions')
+      .select<string, RuleTransaction & RuleUpdates & {
+        id: string;
+        name: string;
+        date: string;
+        amount: number;
+        accounts: { archived_at: string | null } | null;
+      }>(`id, name, merchant_name, amount, date, account_id, payment_channel, ${RULE_ACTION_FIELDS.join(', ')}, accounts!account_id ( archived_at )`)
+      .eq('user_id', user.id)
+      .order('date', { ascending: false })
+      .order('id', { ascending: true }));
+
+    if (fetchError) {
+      console.error('Error fetching transactions:', fetchError);
+      return res.status(500).json({ error: 'Failed to fetch transactions' });
+    }
+
+    let matchedCount = 0;
+    const changes: {
+      id: string;
+      name: string;
+      date: string;
+      amount: number;
+      rule_ids: string[];
+      before: Record<string, unknown>;
+      after: RuleUpdates;
+    }[] = [];
+
+    for (const tx of transactions) {
+      if (isArchivedTransaction(tx)) continue;
+      const { updates, ruleIds } = getRuleUpdates(rules, tx);
+      if (ruleIds.length === 0) continue;
+      matchedCount++;
+
+      const txChanges = diffRuleUpdates(tx, updates);
+      if (Object.keys(txChanges).length === 0) continue;
+
+      const before: Record<string, unknown> = {};
+      (Object.keys(txChanges) as RuleActionField[]).forEach((field) => {
+        before[field] = tx[field] ?? null;
+      });
+
+      changes.push({
+        id: tx.id,
+        name: tx.name,
+        date: tx.date,
+        amount: tx.amount,
+        rule_ids: ruleIds,
+        before,
+        after: txChanges,
+      });
+    }
+
+    if (!dry_run && changes.length > 0) {
+      console.log(`🏷️  Applying ${rules.length} rules to ${changes.length} transactions for user ${user.id}`);
+      await applyRuleChanges(supabase, user.id, changes.map((change) => ({ id: change.id, changes: change.after })));
+    }
+
+    res.json({
+      success: true,
+      dry_run,
+      matched_count: matchedCount,
+      changed_count: changes.length,
+      changes,
+    });
+  } catch (error) {
+    console.error('❌ Error applying categorization rules:', error);
+    res.status(500).json({
+      error: 'Failed to apply categorization rules',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Handle apply-merchant-category operation
+// Copies a corrected transaction's category to every other transaction from the same merchant
+async function handleApplyMerchantCategory(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { transaction_id } = req.body || {};
+    if (!transaction_id) {
+      return res.status(400).json({ error: 'transaction_id is required' });
+    }
+
+    const { data: source, error: sourceError } = await supabase
+      .from('transactions')
+      .select('id, name, merchant_name, category_id, user_category_name')
+      .eq('id', transaction_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (sourceError || !source) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    const { data: similar, error: similarError } = await findMerchantTransactionsToRecategorize(supabase, user.id, source);
+    if (similarError) {
+      console.error('Error finding transactions from the same merchant:', similarError);
+      return res.status(500).json({ error: 'Failed to find matching transactions' });
+    }
+
+    const updatedCount = await applyRuleChanges(
+      supabase,
+      user.id,
+      similar.map((tx) => ({
+        id: tx.id,
+        changes: { category_id: source.category_id || null, user_category_name: source.user_category_name || null },
+      }))
+    );
+
+    console.log(`🏷️  Recategorized ${updatedCount} transactions from ${normalizeMerchant(source.name, source.merchant_name)} as ${source.user_category_name}`);
+
+    res.json({ success: true, updated_count: updatedCount });
+  } catch (error) {
+    console.error('❌ Error applying merchant category:', error);
+    res.status(500).json({ error: 'Failed to apply category to past transactions' });
+  }
+}
+
+// Handle splits operation
+// GET lists a transaction's splits, PUT/POST replaces them and DELETE removes them (unsplits)
+async function handleSplits(req: VercelRequest, res: VercelResponse) {
+  if (!['GET', 'POST', 'PUT', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const transaction_id = getParam(req.query, 'transaction_id') || req.body?.transaction_id;
+    if (!transaction_id) {
+      return res.status(400).json({ error: 'transaction_id is required' });
+    }
+
+    const { data: parent, error: parentError } = await supabase
+      .from('transactions')
+      .select('id, amount, accounts!account_id ( archived_at )')
+      .eq('id', transaction_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (parentError || !parent) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    if (req.method !== 'GET' && isArchivedTransaction(parent)) {
+      return res.status(400).json({ error: ARCHIVED_TRANSACTION_ERROR });
+    }
+
+    if (req.method === 'GET') {
+      const { data: splits, error } = await supabase
+        .from('transaction_splits')
+        .select('*, transaction_categories (name, icon, color)')
+        .eq('transaction_id', transaction_id)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching transaction splits:', error);
+        return res.status(500).json({ error: 'Failed to fetch transaction splits' });
+      }
+
+      return res.json({ splits: splits || [] });
+    }
+
+    if (req.method === 'DELETE') {
+      const { error } = await supabase
+        .from('transaction_splits')
+        .delete()
+        .eq('transaction_id', transaction_id)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error removing transaction splits:', error);
+        return res.status(500).json({ error: 'Failed to remove transaction splits' });
+      }
+      return res.json({ success: true });
+    }
+
+    const splits = Array.isArray(req.body?.splits) ? req.body.splits : [];
+    const validationError = validateSplits(Number(parent.amount), splits);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Saving replaces the transaction's existing splits; the database function
+    // deletes and inserts in one transaction so a failure keeps the old splits
+    const { error: replaceError } = await supabase.rpc('replace_transaction_splits', {
+      p_transaction_id: transaction_id,
+      p_splits: splits.map((split: TransactionSplitInput) => ({
+        amount: Number(split.amount),
+        category_id: split.category_id || null,
+        user_category_name: split.user_category_name || null,
+        notes: split.notes || null,
+      })),
+    });
+
+    if (replaceError) {
+      console.error('Error saving transaction splits:', replaceError);
+      return res.status(500).json({ error: 'Failed to save transaction splits' });
+    }
+
+    const { data: saved, error: fetchError } = await supabase
+      .from('transaction_splits')
+      .select('*, transaction_categories (name, icon, color)')
+      .eq('transaction_id', transaction_id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching saved transaction splits:', fetchError);
+      return res.status(500).json({ error: 'Failed to save transaction splits' });
+    }
+
+    console.log(`✂️  Split transaction ${transaction_id} into ${splits.length} parts`);
+
+    res.json({ splits: saved || [] });
+  } catch (error) {
+    console.error('❌ Error handling transaction splits:', error);
+    res.status(500).json({ error: 'Failed to save transaction splits' });
+  }
+}
+
+// Handle match-transfers operation
+// Pairs outflows with inflows in the user's other accounts across their whole history
+async function handleMatchTransfers(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const result = await matchTransfers(supabase, user.id);
+
+    console.log(`🔁 Matched ${result.matched_count} transfers for user ${user.id}, ${result.review_count} need review`);
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ Error matching transfers:', error);
+    res.status(500).json({ error: 'Failed to match transfers' });
+  }
+}
+
+// One side of a pair in the review queue, with whether its account was archived
+type ArchivableTransferSide = TransferSide & { accounts: { archived_at: string | null } | null };
+
+// Handle transfers operation
+// GET lists pairs waiting for review, PATCH confirms or dismisses one and DELETE unlinks a matched transfer
+async function handleTransfers(req: VercelRequest, res: VercelResponse) {
+  if (!['GET', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    if (req.method === 'GET') {
+      const { data: matches, error } = await supabase
+        .from('transfer_matches')
+        .select(`
+          id,
+          amount,
+          day_gap,
+          status,
+          outflow:transactions!outflow_transaction_id (
+            id, name, date, amount, account_id,
+            accounts!account_id (name, mask, institution_name)
+          ),
+          inflow:transactions!inflow_transaction_id (
+            id, name, date, amount, account_id,
+            accounts!account_id (name, mask, institution_name)
+          )
+        `)
+        .eq('user_id', user.id)
+        .eq('status', 'pending')
+        .order('day_gap', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching transfer review queue:', error);
+        return res.status(500).json({ error: 'Failed to fetch transfer review queue' });
+      }
+
+      return res.json({ matches: matches || [] });
+    }
+
+    if (req.method === 'PATCH') {
+      const match_id = getParam(req.query, 'match_id');
+      const { status } = req.body || {};
+      if (!match_id) {
+        return res.status(400).json({ error: 'match_id is required' });
+      }
+      if (status !== 'confirmed' && status !== 'dismissed') {
+        return res.status(400).json({ error: "status must be 'confirmed' or 'dismissed'" });
+      }
+
+      const { data: match, error: matchError } = await supabase
+        .from('transfer_matches')
+        .select<string, { id: string; outflow: ArchivableTransferSide; inflow: ArchivableTransferSide }>(`
+          id,
+          outflow:transactions!outflow_transaction_id (id, account_id, accounts!account_id ( archived_at )),
+          inflow:transactions!inflow_transaction_id (id, account_id, accounts!account_id ( archived_at ))
+        `)
+        .eq('id', match_id)
+        .eq('user_id', user.id)
+        .single();
+
+      if (matchError || !match) {
+        return res.status(404).json({ error: 'Transfer match not found' });
+      }
+
+      if (status === 'confirmed' && (isArchivedTransaction(match.outflow) || isArchivedTransaction(match.inflow))) {
+        return res.status(400).json({ error: ARCHIVED_TRANSACTION_ERROR });
+      }
+
+      if (status === 'confirmed') {
+        await linkTransferPairs(supabase, user.id, [{ outflow: match.outflow, inflow: match.inflow }]);
+        // Neither side can be part of another transfer any more
+        await clearPendingTransferMatches(supabase, user.id, [match.outflow.id, match.inflow.id]);
+      }
+
+      const { error: updateError } = await supabase
+        .from('transfer_matches')
+        .update({ status })
+        .eq('id', match_id)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error updating transfer match:', updateError);
+        return res.status(500).json({ error: 'Failed to update transfer match' });
+      }
+
+      return res.json({ success: true, status });
+    }
+
+    // DELETE: unlink a matched transfer so both sides count as regular transactions again
+    const transaction_id = getParam(req.query, 'transaction_id');
+    if (!transaction_id) {
+      return res.status(400).json({ error: 'transaction_id is required' });
+    }
+    if (typeof transaction_id !== 'string' || !UUID_PATTERN.test(transaction_id)) {
+      return res.status(400).json({ error: 'transaction_id must be a valid id' });
+    }
+
+    const { data: links, error: linkError } = await supabase
+      .from('transfer_matches')
+      .select('id, outflow_transaction_id, inflow_transaction_id')
+      .eq('user_id', user.id)
+      .in('status', ['matched', 'confirmed'])
+      .or(`outflow_transaction_id.eq.${transaction_id},inflow_transaction_id.eq.${transaction_id}`);
+
+    if (linkError) {
+      console.error('Error finding transfer match:', linkError);
+      return res.status(500).json({ error: 'Failed to unlink transfer' });
+    }
+
+    const transactionIds = new Set<string>([transaction_id]);
+    (links || []).forEach((link) => {
+      transactionIds.add(link.outflow_transaction_id);
+      transactionIds.add(link.inflow_transaction_id);
+    });
+
+    const { data: sides, error: sidesError } = await supabase
+      .from('transactions')
+      .select('id, accounts!account_id ( archived_at )')
+      .eq('user_id', user.id)
+      .in('id', Array.from(transactionIds));
+
+    if (sidesError) {
+      console.error('Error fetching transfer transactions:', sidesError);
+      return res.status(500).json({ error: 'Failed to unlink transfer' });
+    }
+    if ((sides || []).some(isArchivedTransaction)) {
+      return res.status(400).json({ error: ARCHIVED_TRANSACTION_ERROR });
+    }
+
+    const { error: resetError } = await supabase
+      .from('transactions')
+      .update({ is_transfer: false, transfer_to_account_id: null })
+      .eq('user_id', user.id)
+      .in('id', Array.from(transactionIds));
+
+    if (resetError) {
+      console.error('Error unlinking transfer:', resetError);
+      return res.status(500).json({ error: 'Failed to unlink transfer' });
+    }
+
+    // Dismissed pairs are never matched again
+    if (links && links.length > 0) {
+      await supabase
+        .from('transfer_matches')
+        .update({ status: 'dismissed' })
+        .eq('user_id', user.id)
+        .in('id', links.map((link) => link.id));
+    }
+
+    res.json({ success: true, unlinked_count: transactionIds.size });
+  } catch (error) {
+    console.error('❌ Error handling transfer review:', error);
+    res.status(500).json({ error: 'Failed to update transfers' });
+  }
+}
+
+// Rows returned in an import preview; counts always cover the whole file
+const IMPORT_PREVIEW_LIMIT = 100;
+
+// Handle import operation
+// POST imports a CSV, OFX or QFX file into a manual account. With dry_run the
+// parsed rows come back flagged as new or duplicate without saving anything; a
+// CSV dry run without a mapping returns the header row and a suggested mapping.
+async function handleImport(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const supabase = createSupabaseClient(token);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return res.status(401).json({ error: 'Invalid token' });
+    }
+
+    const { content, mapping, account_id, account_name, account_type, dry_run = false } = req.body || {};
+    const format = String(req.body?.format || '').toLowerCase() as ImportFormat;
+
+    if (!IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: 'format must be csv, ofx or qfx' });
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ error: 'The file is empty' });
+    }
+
+    // Parse the file
+    let transactions: ImportedTransaction[];
+    let errors: ImportError[];
+    let statement: ReturnType<typeof parseOfx> | null = null;
+
+    if (format === 'csv') {
+      const rows = parseCsv(content);
+      if (rows.length === 0) {
+        return res.status(400).json({ error: 'The file is empty' });
+      }
+
+      // First step of the wizard: show the columns so the user can map them
+      if (!mapping && dry_run) {
+        return res.json({
+          success: true,
+          dry_run: true,
+          format,
+          headers: rows[0],
+          sample_rows: rows.slice(1, 6),
+          suggested_mapping: suggestCsvMapping(rows[0]),
+        });
+      }
+
+      const columnCount = Math.max(...rows.map((row) => row.length));
+      const mappingError = validateCsvMapping(mapping, columnCount);
+      if (mappingError) {
+        return res.status(400).json({ error: mappingError });
+      }
+
+      ({ transactions, errors } = mapCsvRows(rows, mapping));
+    } else {
+      try {
+        statement = parseOfx(content);
+      } catch (error) {
+        return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      }
+      ({ transactions, errors } = statement);
+    }
+
+    // Find the account to import into, or describe the one to create
+    let account: { id: string; name: string } | null = null;
+    let manualAccountId: string | null = null;
+
+    if (account_id) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('id, name, type, plaid_item_id, archived_at')
+        .eq('id', account_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching account:', error);
+        return res.status(500).json({ error: 'Failed to import transactions' });
+      }
+      if (!data) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+      // Plaid would add the same transactions again on its next sync
+      if (data.plaid_item_id || data.archived_at) {
+        return res.status(400).json({ error: 'Files can only be imported into manual accounts' });
+      }
+      account = data;
+    } else if (statement?.account) {
+      // Re-importing a statement from the same bank account lands in the same manual account
+      manualAccountId = `ofx-${statement.account.bank_id || 'card'}-${statement.account.account_id}`;
+      const { data } = await supabase
+        .from('accounts')
+        .select('id, name, type, plaid_item_id')
+        .eq('user_id', user.id)
+        .eq('account_id', manualAccountId)
+        .is('plaid_item_id', null)
+        .maybeSingle();
+      account = data || null;
+    }
+
+    let newAccount: ReturnType<typeof buildManualAccount> | null = null;
+    if (!account) {
+      const ofxAccount = statement?.account || null;
+      const ofxType = ofxAccount ? mapOfxAccountType(ofxAccount.account_type) : null;
+      const mask = ofxAccount ? ofxAccount.account_id.slice(-4) : null;
+      const name = String(account_name || '').trim()
+        || (ofxAccount ? `${ofxAccount.institution_name || 'Imported account'} ••••${mask}` : '');
+      const type = account_type || ofxType?.type || 'depository';
+
+      if (!name) {
+        return res.status(400).json({ error: 'Choose an account or name the new one' });
+      }
+      if (!MANUAL_ACCOUNT_TYPES.includes(type)) {
+        return res.status(400).json({ error: `account_type must be one of: ${MANUAL_ACCOUNT_TYPES.join(', ')}` });
+      }
+
+      newAccount = buildManualAccount(user.id, {
+        name,
+        type,
+        subtype: account_type ? null : ofxType?.subtype,
+        mask,
+        balance: statement?.balance ?? 0,
+        currency_code: ofxAccount?.currency_code,
+        institution_name: ofxAccount?.institution_name,
+      }, manualAccountId || undefined);
+    }
+
+    const existing = account ? await loadExistingForImport(supabase, user.id, account.id, transactions) : [];
+    const rules = await loadActiveRules(supabase, user.id);
+    const merchantMemory = await loadMerchantMemory(supabase, user.id);
+
+    const categorize = (accountId: string) =>
+      markDuplicates(accountId, transactions, existing).map((tx) => ({
+        ...tx,
+        row: applyUserCategorization(mapImportedTransaction(tx, user.id, accountId), rules, merchantMemory),
+      }));
+
+    if (dry_run) {
+      const preview = categorize(account?.id || 'new');
+      const duplicateCount = preview.filter((tx) => tx.duplicate).length;
+
+      return res.json({
+        success: true,
+        dry_run: true,
+        format,
+        account: account
+          ? { id: account.id, name: account.name, is_new: false }
+          : { name: newAccount?.name, type: newAccount?.type, is_new: true },
+        total_count: preview.length,
+        new_count: preview.length - duplicateCount,
+        duplicate_count: duplicateCount,
+        error_count: errors.length,
+        errors: errors.slice(0, IMPORT_PREVIEW_LIMIT),
+        transactions: preview.slice(0, IMPORT_PREVIEW_LIMIT).map(({ row, ...tx }) => ({
+          ...tx,
+          user_category_name: row.user_category_name || null,
+        })),
+      });
+    }
+
+    if (!account) {
+      const { data, error } = await supabase
+        .from('accounts')
+        .insert(newAccount)
+        .select('id, name, type, plaid_item_id')
+        .single();
+
+      if (error) {
+        console.error('Error creating manual account:', error);
+        return res.status(500).json({ error: 'Failed to create account' });
+      }
+      account = data;
+      console.log(`🏦 Created manual account ${account.name} for user ${user.id}`);
+    }
+
+    const rows = categorize(account.id).filter((tx) => !tx.duplicate).map((tx) => tx.row);
+    const duplicateCount = transactions.length - rows.length;
+
+    for (let i = 0; i < rows.length; i += 500) {
+      const { error: insertError } = await supabase
+        .from('transactions')
+        .upsert(rows.slice(i, i + 500), { onConflict: 'account_id,transaction_id', ignoreDuplicates: true });
+
+      if (insertError) {
+        console.error('❌ Error storing imported transactions:', insertError);
+        return res.status(500).json({ error: 'Failed to import transactions', details: insertError.message });
+      }
+    }
+
+    console.log(`📂 Imported ${rows.length} transactions into ${account.name} (${duplicateCount} duplicates skipped)`);
+
+    // OFX statements carry the closing balance
+    if (statement && statement.balance !== null && !newAccount) {
+      await supabase
+        .from('accounts')
+        .update({ balance_current: statement.balance, updated_at: new Date().toISOString() })
+        .eq('id', account.id)
+        .eq('user_id', user.id);
+    }
+    if (statement && statement.balance !== null) {
+      await recordBalanceSnapshots(supabase, user.id, [{ id: account.id, balance_current: statement.balance }], 'import');
+    }
+
+    if (rows.length > 0) {
+      // Pair imported transfers with the other side, which may be a Plaid account
+      try {
+        const earliest = rows.reduce((min, row) => (row.date < min ? row.date : min), rows[0].date);
+        const since = new Date(earliest);
+        since.setDate(since.getDate() - TRANSFER_MATCH_WINDOW_DAYS);
+        await matchTransfers(supabase, user.id, { since: since.toISOString().split('T')[0] });
+      } catch (error) {
+        console.error('❌ Error matching transfers:', error);
+      }
+
+      // Imported history can reveal recurring charges just like synced history
+      try {
+        const { created_count, linked_count } = await syncDetectedRecurring(supabase, user.id);
+        if (created_count > 0 || linked_count > 0) {
+          console.log(`🔁 Detected ${created_count} new recurring stream${created_count !== 1 ? 's' : ''}, linked ${linked_count} transaction${linked_count !== 1 ? 's' : ''}`);
+        }
+      } catch (error) {
+        console.error('❌ Error detecting recurring streams:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: `Imported ${rows.length} transaction${rows.length !== 1 ? 's' : ''}${duplicateCount > 0 ? `, skipped ${duplicateCount} already in ${account.name}` : ''}`,
+      account_id: account.id,
+      account_created: !!newAccount,
+      imported_count: rows.length,
+      duplicate_count: duplicateCount,
+      error_count: errors.length,
+    });
+  } catch (error) {
+    console.error('❌ Error importing transactions:', error);
+    res.status(500).json({
+      error: 'Failed to import transactions',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 // Handle update operation
 async function handleUpdate(req: VercelRequest, res: VercelResponse) {
   try {
@@ -622,6 +1405,24 @@ async function handleUpdate(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'transaction_id is required' });
     }
 
+    const { data: existing, error: existingError } = await supabase
+      .from('transactions')
+      .select('id, accounts!account_id ( archived_at )')
+      .eq('id', transaction_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Error fetching transaction:', existingError);
+      return res.status(500).json({ error: 'Failed to update transaction' });
+    }
+    if (!existing) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+    if (isArchivedTransaction(existing)) {
+      return res.status(400).json({ error: ARCHIVED_TRANSACTION_ERROR });
+    }
+
     // Build update object with only provided fields
     const updates: any = {};
     if (category_id !== undefined) updates.category_id = category_id;
@@ -649,6 +1450,29 @@ async function handleUpdate(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Transaction not found' });
     }
 
+    // Learn from category corrections so the merchant is categorized the same way next time
+    if ((category_id !== undefined || user_category_name !== undefined) &&
+        (data.category_id || data.user_category_name)) {
+      const memory = await recordCategoryCorrection(supabase, user.id, data, {
+        category_id: data.category_id,
+        user_category_name: data.user_category_name,
+      });
+      const { data: similar } = await findMerchantTransactionsToRecategorize(supabase, user.id, data);
+
+      return res.json({
+        transaction: data,
+        learned: memory
+          ? {
+              merchant_key: memory.merchant_key,
+              merchant_name: memory.merchant_name,
+              user_category_name: memory.user_category_name,
+              confidence: Number(memory.confidence),
+            }
+          : null,
+        similar_count: similar.length,
+      });
+    }
+
     return res.json({ transaction: data });
   } catch (error: any) {
     console.error('Error updating transaction:', error);
@@ -672,103 +1496,14 @@ async function handleList(req: VercelRequest, res: VercelResponse) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    // Get user's Plaid items
-    const { data: plaidItems, error: itemsError } = await supabase
-      .from('plaid_items')
-      .select('*')
-      .eq('user_id', user.id);
-
-    if (itemsError || !plaidItems || plaidItems.length === 0) {
-      return res.json({ transactions: [] });
-    }
-
-    // Fetch transactions from Plaid for all items
+    // Read-only: syncing (and the transfer links, rules and merchant memory it
+    // applies) happens through ?action=sync, never on a plain list request
     const now = new Date();
     const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
     const startDate = thirtyDaysAgo.toISOString().split('T')[0];
     const endDate = now.toISOString().split('T')[0];
 
-    // Get encryption key for decrypting access tokens
-    const encryptionKey = process.env.ENCRYPTION_KEY || '';
-
-    for (const item of plaidItems) {
-      try {
-        // Decrypt access token if it's encrypted
-        let accessToken = item.access_token;
-        if (encryptionKey && isEncrypted(accessToken)) {
-          try {
-            accessToken = decrypt(accessToken, encryptionKey);
-          } catch (decryptError) {
-            console.error(`Error decrypting access token for item ${item.id}:`, decryptError);
-            continue; // Skip this item if decryption fails
-          }
-        }
-
-        const response = await plaidClient.transactionsGet({
-          access_token: accessToken,
-          start_date: startDate,
-          end_date: endDate,
-        });
-
-        // Get account mappings
-        const { data: accounts } = await supabase
-          .from('accounts')
-          .select('id, account_id')
-          .eq('plaid_item_id', item.id);
-
-        const accountMap = new Map(accounts?.map(a => [a.account_id, a.id]) || []);
-
-        // Store transactions in database
-        if (response.data.transactions.length > 0) {
-          const transactionsToInsert = response.data.transactions.map((tx: any) => {
-            const dbAccountId = accountMap.get(tx.account_id);
-            return {
-              user_id: user.id,
-              account_id: dbAccountId,
-              transaction_id: tx.transaction_id,
-              amount: tx.amount,
-              date: tx.date,
-              authorized_date: tx.authorized_date || null,
-              posted_date: tx.date,
-              name: tx.name,
-              // Plaid categorization
-              plaid_category: tx.category || [],
-              plaid_primary_category: tx.category?.[0] || null,
-              plaid_detailed_category: tx.category ? tx.category.join(' > ') : null,
-              // Merchant and location
-              merchant_name: tx.merchant_name || null,
-              location_city: tx.location?.city || null,
-              location_state: tx.location?.region || null,
-              location_country: tx.location?.country || null,
-              location_address: tx.location?.address || null,
-              location_lat: tx.location?.lat || null,
-              location_lon: tx.location?.lon || null,
-              // Transaction metadata
-              // Plaid: positive = debit (expense), negative = credit (income)
-              transaction_type: tx.amount > 0 ? 'expense' : 'income',
-              payment_channel: tx.payment_channel || null,
-              check_number: tx.check_number || null,
-              // Flags
-              pending: tx.pending || false,
-              is_transfer: tx.amount === 0 || false,
-            };
-          }).filter((tx: any) => tx.account_id);
-
-          if (transactionsToInsert.length > 0) {
-            await supabase
-              .from('transactions')
-              .upsert(transactionsToInsert, {
-                onConflict: 'account_id,transaction_id',
-              });
-          }
-        }
-      } catch (error: any) {
-        console.error(`Error fetching transactions for item ${item.id}:`, error);
-      }
-    }
-
-    // Return transactions from database (more reliable)
-    const { data: dbTransactions } = await supabase
+    const { data: dbTransactions, error: transactionsError } = await supabase
       .from('transactions')
       .select(`
         *,
@@ -791,6 +1526,8 @@ async function handleList(req: VercelRequest, res: VercelResponse) {
       .order('date', { ascending: false })
       .limit(500);
 
+    if (transactionsError) throw transactionsError;
+
     res.json({ transactions: dbTransactions || [] });
   } catch (error: any) {
     console.error('Error fetching transactions:', error);
@@ -0,0 +1,290 @@
+/**
+ * Read-only query tools for the AI advisor
+ * The model asks for data by calling these; every tool runs with the user's
+ * own Supabase client and user id, so it can only ever see that user's rows.
+ * Spending and income use the same definitions as the Spending page (see
+ * lib/analytics.ts).
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  formatDateKey,
+  getCategoryName,
+  isExpense,
+  isIncome,
+  loadAnalyticsTransactions,
+  type AnalyticsTransaction,
+} from './analytics.js';
+
+const DEFAULT_RANGE_DAYS = 90;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_GROUPS = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Arguments as the model sent them; any may be missing or of the wrong type
+type ToolArguments = Record<string, unknown>;
+
+// Tool definitions in the OpenAI function-calling format that OpenRouter accepts
+export const ADVISOR_TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_transactions',
+      description:
+        'Find individual transactions. Amounts are positive for money spent and negative for money received. Defaults to the last 90 days.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to match in the transaction or merchant name, e.g. "Trader Joe"' },
+          category: { type: 'string', description: 'Exact category name, e.g. "Groceries"' },
+          start_date: { type: 'string', description: 'YYYY-MM-DD, inclusive' },
+          end_date: { type: 'string', description: 'YYYY-MM-DD, inclusive' },
+          min_amount: { type: 'number', description: 'Smallest absolute amount' },
+          max_amount: { type: 'number', description: 'Largest absolute amount' },
+          type: { type: 'string', enum: ['spending', 'income', 'any'], description: 'Defaults to any' },
+          limit: { type: 'integer', description: `Most transactions to return, up to ${MAX_SEARCH_RESULTS}` },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'aggregate_transactions',
+      description:
+        'Total spending or income over a date range, grouped by category, merchant, month, week or day. Use it to compare periods by calling it once per period.',
+      parameters: {
+        type: 'object',
+        properties: {
+          start_date: { type: 'string', description: 'YYYY-MM-DD, inclusive' },
+          end_date: { type: 'string', description: 'YYYY-MM-DD, inclusive' },
+          group_by: { type: 'string', enum: ['category', 'merchant', 'month', 'week', 'day'] },
+          kind: { type: 'string', enum: ['spending', 'income'], description: 'Defaults to spending' },
+          query: { type: 'string', description: 'Only count transactions whose name or merchant contains this text' },
+          category: { type: 'string', description: 'Only count this category' },
+          limit: { type: 'integer', description: `Most groups to return, up to ${MAX_GROUPS}` },
+        },
+        required: ['start_date', 'end_date', 'group_by'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_recurring',
+      description: 'Recurring bills, subscriptions and income streams with their expected amount and next due date.',
+      parameters: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['expense', 'income', 'any'], description: 'Defaults to any' },
+          active_only: { type: 'boolean', description: 'Defaults to true' },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_account_balances',
+      description: 'Current balance of every account. Manual accounts (homes, cars) hold the user\'s own estimate.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+];
+
+function resolveRange(args: ToolArguments): { start_date: string; end_date: string } {
+  const end = typeof args.end_date === 'string' && DATE_PATTERN.test(args.end_date) ? args.end_date : formatDateKey(new Date());
+  let start = typeof args.start_date === 'string' && DATE_PATTERN.test(args.start_date) ? args.start_date : null;
+  if (!start) {
+    const startDate = new Date(`${end}T00:00:00Z`);
+    startDate.setUTCDate(startDate.getUTCDate() - (DEFAULT_RANGE_DAYS - 1));
+    start = formatDateKey(startDate);
+  }
+  return start <= end ? { start_date: start, end_date: end } : { start_date: end, end_date: start };
+}
+
+function clampLimit(value: unknown, fallback: number, max: number): number {
+  const parsed = Math.floor(Number(value));
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+function matchesText(tx: AnalyticsTransaction, query: unknown): boolean {
+  if (!query) return true;
+  const needle = String(query).toLowerCase();
+  return `${tx.name || ''} ${tx.merchant_name || ''}`.toLowerCase().includes(needle);
+}
+
+function matchesCategory(tx: AnalyticsTransaction, category: unknown): boolean {
+  if (!category) return true;
+  return getCategoryName(tx).toLowerCase() === String(category).toLowerCase();
+}
+
+// ISO week start (Monday) for weekly grouping
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return formatDateKey(day);
+}
+
+async function searchTransactions(supabase: SupabaseClient, userId: string, args: ToolArguments) {
+  const range = resolveRange(args);
+  const limit = clampLimit(args.limit, 25, MAX_SEARCH_RESULTS);
+  const type = args.type === 'spending' || args.type === 'income' ? args.type : 'any';
+  const minAmount = args.min_amount != null ? Number(args.min_amount) : null;
+  const maxAmount = args.max_amount != null ? Number(args.max_amount) : null;
+
+  const transactions = await loadAnalyticsTransactions(supabase, userId, range.start_date, range.end_date);
+  const matches = transactions
+    .filter((tx) => matchesText(tx, args.query) && matchesCategory(tx, args.category))
+    .filter((tx) => (type === 'spending' ? isExpense(tx) : type === 'income' ? isIncome(tx) : true))
+    .filter((tx) => {
+      const amount = Math.abs(Number(tx.amount));
+      return (minAmount == null || amount >= minAmount) && (maxAmount == null || amount <= maxAmount);
+    })
+    .sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0));
+
+  return {
+    ...range,
+    match_count: matches.length,
+    total_amount: roundMoney(matches.reduce((sum, tx) => sum + Number(tx.amount), 0)),
+    transactions: matches.slice(0, limit).map((tx) => ({
+      date: tx.date,
+      name: tx.merchant_name || tx.name,
+      amount: roundMoney(Number(tx.amount)),
+      category: getCategoryName(tx),
+    })),
+    truncated: matches.length > limit,
+  };
+}
+
+async function aggregateTransactions(supabase: SupabaseClient, userId: string, args: ToolArguments) {
+  const range = resolveRange(args);
+  const groupBy = typeof args.group_by === 'string' && ['category', 'merchant', 'month', 'week', 'day'].includes(args.group_by)
+    ? args.group_by
+    : 'category';
+  const kind = args.kind === 'income' ? 'income' : 'spending';
+  const limit = clampLimit(args.limit, 20, MAX_GROUPS);
+
+  const transactions = await loadAnalyticsTransactions(supabase, userId, range.start_date, range.end_date);
+  const counted = transactions
+    .filter(kind === 'income' ? isIncome : isExpense)
+    .filter((tx) => matchesText(tx, args.query) && matchesCategory(tx, args.category));
+
+  const groups = new Map<string, { amount: number; count: number }>();
+  counted.forEach((tx) => {
+    const key =
+      groupBy === 'category' ? getCategoryName(tx)
+        : groupBy === 'merchant' ? tx.merchant_name || tx.name || 'Unknown'
+          : groupBy === 'month' ? String(tx.date).slice(0, 7)
+            : groupBy === 'week' ? weekStart(String(tx.date))
+              : String(tx.date);
+    const entry = groups.get(key) || { amount: 0, count: 0 };
+    // Income is stored as negative amounts; report both kinds as positive totals
+    entry.amount += Math.abs(Number(tx.amount));
+    entry.count += 1;
+    groups.set(key, entry);
+  });
+
+  const byTime = groupBy === 'month' || groupBy === 'week' || groupBy === 'day';
+  const rows = Array.from(groups.entries())
+    .map(([key, entry]) => ({ key, amount: roundMoney(entry.amount), count: entry.count }))
+    .sort((a, b) => (byTime ? a.key.localeCompare(b.key) : b.amount - a.amount));
+
+  return {
+    ...range,
+    kind,
+    group_by: groupBy,
+    total: roundMoney(rows.reduce((sum, row) => sum + row.amount, 0)),
+    transaction_count: counted.length,
+    groups: rows.slice(0, limit),
+    truncated: rows.length > limit,
+  };
+}
+
+async function listRecurring(supabase: SupabaseClient, userId: string, args: ToolArguments) {
+  let query = supabase
+    .from('recurring_transactions')
+    .select('name, merchant_name, expected_amount, frequency, next_due_date, last_transaction_date, transaction_type, is_subscription, is_active')
+    .eq('user_id', userId)
+    .eq('not_recurring', false)
+    .is('merged_into_id', null);
+
+  if (args.active_only !== false) {
+    query = query.eq('is_active', true);
+  }
+  if (args.type === 'expense' || args.type === 'income') {
+    query = query.eq('transaction_type', args.type);
+  }
+
+  const { data, error } = await query.order('expected_amount', { ascending: false }).limit(100);
+  if (error) {
+    throw new Error(`Failed to load recurring streams: ${error.message}`);
+  }
+
+  return {
+    streams: (data || []).map((stream) => ({
+      name: stream.merchant_name || stream.name,
+      amount: roundMoney(Number(stream.expected_amount || 0)),
+      frequency: stream.frequency,
+      type: stream.transaction_type,
+      subscription: !!stream.is_subscription,
+      active: stream.is_active !== false,
+      next_due_date: stream.next_due_date,
+      last_charged: stream.last_transaction_date,
+    })),
+  };
+}
+
+async function getAccountBalances(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('name, institution_name, type, subtype, mask, balance_current, balance_available, plaid_item_id')
+    .eq('user_id', userId)
+    .is('archived_at', null)
+    .order('balance_current', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load accounts: ${error.message}`);
+  }
+
+  return {
+    accounts: (data || []).map((account) => ({
+      name: account.name,
+      institution: account.institution_name,
+      type: account.type,
+      subtype: account.subtype,
+      mask: account.mask,
+      balance: roundMoney(Number(account.balance_current || 0)),
+      available: account.balance_available != null ? roundMoney(Number(account.balance_available)) : null,
+      manual: !account.plaid_item_id,
+    })),
+  };
+}
+
+/**
+ * Run one tool call from the model. Unknown tools and bad arguments come back
+ * as an error object for the model to read rather than failing the chat.
+ */
+export async function runAdvisorTool(supabase: SupabaseClient, userId: string, name: string, rawArguments: string | undefined) {
+  let args: ToolArguments = {};
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { error: 'Arguments must be valid JSON' };
+  }
+
+  switch (name) {
+    case 'search_transactions':
+      return searchTransactions(supabase, userId, args);
+    case 'aggregate_transactions':
+      return aggregateTransactions(supabase, userId, args);
+    case 'list_recurring':
+      return listRecurring(supabase, userId, args);
+    case 'get_account_balances':
+      return getAccountBalances(supabase, userId);
+    default:
+      return { error: `Unknown tool: ${name}` };
+  }
+}
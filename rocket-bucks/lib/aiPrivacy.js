@@ -0,0 +1,379 @@
+/**
+ * Privacy controls for what the AI advisor sends to its model provider
+ * Plain JavaScript so both the Vercel functions and server.js can use it.
+ *
+ * Each user picks an ai_privacy_level:
+ *   full       - account, institution and merchant names as stored
+ *   anonymized - those names become labels such as [Merchant 3]; the model's
+ *                answers and tool arguments are mapped back to the real names
+ *                before anyone sees or runs them
+ *   aggregates - anonymized, and only totals: no individual transactions,
+ *                accounts or bills in the snapshot, and only the category and
+ *                time-period totals tool
+ *
+ * Every prompt passes through withRedaction on its way to the provider, and
+ * the messages it actually sent are written to ai_context_audit first, so the
+ * user can see exactly what was shared.
+ */
+
+export const PRIVACY_LEVELS = ['full', 'anonymized', 'aggregates'];
+export const DEFAULT_PRIVACY_LEVEL = 'full';
+
+// Names shorter than this are too likely to match ordinary words
+const MIN_NAME_LENGTH = 3;
+// Merchant names seen in the last year are redacted even when the user types them
+const KNOWN_MERCHANT_DAYS = 365;
+const MAX_KNOWN_MERCHANTS = 5000;
+const LABEL_PATTERN = /\[(Account|Bank|Merchant) \d+\]/g;
+const MAX_LABEL_LENGTH = 20;
+const LABEL_KINDS = { account: 'Account', bank: 'Bank', merchant: 'Merchant' };
+// The only tool that returns totals rather than individual rows
+const AGGREGATE_TOOL = 'aggregate_transactions';
+
+export function isPrivacyLevel(value) {
+  return PRIVACY_LEVELS.includes(value);
+}
+
+export async function getPrivacyLevel(supabase, userId) {
+  const { data, error } = await supabase
+    .from('users')
+    .select('ai_privacy_level')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load AI privacy setting: ${error.message}`);
+  }
+  return isPrivacyLevel(data?.ai_privacy_level) ? data.ai_privacy_level : DEFAULT_PRIVACY_LEVEL;
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Swap names for stable labels within one request and back again.
+ * Labels are numbered in the order names are first seen, so the same
+ * merchant is always [Merchant 2] across the snapshot, history and tool results.
+ */
+export function createRedactor(level) {
+  const labelsByName = new Map();
+  const namesByLabel = new Map();
+  const counts = { account: 0, bank: 0, merchant: 0 };
+  let namePattern = null;
+
+  const register = (kind, name) => {
+    if (level === 'full' || typeof name !== 'string') return name;
+    const trimmed = name.trim();
+    if (trimmed.length < MIN_NAME_LENGTH) return name;
+
+    const key = trimmed.toLowerCase();
+    if (!labelsByName.has(key)) {
+      counts[kind] += 1;
+      const label = `[${LABEL_KINDS[kind]} ${counts[kind]}]`;
+      labelsByName.set(key, label);
+      namesByLabel.set(label, trimmed);
+      namePattern = null;
+    }
+    return labelsByName.get(key);
+  };
+
+  const redactText = (text) => {
+    if (level === 'full' || !text || labelsByName.size === 0) return text;
+    if (!namePattern) {
+      // Longest first, so "Chase Sapphire" wins over "Chase"
+      const alternatives = Array.from(labelsByName.keys())
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp);
+      namePattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+    }
+    return text.replace(namePattern, (match) => labelsByName.get(match.toLowerCase()) || match);
+  };
+
+  const restoreText = (text) => {
+    if (level === 'full' || !text) return text;
+    return text.replace(LABEL_PATTERN, (label) => namesByLabel.get(label) || label);
+  };
+
+  // Tool arguments are JSON, so labels are restored inside the parsed strings
+  const restoreArguments = (rawArguments) => {
+    if (level === 'full' || !rawArguments) return rawArguments;
+    try {
+      return JSON.stringify(JSON.parse(rawArguments), (_key, value) =>
+        typeof value === 'string' ? restoreText(value) : value
+      );
+    } catch {
+      return restoreText(rawArguments);
+    }
+  };
+
+  /**
+   * The financial snapshot as the model may see it. Expects the context built
+   * by the chat handlers (accounts.topAccounts, spending.largePurchases, ...).
+   */
+  const redactContext = (context) => {
+    if (level === 'full' || !context) return context;
+    const copy = JSON.parse(JSON.stringify(context));
+
+    if (level === 'aggregates') {
+      copy.accounts.topAccounts = [];
+      copy.spending.largePurchases = [];
+      copy.recurring.upcomingCharges = [];
+      copy.recurring.largestCharges = [];
+      return copy;
+    }
+
+    copy.accounts.topAccounts.forEach((account) => {
+      account.name = register('account', account.name);
+      account.institution = register('bank', account.institution);
+    });
+    copy.spending.largePurchases.forEach((purchase) => {
+      purchase.name = register('merchant', purchase.name);
+    });
+    copy.recurring.upcomingCharges.forEach((charge) => {
+      charge.name = register('merchant', charge.name);
+    });
+    copy.recurring.largestCharges.forEach((charge) => {
+      charge.name = register('merchant', charge.name);
+    });
+    return copy;
+  };
+
+  /**
+   * A tool result (see lib/advisorTools.ts) as the model may see it
+   */
+  const redactToolResult = (result) => {
+    if (level === 'full' || !result || typeof result !== 'object') return result;
+    const copy = JSON.parse(JSON.stringify(result));
+
+    (copy.transactions || []).forEach((transaction) => {
+      transaction.name = register('merchant', transaction.name);
+    });
+    (copy.streams || []).forEach((stream) => {
+      stream.name = register('merchant', stream.name);
+    });
+    (copy.accounts || []).forEach((account) => {
+      account.name = register('account', account.name);
+      account.institution = register('bank', account.institution);
+      delete account.mask;
+    });
+    if (copy.group_by === 'merchant') {
+      (copy.groups || []).forEach((group) => {
+        group.key = register('merchant', group.key);
+      });
+    }
+    return copy;
+  };
+
+  const allowsTool = (name, args) => {
+    if (level !== 'aggregates') return true;
+    return name === AGGREGATE_TOOL && args?.group_by !== 'merchant';
+  };
+
+  // At the aggregates level only the totals tool is offered, without merchant grouping
+  const filterTools = (tools) => {
+    if (level !== 'aggregates' || !tools) return tools;
+    const allowed = tools
+      .filter((tool) => tool.function?.name === AGGREGATE_TOOL)
+      .map((tool) => {
+        const copy = JSON.parse(JSON.stringify(tool));
+        const groupBy = copy.function.parameters?.properties?.group_by;
+        if (groupBy?.enum) {
+          groupBy.enum = groupBy.enum.filter((value) => value !== 'merchant');
+        }
+        copy.function.description = copy.function.description.replace('category, merchant, month', 'category, month');
+        return copy;
+      });
+    return allowed.length ? allowed : undefined;
+  };
+
+  return {
+    level,
+    register,
+    redactText,
+    restoreText,
+    restoreArguments,
+    redactContext,
+    redactToolResult,
+    allowsTool,
+    filterTools,
+  };
+}
+
+/**
+ * The user's redactor, primed with the names of their accounts, banks,
+ * bills and recent merchants so those are caught wherever they appear,
+ * including in questions the user types and earlier answers in the thread
+ */
+export async function loadRedactor(supabase, userId) {
+  const level = await getPrivacyLevel(supabase, userId);
+  const redactor = createRedactor(level);
+  if (level === 'full') {
+    return redactor;
+  }
+
+  const since = new Date();
+  since.setDate(since.getDate() - KNOWN_MERCHANT_DAYS);
+
+  const [accountsResult, recurringResult, merchantsResult] = await Promise.all([
+    supabase.from('accounts').select('name, institution_name').eq('user_id', userId),
+    supabase.from('recurring_transactions').select('name, merchant_name').eq('user_id', userId),
+    supabase
+      .from('transactions')
+      .select('merchant_name')
+      .eq('user_id', userId)
+      .not('merchant_name', 'is', null)
+      .gte('date', since.toISOString().split('T')[0])
+      .limit(MAX_KNOWN_MERCHANTS),
+  ]);
+
+  // Without the names nothing could be redacted reliably, so don't send anything
+  const failed = accountsResult.error || recurringResult.error || merchantsResult.error;
+  if (failed) {
+    throw new Error(`Failed to load names for AI redaction: ${failed.message}`);
+  }
+
+  (accountsResult.data || []).forEach((account) => {
+    redactor.register('account', account.name);
+    redactor.register('bank', account.institution_name);
+  });
+  (recurringResult.data || []).forEach((stream) => {
+    redactor.register('merchant', stream.merchant_name);
+    redactor.register('merchant', stream.name);
+  });
+  (merchantsResult.data || []).forEach((transaction) => {
+    redactor.register('merchant', transaction.merchant_name);
+  });
+
+  return redactor;
+}
+
+// Pass streamed text through restoreText, holding back a label that is still arriving ("[Merch")
+function createStreamRestorer(redactor, emit) {
+  let pending = '';
+  return {
+    push: (text) => {
+      pending += text;
+      const open = pending.lastIndexOf('[');
+      const hold =
+        open !== -1 && !pending.includes(']', open) && pending.length - open < MAX_LABEL_LENGTH ? open : pending.length;
+      const ready = pending.slice(0, hold);
+      pending = pending.slice(hold);
+      if (ready) emit(redactor.restoreText(ready));
+    },
+    flush: () => {
+      if (pending) emit(redactor.restoreText(pending));
+      pending = '';
+    },
+  };
+}
+
+/**
+ * Wrap a provider (see lib/llmProviders.js) so every request is redacted
+ * before it is sent and every reply is restored before it is returned.
+ * onSend receives each request exactly as the provider will get it and may
+ * return a promise; if that rejects, the request is not sent.
+ */
+export function withRedaction(provider, redactor, { onSend } = {}) {
+  const prepare = async (request) => {
+    const redacted = {
+      ...request,
+      messages: request.messages.map((message) => ({
+        ...message,
+        content: typeof message.content === 'string' ? redactor.redactText(message.content) : message.content,
+        ...(Array.isArray(message.tool_calls)
+          ? {
+              tool_calls: message.tool_calls.map((call) => ({
+                ...call,
+                function: { ...call.function, arguments: redactor.redactText(call.function?.arguments || '') },
+              })),
+            }
+          : {}),
+      })),
+      tools: redactor.filterTools(request.tools),
+    };
+    if (onSend) {
+      await onSend(redacted);
+    }
+    return redacted;
+  };
+
+  const restore = (result) => ({
+    ...result,
+    message: {
+      ...result.message,
+      content: redactor.restoreText(result.message.content),
+      ...(result.message.tool_calls
+        ? {
+            tool_calls: result.message.tool_calls.map((call) => ({
+              ...call,
+              function: { ...call.function, arguments: redactor.restoreArguments(call.function?.arguments) },
+            })),
+          }
+        : {}),
+    },
+  });
+
+  return {
+    ...provider,
+    complete: async (request, options) => restore(await provider.complete(await prepare(request), options)),
+    stream: async (request, { onToken, signal }) => {
+      const restorer = createStreamRestorer(redactor, onToken);
+      const result = await provider.stream(await prepare(request), { onToken: restorer.push, signal });
+      restorer.flush();
+      return restore(result);
+    },
+  };
+}
+
+/**
+ * One ai_context_audit row per question. record runs before each request to
+ * the model (one per round of tool calls) and keeps the latest messages, which
+ * include everything sent in earlier rounds; finish stores the outcome.
+ */
+export function createContextAudit(supabase, userId, { conversation_id = null, privacy_level, provider, model }) {
+  let auditId = null;
+  let rounds = 0;
+
+  const record = async (request) => {
+    rounds += 1;
+    const fields = { sent_messages: request.messages, rounds, updated_at: new Date().toISOString() };
+
+    if (!auditId) {
+      const { data, error } = await supabase
+        .from('ai_context_audit')
+        .insert({ user_id: userId, conversation_id, privacy_level, provider, model, status: 'sent', ...fields })
+        .select('id')
+        .single();
+      if (error) {
+        throw new Error(`Failed to record AI context audit: ${error.message}`);
+      }
+      auditId = data.id;
+      return;
+    }
+
+    const { error } = await supabase
+      .from('ai_context_audit')
+      .update(fields)
+      .eq('id', auditId)
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to record AI context audit: ${error.message}`);
+    }
+  };
+
+  // The data has already been sent by now, so a failure here is only logged
+  const finish = async (outcome) => {
+    if (!auditId) return;
+    const { error } = await supabase
+      .from('ai_context_audit')
+      .update({ ...outcome, updated_at: new Date().toISOString() })
+      .eq('id', auditId)
+      .eq('user_id', userId);
+    if (error) {
+      console.error('Error updating AI context audit:', error);
+    }
+  };
+
+  return { record, finish };
+}
@@ -0,0 +1,347 @@
+/**
+ * Financial analytics
+ * The single definition of spending, income, bills and cash flow used by the
+ * insights endpoint, budgets and the AI context, so every view shows the same numbers
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+import { expandSplits, type SplittableTransaction } from './splits.js';
+
+export type SeriesGrouping = 'day' | 'month';
+
+export interface InsightsOptions {
+  start_date: string;
+  end_date: string;
+  group_by?: SeriesGrouping;
+  compare?: boolean;
+  limit?: number;
+}
+
+export interface PeriodTotals {
+  start_date: string;
+  end_date: string;
+  spending: number;
+  income: number;
+  bills: number;
+  net_cash_flow: number;
+  expense_count: number;
+  income_count: number;
+}
+
+export interface Insights extends PeriodTotals {
+  categories: { name: string; amount: number; count: number; percent: number }[];
+  top_merchants: { name: string; amount: number; count: number; average: number }[];
+  largest_purchases: { id: string; name: string; date: string; amount: number; category: string }[];
+  series: { group_by: SeriesGrouping; points: { date: string; amount: number }[] };
+  previous?: PeriodTotals;
+}
+
+// A transaction as loaded for analytics, or one part of a split transaction
+export interface AnalyticsTransaction extends SplittableTransaction {
+  date: string;
+  name?: string | null;
+  merchant_name?: string | null;
+  transaction_type?: string | null;
+  is_transfer?: boolean | null;
+  is_recurring?: boolean | null;
+  excluded_from_budget?: boolean | null;
+}
+
+// The fields that decide whether a transaction is spending, income or a bill
+export type ClassifiableTransaction = Pick<
+  AnalyticsTransaction,
+  'amount' | 'transaction_type' | 'is_transfer' | 'is_recurring' | 'user_category_name' | 'plaid_primary_category' | 'transaction_categories'
+>;
+
+type CategorizedTransaction = Pick<ClassifiableTransaction, 'user_category_name' | 'plaid_primary_category' | 'transaction_categories'>;
+
+// A purchase with the amounts of its split parts added back together
+type Purchase = AnalyticsTransaction & { amount: number };
+
+const BILL_CATEGORIES = new Set(['Bills & Utilities', 'Bills and Utilities']);
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getCategoryName(tx: CategorizedTransaction): string {
+  return tx.user_category_name ||
+         tx.transaction_categories?.name ||
+         tx.plaid_primary_category ||
+         'Uncategorized';
+}
+
+/**
+ * Money spent: debits that are not transfers between the user's own accounts
+ * and are not categorized as Income or Transfer
+ */
+export function isExpense(tx: ClassifiableTransaction): boolean {
+  const categoryName = getCategoryName(tx);
+  return tx.transaction_type === 'expense' &&
+         Number(tx.amount) > 0 &&
+         !tx.is_transfer &&
+         categoryName !== 'Income' &&
+         categoryName !== 'Transfer';
+}
+
+/**
+ * Money earned: transactions the user or Plaid categorized as Income
+ */
+export function isIncome(tx: ClassifiableTransaction): boolean {
+  return getCategoryName(tx) === 'Income' && !tx.is_transfer;
+}
+
+/**
+ * Bills: recurring debits and anything in a bills category
+ */
+export function isBill(tx: ClassifiableTransaction): boolean {
+  return tx.transaction_type === 'expense' &&
+         Number(tx.amount) > 0 &&
+         !tx.is_transfer &&
+         (!!tx.is_recurring || BILL_CATEGORIES.has(getCategoryName(tx)));
+}
+
+export function formatDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * The period of the same length ending the day before `startDate`
+ */
+export function getPreviousPeriod(startDate: string, endDate: string): { start_date: string; end_date: string } {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+
+  const previousEnd = new Date(start);
+  previousEnd.setUTCDate(previousEnd.getUTCDate() - 1);
+  const previousStart = new Date(previousEnd);
+  previousStart.setUTCDate(previousStart.getUTCDate() - days);
+
+  return { start_date: formatDateKey(previousStart), end_date: formatDateKey(previousEnd) };
+}
+
+function inRange(tx: AnalyticsTransaction, startDate: string, endDate: string): boolean {
+  const date = String(tx.date || '').slice(0, 10);
+  return !!date && date >= startDate && date <= endDate;
+}
+
+export function calculatePeriodTotals(transactions: AnalyticsTransaction[], startDate: string, endDate: string): PeriodTotals {
+  const periodTx = transactions.filter((tx) => inRange(tx, startDate, endDate));
+  const expenses = periodTx.filter(isExpense);
+  const incomes = periodTx.filter(isIncome);
+
+  const spending = roundMoney(expenses.reduce((sum, tx) => sum + Number(tx.amount), 0));
+  // Income is stored as negative amounts (Plaid convention)
+  const income = roundMoney(incomes.reduce((sum, tx) => sum + Math.abs(Number(tx.amount || 0)), 0));
+  const bills = roundMoney(periodTx.filter(isBill).reduce((sum, tx) => sum + Number(tx.amount), 0));
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    spending,
+    income,
+    bills,
+    net_cash_flow: roundMoney(income - spending),
+    expense_count: expenses.length,
+    income_count: incomes.length,
+  };
+}
+
+export function calculateCategoryBreakdown(transactions: AnalyticsTransaction[]): Insights['categories'] {
+  const totals = new Map<string, { amount: number; count: number }>();
+  transactions.filter(isExpense).forEach((tx) => {
+    const name = getCategoryName(tx);
+    const entry = totals.get(name) || { amount: 0, count: 0 };
+    entry.amount += Number(tx.amount);
+    entry.count += 1;
+    totals.set(name, entry);
+  });
+
+  const total = Array.from(totals.values()).reduce((sum, entry) => sum + entry.amount, 0);
+
+  return Array.from(totals.entries())
+    .map(([name, entry]) => ({
+      name,
+      amount: roundMoney(entry.amount),
+      count: entry.count,
+      percent: total > 0 ? Math.round((entry.amount / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Group expense amounts back onto the transaction they came from, so a split
+ * purchase counts once at the size of its spending portion
+ */
+function groupPurchases(transactions: AnalyticsTransaction[]): Purchase[] {
+  const purchases = new Map<string, Purchase>();
+  transactions.filter(isExpense).forEach((tx) => {
+    const id = tx.parent_transaction_id || tx.id;
+    const existing = purchases.get(id);
+    if (existing) {
+      existing.amount += Number(tx.amount);
+    } else {
+      purchases.set(id, { ...tx, id, amount: Number(tx.amount) });
+    }
+  });
+  return Array.from(purchases.values());
+}
+
+export function calculateTopMerchants(transactions: AnalyticsTransaction[], limit = 3): Insights['top_merchants'] {
+  const totals = new Map<string, { amount: number; count: number }>();
+  groupPurchases(transactions).forEach((tx) => {
+    const name = tx.merchant_name || tx.name || 'Unknown';
+    const entry = totals.get(name) || { amount: 0, count: 0 };
+    entry.amount += tx.amount;
+    entry.count += 1;
+    totals.set(name, entry);
+  });
+
+  return Array.from(totals.entries())
+    .map(([name, entry]) => ({
+      name,
+      amount: roundMoney(entry.amount),
+      count: entry.count,
+      average: roundMoney(entry.amount / entry.count),
+    }))
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, limit);
+}
+
+export function calculateLargestPurchases(transactions: AnalyticsTransaction[], limit = 3): Insights['largest_purchases'] {
+  return groupPurchases(transactions)
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, limit)
+    .map((tx) => ({
+      id: tx.id,
+      name: tx.merchant_name || tx.name || 'Transaction',
+      date: tx.date,
+      amount: roundMoney(tx.amount),
+      category: tx.is_split ? 'Split' : getCategoryName(tx),
+    }));
+}
+
+/**
+ * Spending per day or month across the whole range, including empty buckets
+ */
+export function buildSpendingSeries(
+  transactions: AnalyticsTransaction[],
+  startDate: string,
+  endDate: string,
+  groupBy: SeriesGrouping
+): Insights['series'] {
+  const keyLength = groupBy === 'month' ? 7 : 10;
+  const totals = new Map<string, number>();
+
+  const cursor = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (cursor <= end) {
+    totals.set(formatDateKey(cursor).slice(0, keyLength), 0);
+    if (groupBy === 'month') {
+      cursor.setUTCDate(1);
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+
+  transactions.filter(isExpense).forEach((tx) => {
+    const key = String(tx.date).slice(0, keyLength);
+    if (totals.has(key)) {
+      totals.set(key, totals.get(key)! + Number(tx.amount));
+    }
+  });
+
+  return {
+    group_by: groupBy,
+    points: Array.from(totals.entries()).map(([date, amount]) => ({ date, amount: roundMoney(amount) })),
+  };
+}
+
+/**
+ * Compute every insight for transactions already expanded into their splits
+ */
+export function summarizeTransactions(transactions: AnalyticsTransaction[], options: InsightsOptions): Insights {
+  const { start_date, end_date } = options;
+  const periodTx = transactions.filter((tx) => inRange(tx, start_date, end_date));
+  const limit = options.limit ?? 3;
+
+  return {
+    ...calculatePeriodTotals(periodTx, start_date, end_date),
+    categories: calculateCategoryBreakdown(periodTx),
+    top_merchants: calculateTopMerchants(periodTx, limit),
+    largest_purchases: calculateLargestPurchases(periodTx, limit),
+    series: buildSpendingSeries(periodTx, start_date, end_date, options.group_by || 'day'),
+  };
+}
+
+/**
+ * Load the user's transactions in a date range with splits expanded
+ */
+export async function loadAnalyticsTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  startDate: string,
+  endDate: string
+): Promise<AnalyticsTransaction[]> {
+  const { data, error } = await fetchAllRows(() => supabase
+    .from('transactions')
+    .select<string, AnalyticsTransaction>(`
+      id,
+      amount,
+      date,
+      name,
+      merchant_name,
+      plaid_primary_category,
+      user_category_name,
+      category_id,
+      transaction_type,
+      is_transfer,
+      is_recurring,
+      excluded_from_budget,
+      transaction_categories (
+        name
+      ),
+      transaction_splits (
+        id,
+        amount,
+        category_id,
+        user_category_name,
+        notes,
+        transaction_categories (
+          name
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('id', { ascending: true }));
+
+  if (error) {
+    console.error('Error loading transactions for analytics:', error);
+    throw new Error('Failed to load transactions');
+  }
+
+  return expandSplits(data);
+}
+
+/**
+ * Insights for a date range, optionally compared with the period before it
+ */
+export async function getInsights(supabase: SupabaseClient, userId: string, options: InsightsOptions): Promise<Insights> {
+  const previousPeriod = options.compare ? getPreviousPeriod(options.start_date, options.end_date) : null;
+
+  const transactions = await loadAnalyticsTransactions(
+    supabase,
+    userId,
+    previousPeriod ? previousPeriod.start_date : options.start_date,
+    options.end_date
+  );
+
+  const insights = summarizeTransactions(transactions, options);
+  if (previousPeriod) {
+    insights.previous = calculatePeriodTotals(transactions, previousPeriod.start_date, previousPeriod.end_date);
+  }
+
+  return insights;
+}
@@ -0,0 +1,285 @@
+/**
+ * Historical account balance snapshots
+ * Written on every sync, reconstructed for the past from transactions, and
+ * aggregated into a net worth series for the Net Worth chart
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+
+// Same account classification as the Net Worth page
+const ASSET_ACCOUNT_TYPES = new Set(['depository', 'investment', 'real_estate', 'vehicle', 'crypto', 'other_asset']);
+const DEBT_ACCOUNT_TYPES = new Set(['credit', 'loan', 'other_debt']);
+
+export type NetWorthPeriod = '1M' | '3M' | '6M' | '1Y' | 'ALL';
+
+export interface NetWorthPoint {
+  date: string;
+  assets: number;
+  debts: number;
+  net_worth: number;
+}
+
+export interface BalanceSnapshot {
+  account_id: string;
+  snapshot_date: string;
+  balance_current: number | string | null;
+}
+
+interface BalanceSnapshotRow extends BalanceSnapshot {
+  user_id: string;
+  balance_available: number | null;
+  source: 'sync' | 'refresh' | 'link' | 'import' | 'backfill';
+}
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Load every balance snapshot for the user, oldest first
+ */
+export async function fetchBalanceSnapshots(supabase: SupabaseClient, userId: string) {
+  return fetchAllRows(() => supabase
+    .from('account_balance_snapshots')
+    .select('account_id, snapshot_date, balance_current')
+    .eq('user_id', userId)
+    .order('snapshot_date', { ascending: true })
+    .order('account_id', { ascending: true }));
+}
+
+/**
+ * Upsert today's balance for each account. Real balances always replace a
+ * reconstructed (backfill) snapshot for the same day.
+ */
+export async function recordBalanceSnapshots(
+  supabase: SupabaseClient,
+  userId: string,
+  accounts: { id?: string; balance_current?: number | null; balance_available?: number | null }[],
+  source: 'sync' | 'refresh' | 'link' | 'import' = 'sync'
+) {
+  const snapshotDate = toDateKey(new Date());
+  const rows: BalanceSnapshotRow[] = accounts
+    .filter((account): account is typeof account & { id: string } => !!account.id)
+    .map((account) => ({
+      user_id: userId,
+      account_id: account.id,
+      snapshot_date: snapshotDate,
+      balance_current: account.balance_current ?? 0,
+      balance_available: account.balance_available ?? null,
+      source,
+    }));
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('account_balance_snapshots')
+    .upsert(rows, { onConflict: 'account_id,snapshot_date' });
+
+  if (error) {
+    console.error('Error recording balance snapshots:', error);
+  }
+}
+
+/**
+ * Reconstruct past daily balances by walking each account's transactions
+ * backwards from its current balance. Plaid amounts are positive for money
+ * leaving the account, so an expense lowered a depository balance but raised
+ * a credit/loan balance. Days that already have a real snapshot are kept.
+ */
+export async function backfillBalanceSnapshots(supabase: SupabaseClient, userId: string, accountIds?: string[]) {
+  let accountsQuery = supabase
+    .from('accounts')
+    .select('id, type, balance_current')
+    .eq('user_id', userId);
+
+  if (accountIds && accountIds.length > 0) {
+    accountsQuery = accountsQuery.in('id', accountIds);
+  }
+
+  const { data: accounts, error: accountsError } = await accountsQuery;
+  if (accountsError || !accounts || accounts.length === 0) {
+    if (accountsError) console.error('Backfill: failed to load accounts', accountsError);
+    return 0;
+  }
+
+  let written = 0;
+  const today = toDateKey(new Date());
+
+  for (const account of accounts) {
+    const { data: transactions, error: txError } = await fetchAllRows(() => supabase
+      .from('transactions')
+      .select('id, amount, date')
+      .eq('account_id', account.id)
+      .eq('pending', false)
+      .order('date', { ascending: false })
+      .order('id', { ascending: true }));
+
+    if (txError) {
+      console.error(`Backfill: failed to load transactions for account ${account.id}`, txError);
+      continue;
+    }
+
+    const isDebt = DEBT_ACCOUNT_TYPES.has(account.type);
+    const totalsByDate = new Map<string, number>();
+    transactions.forEach((tx: { amount: number | null; date: string }) => {
+      totalsByDate.set(tx.date, (totalsByDate.get(tx.date) || 0) + Number(tx.amount || 0));
+    });
+
+    // Balance at the end of each day, starting from today's balance
+    let balance = Number(account.balance_current || 0);
+    const rows: BalanceSnapshotRow[] = [];
+    const dates = Array.from(totalsByDate.keys()).sort().reverse();
+
+    for (const date of dates) {
+      if (date < today) {
+        rows.push({
+          user_id: userId,
+          account_id: account.id,
+          snapshot_date: date,
+          balance_current: round(balance),
+          balance_available: null,
+          source: 'backfill',
+        });
+      }
+      const dayTotal = totalsByDate.get(date) || 0;
+      // Undo the day's activity to get the balance at the end of the previous day
+      balance = isDebt ? balance - dayTotal : balance + dayTotal;
+    }
+
+    // Starting balance the day before the oldest transaction
+    if (dates.length > 0) {
+      const oldest = new Date(`${dates[dates.length - 1]}T00:00:00Z`);
+      oldest.setUTCDate(oldest.getUTCDate() - 1);
+      rows.push({
+        user_id: userId,
+        account_id: account.id,
+        snapshot_date: toDateKey(oldest),
+        balance_current: round(balance),
+        balance_available: null,
+        source: 'backfill',
+      });
+    }
+
+    if (rows.length === 0) continue;
+
+    // Replace previously reconstructed history but never overwrite real snapshots
+    await supabase
+      .from('account_balance_snapshots')
+      .delete()
+      .eq('account_id', account.id)
+      .eq('source', 'backfill');
+
+    const { error: insertError } = await supabase
+      .from('account_balance_snapshots')
+      .upsert(rows, { onConflict: 'account_id,snapshot_date', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error(`Backfill: failed to store snapshots for account ${account.id}`, insertError);
+      continue;
+    }
+
+    written += rows.length;
+  }
+
+  return written;
+}
+
+export function getPeriodStartDate(period: NetWorthPeriod, now: Date = new Date()): string | null {
+  const start = new Date(now);
+  switch (period) {
+    case '1M':
+      start.setMonth(start.getMonth() - 1);
+      break;
+    case '3M':
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case '6M':
+      start.setMonth(start.getMonth() - 6);
+      break;
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1);
+      break;
+    default:
+      return null;
+  }
+  return toDateKey(start);
+}
+
+/**
+ * Aggregate per-account snapshots into a net worth series. Each account's
+ * last known balance is carried forward to dates it has no snapshot for,
+ * including balances from before the period starts.
+ * Longer periods are sampled weekly or monthly to keep the chart readable.
+ */
+export function buildNetWorthSeries(
+  accounts: { id: string; type: string }[],
+  snapshots: BalanceSnapshot[],
+  period: NetWorthPeriod,
+  now: Date = new Date()
+): NetWorthPoint[] {
+  const accountTypes = new Map<string, string>(accounts.map((a) => [a.id, a.type]));
+  const startDate = getPeriodStartDate(period, now);
+  const sorted = snapshots
+    .filter((s) => accountTypes.has(s.account_id))
+    .sort((a, b) => (a.snapshot_date < b.snapshot_date ? -1 : a.snapshot_date > b.snapshot_date ? 1 : 0));
+
+  const latestBalances = new Map<string, number>();
+  const daily: NetWorthPoint[] = [];
+
+  const pushPoint = (date: string) => {
+    let assets = 0;
+    let debts = 0;
+    latestBalances.forEach((balance, accountId) => {
+      const type = accountTypes.get(accountId) || '';
+      if (ASSET_ACCOUNT_TYPES.has(type)) {
+        assets += Math.abs(balance);
+      } else if (DEBT_ACCOUNT_TYPES.has(type)) {
+        debts += Math.abs(balance);
+      }
+    });
+
+    daily.push({
+      date,
+      assets: round(assets),
+      debts: round(debts),
+      net_worth: round(assets - debts),
+    });
+  };
+
+  sorted.forEach((snapshot, index) => {
+    // Open the period with the balances carried in from before it
+    if (startDate && snapshot.snapshot_date > startDate && daily.length === 0 && latestBalances.size > 0) {
+      pushPoint(startDate);
+    }
+
+    latestBalances.set(snapshot.account_id, Number(snapshot.balance_current || 0));
+
+    const next = sorted[index + 1];
+    if (next && next.snapshot_date === snapshot.snapshot_date) return;
+    if (startDate && snapshot.snapshot_date < startDate) return;
+
+    pushPoint(snapshot.snapshot_date);
+  });
+
+  // No activity during the period: show the carried-in balances as a flat line
+  if (startDate && daily.length === 0 && latestBalances.size > 0) {
+    pushPoint(startDate);
+  }
+
+  if (period === '1M' || period === '3M') {
+    return daily;
+  }
+
+  // Keep the last point of each week (6M) or month (1Y/ALL)
+  const bucketKey = (date: string) => {
+    if (period === '6M') {
+      const d = new Date(`${date}T00:00:00Z`);
+      d.setUTCDate(d.getUTCDate() - d.getUTCDay());
+      return toDateKey(d);
+    }
+    return date.slice(0, 7);
+  };
+
+  const buckets = new Map<string, NetWorthPoint>();
+  daily.forEach((point) => buckets.set(bucketKey(point.date), point));
+  return Array.from(buckets.values());
+}
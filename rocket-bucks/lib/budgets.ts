@@ -0,0 +1,109 @@
+/**
+ * Budget calculations
+ * Computes spent vs. limit per budget using the shared spending rules in analytics.ts
+ */
+import { getCategoryName, isExpense, type AnalyticsTransaction, type ClassifiableTransaction } from './analytics.js';
+
+export interface BudgetProgress {
+  spent: number;
+  rollover_amount: number;
+  available: number;
+  remaining: number;
+  percent_used: number;
+  transaction_count: number;
+}
+
+export interface Budget {
+  category_id: string | null;
+  user_category_name: string | null;
+  monthly_limit: number | string;
+  rollover: boolean;
+  start_month?: string | null;
+  created_at?: string;
+  transaction_categories?: { name: string } | null;
+}
+
+// The transaction fields budgets read, as loaded for analytics
+export type BudgetTransaction = ClassifiableTransaction &
+  Pick<AnalyticsTransaction, 'date' | 'category_id' | 'excluded_from_budget'>;
+
+/**
+ * Whether a transaction counts toward a budget: spending as defined by the
+ * analytics module, minus anything the user excluded from budgets
+ */
+export function isBudgetExpense(tx: BudgetTransaction): boolean {
+  return isExpense(tx) && !tx.excluded_from_budget;
+}
+
+export function budgetMatchesTransaction(budget: Budget, tx: BudgetTransaction): boolean {
+  if (budget.category_id && tx.category_id === budget.category_id) {
+    return true;
+  }
+  const budgetCategoryName = budget.user_category_name || budget.transaction_categories?.name;
+  return !!budgetCategoryName && getCategoryName(tx) === budgetCategoryName;
+}
+
+// Month helpers work on 'YYYY-MM' keys
+export function getMonthKey(date: string | Date): string {
+  if (typeof date === 'string') {
+    return date.slice(0, 7);
+  }
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function getMonthRange(monthKey: string): { startDate: string; endDate: string } {
+  const [year, month] = monthKey.split('-').map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+  return {
+    startDate: `${monthKey}-01`,
+    endDate: `${monthKey}-${String(lastDay).padStart(2, '0')}`,
+  };
+}
+
+function addMonths(monthKey: string, count: number): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return getMonthKey(new Date(year, month - 1 + count, 1));
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Calculate progress for a budget in the given month. Rollover budgets carry
+ * unspent amounts forward month by month from the month the budget started;
+ * overspending never reduces the following month's limit.
+ */
+export function calculateBudgetProgress(budget: Budget, transactions: BudgetTransaction[], monthKey: string): BudgetProgress {
+  const limit = Number(budget.monthly_limit) || 0;
+  const spentByMonth: Record<string, { amount: number; count: number }> = {};
+
+  transactions.forEach((tx) => {
+    if (!tx.date || !isBudgetExpense(tx) || !budgetMatchesTransaction(budget, tx)) return;
+    const key = getMonthKey(tx.date);
+    if (!spentByMonth[key]) {
+      spentByMonth[key] = { amount: 0, count: 0 };
+    }
+    spentByMonth[key].amount += Number(tx.amount);
+    spentByMonth[key].count += 1;
+  });
+
+  let rollover = 0;
+  if (budget.rollover) {
+    const startMonth = getMonthKey(budget.start_month || budget.created_at || monthKey);
+    for (let key = startMonth; key < monthKey; key = addMonths(key, 1)) {
+      const spent = spentByMonth[key]?.amount || 0;
+      rollover = Math.max(0, limit + rollover - spent);
+    }
+  }
+
+  const spent = round(spentByMonth[monthKey]?.amount || 0);
+  const available = round(limit + rollover);
+
+  return {
+    spent,
+    rollover_amount: round(rollover),
+    available,
+    remaining: round(available - spent),
+    percent_used: available > 0 ? Math.round((spent / available) * 100) : 0,
+    transaction_count: spentByMonth[monthKey]?.count || 0,
+  };
+}
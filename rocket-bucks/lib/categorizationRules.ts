@@ -0,0 +1,270 @@
+/**
+ * User-defined categorization rules
+ * Rules match on name/merchant patterns, amount range, account and payment
+ * channel, and take precedence over the built-in keyword mappings
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  // Conditions (all set conditions must match)
+  name_pattern: string | null;
+  merchant_pattern: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  account_id: string | null;
+  payment_channel: string | null;
+  // Actions
+  category_id: string | null;
+  user_category_name: string | null;
+  tags: string[] | null;
+  notes: string | null;
+  excluded_from_budget: boolean | null;
+  is_transfer: boolean | null;
+  created_at?: string;
+}
+
+// Columns a rule may write to a transaction
+export const RULE_ACTION_FIELDS = [
+  'category_id',
+  'user_category_name',
+  'tags',
+  'notes',
+  'excluded_from_budget',
+  'is_transfer',
+] as const;
+
+export type RuleActionField = typeof RULE_ACTION_FIELDS[number];
+
+// The field changes rules make to a transaction
+export type RuleUpdates = Partial<Pick<CategorizationRule, RuleActionField>>;
+
+// The transaction fields rules match on and merge with
+export interface RuleTransaction {
+  name?: string | null;
+  merchant_name?: string | null;
+  amount?: number | string | null;
+  account_id?: string | null;
+  payment_channel?: string | null;
+  tags?: string[] | null;
+  notes?: string | null;
+}
+
+/**
+ * Compile a user-supplied pattern as a case-insensitive regex.
+ * Returns null for empty or invalid patterns.
+ */
+export function compileRulePattern(pattern: string | null | undefined): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a rule before saving. Returns an error message, or null if valid.
+ */
+export function validateRule(rule: Partial<CategorizationRule>): string | null {
+  if (!rule.name || !String(rule.name).trim()) {
+    return 'Rule name is required';
+  }
+
+  for (const field of ['name_pattern', 'merchant_pattern'] as const) {
+    if (rule[field] && !compileRulePattern(rule[field])) {
+      return `${field} is not a valid regular expression`;
+    }
+  }
+
+  const hasCondition = !!(rule.name_pattern || rule.merchant_pattern || rule.account_id || rule.payment_channel) ||
+    (rule.min_amount !== null && rule.min_amount !== undefined) ||
+    (rule.max_amount !== null && rule.max_amount !== undefined);
+  if (!hasCondition) {
+    return 'A rule needs at least one condition';
+  }
+
+  if (rule.min_amount !== null && rule.min_amount !== undefined &&
+      rule.max_amount !== null && rule.max_amount !== undefined &&
+      Number(rule.min_amount) > Number(rule.max_amount)) {
+    return 'min_amount cannot be greater than max_amount';
+  }
+
+  const hasAction = !!(rule.category_id || rule.user_category_name || rule.notes) ||
+    (Array.isArray(rule.tags) && rule.tags.length > 0) ||
+    typeof rule.excluded_from_budget === 'boolean' ||
+    typeof rule.is_transfer === 'boolean';
+  if (!hasAction) {
+    return 'A rule needs at least one action';
+  }
+
+  return null;
+}
+
+/**
+ * Whether a transaction satisfies every condition set on the rule.
+ * Amounts are compared as absolute values so ranges read the way users enter them.
+ */
+export function ruleMatchesTransaction(rule: CategorizationRule, tx: RuleTransaction): boolean {
+  if (rule.is_active === false) return false;
+
+  if (rule.name_pattern) {
+    const pattern = compileRulePattern(rule.name_pattern);
+    if (!pattern || !pattern.test(tx.name || '')) return false;
+  }
+
+  if (rule.merchant_pattern) {
+    const pattern = compileRulePattern(rule.merchant_pattern);
+    if (!pattern || !pattern.test(tx.merchant_name || '')) return false;
+  }
+
+  const amount = Math.abs(Number(tx.amount || 0));
+  if (rule.min_amount !== null && rule.min_amount !== undefined && amount < Number(rule.min_amount)) {
+    return false;
+  }
+  if (rule.max_amount !== null && rule.max_amount !== undefined && amount > Number(rule.max_amount)) {
+    return false;
+  }
+
+  if (rule.account_id && tx.account_id !== rule.account_id) return false;
+  if (rule.payment_channel && tx.payment_channel !== rule.payment_channel) return false;
+
+  return true;
+}
+
+/**
+ * Rules are evaluated highest priority first, oldest first on ties
+ */
+export function sortRules(rules: CategorizationRule[]): CategorizationRule[] {
+  return [...rules].sort((a, b) =>
+    (Number(b.priority) || 0) - (Number(a.priority) || 0) ||
+    String(a.created_at || '').localeCompare(String(b.created_at || ''))
+  );
+}
+
+/**
+ * Work out the field changes the rules make to a transaction. For each field
+ * the first matching rule that sets it wins. Tags are merged with existing
+ * tags and notes never replace notes the user already wrote.
+ */
+export function getRuleUpdates(
+  rules: CategorizationRule[],
+  tx: RuleTransaction
+): { updates: RuleUpdates; ruleIds: string[] } {
+  const updates: RuleUpdates = {};
+  const ruleIds: string[] = [];
+
+  for (const rule of sortRules(rules)) {
+    if (!ruleMatchesTransaction(rule, tx)) continue;
+
+    let applied = false;
+
+    if ((rule.category_id || rule.user_category_name) && !('user_category_name' in updates)) {
+      if (rule.category_id) updates.category_id = rule.category_id;
+      updates.user_category_name = rule.user_category_name;
+      applied = true;
+    }
+
+    if (rule.tags && rule.tags.length > 0) {
+      const existing: string[] = updates.tags || tx.tags || [];
+      const merged = Array.from(new Set([...existing, ...rule.tags]));
+      if (merged.length !== existing.length) {
+        updates.tags = merged;
+        applied = true;
+      }
+    }
+
+    if (rule.notes && !tx.notes && !('notes' in updates)) {
+      updates.notes = rule.notes;
+      applied = true;
+    }
+
+    if (typeof rule.excluded_from_budget === 'boolean' && !('excluded_from_budget' in updates)) {
+      updates.excluded_from_budget = rule.excluded_from_budget;
+      applied = true;
+    }
+
+    if (typeof rule.is_transfer === 'boolean' && !('is_transfer' in updates)) {
+      updates.is_transfer = rule.is_transfer;
+      applied = true;
+    }
+
+    if (applied) ruleIds.push(rule.id);
+  }
+
+  return { updates, ruleIds };
+}
+
+/**
+ * Only keep the updates that actually change the transaction
+ */
+export function diffRuleUpdates(tx: Partial<Record<RuleActionField, unknown>>, updates: RuleUpdates): RuleUpdates {
+  const changes: Record<string, unknown> = {};
+  (Object.keys(updates) as RuleActionField[]).forEach((field) => {
+    const current = tx[field] ?? null;
+    const next = updates[field] ?? null;
+    if (JSON.stringify(current) !== JSON.stringify(next)) {
+      changes[field] = next;
+    }
+  });
+  return changes as RuleUpdates;
+}
+
+/**
+ * Load the user's active rules, highest priority first
+ */
+export async function loadActiveRules(supabase: SupabaseClient, userId: string): Promise<CategorizationRule[]> {
+  const { data, error } = await supabase
+    .from('categorization_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('Error loading categorization rules:', error);
+    return [];
+  }
+
+  return sortRules(data || []);
+}
+
+/**
+ * Write rule changes to transactions. Transactions receiving identical
+ * changes are updated together to keep the number of requests down.
+ */
+export async function applyRuleChanges(
+  supabase: SupabaseClient,
+  userId: string,
+  ruleUpdates: { id: string; changes: Record<string, unknown> }[]
+): Promise<number> {
+  const groups = new Map<string, { changes: Record<string, unknown>; ids: string[] }>();
+  ruleUpdates.forEach(({ id, changes }) => {
+    const key = JSON.stringify(changes);
+    if (!groups.has(key)) groups.set(key, { changes, ids: [] });
+    groups.get(key)!.ids.push(id);
+  });
+
+  let updated = 0;
+  const batchSize = 100;
+  for (const { changes, ids } of groups.values()) {
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      const { error } = await supabase
+        .from('transactions')
+        .update(changes)
+        .eq('user_id', userId)
+        .in('id', batch);
+
+      if (error) {
+        console.error('Error applying categorization rules:', error);
+        continue;
+      }
+      updated += batch.length;
+    }
+  }
+
+  return updated;
+}
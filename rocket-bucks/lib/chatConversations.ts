@@ -0,0 +1,206 @@
+/**
+ * Stored AI advisor conversations
+ * Each thread keeps every question and answer (with the tool calls behind it),
+ * so the chat survives a refresh and the advisor sees the thread's history
+ * from the database rather than from whatever the browser sends.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_TITLE_LENGTH = 120;
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A query the advisor ran while answering, as shown to the user
+export interface StoredToolCall {
+  name: string;
+  arguments: unknown;
+  result: unknown;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  tool_calls?: StoredToolCall[] | null;
+  // Tokens the model used to write an answer, summed over its tool rounds
+  token_usage?: TokenUsage | null;
+}
+
+/**
+ * A starting title from the first question: its first line, cut at a word
+ */
+export function titleFromMessage(message: string): string {
+  const firstLine = message.trim().split('\n')[0].trim();
+  if (firstLine.length <= 60) {
+    return firstLine || 'New conversation';
+  }
+  const cut = firstLine.slice(0, 60);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 30 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+// A thread found by search, with the first matching message when the title didn't match
+type ConversationSearchResult = ChatConversation & { snippet: string | null };
+
+interface MatchingMessage {
+  conversation_id: string;
+  content: string;
+  created_at: string;
+  chat_conversations: ChatConversation | null;
+}
+
+export async function getConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ChatConversation | null> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select<string, ChatConversation>('id, title, created_at, updated_at')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load conversation: ${error.message}`);
+  }
+  return data;
+}
+
+export async function createConversation(supabase: SupabaseClient, userId: string, firstMessage: string): Promise<ChatConversation> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({ user_id: userId, title: titleFromMessage(firstMessage) })
+    .select<string, ChatConversation>('id, title, created_at, updated_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create conversation: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * The most recent messages in a thread, oldest first
+ */
+export async function loadRecentMessages(supabase: SupabaseClient, userId: string, conversationId: string, limit: number) {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select<string, Pick<StoredChatMessage, 'role' | 'content'>>('role, content')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load conversation history: ${error.message}`);
+  }
+  return (data || []).reverse();
+}
+
+/**
+ * Store a question and its answer, and move the thread to the top of the list.
+ * Resolves to the new rows' ids and roles.
+ */
+export async function appendMessages(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  messages: StoredChatMessage[]
+) {
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert(messages.map((message, index) => ({
+      user_id: userId,
+      conversation_id: conversationId,
+      role: message.role,
+      content: message.content,
+      tool_calls: message.tool_calls?.length ? message.tool_calls : null,
+      token_usage: message.token_usage ?? null,
+      // Keep the question ahead of the answer when both land in the same instant
+      created_at: new Date(now + index).toISOString(),
+    })))
+    .select<string, { id: string; role: StoredChatMessage['role'] }>('id, role');
+
+  if (error) {
+    throw new Error(`Failed to save messages: ${error.message}`);
+  }
+
+  const { error: touchError } = await supabase
+    .from('chat_conversations')
+    .update({ updated_at: new Date(now).toISOString() })
+    .eq('id', conversationId)
+    .eq('user_id', userId);
+
+  if (touchError) {
+    console.error('Error updating conversation timestamp:', touchError);
+  }
+
+  return data || [];
+}
+
+/**
+ * Threads whose title or any message contains the text, each with the first
+ * matching message as a snippet
+ */
+export async function searchConversations(supabase: SupabaseClient, userId: string, search: string) {
+  const pattern = `%${search}%`;
+  const [titleResult, messageResult] = await Promise.all([
+    supabase
+      .from('chat_conversations')
+      .select<string, ChatConversation>('id, title, created_at, updated_at')
+      .eq('user_id', userId)
+      .ilike('title', pattern)
+      .order('updated_at', { ascending: false })
+      .limit(50),
+    supabase
+      .from('chat_messages')
+      .select<string, MatchingMessage>('conversation_id, content, created_at, chat_conversations ( id, title, created_at, updated_at )')
+      .eq('user_id', userId)
+      .ilike('content', pattern)
+      .order('created_at', { ascending: false })
+      .limit(200),
+  ]);
+
+  const searchError = titleResult.error || messageResult.error;
+  if (searchError) {
+    throw new Error(`Failed to search conversations: ${searchError.message}`);
+  }
+
+  const results = new Map<string, ConversationSearchResult>();
+  (titleResult.data || []).forEach((conversation) => {
+    results.set(conversation.id, { ...conversation, snippet: null });
+  });
+  (messageResult.data || []).forEach((message) => {
+    const conversation = message.chat_conversations;
+    if (!conversation) return;
+    const existing = results.get(conversation.id);
+    if (!existing) {
+      results.set(conversation.id, { ...conversation, snippet: buildSnippet(message.content, search) });
+    } else if (!existing.snippet) {
+      existing.snippet = buildSnippet(message.content, search);
+    }
+  });
+
+  return Array.from(results.values())
+    .sort((a, b) => String(b.updated_at).localeCompare(String(a.updated_at)));
+}
+
+// About 120 characters of the message around the first match
+function buildSnippet(content: string, search: string): string {
+  const index = content.toLowerCase().indexOf(search.toLowerCase());
+  const start = Math.max(0, index - 40);
+  const snippet = content.slice(start, start + 120).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${start + 120 < content.length ? '…' : ''}`;
+}
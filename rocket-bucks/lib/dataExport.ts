@@ -0,0 +1,171 @@
+/**
+ * Full account data export
+ * Collects everything stored for a user so they can take it with them before
+ * deleting their account, or answer a data access request. The archive is a
+ * single JSON document, or a ZIP with one JSON file per table plus a
+ * spreadsheet-friendly transactions.csv.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+import {
+  createTransactionExporter,
+  type ExportAccount,
+  type ExportSplit,
+  type ExportTransaction,
+} from './transactionExport.js';
+import { createZip } from './zip.js';
+
+export type DataExportFormat = 'zip' | 'json';
+
+export const DATA_EXPORT_FORMATS: DataExportFormat[] = ['zip', 'json'];
+
+// Bump when the archive layout changes
+const ARCHIVE_VERSION = 1;
+
+// Everything collected for a user: the profile, then each table's rows under its key
+export interface UserData {
+  archive_version: number;
+  exported_at: string;
+  profile: { id: string; email?: string | null };
+  [key: string]: unknown;
+}
+
+interface ExportTable {
+  key: string;
+  table: string;
+  select: string;
+  orderBy: string;
+}
+
+// Every user-owned table. Plaid access tokens and sync cursors are secrets, not user data.
+const EXPORT_TABLES: ExportTable[] = [
+  {
+    key: 'plaid_items',
+    table: 'plaid_items',
+    select: 'id, item_id, institution_id, institution_name, created_at, updated_at',
+    orderBy: 'created_at',
+  },
+  { key: 'accounts', table: 'accounts', select: '*', orderBy: 'created_at' },
+  { key: 'account_balance_snapshots', table: 'account_balance_snapshots', select: '*', orderBy: 'snapshot_date' },
+  { key: 'transactions', table: 'transactions', select: '*', orderBy: 'date' },
+  { key: 'transaction_splits', table: 'transaction_splits', select: '*', orderBy: 'created_at' },
+  { key: 'transfer_matches', table: 'transfer_matches', select: '*', orderBy: 'created_at' },
+  { key: 'categories', table: 'transaction_categories', select: '*', orderBy: 'name' },
+  { key: 'categorization_rules', table: 'categorization_rules', select: '*', orderBy: 'created_at' },
+  { key: 'merchant_category_memory', table: 'merchant_category_memory', select: '*', orderBy: 'merchant_key' },
+  { key: 'recurring_transactions', table: 'recurring_transactions', select: '*', orderBy: 'created_at' },
+  { key: 'recurring_amount_changes', table: 'recurring_amount_changes', select: '*', orderBy: 'created_at' },
+  { key: 'budgets', table: 'budgets', select: '*', orderBy: 'created_at' },
+  { key: 'chat_conversations', table: 'chat_conversations', select: '*', orderBy: 'created_at' },
+  { key: 'chat_messages', table: 'chat_messages', select: '*', orderBy: 'created_at' },
+  { key: 'ai_context_audit', table: 'ai_context_audit', select: '*', orderBy: 'created_at' },
+];
+
+/**
+ * Read every table the user owns. Throws if any table fails, so an export is
+ * never silently incomplete.
+ */
+export async function collectUserData(supabase: SupabaseClient, user: { id: string; email?: string }): Promise<UserData> {
+  const { data: profile, error: profileError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Failed to export profile: ${profileError.message}`);
+  }
+
+  const tables: Record<string, unknown[]> = {};
+  for (const { key, table, select, orderBy } of EXPORT_TABLES) {
+    const { data, error } = await fetchAllRows(() =>
+      supabase
+        .from(table)
+        .select<string, Record<string, unknown>>(select)
+        .eq('user_id', user.id)
+        .order(orderBy, { ascending: true })
+        .order('id', { ascending: true })
+    );
+
+    if (error) {
+      throw new Error(`Failed to export ${key}: ${error.message}`);
+    }
+    tables[key] = data;
+  }
+
+  return {
+    archive_version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    profile: profile || { id: user.id, email: user.email },
+    ...tables,
+  };
+}
+
+// The rows collected for one table, or none
+const getTableRows = <Row>(data: UserData, key: string): Row[] => (Array.isArray(data[key]) ? data[key] : []);
+
+// Attach accounts, categories and splits so the CSV matches /api/transactions?action=export
+function buildTransactionsCsv(data: UserData): string {
+  const accounts = new Map(
+    getTableRows<ExportAccount & { id: string }>(data, 'accounts').map((account) => [account.id, account])
+  );
+  const categories = new Map(
+    getTableRows<{ id: string; name: string }>(data, 'categories').map((category) => [category.id, category])
+  );
+  const splitsByTransaction = new Map<string, ExportSplit[]>();
+  for (const split of getTableRows<ExportSplit & { transaction_id: string; category_id: string | null }>(data, 'transaction_splits')) {
+    const splits = splitsByTransaction.get(split.transaction_id) || [];
+    splits.push({ ...split, transaction_categories: (split.category_id && categories.get(split.category_id)) || null });
+    splitsByTransaction.set(split.transaction_id, splits);
+  }
+
+  const rows = getTableRows<ExportTransaction & { category_id: string | null }>(data, 'transactions').map((tx) => ({
+    ...tx,
+    accounts: accounts.get(tx.account_id) || null,
+    transaction_categories: (tx.category_id && categories.get(tx.category_id)) || null,
+    transaction_splits: splitsByTransaction.get(tx.id) || [],
+  }));
+
+  const exporter = createTransactionExporter('csv');
+  return exporter.start() + exporter.write(rows) + exporter.end();
+}
+
+/**
+ * Package collected data as a ZIP or a single JSON document
+ */
+export function buildDataArchive(data: UserData, format: DataExportFormat): Buffer {
+  if (format === 'json') {
+    return Buffer.from(JSON.stringify(data, null, 2), 'utf8');
+  }
+
+  const entries = Object.entries(data)
+    .filter(([, value]) => Array.isArray(value))
+    .map(([key, value]) => ({ name: `${key}.json`, content: JSON.stringify(value, null, 2) }));
+
+  const summary = Object.entries(data)
+    .filter(([, value]) => Array.isArray(value))
+    .map(([key, value]) => `  ${key}.json: ${(value as unknown[]).length} record(s)`)
+    .join('\n');
+
+  return createZip([
+    {
+      name: 'README.txt',
+      content: [
+        'Rocket Bucks data export',
+        `Exported at: ${data.exported_at}`,
+        `Account: ${data.profile?.email || data.profile?.id}`,
+        '',
+        'profile.json holds your user profile. Each other .json file holds every row of one kind of data:',
+        summary,
+        '',
+        'transactions.csv lists the same transactions in a spreadsheet-friendly form.',
+        'Amounts in the CSV are positive for money in and negative for money out.',
+        'Amounts in transactions.json use the bank feed convention: positive for money out.',
+        '',
+      ].join('\n'),
+    },
+    { name: 'profile.json', content: JSON.stringify(data.profile, null, 2) },
+    ...entries,
+    { name: 'transactions.csv', content: buildTransactionsCsv(data) },
+  ]);
+}
@@ -0,0 +1,379 @@
+/**
+ * Sync one Plaid item end to end
+ * Shared by the manual sync endpoint and the Plaid webhook: applies the
+ * item's transaction deltas and refreshes its Plaid recurring streams, then
+ * runs the user-level recurring checks that depend on fresh transactions.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PlaidApi } from 'plaid';
+import { decrypt, isEncrypted } from './encryption.js';
+import { getPlaidError, syncPlaidItem, type PlaidSyncResult } from './plaidSync.js';
+import { detectRecurringAmountChanges } from './recurringAlerts.js';
+import { syncDetectedRecurring } from './recurringDetector.js';
+import { reconcileRecurringPayments } from './recurringReconciliation.js';
+import { getPlaidStreamSchedule } from './recurringStreams.js';
+import { verifyCancellations } from './subscriptionCancellation.js';
+
+// A plaid_items row as a sync reads it
+export interface SyncableItem {
+  id: string;
+  access_token: string;
+  institution_name: string | null;
+  sync_cursor?: string | null;
+  status?: string | null;
+}
+
+// A recurring_transactions row built from a Plaid stream
+type PlaidStreamRow = ReturnType<typeof getPlaidStreamSchedule> & {
+  user_id: string;
+  account_id: string;
+  name: string;
+  merchant_name: string | null;
+  expected_amount: number;
+  average_amount: number;
+  start_date: string;
+  last_transaction_date: string | null;
+  transaction_type: 'expense' | 'income';
+  is_subscription: boolean;
+  is_active: boolean;
+  total_occurrences: number;
+  notes: string | null;
+  source: 'plaid';
+};
+
+// A stored stream, with whether the user has taken it over
+interface StoredStream {
+  id: string;
+  account_id: string | null;
+  name: string;
+  merchant_name: string | null;
+  source: string | null;
+  not_recurring: boolean | null;
+  end_date: string | null;
+  cancellation_status: string | null;
+  is_paused: boolean | null;
+}
+
+/**
+ * The item's Plaid access token, decrypted if it is stored encrypted
+ */
+export function getItemAccessToken(item: Pick<SyncableItem, 'access_token'>): string {
+  const encryptionKey = process.env.ENCRYPTION_KEY || '';
+  if (encryptionKey && isEncrypted(item.access_token)) {
+    return decrypt(item.access_token, encryptionKey);
+  }
+  return item.access_token;
+}
+
+/**
+ * Store the recurring streams Plaid reports for an item. New streams are
+ * inserted; known ones only get fresh amounts, and streams the user edited,
+ * paused, cancelled or marked "not recurring" (or that have ended) are left alone
+ */
+async function syncPlaidRecurringStreams(
+  supabase: SupabaseClient,
+  plaidClient: PlaidApi,
+  item: SyncableItem,
+  accessToken: string,
+  userId: string
+) {
+  // Get account mappings for recurring streams
+  const { data: accounts } = await supabase
+    .from('accounts')
+    .select<string, { id: string; account_id: string }>('id, account_id')
+    .eq('plaid_item_id', item.id);
+
+  const accountMap = new Map(accounts?.map((a) => [a.account_id, a.id]) || []);
+
+  // Also fetch recurring transaction streams
+  try {
+    const recurringResponse = await plaidClient.transactionsRecurringGet({
+      access_token: accessToken,
+      account_ids: accounts?.map((a) => a.account_id) || [],
+    });
+
+    console.log(`✅ Found ${recurringResponse.data.inflow_streams.length} recurring inflows and ${recurringResponse.data.outflow_streams.length} recurring outflows for ${item.institution_name}`);
+
+    // Store recurring streams
+    const recurringToInsert: PlaidStreamRow[] = [];
+
+    // Process outflow streams
+    for (const stream of recurringResponse.data.outflow_streams) {
+      const dbAccountId = accountMap.get(stream.account_id);
+      if (!dbAccountId) continue;
+
+      // Check if it's a subscription based on category or merchant name
+      const merchantName = (stream.merchant_name || stream.description || '').toLowerCase();
+      const categoryMatch = stream.category?.some((cat: string) => 
+        cat.toLowerCase().includes('subscription') || 
+        cat.toLowerCase().includes('software') ||
+        cat.toLowerCase().includes('streaming')
+      );
+
+      // Common subscription merchant names/keywords
+      const subscriptionKeywords = [
+        'cursor', 'openai', 'apple', 'squarespace', 'workspace', 'worksp', 'spotify', 'netflix',
+        'disney', 'hulu', 'amazon prime', 'youtube premium', 'adobe', 'microsoft',
+        'google', 'dropbox', 'slack', 'zoom', 'notion', 'figma', 'canva', 'github',
+        'gitlab', 'atlassian', 'jira', 'confluence', 'salesforce', 'hubspot', 'zendesk',
+        'intercom', 'mailchimp', 'sendgrid', 'twilio', 'stripe', 'paypal', 'shopify',
+        'wix', 'wordpress', 'webflow', 'framer', 'linear', 'vercel', 'netlify',
+        'cloudflare', 'aws', 'azure', 'gcp', 'digitalocean', 'heroku', 'mongodb',
+        'redis', 'elastic', 'datadog', 'sentry', 'new relic', 'loggly', 'papertrail'
+      ];
+
+      const merchantMatch = subscriptionKeywords.some(keyword => 
+        merchantName.includes(keyword)
+      );
+
+      const isSubscription = categoryMatch || merchantMatch;
+
+      recurringToInsert.push({
+        user_id: userId,
+        account_id: dbAccountId,
+        name: stream.merchant_name || stream.description || 'Unknown',
+        merchant_name: stream.merchant_name || null,
+        expected_amount: stream.last_amount?.amount || stream.average_amount?.amount || 0,
+        average_amount: stream.average_amount?.amount || 0,
+        ...getPlaidStreamSchedule(stream.frequency, stream.last_date),
+        start_date: stream.first_date || new Date().toISOString().split('T')[0],
+        last_transaction_date: stream.last_date || null,
+        transaction_type: 'expense',
+        is_subscription: isSubscription,
+        is_active: stream.status === 'MATURE',
+        total_occurrences: stream.transaction_ids ? stream.transaction_ids.length : 0,
+        notes: stream.category?.join(', ') || null,
+        source: 'plaid',
+      });
+    }
+
+    // Process inflow streams
+    for (const stream of recurringResponse.data.inflow_streams) {
+      const dbAccountId = accountMap.get(stream.account_id);
+      if (!dbAccountId) continue;
+
+      recurringToInsert.push({
+        user_id: userId,
+        account_id: dbAccountId,
+        name: stream.merchant_name || stream.description || 'Unknown',
+        merchant_name: stream.merchant_name || null,
+        expected_amount: Math.abs(stream.last_amount?.amount || stream.average_amount?.amount || 0),
+        average_amount: Math.abs(stream.average_amount?.amount || 0),
+        ...getPlaidStreamSchedule(stream.frequency, stream.last_date),
+        start_date: stream.first_date || new Date().toISOString().split('T')[0],
+        last_transaction_date: stream.last_date || null,
+        transaction_type: 'income',
+        is_subscription: false,
+        is_active: stream.status === 'MATURE',
+        total_occurrences: stream.transaction_ids ? stream.transaction_ids.length : 0,
+        notes: stream.category?.join(', ') || null,
+        source: 'plaid',
+      });
+    }
+
+    // Streams already stored keep their lifecycle: reconciliation owns is_active,
+    // next_due_date, end_date and the miss counters, and the user owns paused,
+    // cancelled, edited and "not recurring" streams
+    const { data: existingRows, error: existingError } = await supabase
+      .from('recurring_transactions')
+      .select<string, StoredStream>('id, account_id, name, merchant_name, source, not_recurring, end_date, cancellation_status, is_paused')
+      .eq('user_id', userId);
+    if (existingError) {
+      throw new Error(`Failed to load existing recurring streams: ${existingError.message}`);
+    }
+
+    const existingByKey = new Map<string, StoredStream>();
+    const skipKeys = new Set<string>();
+    (existingRows || []).forEach((row) => {
+      existingByKey.set(`${row.account_id}|${row.name}`, row);
+      const userOwned =
+        row.source === 'manual' || row.not_recurring || row.end_date || row.cancellation_status || row.is_paused;
+      if (!userOwned) return;
+      skipKeys.add(`${row.account_id}|name|${row.name}`);
+      if (row.merchant_name) skipKeys.add(`${row.account_id}|merchant|${row.merchant_name}`);
+    });
+    const streamsToSave = recurringToInsert.filter((row) =>
+      !skipKeys.has(`${row.account_id}|name|${row.name}`) &&
+      !(row.merchant_name && skipKeys.has(`${row.account_id}|merchant|${row.merchant_name}`))
+    );
+
+    const newStreams = streamsToSave.filter((row) => !existingByKey.has(`${row.account_id}|${row.name}`));
+    const knownStreams = streamsToSave.filter((row) => existingByKey.has(`${row.account_id}|${row.name}`));
+
+    if (newStreams.length > 0) {
+      const { error: insertError } = await supabase.from('recurring_transactions').insert(newStreams);
+      if (insertError) {
+        throw new Error(`Failed to store new recurring streams: ${insertError.message}`);
+      }
+    }
+
+    // Known streams only get Plaid's latest amounts and last charge date
+    for (const row of knownStreams) {
+      const existing = existingByKey.get(`${row.account_id}|${row.name}`)!;
+      const { error: updateError } = await supabase
+        .from('recurring_transactions')
+        .update({
+          expected_amount: row.expected_amount,
+          average_amount: row.average_amount,
+          last_transaction_date: row.last_transaction_date,
+          total_occurrences: row.total_occurrences,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+        .eq('user_id', userId);
+      if (updateError) {
+        console.error(`❌ Error updating recurring stream ${existing.id}:`, updateError);
+      }
+    }
+
+    if (streamsToSave.length > 0) {
+      console.log(`💾 Stored ${newStreams.length} new and refreshed ${knownStreams.length} recurring transactions for ${item.institution_name}`);
+    }
+  } catch (recurringError) {
+    console.error(`⚠️  Warning: Failed to fetch recurring streams for ${item.institution_name}:`, recurringError);
+    // Continue even if recurring fails
+  }
+}
+
+// Errors the user can fix by signing in again through Link in update mode
+const LOGIN_REQUIRED_ERROR_CODES = ['ITEM_LOGIN_REQUIRED'];
+
+/**
+ * Record a Plaid error on the item so the app can ask the user to reconnect
+ */
+export async function recordItemError(
+  supabase: SupabaseClient,
+  itemId: string,
+  plaidError: { error_code?: string; error_message?: string; display_message?: string | null }
+) {
+  const { error } = await supabase
+    .from('plaid_items')
+    .update({
+      status: LOGIN_REQUIRED_ERROR_CODES.includes(plaidError.error_code || '') ? 'login_required' : 'error',
+      error_code: plaidError.error_code || null,
+      error_message: plaidError.display_message || plaidError.error_message || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', itemId);
+
+  if (error) {
+    console.error(`❌ Error recording status for item ${itemId}:`, error);
+  }
+}
+
+/**
+ * Clear the item's error and consent warning once the user has reconnected it
+ */
+export async function markItemHealthy(supabase: SupabaseClient, itemId: string) {
+  const { error } = await supabase
+    .from('plaid_items')
+    .update({
+      status: 'healthy',
+      error_code: null,
+      error_message: null,
+      consent_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', itemId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Record a successful sync. Clears any earlier error, but an expiring consent
+ * stays flagged until the user reconnects.
+ */
+export async function recordItemSynced(supabase: SupabaseClient, item: Pick<SyncableItem, 'id' | 'status'>) {
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = { last_synced_at: now, updated_at: now };
+  if (item.status !== 'pending_expiration') {
+    update.status = 'healthy';
+    update.error_code = null;
+    update.error_message = null;
+  }
+
+  const { error } = await supabase.from('plaid_items').update(update).eq('id', item.id);
+  if (error) {
+    console.error(`❌ Error recording sync time for item ${item.id}:`, error);
+  }
+}
+
+/**
+ * Sync an item's transactions and recurring streams, keeping the item's
+ * status current. Throws if the access token can't be decrypted or the
+ * transaction sync fails.
+ */
+export async function syncItem(
+  supabase: SupabaseClient,
+  plaidClient: PlaidApi,
+  item: SyncableItem,
+  userId: string
+): Promise<PlaidSyncResult> {
+  const accessToken = getItemAccessToken(item);
+
+  let syncResult: PlaidSyncResult;
+  try {
+    // Apply added/modified/removed deltas since the item's stored cursor
+    syncResult = await syncPlaidItem(supabase, plaidClient, item, accessToken, userId);
+  } catch (error) {
+    // Plaid API errors carry an error_code; anything else isn't about the item's connection
+    const plaidError = getPlaidError(error);
+    if (plaidError?.error_code) {
+      await recordItemError(supabase, item.id, plaidError);
+    }
+    throw error;
+  }
+
+  await recordItemSynced(supabase, item);
+  await syncPlaidRecurringStreams(supabase, plaidClient, item, accessToken, userId);
+
+  return syncResult;
+}
+
+/**
+ * Recurring checks to run after new transactions arrive. Each step logs and
+ * swallows its own errors so one failure doesn't block the rest.
+ */
+export async function runRecurringChecks(supabase: SupabaseClient, userId: string) {
+  // Find recurring charges Plaid missed and link transactions to their streams
+  try {
+    const { created_count, linked_count } = await syncDetectedRecurring(supabase, userId);
+    if (created_count > 0 || linked_count > 0) {
+      console.log(`🔁 Detected ${created_count} new recurring stream${created_count !== 1 ? 's' : ''}, linked ${linked_count} transaction${linked_count !== 1 ? 's' : ''}`);
+    }
+  } catch (error) {
+    console.error('❌ Error detecting recurring streams:', error);
+  }
+
+  // Settle due dates that have passed as paid, late or missed
+  try {
+    const { missed_count, late_count, ended_count } = await reconcileRecurringPayments(supabase, userId);
+    if (missed_count > 0 || late_count > 0 || ended_count > 0) {
+      console.log(`📅 Recurring payments: ${missed_count} missed, ${late_count} late, ${ended_count} stream${ended_count !== 1 ? 's' : ''} ended`);
+    }
+  } catch (error) {
+    console.error('❌ Error reconciling recurring payments:', error);
+  }
+
+  // Check subscriptions awaiting cancellation against the charges just synced
+  try {
+    const { cancelled_count, charged_count } = await verifyCancellations(supabase, userId);
+    if (cancelled_count > 0 || charged_count > 0) {
+      console.log(`🚫 Cancellations: ${cancelled_count} confirmed, ${charged_count} charged after cancelling`);
+    }
+  } catch (error) {
+    console.error('❌ Error verifying cancellations:', error);
+  }
+
+  // Flag recurring charges that came in above their usual amount
+  try {
+    const { detected_count } = await detectRecurringAmountChanges(supabase, userId);
+    if (detected_count > 0) {
+      console.log(`📈 Found ${detected_count} recurring charge${detected_count !== 1 ? 's' : ''} above the usual amount`);
+    }
+  } catch (error) {
+    console.error('❌ Error detecting recurring amount changes:', error);
+  }
+}
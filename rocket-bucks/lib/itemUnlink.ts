@@ -0,0 +1,142 @@
+/**
+ * Unlink a single institution
+ * Revokes the Plaid item so it stops syncing and billing, then either deletes
+ * everything that came from it or keeps its accounts and transactions as
+ * archived, read-only history.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PlaidApi } from 'plaid';
+import { getItemAccessToken, type SyncableItem } from './itemSync.js';
+import { getPlaidErrorCode } from './plaidSync.js';
+
+export type UnlinkMode = 'archive' | 'delete';
+
+export const UNLINK_MODES: UnlinkMode[] = ['archive', 'delete'];
+
+export interface ItemDataCounts {
+  accounts: number;
+  transactions: number;
+  recurring: number;
+}
+
+async function getItemAccountIds(supabase: SupabaseClient, itemId: string, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select<string, { id: string }>('id')
+    .eq('plaid_item_id', itemId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load accounts: ${error.message}`);
+  }
+  return (data || []).map((account) => account.id);
+}
+
+async function countAccountData(supabase: SupabaseClient, accountIds: string[], userId: string): Promise<ItemDataCounts> {
+  if (accountIds.length === 0) {
+    return { accounts: 0, transactions: 0, recurring: 0 };
+  }
+
+  const [{ count: transactions, error: txError }, { count: recurring, error: recurringError }] = await Promise.all([
+    supabase
+      .from('transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('account_id', accountIds),
+    supabase
+      .from('recurring_transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .in('account_id', accountIds),
+  ]);
+
+  const countError = txError || recurringError;
+  if (countError) {
+    throw new Error(`Failed to count institution data: ${countError.message}`);
+  }
+
+  return { accounts: accountIds.length, transactions: transactions || 0, recurring: recurring || 0 };
+}
+
+/**
+ * How much data unlinking the item would affect
+ */
+export async function countItemData(supabase: SupabaseClient, itemId: string, userId: string): Promise<ItemDataCounts> {
+  return countAccountData(supabase, await getItemAccountIds(supabase, itemId, userId), userId);
+}
+
+/**
+ * Revoke the item at Plaid and remove it. Returns the counts affected.
+ */
+export async function unlinkItem(
+  supabase: SupabaseClient,
+  plaidClient: PlaidApi,
+  item: Pick<SyncableItem, 'id' | 'access_token'>,
+  userId: string,
+  mode: UnlinkMode
+): Promise<ItemDataCounts> {
+  const accountIds = await getItemAccountIds(supabase, item.id, userId);
+  const counts = await countAccountData(supabase, accountIds, userId);
+
+  // Revoke first so a failure leaves everything as it was
+  try {
+    await plaidClient.itemRemove({ access_token: getItemAccessToken(item) });
+  } catch (error) {
+    // Already gone at Plaid (e.g. the user revoked access from their bank); finish removing it here
+    if (getPlaidErrorCode(error) !== 'ITEM_NOT_FOUND') {
+      throw error;
+    }
+    console.warn(`⚠️  Item ${item.id} was already removed at Plaid`);
+  }
+
+  if (accountIds.length > 0) {
+    if (mode === 'archive') {
+      // Detach the accounts so removing the item doesn't cascade to them, and stop their streams
+      const now = new Date().toISOString();
+      const { error: archiveError } = await supabase
+        .from('accounts')
+        .update({ plaid_item_id: null, archived_at: now, updated_at: now })
+        .eq('user_id', userId)
+        .in('id', accountIds);
+
+      if (archiveError) {
+        throw new Error(`Failed to archive accounts: ${archiveError.message}`);
+      }
+
+      const { error: recurringError } = await supabase
+        .from('recurring_transactions')
+        .update({ is_active: false, updated_at: now })
+        .eq('user_id', userId)
+        .in('account_id', accountIds);
+
+      if (recurringError) {
+        console.error('Error deactivating recurring streams:', recurringError);
+      }
+    } else {
+      // Recurring streams only lose their account on delete, so remove them explicitly
+      const { error: recurringError } = await supabase
+        .from('recurring_transactions')
+        .delete()
+        .eq('user_id', userId)
+        .in('account_id', accountIds);
+
+      if (recurringError) {
+        throw new Error(`Failed to delete recurring streams: ${recurringError.message}`);
+      }
+    }
+  }
+
+  // Deleting the item cascades to any accounts still attached, and from them to
+  // transactions, splits, transfer matches and balance snapshots
+  const { error: itemError } = await supabase
+    .from('plaid_items')
+    .delete()
+    .eq('id', item.id)
+    .eq('user_id', userId);
+
+  if (itemError) {
+    throw new Error(`Failed to remove institution: ${itemError.message}`);
+  }
+
+  return counts;
+}
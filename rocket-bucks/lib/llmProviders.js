@@ -0,0 +1,607 @@
+/**
+ * Chat model providers for the AI advisor
+ * Plain JavaScript so both the Vercel functions and server.js can use it.
+ *
+ * AI_PROVIDER picks the backend:
+ *   openrouter (default) - OpenRouter, needs OPENROUTER_API_KEY
+ *   openai    - OpenAI or any OpenAI-compatible endpoint, needs OPENAI_API_KEY
+ *   anthropic - Anthropic's Messages API, needs ANTHROPIC_API_KEY
+ *   local     - a self-hosted OpenAI-compatible server such as Ollama or llama.cpp
+ *   fake      - a deterministic canned model for tests and offline development
+ *
+ * Every provider takes OpenAI-shaped messages and tools and resolves to
+ * { message, usage }: the assistant message (content is always a string,
+ * tool_calls in OpenAI form) and the tokens the request used, or null when
+ * the backend doesn't report them.
+ */
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+// Rate limits and transient upstream failures; anything else won't succeed on a retry
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+const MAX_RETRY_DELAY_MS = 10000;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const DEFAULT_MODELS = {
+  openrouter: 'anthropic/claude-3.5-sonnet',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-5',
+  local: 'llama3.1',
+};
+
+function trimSlashes(url) {
+  return url.replace(/\/+$/, '');
+}
+
+function readNumber(value, fallback) {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Resolves after ms, or rejects as soon as the caller gives up
+function wait(ms, signal) {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with a little jitter, or the server's Retry-After when it sends one
+function retryDelay(attempt, retryAfter) {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) {
+    return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(500 * 2 ** attempt + Math.floor(Math.random() * 250), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * POST JSON with a timeout and retries.
+ * The timeout covers each silence from the model: waiting for the response,
+ * then (via keepAlive) each gap between streamed chunks. A request is only
+ * retried before any of its response has been read, so a stream is never
+ * replayed to the user. Call finish once the body has been consumed.
+ */
+async function postWithRetry(url, { headers, body, signal, timeoutMs, maxRetries, label }) {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timer;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+    };
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    keepAlive();
+
+    let response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      finish();
+      if (signal?.aborted || attempt >= maxRetries) {
+        throw error;
+      }
+      console.warn(`${label} request failed, retrying (${attempt + 1}/${maxRetries}):`, error?.message || error);
+      await wait(retryDelay(attempt), signal);
+      continue;
+    }
+
+    if (response.ok) {
+      return { response, keepAlive, finish };
+    }
+
+    const errorText = await response.text().catch(() => '');
+    finish();
+    if (RETRYABLE_STATUSES.has(response.status) && attempt < maxRetries) {
+      console.warn(`${label} returned ${response.status}, retrying (${attempt + 1}/${maxRetries})`);
+      await wait(retryDelay(attempt, response.headers.get('retry-after')), signal);
+      continue;
+    }
+
+    console.error(`${label} error:`, errorText);
+    throw new Error(`${label} request failed with status ${response.status}`);
+  }
+}
+
+/**
+ * Pass each JSON payload of a Server-Sent Events stream to onData.
+ * Event names are ignored; both OpenAI and Anthropic repeat the type in the data.
+ */
+async function readEventStream(body, onData, keepAlive) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line) => {
+    // Blank lines separate events; lines starting with ':' are keep-alive comments
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+
+    let payload;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      return;
+    }
+    onData(payload);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    keepAlive();
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach((line) => handleLine(line.trim()));
+  }
+  handleLine(buffer.trim());
+}
+
+function textOf(content) {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === 'string') return part;
+        if (part && typeof part.text === 'string') return part.text;
+        return '';
+      })
+      .join('');
+  }
+  if (content && typeof content.text === 'string') {
+    return content.text;
+  }
+  return '';
+}
+
+function toUsage(promptTokens, completionTokens) {
+  if (!Number.isFinite(promptTokens) && !Number.isFinite(completionTokens)) {
+    return null;
+  }
+  const prompt = Number.isFinite(promptTokens) ? promptTokens : 0;
+  const completion = Number.isFinite(completionTokens) ? completionTokens : 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+function assistantMessage(content, toolCalls) {
+  const calls = toolCalls.filter(Boolean);
+  return { role: 'assistant', content, ...(calls.length ? { tool_calls: calls } : {}) };
+}
+
+/**
+ * Add one request's usage to a running total (either may be null)
+ */
+export function addUsage(total, usage) {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+/**
+ * OpenRouter, OpenAI and local servers all speak the OpenAI chat completions API
+ */
+function createOpenAiCompatibleProvider({ name, label, baseUrl, apiKey, model, headers = {}, supportsTools = true, retry }) {
+  const url = `${trimSlashes(baseUrl)}/chat/completions`;
+  const requestHeaders = { ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}), ...headers };
+
+  return {
+    name,
+    model,
+    supportsTools,
+
+    complete: async (request, { signal } = {}) => {
+      const { response, finish } = await postWithRetry(url, {
+        ...retry,
+        label,
+        headers: requestHeaders,
+        body: { model, ...request },
+        signal,
+      });
+      let completion;
+      try {
+        completion = await response.json();
+      } finally {
+        finish();
+      }
+      if (completion?.error) {
+        throw new Error(`${label} error: ${completion.error.message || JSON.stringify(completion.error)}`);
+      }
+
+      const message = completion?.choices?.[0]?.message || {};
+      return {
+        message: assistantMessage(textOf(message.content), Array.isArray(message.tool_calls) ? message.tool_calls : []),
+        usage: toUsage(completion?.usage?.prompt_tokens, completion?.usage?.completion_tokens),
+      };
+    },
+
+    stream: async (request, { onToken, signal }) => {
+      const { response, keepAlive, finish } = await postWithRetry(url, {
+        ...retry,
+        label,
+        headers: requestHeaders,
+        // include_usage adds a final chunk with the token counts
+        body: { model, ...request, stream: true, stream_options: { include_usage: true } },
+        signal,
+      });
+      if (!response.body) {
+        finish();
+        throw new Error(`${label} returned an empty stream`);
+      }
+
+      let content = '';
+      let usage = null;
+      const toolCalls = [];
+      try {
+        await readEventStream(response.body, (chunk) => {
+          if (chunk.error) {
+            throw new Error(`${label} stream error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+          }
+          if (chunk.usage) {
+            usage = toUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+          }
+
+          const delta = chunk.choices?.[0]?.delta;
+          if (!delta) return;
+          if (typeof delta.content === 'string' && delta.content) {
+            content += delta.content;
+            onToken(delta.content);
+          }
+          // Tool calls arrive in fragments keyed by index
+          (delta.tool_calls || []).forEach((fragment) => {
+            const index = fragment.index ?? toolCalls.length;
+            const call = toolCalls[index] || (toolCalls[index] = { id: '', type: 'function', function: { name: '', arguments: '' } });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+          });
+        }, keepAlive);
+      } finally {
+        finish();
+      }
+
+      return { message: assistantMessage(content, toolCalls), usage };
+    },
+  };
+}
+
+/**
+ * Translate an OpenAI-shaped request into an Anthropic Messages API body.
+ * System messages become the system prompt, tool results become user turns,
+ * and consecutive turns from the same side are merged.
+ */
+function toAnthropicBody(model, request) {
+  const system = [];
+  const messages = [];
+  const push = (role, blocks) => {
+    if (!blocks.length) return;
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  request.messages.forEach((message) => {
+    const text = textOf(message.content);
+    if (message.role === 'system') {
+      if (text) system.push(text);
+    } else if (message.role === 'tool') {
+      push('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: text }]);
+    } else if (message.role === 'assistant') {
+      const blocks = text ? [{ type: 'text', text }] : [];
+      (message.tool_calls || []).forEach((call) => {
+        let input = {};
+        try {
+          input = JSON.parse(call.function?.arguments || '{}');
+        } catch {
+          // The tool already told the model its arguments were invalid
+        }
+        blocks.push({ type: 'tool_use', id: call.id, name: call.function?.name, input });
+      });
+      push('assistant', blocks);
+    } else if (text) {
+      push('user', [{ type: 'text', text }]);
+    }
+  });
+
+  return {
+    model,
+    ...(system.length ? { system: system.join('\n\n') } : {}),
+    messages,
+    max_tokens: request.max_tokens || 1024,
+    // Newer Claude models reject temperature and top_p together, so only temperature is sent
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.tools?.length
+      ? {
+          tools: request.tools.map((tool) => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters,
+          })),
+        }
+      : {}),
+  };
+}
+
+function createAnthropicProvider({ baseUrl, apiKey, model, retry }) {
+  const url = `${trimSlashes(baseUrl)}/v1/messages`;
+  const headers = { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_VERSION };
+  const label = 'Anthropic';
+
+  return {
+    name: 'anthropic',
+    model,
+    supportsTools: true,
+
+    complete: async (request, { signal } = {}) => {
+      const { response, finish } = await postWithRetry(url, {
+        ...retry,
+        label,
+        headers,
+        body: toAnthropicBody(model, request),
+        signal,
+      });
+      let reply;
+      try {
+        reply = await response.json();
+      } finally {
+        finish();
+      }
+
+      const blocks = Array.isArray(reply?.content) ? reply.content : [];
+      const content = blocks.filter((block) => block.type === 'text').map((block) => block.text).join('');
+      const toolCalls = blocks
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      return {
+        message: assistantMessage(content, toolCalls),
+        usage: toUsage(reply?.usage?.input_tokens, reply?.usage?.output_tokens),
+      };
+    },
+
+    stream: async (request, { onToken, signal }) => {
+      const { response, keepAlive, finish } = await postWithRetry(url, {
+        ...retry,
+        label,
+        headers,
+        body: { ...toAnthropicBody(model, request), stream: true },
+        signal,
+      });
+      if (!response.body) {
+        finish();
+        throw new Error('Anthropic returned an empty stream');
+      }
+
+      let content = '';
+      let inputTokens;
+      let outputTokens;
+      const toolBlocks = [];
+      try {
+        await readEventStream(response.body, (event) => {
+          switch (event.type) {
+            case 'message_start':
+              inputTokens = event.message?.usage?.input_tokens;
+              outputTokens = event.message?.usage?.output_tokens;
+              break;
+            case 'content_block_start':
+              if (event.content_block?.type === 'tool_use') {
+                toolBlocks[event.index] = { id: event.content_block.id, name: event.content_block.name, json: '' };
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta' && event.delta.text) {
+                content += event.delta.text;
+                onToken(event.delta.text);
+              } else if (event.delta?.type === 'input_json_delta' && toolBlocks[event.index]) {
+                toolBlocks[event.index].json += event.delta.partial_json || '';
+              }
+              break;
+            case 'message_delta':
+              if (event.usage?.output_tokens !== undefined) {
+                outputTokens = event.usage.output_tokens;
+              }
+              break;
+            case 'error':
+              throw new Error(`Anthropic stream error: ${event.error?.message || JSON.stringify(event.error)}`);
+            default:
+              break;
+          }
+        }, keepAlive);
+      } finally {
+        finish();
+      }
+
+      const toolCalls = toolBlocks.filter(Boolean).map((block) => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: block.json || '{}' },
+      }));
+      return { message: assistantMessage(content, toolCalls), usage: toUsage(inputTokens, outputTokens) };
+    },
+  };
+}
+
+// Roughly four characters per token, so the fake model's usage is stable
+function estimateTokens(text) {
+  return Math.ceil(String(text || '').length / 4);
+}
+
+function defaultFakeReply(request, callIndex) {
+  const lastMessage = request.messages[request.messages.length - 1];
+
+  if (lastMessage?.role === 'tool') {
+    let summary = 'no data';
+    try {
+      const result = JSON.parse(lastMessage.content);
+      summary = `$${Number(result.total || 0).toFixed(2)} across ${(result.groups || []).length} categories`;
+    } catch {
+      // Leave the summary generic
+    }
+    return { role: 'assistant', content: `Mock advisor: you spent ${summary} in the last 30 days.` };
+  }
+
+  if (!request.tools?.length) {
+    return { role: 'assistant', content: 'Mock advisor: no tools were offered.' };
+  }
+
+  const end = new Date();
+  const start = new Date(end);
+  start.setDate(start.getDate() - 29);
+  return {
+    role: 'assistant',
+    content: '',
+    tool_calls: [{
+      id: `mock_call_${callIndex}`,
+      type: 'function',
+      function: {
+        name: 'aggregate_transactions',
+        arguments: JSON.stringify({
+          start_date: start.toISOString().split('T')[0],
+          end_date: end.toISOString().split('T')[0],
+          group_by: 'category',
+        }),
+      },
+    }],
+  };
+}
+
+/**
+ * A deterministic stand-in model that needs no network or key.
+ * By default it asks for last month's spending by category, then answers
+ * from whatever the tool returned; pass respond(request, callIndex) to
+ * script other replies.
+ */
+export function createFakeProvider({ respond = defaultFakeReply } = {}) {
+  let callCount = 0;
+
+  const complete = async (request) => {
+    callCount += 1;
+    const reply = respond(request, callCount);
+    const message = assistantMessage(textOf(reply.content), reply.tool_calls || []);
+    const prompt = request.messages.reduce((sum, entry) => sum + estimateTokens(textOf(entry.content)), 0);
+    const completion = estimateTokens(message.content) + estimateTokens(JSON.stringify(message.tool_calls || ''));
+    return { message, usage: toUsage(prompt, completion) };
+  };
+
+  return {
+    name: 'fake',
+    model: 'fake/advisor',
+    supportsTools: true,
+    complete,
+    // Sends the answer a word at a time so streaming can be exercised offline
+    stream: async (request, { onToken, signal }) => {
+      const result = await complete(request);
+      for (const word of result.message.content.split(/(?<= )/)) {
+        if (signal?.aborted) break;
+        if (word) onToken(word);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * The provider the environment configures, or null when the advisor is not
+ * set up (the chosen provider's key is missing or AI_PROVIDER is unknown)
+ */
+export function createLlmProvider(env = process.env) {
+  const name = (env.AI_PROVIDER || 'openrouter').trim().toLowerCase();
+  const retry = {
+    timeoutMs: readNumber(env.AI_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    maxRetries: readNumber(env.AI_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+  };
+  const model = env.AI_MODEL || (name === 'openrouter' ? env.OPENROUTER_MODEL : '') || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'openrouter': {
+      if (!env.OPENROUTER_API_KEY) return null;
+      return createOpenAiCompatibleProvider({
+        name,
+        label: 'OpenRouter',
+        baseUrl: env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+        apiKey: env.OPENROUTER_API_KEY,
+        model,
+        headers: {
+          'HTTP-Referer':
+            env.OPENROUTER_APP_URL ||
+            (env.VERCEL_URL ? `https://${env.VERCEL_URL}` : 'https://rocket-money-azure.vercel.app'),
+          'X-Title': 'Rocket Bucks AI',
+        },
+        retry,
+      });
+    }
+    case 'openai': {
+      if (!env.OPENAI_API_KEY) return null;
+      return createOpenAiCompatibleProvider({
+        name,
+        label: 'OpenAI',
+        baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: env.OPENAI_API_KEY,
+        model,
+        retry,
+      });
+    }
+    case 'anthropic': {
+      if (!env.ANTHROPIC_API_KEY) return null;
+      return createAnthropicProvider({
+        baseUrl: env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+        apiKey: env.ANTHROPIC_API_KEY,
+        model,
+        retry,
+      });
+    }
+    case 'local':
+      // Ollama's default port; llama.cpp's server listens on http://localhost:8080/v1
+      return createOpenAiCompatibleProvider({
+        name,
+        label: 'Local model',
+        baseUrl: env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.LOCAL_AI_API_KEY || '',
+        model,
+        // Many small self-hosted models can't call tools; they answer from the snapshot alone
+        supportsTools: env.LOCAL_AI_TOOLS !== 'false',
+        // CPU-only servers can take a while to load a model on the first request
+        retry: { ...retry, timeoutMs: readNumber(env.AI_TIMEOUT_MS, DEFAULT_TIMEOUT_MS * 3) },
+      });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      console.error(`Unknown AI_PROVIDER "${name}". Use openrouter, openai, anthropic, local or fake.`);
+      return null;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Manually tracked accounts
+ * Houses, cars, crypto wallets, private loans and file-imported bank accounts
+ * that have no Plaid item. Their balances are entered by the user, and each
+ * entry is kept as a balance snapshot so it shows up in net worth history.
+ */
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Account types a manual account can be created with
+export const MANUAL_ACCOUNT_TYPES = [
+  'depository',
+  'investment',
+  'real_estate',
+  'vehicle',
+  'crypto',
+  'other_asset',
+  'credit',
+  'loan',
+  'other_debt',
+];
+
+// A manual account's fields as the client sends them
+export interface ManualAccountFields {
+  name?: string;
+  type?: string;
+  subtype?: string | null;
+  mask?: string | null;
+  balance?: number | string | null;
+  as_of?: string | null;
+  note?: string | null;
+  currency_code?: string | null;
+  institution_name?: string | null;
+}
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Validate the fields of a manual account. Returns an error message, or null
+ * if valid. `partial` skips required-field checks for updates.
+ */
+export function validateManualAccount(fields: ManualAccountFields, partial = false): string | null {
+  if ((!partial || fields.name !== undefined) && !String(fields.name || '').trim()) {
+    return 'Name is required';
+  }
+  if ((!partial || fields.type !== undefined) && !MANUAL_ACCOUNT_TYPES.includes(fields.type || '')) {
+    return `type must be one of: ${MANUAL_ACCOUNT_TYPES.join(', ')}`;
+  }
+  if (fields.balance !== undefined && fields.balance !== null && isNaN(Number(fields.balance))) {
+    return 'balance must be a number';
+  }
+  if (fields.as_of !== undefined && fields.as_of !== null) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fields.as_of) || isNaN(new Date(`${fields.as_of}T00:00:00Z`).getTime())) {
+      return 'as_of must be a YYYY-MM-DD date';
+    }
+    if (fields.as_of > toDateKey(new Date())) {
+      return 'as_of cannot be in the future';
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an accounts row for a new manual account
+ */
+export function buildManualAccount(userId: string, fields: ManualAccountFields, accountId?: string) {
+  return {
+    user_id: userId,
+    plaid_item_id: null,
+    account_id: accountId || `manual-${randomUUID()}`,
+    name: String(fields.name).trim(),
+    type: fields.type,
+    subtype: fields.subtype || null,
+    mask: fields.mask || null,
+    balance_current: Number(fields.balance) || 0,
+    balance_available: null,
+    currency_code: fields.currency_code || 'USD',
+    institution_name: fields.institution_name || null,
+  };
+}
+
+/**
+ * Log a user-entered value for a manual account. Entries for a past date only
+ * fill in history; the account's current balance moves only when the entry is
+ * at least as recent as every other snapshot.
+ */
+export async function recordManualValue(
+  supabase: SupabaseClient,
+  userId: string,
+  accountId: string,
+  value: number,
+  options: { asOf?: string | null; note?: string | null } = {}
+) {
+  const snapshotDate = options.asOf || toDateKey(new Date());
+
+  const { error: snapshotError } = await supabase
+    .from('account_balance_snapshots')
+    .upsert({
+      user_id: userId,
+      account_id: accountId,
+      snapshot_date: snapshotDate,
+      balance_current: value,
+      balance_available: null,
+      source: 'manual',
+      note: options.note || null,
+    }, { onConflict: 'account_id,snapshot_date' });
+
+  if (snapshotError) {
+    throw new Error(`Failed to record value: ${snapshotError.message}`);
+  }
+
+  const { data: latest } = await supabase
+    .from('account_balance_snapshots')
+    .select('snapshot_date')
+    .eq('account_id', accountId)
+    .order('snapshot_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!latest || latest.snapshot_date <= snapshotDate) {
+    const { error: updateError } = await supabase
+      .from('accounts')
+      .update({ balance_current: value, updated_at: new Date().toISOString() })
+      .eq('id', accountId)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      throw new Error(`Failed to update balance: ${updateError.message}`);
+    }
+  }
+}
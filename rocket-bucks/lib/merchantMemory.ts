@@ -0,0 +1,181 @@
+/**
+ * Per-user merchant → category memory
+ * Learned from the categories users pick when correcting transactions, and
+ * consulted before the built-in keyword categorization
+ */
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+
+export interface MerchantMemoryEntry {
+  merchant_key: string;
+  category_id: string | null;
+  user_category_name: string | null;
+  confidence: number | string;
+}
+
+// The transaction fields a merchant is recognized by
+export interface MerchantTransaction {
+  name?: string | null;
+  merchant_name?: string | null;
+}
+
+interface CategorizedTransaction extends MerchantTransaction {
+  id: string;
+  category_id?: string | null;
+  user_category_name?: string | null;
+}
+
+// A transaction along with whether its account was archived
+type CategorizedTransactionWithAccount = CategorizedTransaction & { accounts: { archived_at: string | null } | null };
+
+// Words that vary between statements of the same merchant
+const MERCHANT_NOISE_WORDS = /\b(pos|debit|purchase|www|com|inc|llc|co)\b/g;
+
+/**
+ * Reduce a merchant or transaction name to a stable key, e.g.
+ * "STARBUCKS STORE #1234" and "Starbucks Store 987" both become "starbucks store"
+ */
+export function normalizeMerchant(name: string | null | undefined, merchantName?: string | null): string {
+  const source = (merchantName || name || '').toLowerCase();
+  const normalized = source
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-z&' ]+/g, ' ')
+    .replace(MERCHANT_NOISE_WORDS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return normalized || source.trim();
+}
+
+/**
+ * Confidence grows with each consistent correction: 0.5, 0.75, 0.875, ...
+ */
+export function confidenceForCount(count: number): number {
+  return Math.round((1 - Math.pow(0.5, Math.max(0, count))) * 1000) / 1000;
+}
+
+// A merchant's category is only applied to new transactions once the user has
+// chosen it twice in a row, so a one-off correction doesn't recategorize every sync
+export const MIN_CORRECTIONS_TO_APPLY = 2;
+export const MIN_MEMORY_CONFIDENCE = confidenceForCount(MIN_CORRECTIONS_TO_APPLY);
+
+/**
+ * Remember the category a user chose for a transaction's merchant. Choosing a
+ * different category for the same merchant starts the confidence over.
+ */
+export async function recordCategoryCorrection(
+  supabase: SupabaseClient,
+  userId: string,
+  tx: MerchantTransaction,
+  category: { category_id?: string | null; user_category_name?: string | null }
+) {
+  const merchantKey = normalizeMerchant(tx.name, tx.merchant_name);
+  if (!merchantKey || (!category.category_id && !category.user_category_name)) {
+    return null;
+  }
+
+  const { data: existing } = await supabase
+    .from('merchant_category_memory')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('merchant_key', merchantKey)
+    .maybeSingle();
+
+  const sameCategory = existing &&
+    (existing.user_category_name || null) === (category.user_category_name || null) &&
+    (existing.category_id || null) === (category.category_id || null);
+  const correctionCount = sameCategory ? existing.correction_count + 1 : 1;
+
+  const { data: memory, error } = await supabase
+    .from('merchant_category_memory')
+    .upsert({
+      user_id: userId,
+      merchant_key: merchantKey,
+      merchant_name: tx.merchant_name || tx.name,
+      category_id: category.category_id || null,
+      user_category_name: category.user_category_name || null,
+      correction_count: correctionCount,
+      confidence: confidenceForCount(correctionCount),
+      last_corrected_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,merchant_key' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving merchant category memory:', error);
+    return null;
+  }
+
+  return memory;
+}
+
+/**
+ * Load the user's merchant memory keyed by merchant_key
+ */
+export async function loadMerchantMemory(supabase: SupabaseClient, userId: string): Promise<Map<string, MerchantMemoryEntry>> {
+  const { data, error } = await supabase
+    .from('merchant_category_memory')
+    .select('merchant_key, category_id, user_category_name, confidence')
+    .eq('user_id', userId)
+    .gte('confidence', MIN_MEMORY_CONFIDENCE);
+
+  if (error) {
+    console.error('Error loading merchant category memory:', error);
+    return new Map();
+  }
+
+  return new Map((data || []).map((entry: MerchantMemoryEntry) => [entry.merchant_key, entry] as const));
+}
+
+/**
+ * The remembered category for a transaction's merchant, if confident enough
+ */
+export function lookupMerchantCategory(
+  memory: Map<string, MerchantMemoryEntry>,
+  tx: MerchantTransaction
+): MerchantMemoryEntry | null {
+  const entry = memory.get(normalizeMerchant(tx.name, tx.merchant_name));
+  if (!entry || Number(entry.confidence) < MIN_MEMORY_CONFIDENCE) return null;
+  return entry;
+}
+
+/**
+ * Find the user's other transactions from the same merchant whose category
+ * differs from the given one
+ */
+export async function findMerchantTransactionsToRecategorize(
+  supabase: SupabaseClient,
+  userId: string,
+  tx: CategorizedTransaction
+): Promise<{ data: CategorizedTransaction[]; error: PostgrestError | null }> {
+  const merchantKey = normalizeMerchant(tx.name, tx.merchant_name);
+  const words = merchantKey.split(/[^a-z0-9&']+/).filter(Boolean);
+  if (words.length === 0) return { data: [], error: null };
+
+  // Every word of the key appears in order in the name it came from, so this
+  // narrows the query to likely matches; normalizeMerchant below confirms them
+  const pattern = `%${words.join('%')}%`;
+
+  const { data, error } = await fetchAllRows(() => supabase
+    .from('transactions')
+    .select<string, CategorizedTransactionWithAccount>(
+      'id, name, merchant_name, category_id, user_category_name, accounts!account_id ( archived_at )'
+    )
+    .eq('user_id', userId)
+    .neq('id', tx.id)
+    .or(`merchant_name.ilike.${pattern},name.ilike.${pattern}`)
+    .order('id', { ascending: true }));
+
+  if (error) return { data: [], error };
+
+  return {
+    data: data.filter((other) =>
+      // Archived accounts (an unlinked institution's history) are read-only
+      !other.accounts?.archived_at &&
+      normalizeMerchant(other.name, other.merchant_name) === merchantKey &&
+      ((other.user_category_name || null) !== (tx.user_category_name || null) ||
+       (other.category_id || null) !== (tx.category_id || null))
+    ),
+    error: null,
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * Cursor-based transaction sync using Plaid /transactions/sync
+ * Shared by the manual sync endpoint and the initial sync after linking an item
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AccountBase, PlaidApi, PlaidError, RemovedTransaction, Transaction } from 'plaid';
+import { autoCategorizeTransaction } from './categorization.js';
+import { recordBalanceSnapshots } from './balanceSnapshots.js';
+import { getRuleUpdates, loadActiveRules, type CategorizationRule, type RuleTransaction } from './categorizationRules.js';
+import { loadMerchantMemory, lookupMerchantCategory, type MerchantMemoryEntry } from './merchantMemory.js';
+import { splitsMatchAmount } from './splits.js';
+import { matchTransfers, TRANSFER_MATCH_WINDOW_DAYS } from './transferMatcher.js';
+
+// Plaid caps /transactions/sync pages at 500 transactions
+const SYNC_PAGE_SIZE = 500;
+const MAX_PAGINATION_RESTARTS = 3;
+
+// User-editable fields carried over when a pending transaction posts
+const USER_EDITABLE_FIELDS = [
+  'category_id',
+  'user_category_name',
+  'notes',
+  'tags',
+  'excluded_from_budget',
+  'is_recurring',
+  'recurring_transaction_id',
+];
+
+export interface PlaidSyncResult {
+  added: number;
+  modified: number;
+  // Transactions Plaid removed outright
+  removed: number;
+  // Pending transactions replaced by their posted version
+  replaced_pending: number;
+  cursor: string | null;
+}
+
+/**
+ * A transactions table row built from a Plaid transaction. The index
+ * signature covers the user-editable fields carried over from pending rows.
+ */
+export interface SyncedTransactionRow {
+  user_id: string;
+  account_id: string;
+  transaction_id: string;
+  amount: number;
+  date: string;
+  authorized_date: string | null;
+  posted_date: string;
+  name: string;
+  plaid_category: string[];
+  plaid_primary_category: string | null;
+  plaid_detailed_category: string | null;
+  merchant_name: string | null;
+  location_city: string | null;
+  location_state: string | null;
+  location_country: string | null;
+  location_address: string | null;
+  location_lat: number | null;
+  location_lon: number | null;
+  transaction_type: 'expense' | 'income';
+  payment_channel: string | null;
+  check_number: string | null;
+  pending: boolean;
+  is_transfer?: boolean;
+  category_id?: string | null;
+  user_category_name?: string | null;
+  [field: string]: unknown;
+}
+
+// A stored pending transaction with the fields a user may have edited
+interface PendingTransactionRow {
+  id: string;
+  transaction_id: string;
+  [field: string]: unknown;
+}
+
+/**
+ * The Plaid error body of a failed Plaid API call, if it was one
+ */
+export function getPlaidError(error: unknown): Partial<PlaidError> | undefined {
+  return (error as { response?: { data?: Partial<PlaidError> } } | null)?.response?.data;
+}
+
+/**
+ * The Plaid error code of a failed Plaid API call, if it was one
+ */
+export function getPlaidErrorCode(error: unknown): string | undefined {
+  return getPlaidError(error)?.error_code;
+}
+
+/**
+ * Map a Plaid transaction to a row in the transactions table.
+ * User categorization is only included for newly added transactions so that
+ * modifications from Plaid never overwrite a user's manual edits.
+ */
+export function mapPlaidTransaction(
+  tx: Transaction,
+  userId: string,
+  dbAccountId: string,
+  options: { includeUserCategory?: boolean } = {}
+): SyncedTransactionRow {
+  const plaidCategory = tx.category?.[0] || null;
+
+  const row: SyncedTransactionRow = {
+    user_id: userId,
+    account_id: dbAccountId,
+    transaction_id: tx.transaction_id,
+    amount: tx.amount,
+    date: tx.date,
+    authorized_date: tx.authorized_date || null,
+    posted_date: tx.date,
+    name: tx.name,
+    // Plaid categorization
+    plaid_category: tx.category || [],
+    plaid_primary_category: plaidCategory,
+    plaid_detailed_category: tx.category ? tx.category.join(' > ') : null,
+    // Merchant and location
+    merchant_name: tx.merchant_name || null,
+    location_city: tx.location?.city || null,
+    location_state: tx.location?.region || null,
+    location_country: tx.location?.country || null,
+    location_address: tx.location?.address || null,
+    location_lat: tx.location?.lat || null,
+    location_lon: tx.location?.lon || null,
+    // Transaction metadata
+    // Plaid: positive = debit (expense), negative = credit (income)
+    transaction_type: tx.amount > 0 ? 'expense' : 'income',
+    payment_channel: tx.payment_channel || null,
+    check_number: tx.check_number || null,
+    // Flags
+    pending: tx.pending || false,
+    is_transfer: tx.amount === 0 || false,
+  };
+
+  if (options.includeUserCategory) {
+    let userCategory = null;
+    if (!plaidCategory) {
+      // Use our auto-categorization as fallback
+      const autoCategory = autoCategorizeTransaction(tx.name, tx.merchant_name);
+      if (autoCategory && autoCategory !== 'Uncategorized') {
+        userCategory = autoCategory;
+      }
+    }
+    row.user_category_name = userCategory;
+  }
+
+  return row;
+}
+
+/**
+ * Apply the user's categorization to a new transaction row: categories
+ * learned from their corrections, then their own rules, both of which outrank
+ * the built-in keyword categorization already on the row
+ */
+export function applyUserCategorization<Row extends RuleTransaction & { user_category_name?: string | null }>(
+  row: Row,
+  rules: CategorizationRule[],
+  merchantMemory: Map<string, MerchantMemoryEntry>
+): Row {
+  const learned = lookupMerchantCategory(merchantMemory, row);
+  if (learned) {
+    Object.assign(row, { category_id: learned.category_id, user_category_name: learned.user_category_name });
+  }
+  if (rules.length > 0) {
+    const { updates } = getRuleUpdates(rules, row);
+    Object.assign(row, updates);
+  }
+  return row;
+}
+
+/**
+ * Page through /transactions/sync starting at the given cursor.
+ * If Plaid reports the data changed mid-pagination, the whole loop is restarted
+ * from the original cursor as Plaid requires.
+ */
+async function fetchSyncUpdates(plaidClient: PlaidApi, accessToken: string, startCursor: string | null) {
+  for (let attempt = 0; attempt <= MAX_PAGINATION_RESTARTS; attempt++) {
+    const added: Transaction[] = [];
+    const modified: Transaction[] = [];
+    const removed: RemovedTransaction[] = [];
+    let accounts: AccountBase[] = [];
+    let cursor = startCursor;
+    let hasMore = true;
+
+    try {
+      while (hasMore) {
+        const response = await plaidClient.transactionsSync({
+          access_token: accessToken,
+          cursor: cursor || undefined,
+          count: SYNC_PAGE_SIZE,
+        });
+        const data = response.data;
+
+        added.push(...data.added);
+        modified.push(...data.modified);
+        removed.push(...data.removed);
+        accounts = data.accounts || accounts;
+        hasMore = data.has_more;
+        cursor = data.next_cursor;
+      }
+
+      return { added, modified, removed, accounts, nextCursor: cursor };
+    } catch (error) {
+      const errorCode = getPlaidErrorCode(error);
+      if (errorCode === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' && attempt < MAX_PAGINATION_RESTARTS) {
+        console.warn('⚠️  Transactions changed during pagination, restarting sync from original cursor');
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error('Transactions sync did not settle after restarting pagination');
+}
+
+/**
+ * Delete the splits of the given transactions whose parts no longer add up
+ * to the transaction's stored amount
+ */
+async function clearMismatchedSplits(
+  supabase: SupabaseClient,
+  userId: string,
+  rows: SyncedTransactionRow[],
+  storedIds: Map<string, string>,
+  transactionIds: string[]
+) {
+  const { data: splits, error } = await supabase
+    .from('transaction_splits')
+    .select('transaction_id, amount')
+    .eq('user_id', userId)
+    .in('transaction_id', transactionIds);
+
+  if (error) {
+    throw new Error(`Failed to check transaction splits: ${error.message}`);
+  }
+
+  const amounts = new Map<string, number>();
+  rows.forEach((row) => {
+    const id = storedIds.get(row.transaction_id);
+    if (id) amounts.set(id, Number(row.amount));
+  });
+  const splitsByTransaction = new Map<string, { amount: number }[]>();
+  (splits || []).forEach((split: { transaction_id: string; amount: number }) => {
+    const list = splitsByTransaction.get(split.transaction_id) || [];
+    list.push(split);
+    splitsByTransaction.set(split.transaction_id, list);
+  });
+
+  const mismatchedIds = Array.from(splitsByTransaction.entries())
+    .filter(([transactionId, parts]) => amounts.has(transactionId) && !splitsMatchAmount(amounts.get(transactionId)!, parts))
+    .map(([transactionId]) => transactionId);
+  if (mismatchedIds.length === 0) return;
+
+  const { error: deleteError } = await supabase
+    .from('transaction_splits')
+    .delete()
+    .eq('user_id', userId)
+    .in('transaction_id', mismatchedIds);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear transaction splits: ${deleteError.message}`);
+  }
+  console.log(`✂️  Cleared splits on ${mismatchedIds.length} transactions whose amount changed`);
+}
+
+/**
+ * Sync a single Plaid item: apply added/modified/removed deltas since the
+ * stored cursor, replace pending transactions with their posted versions and
+ * persist the new cursor on the plaid_items row.
+ */
+export async function syncPlaidItem(
+  supabase: SupabaseClient,
+  plaidClient: PlaidApi,
+  item: { id: string; institution_name: string | null; sync_cursor?: string | null },
+  accessToken: string,
+  userId: string
+): Promise<PlaidSyncResult> {
+  const { added, modified, removed, accounts: plaidAccounts, nextCursor } = await fetchSyncUpdates(
+    plaidClient,
+    accessToken,
+    item.sync_cursor || null
+  );
+
+  console.log(`✅ ${item.institution_name}: ${added.length} added, ${modified.length} modified, ${removed.length} removed`);
+
+  // Get account mappings
+  const { data: accounts } = await supabase
+    .from('accounts')
+    .select('id, account_id')
+    .eq('plaid_item_id', item.id);
+
+  const accountMap = new Map<string, string>(accounts?.map((a: { id: string; account_id: string }) => [a.account_id, a.id]) || []);
+
+  // Carry user edits over from pending transactions that have now posted
+  const pendingIds = added
+    .map((tx) => tx.pending_transaction_id)
+    .filter((id: string | null | undefined): id is string => !!id);
+  const pendingEdits = new Map<string, PendingTransactionRow>();
+
+  if (pendingIds.length > 0) {
+    const { data: pendingRows } = await supabase
+      .from('transactions')
+      .select<string, PendingTransactionRow>(`id, transaction_id, ${USER_EDITABLE_FIELDS.join(', ')}`)
+      .eq('user_id', userId)
+      .in('transaction_id', pendingIds);
+
+    (pendingRows || []).forEach((row) => pendingEdits.set(row.transaction_id, row));
+  }
+
+  // The user's own rules, then categories learned from their corrections,
+  // outrank the built-in keyword categorization
+  const rules = added.length > 0 ? await loadActiveRules(supabase, userId) : [];
+  const merchantMemory = added.length > 0 ? await loadMerchantMemory(supabase, userId) : new Map();
+
+  const addedRows = added
+    .map((tx) => {
+      const dbAccountId = accountMap.get(tx.account_id);
+      if (!dbAccountId) return null;
+
+      const row = applyUserCategorization(
+        mapPlaidTransaction(tx, userId, dbAccountId, { includeUserCategory: true }),
+        rules,
+        merchantMemory
+      );
+
+      const pendingRow = tx.pending_transaction_id ? pendingEdits.get(tx.pending_transaction_id) : null;
+      if (pendingRow) {
+        USER_EDITABLE_FIELDS.forEach((field) => {
+          if (pendingRow[field] !== null && pendingRow[field] !== undefined) {
+            row[field] = pendingRow[field];
+          }
+        });
+      }
+      return row;
+    })
+    .filter((row): row is SyncedTransactionRow => row !== null);
+
+  const modifiedRows = modified
+    .map((tx) => {
+      const dbAccountId = accountMap.get(tx.account_id);
+      if (!dbAccountId) return null;
+
+      const row = mapPlaidTransaction(tx, userId, dbAccountId);
+      // Transfer flags come from the transfer matcher and rules, so keep them
+      delete row.is_transfer;
+      return row;
+    })
+    .filter((row): row is SyncedTransactionRow => row !== null);
+
+  const storedIds = new Map<string, string>();
+  for (const rows of [addedRows, modifiedRows]) {
+    if (rows.length === 0) continue;
+
+    const { data: stored, error: upsertError } = await supabase
+      .from('transactions')
+      .upsert(rows, {
+        onConflict: 'account_id,transaction_id',
+      })
+      .select('id, transaction_id');
+
+    if (upsertError) {
+      console.error(`❌ Error storing transactions for item ${item.id}:`, upsertError);
+      throw new Error(`Failed to store transactions: ${upsertError.message}`);
+    }
+    (stored || []).forEach((row: { id: string; transaction_id: string }) => storedIds.set(row.transaction_id, row.id));
+  }
+
+  // Splits belong to the transaction row, so move them from each pending row
+  // to its posted version before the pending row is deleted below
+  const splitCheckIds = modifiedRows
+    .map((row) => storedIds.get(row.transaction_id))
+    .filter((id: string | undefined): id is string => !!id);
+  for (const tx of added) {
+    const pendingRow = tx.pending_transaction_id ? pendingEdits.get(tx.pending_transaction_id) : null;
+    const postedId = storedIds.get(tx.transaction_id);
+    if (!pendingRow || !postedId) continue;
+
+    const { error: moveError } = await supabase
+      .from('transaction_splits')
+      .update({ transaction_id: postedId })
+      .eq('user_id', userId)
+      .eq('transaction_id', pendingRow.id);
+
+    if (moveError) {
+      console.error(`❌ Error moving splits for item ${item.id}:`, moveError);
+      throw new Error(`Failed to move transaction splits: ${moveError.message}`);
+    }
+    splitCheckIds.push(postedId);
+  }
+
+  // A posted or modified amount can differ from the one the user split, and
+  // splits that no longer add up would misreport spending, so those are cleared
+  if (splitCheckIds.length > 0) {
+    await clearMismatchedSplits(supabase, userId, [...addedRows, ...modifiedRows], storedIds, splitCheckIds);
+  }
+
+  // Pending transactions that posted are reported as removed, so the posted
+  // version (with the user's edits) has already replaced them above
+  const replacedPendingIds = new Set(pendingIds);
+  const droppedIds = Array.from(new Set<string>(removed.map((tx) => tx.transaction_id)))
+    .filter((id) => !replacedPendingIds.has(id));
+  const removedIds = [...droppedIds, ...replacedPendingIds];
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('user_id', userId)
+      .in('transaction_id', removedIds);
+
+    if (deleteError) {
+      console.error(`❌ Error removing transactions for item ${item.id}:`, deleteError);
+      throw new Error(`Failed to remove transactions: ${deleteError.message}`);
+    }
+  }
+
+  // Keep balances current with what Plaid returned alongside the deltas
+  const refreshedBalances: { id: string; balance_current: number; balance_available: number | null }[] = [];
+  for (const account of plaidAccounts) {
+    const dbAccountId = accountMap.get(account.account_id);
+    if (!dbAccountId) continue;
+
+    const balances = {
+      balance_current: account.balances?.current ?? 0,
+      balance_available: account.balances?.available ?? null,
+    };
+
+    const { error: balanceError } = await supabase
+      .from('accounts')
+      .update({
+        ...balances,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', dbAccountId);
+
+    if (balanceError) {
+      console.error(`❌ Error updating balances for item ${item.id}:`, balanceError);
+      throw new Error(`Failed to update account balances: ${balanceError.message}`);
+    }
+
+    refreshedBalances.push({ id: dbAccountId, ...balances });
+  }
+
+  await recordBalanceSnapshots(supabase, userId, refreshedBalances, 'sync');
+
+  // Pair new transactions with their other side, which may be in another item
+  if (addedRows.length > 0) {
+    const earliest = addedRows.reduce((min, row) => (row.date < min ? row.date : min), addedRows[0].date);
+    const since = new Date(earliest);
+    since.setDate(since.getDate() - TRANSFER_MATCH_WINDOW_DAYS);
+    try {
+      const { matched_count, review_count } = await matchTransfers(supabase, userId, {
+        since: since.toISOString().split('T')[0],
+      });
+      if (matched_count > 0 || review_count > 0) {
+        console.log(`🔁 ${item.institution_name}: matched ${matched_count} transfers, ${review_count} need review`);
+      }
+    } catch (error) {
+      console.error(`❌ Error matching transfers for item ${item.id}:`, error);
+    }
+  }
+
+  // Only advance the cursor once every delta has been stored
+  const { error: cursorError } = await supabase
+    .from('plaid_items')
+    .update({ sync_cursor: nextCursor, updated_at: new Date().toISOString() })
+    .eq('id', item.id);
+
+  if (cursorError) {
+    console.error(`❌ Error saving sync cursor for item ${item.id}:`, cursorError);
+    throw new Error(`Failed to save sync cursor: ${cursorError.message}`);
+  }
+
+  return {
+    added: addedRows.length,
+    modified: modifiedRows.length,
+    removed: droppedIds.length,
+    replaced_pending: replacedPendingIds.size,
+    cursor: nextCursor,
+  };
+}
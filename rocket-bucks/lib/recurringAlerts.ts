@@ -0,0 +1,171 @@
+/**
+ * Price-increase and amount-anomaly detection for recurring streams
+ * Each charge is compared with the typical amount of the charges before it.
+ * A higher amount that sticks is a price increase; one that goes back down on
+ * the next charge is a one-off anomaly.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getStreamCharges, type StreamIdentity, type StreamTransaction } from './recurringStreams.js';
+
+// Flag charges more than 5% above the usual amount unless the stream sets its own threshold
+export const DEFAULT_AMOUNT_ALERT_THRESHOLD = 5;
+
+// How many earlier charges make up the usual amount
+const BASELINE_CHARGES = 3;
+
+// How far back to look for charges
+const LOOKBACK_MONTHS = 13;
+
+export type AmountChangeKind = 'price_increase' | 'anomaly';
+
+export interface AmountChange {
+  recurring_transaction_id: string;
+  transaction_id: string;
+  transaction_date: string;
+  previous_amount: number;
+  new_amount: number;
+  change_amount: number;
+  change_percent: number;
+  kind: AmountChangeKind;
+}
+
+// A stream as checked for amount changes
+export interface AmountAlertStream extends StreamIdentity {
+  average_amount?: number | string | null;
+  amount_alert_threshold?: number | string | null;
+}
+
+// One of a stream's charges
+export type StreamCharge = StreamTransaction & { id: string };
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function getThreshold(stream: AmountAlertStream): number {
+  const threshold = Number(stream.amount_alert_threshold);
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_AMOUNT_ALERT_THRESHOLD;
+}
+
+/**
+ * Charges from one stream that exceed the usual amount by more than its threshold
+ */
+export function detectAmountChanges(stream: AmountAlertStream, charges: StreamCharge[]): AmountChange[] {
+  const threshold = getThreshold(stream);
+  const changes: AmountChange[] = [];
+
+  charges.forEach((charge, index) => {
+    const history = charges.slice(Math.max(0, index - BASELINE_CHARGES), index).map((tx) => Number(tx.amount));
+    // With no earlier charges in range, fall back to Plaid's average for the stream
+    const baseline = history.length > 0 ? median(history) : Number(stream.average_amount) || 0;
+    const amount = Number(charge.amount);
+    if (baseline <= 0) return;
+
+    const changePercent = ((amount - baseline) / baseline) * 100;
+    if (changePercent <= threshold) return;
+
+    // The next charge decides whether the new amount stuck
+    const next = charges[index + 1];
+    const returnedToBaseline = next && ((Number(next.amount) - baseline) / baseline) * 100 <= threshold;
+
+    changes.push({
+      recurring_transaction_id: stream.id,
+      transaction_id: charge.id,
+      transaction_date: charge.date,
+      previous_amount: roundMoney(baseline),
+      new_amount: roundMoney(amount),
+      change_amount: roundMoney(amount - baseline),
+      change_percent: Math.round(changePercent * 10) / 10,
+      kind: returnedToBaseline ? 'anomaly' : 'price_increase',
+    });
+  });
+
+  // A price increase raises the baseline, so only the first charge at the new price is flagged
+  return changes.filter((change, index) => {
+    const previous = changes[index - 1];
+    return !(previous && previous.kind === 'price_increase' &&
+      Math.abs(change.new_amount - previous.new_amount) <= (previous.new_amount * getThreshold(stream)) / 100);
+  });
+}
+
+/**
+ * Check the user's active expense streams for charges above their usual
+ * amount and record any new ones. Existing records keep their review status.
+ */
+export async function detectRecurringAmountChanges(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { recurringId?: string; today?: Date } = {}
+): Promise<{ detected_count: number }> {
+  let streamQuery = supabase
+    .from('recurring_transactions')
+    .select('id, name, merchant_name, account_id, average_amount, amount_alert_threshold')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .eq('transaction_type', 'expense');
+
+  if (options.recurringId) {
+    streamQuery = streamQuery.eq('id', options.recurringId);
+  }
+
+  const { data: streams, error: streamsError } = await streamQuery;
+  if (streamsError) {
+    throw new Error(`Failed to load recurring transactions: ${streamsError.message}`);
+  }
+  if (!streams || streams.length === 0) {
+    return { detected_count: 0 };
+  }
+
+  const since = new Date(options.today || new Date());
+  since.setMonth(since.getMonth() - LOOKBACK_MONTHS);
+
+  const { data: transactions, error: txError } = await supabase
+    .from('transactions')
+    .select('id, account_id, date, amount, name, merchant_name, recurring_transaction_id')
+    .eq('user_id', userId)
+    .eq('pending', false)
+    .gte('date', since.toISOString().split('T')[0])
+    .gt('amount', 0);
+
+  if (txError) {
+    throw new Error(`Failed to load transactions: ${txError.message}`);
+  }
+
+  const detected: (AmountChange & { user_id: string })[] = [];
+  streams.forEach((stream: AmountAlertStream) => {
+    detectAmountChanges(stream, getStreamCharges(transactions || [], stream)).forEach((change) => {
+      detected.push({ user_id: userId, ...change });
+    });
+  });
+
+  if (detected.length === 0) {
+    return { detected_count: 0 };
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('recurring_amount_changes')
+    .select('recurring_transaction_id, transaction_id')
+    .eq('user_id', userId)
+    .in('transaction_id', detected.map((change) => change.transaction_id));
+
+  if (existingError) {
+    throw new Error(`Failed to load amount changes: ${existingError.message}`);
+  }
+
+  const existingKeys = new Set((existing || []).map((row) => `${row.recurring_transaction_id}:${row.transaction_id}`));
+
+  const { error } = await supabase
+    .from('recurring_amount_changes')
+    .upsert(detected, { onConflict: 'recurring_transaction_id,transaction_id' });
+  if (error) {
+    throw new Error(`Failed to save amount changes: ${error.message}`);
+  }
+
+  return {
+    detected_count: detected.filter((change) => !existingKeys.has(`${change.recurring_transaction_id}:${change.transaction_id}`)).length,
+  };
+}
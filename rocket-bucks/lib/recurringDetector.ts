@@ -0,0 +1,394 @@
+/**
+ * In-house recurring stream detection
+ * Groups a user's transactions by account and normalized merchant, infers a
+ * frequency from the spacing between charges, and scores how regular the
+ * dates and amounts are. Works on any transactions, including imported ones
+ * Plaid never saw.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+import { normalizeMerchant } from './merchantMemory.js';
+import { advanceDueDate } from './recurringStreams.js';
+
+export type DetectedFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Typical days between charges, and how far off a single gap may be
+const FREQUENCIES: { frequency: DetectedFrequency; days: number; tolerance: number; minOccurrences: number }[] = [
+  { frequency: 'weekly', days: 7, tolerance: 1, minOccurrences: 4 },
+  { frequency: 'biweekly', days: 14, tolerance: 2, minOccurrences: 3 },
+  { frequency: 'monthly', days: 30.4, tolerance: 4, minOccurrences: 3 },
+  { frequency: 'quarterly', days: 91.3, tolerance: 10, minOccurrences: 3 },
+  { frequency: 'yearly', days: 365.25, tolerance: 15, minOccurrences: 2 },
+];
+
+// Streams scoring below this are left alone
+export const MIN_STREAM_CONFIDENCE = 0.6;
+
+// Charges more than this far from a group's median amount belong to a different stream
+const AMOUNT_GROUP_TOLERANCE = 0.25;
+
+// Amounts steadier than this (coefficient of variation) look like a fixed-price subscription
+const SUBSCRIPTION_AMOUNT_VARIATION = 0.02;
+
+// Long enough to see two yearly charges
+const LOOKBACK_MONTHS = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DetectedStream {
+  account_id: string;
+  merchant_key: string;
+  name: string;
+  merchant_name: string | null;
+  transaction_type: 'expense' | 'income';
+  frequency: DetectedFrequency;
+  expected_amount: number;
+  average_amount: number;
+  start_date: string;
+  last_transaction_date: string;
+  next_due_date: string;
+  day_of_month: number | null;
+  day_of_week: number | null;
+  total_occurrences: number;
+  is_subscription: boolean;
+  confidence: number;
+  transaction_ids: string[];
+}
+
+// A transaction as considered for detection
+export interface DetectableTransaction {
+  id: string;
+  account_id: string | null;
+  date: string;
+  amount: number | string;
+  name?: string | null;
+  merchant_name?: string | null;
+  pending?: boolean | null;
+  is_transfer?: boolean | null;
+  recurring_transaction_id?: string | null;
+}
+
+// A saved stream that detected ones are matched against
+interface SavedStream {
+  id: string;
+  account_id: string | null;
+  name: string;
+  merchant_name: string | null;
+  transaction_type: string | null;
+  expected_amount: number | string | null;
+  average_amount: number | string | null;
+  source: string | null;
+  last_transaction_date: string | null;
+  next_due_date: string | null;
+  total_occurrences: number | null;
+  not_recurring?: boolean | null;
+  merged_into_id?: string | null;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Split one merchant's charges into groups of similar amounts, so two
+ * subscriptions billed under the same name (e.g. Apple) become two streams
+ */
+function groupByAmount(transactions: DetectableTransaction[]): DetectableTransaction[][] {
+  const sorted = [...transactions].sort((a, b) => Math.abs(Number(a.amount)) - Math.abs(Number(b.amount)));
+  const groups: DetectableTransaction[][] = [];
+
+  sorted.forEach((tx) => {
+    const amount = Math.abs(Number(tx.amount));
+    const group = groups[groups.length - 1];
+    const groupMedian = group ? median(group.map((g) => Math.abs(Number(g.amount)))) : 0;
+    if (group && amount <= groupMedian * (1 + AMOUNT_GROUP_TOLERANCE)) {
+      group.push(tx);
+    } else {
+      groups.push([tx]);
+    }
+  });
+
+  return groups.map((group) => group.sort((a, b) => a.date.localeCompare(b.date)));
+}
+
+/**
+ * Score one group of charges as a recurring stream, or null if the dates
+ * don't follow any supported frequency
+ */
+function scoreGroup(charges: DetectableTransaction[]): Omit<DetectedStream, 'account_id' | 'merchant_key' | 'name' | 'merchant_name' | 'transaction_type'> | null {
+  // Several charges on one day count as a single occurrence
+  const occurrences: { date: string; amount: number; ids: string[] }[] = [];
+  charges.forEach((tx) => {
+    const last = occurrences[occurrences.length - 1];
+    if (last && last.date === tx.date) {
+      last.amount += Math.abs(Number(tx.amount));
+      last.ids.push(tx.id);
+    } else {
+      occurrences.push({ date: tx.date, amount: Math.abs(Number(tx.amount)), ids: [tx.id] });
+    }
+  });
+
+  if (occurrences.length < 2) return null;
+
+  const intervals = occurrences.slice(1).map((occ, index) => daysBetween(occurrences[index].date, occ.date));
+  const typicalInterval = median(intervals);
+  const match = FREQUENCIES.find((f) => Math.abs(typicalInterval - f.days) <= f.tolerance);
+  if (!match || occurrences.length < match.minOccurrences) return null;
+
+  const regularIntervals = intervals.filter((interval) => Math.abs(interval - match.days) <= match.tolerance).length;
+  const intervalScore = regularIntervals / intervals.length;
+
+  const amounts = occurrences.map((occ) => occ.amount);
+  const mean = amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+  const variation = mean > 0
+    ? Math.sqrt(amounts.reduce((sum, amount) => sum + Math.pow(amount - mean, 2), 0) / amounts.length) / mean
+    : 1;
+  const amountScore = Math.max(0, 1 - variation * 2);
+
+  // More occurrences make the pattern more believable, up to twice the minimum
+  const countScore = Math.min(1, occurrences.length / (match.minOccurrences * 2));
+
+  const first = occurrences[0];
+  const last = occurrences[occurrences.length - 1];
+  const lastDate = new Date(`${last.date}T00:00:00Z`);
+  const byDayOfMonth = match.frequency === 'monthly' || match.frequency === 'quarterly' || match.frequency === 'yearly';
+
+  return {
+    frequency: match.frequency,
+    expected_amount: roundMoney(last.amount),
+    average_amount: roundMoney(mean),
+    start_date: first.date,
+    last_transaction_date: last.date,
+    next_due_date: advanceDueDate(last.date, match.frequency),
+    day_of_month: byDayOfMonth ? lastDate.getUTCDate() : null,
+    day_of_week: byDayOfMonth ? null : lastDate.getUTCDay(),
+    total_occurrences: occurrences.length,
+    is_subscription: variation <= SUBSCRIPTION_AMOUNT_VARIATION,
+    confidence: Math.round((0.5 * intervalScore + 0.3 * amountScore + 0.2 * countScore) * 1000) / 1000,
+    transaction_ids: occurrences.flatMap((occ) => occ.ids),
+  };
+}
+
+/**
+ * Recurring streams in a user's transactions with at least MIN_STREAM_CONFIDENCE.
+ * Positive amounts are expenses and negative amounts income, as Plaid reports them.
+ */
+export function detectRecurringStreams(transactions: DetectableTransaction[]): DetectedStream[] {
+  const clusters = new Map<string, DetectableTransaction[]>();
+
+  transactions.forEach((tx) => {
+    const amount = Number(tx.amount);
+    if (tx.pending || tx.is_transfer || !amount || !tx.account_id) return;
+    const merchantKey = normalizeMerchant(tx.name, tx.merchant_name);
+    if (!merchantKey) return;
+
+    const key = `${tx.account_id}|${amount > 0 ? 'expense' : 'income'}|${merchantKey}`;
+    if (!clusters.has(key)) {
+      clusters.set(key, []);
+    }
+    clusters.get(key)!.push(tx);
+  });
+
+  const streams: DetectedStream[] = [];
+
+  clusters.forEach((clusterTransactions, key) => {
+    const [accountId, transactionType, merchantKey] = key.split('|');
+    const groups = groupByAmount(clusterTransactions)
+      .map((group) => ({ group, scored: scoreGroup(group) }))
+      .filter(({ scored }) => scored && scored.confidence >= MIN_STREAM_CONFIDENCE);
+
+    groups.forEach(({ group, scored }) => {
+      const latest = group[group.length - 1];
+      const baseName = latest.merchant_name || latest.name || merchantKey;
+      streams.push({
+        account_id: accountId,
+        merchant_key: merchantKey,
+        // Streams share a unique (name, account), so a second stream from the same merchant is named by its amount
+        name: groups.length > 1 ? `${baseName} ($${scored!.expected_amount.toFixed(2)})` : baseName,
+        merchant_name: latest.merchant_name || null,
+        transaction_type: transactionType as 'expense' | 'income',
+        ...scored!,
+        is_subscription: transactionType === 'expense' && scored!.is_subscription,
+      });
+    });
+  });
+
+  return streams;
+}
+
+/**
+ * Columns a detected stream sets on its recurring_transactions row
+ */
+function getScheduleFields(stream: DetectedStream) {
+  return {
+    frequency: stream.frequency,
+    expected_amount: stream.expected_amount,
+    average_amount: stream.average_amount,
+    start_date: stream.start_date,
+    last_transaction_date: stream.last_transaction_date,
+    next_due_date: stream.next_due_date,
+    day_of_month: stream.day_of_month,
+    day_of_week: stream.day_of_week,
+    total_occurrences: stream.total_occurrences,
+    confidence: stream.confidence,
+  };
+}
+
+/**
+ * The saved stream a detected one corresponds to: one its transactions are
+ * already linked to, or one from the same merchant on the same account with a
+ * similar amount
+ */
+function findExistingStream(detected: DetectedStream, existing: SavedStream[], linkedStreamIds: Set<string>): SavedStream | null {
+  const linked = existing.find((stream) => linkedStreamIds.has(stream.id));
+  if (linked) return linked;
+
+  return existing.find((stream) => {
+    if (stream.account_id !== detected.account_id) return false;
+    if ((stream.transaction_type || 'expense') !== detected.transaction_type) return false;
+    if (normalizeMerchant(stream.name, stream.merchant_name) !== detected.merchant_key) return false;
+    const amount = Number(stream.expected_amount || stream.average_amount) || 0;
+    return amount === 0 ||
+      Math.abs(amount - detected.expected_amount) <= Math.max(amount, detected.expected_amount) * AMOUNT_GROUP_TOLERANCE;
+  }) || null;
+}
+
+/**
+ * Detect recurring streams in the user's transactions, create or update
+ * recurring_transactions rows for them, and link their transactions.
+ * Streams Plaid reported or the user edited keep their schedule; only the
+ * links are added. Streams marked "not recurring" are skipped.
+ */
+export async function syncDetectedRecurring(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { today?: Date } = {}
+): Promise<{ created_count: number; updated_count: number; linked_count: number }> {
+  const since = new Date(options.today || new Date());
+  since.setMonth(since.getMonth() - LOOKBACK_MONTHS);
+
+  const { data: transactions, error: txError } = await fetchAllRows(() =>
+    supabase
+      .from('transactions')
+      .select<string, DetectableTransaction>('id, account_id, date, amount, name, merchant_name, pending, is_transfer, recurring_transaction_id')
+      .eq('user_id', userId)
+      .gte('date', since.toISOString().split('T')[0])
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+  );
+  if (txError) {
+    throw new Error(`Failed to load transactions: ${txError.message}`);
+  }
+
+  const detected = detectRecurringStreams(transactions);
+  if (detected.length === 0) {
+    return { created_count: 0, updated_count: 0, linked_count: 0 };
+  }
+
+  const { data: existingStreams, error: streamsError } = await supabase
+    .from('recurring_transactions')
+    .select('id, account_id, name, merchant_name, transaction_type, expected_amount, average_amount, source, last_transaction_date, next_due_date, total_occurrences, not_recurring, merged_into_id')
+    .eq('user_id', userId);
+  if (streamsError) {
+    throw new Error(`Failed to load recurring transactions: ${streamsError.message}`);
+  }
+
+  const existing: SavedStream[] = existingStreams || [];
+  const linkedTo = new Map(transactions.map((tx) => [tx.id, tx.recurring_transaction_id || null]));
+  let createdCount = 0;
+  let updatedCount = 0;
+  let linkedCount = 0;
+
+  for (const stream of detected) {
+    const linkedStreamIds = new Set(
+      stream.transaction_ids.map((id) => linkedTo.get(id)).filter(Boolean) as string[]
+    );
+    let match = findExistingStream(stream, existing, linkedStreamIds);
+    const schedule = getScheduleFields(stream);
+
+    // The user said this isn't recurring, or merged it into another stream
+    let mergedInto = false;
+    if (match?.not_recurring) {
+      const mergedIntoId = match.merged_into_id;
+      match = mergedIntoId ? existing.find((other) => other.id === mergedIntoId) || null : null;
+      if (!match) continue;
+      mergedInto = true;
+    }
+
+    let streamId: string;
+    if (match) {
+      streamId = match.id;
+    } else {
+      const nameTaken = existing.some((other) => other.account_id === stream.account_id && other.name === stream.name);
+      const name = nameTaken ? `${stream.name} ($${stream.expected_amount.toFixed(2)})` : stream.name;
+      const { data: created, error } = await supabase
+        .from('recurring_transactions')
+        .insert({
+          user_id: userId,
+          account_id: stream.account_id,
+          name,
+          merchant_name: stream.merchant_name,
+          transaction_type: stream.transaction_type,
+          is_subscription: stream.is_subscription,
+          is_active: true,
+          source: 'detected',
+          ...schedule,
+        })
+        .select('id')
+        .single();
+      if (error) {
+        throw new Error(`Failed to create recurring transaction: ${error.message}`);
+      }
+      streamId = created.id;
+      existing.push({ ...stream, name, id: streamId, source: 'detected' });
+      createdCount++;
+    }
+
+    const toLink = stream.transaction_ids.filter((id) => !linkedTo.get(id));
+    if (toLink.length > 0) {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ recurring_transaction_id: streamId, is_recurring: true })
+        .in('id', toLink)
+        .eq('user_id', userId)
+        .is('recurring_transaction_id', null);
+      if (error) {
+        throw new Error(`Failed to link recurring transactions: ${error.message}`);
+      }
+      toLink.forEach((id) => linkedTo.set(id, streamId));
+      linkedCount += toLink.length;
+    }
+
+    // Linking fires the stats trigger once per transaction, in no particular
+    // order, so the schedule is written back afterwards. Plaid and user-created
+    // streams keep their own schedule.
+    const ownSchedule = match && (mergedInto || match.source !== 'detected');
+    if (ownSchedule && toLink.length === 0) continue;
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update(ownSchedule && match
+        ? {
+          last_transaction_date: match.last_transaction_date,
+          next_due_date: match.next_due_date,
+          total_occurrences: match.total_occurrences,
+          average_amount: match.average_amount,
+        }
+        : schedule)
+      .eq('id', streamId)
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to update recurring transaction: ${error.message}`);
+    }
+    if (match && !ownSchedule) updatedCount++;
+  }
+
+  return { created_count: createdCount, updated_count: updatedCount, linked_count: linkedCount };
+}
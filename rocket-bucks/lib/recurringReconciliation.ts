@@ -0,0 +1,254 @@
+/**
+ * Missed and late recurring payment tracking
+ * Walks each active stream's due dates up to today. A due date is paid when a
+ * matching charge lands within the grace window around it (late if after the
+ * due date) and missed otherwise. Streams that miss several in a row are ended.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+import {
+  advanceDueDate,
+  getStreamCharges,
+  SCHEDULED_FREQUENCIES,
+  type StreamIdentity,
+  type StreamTransaction,
+} from './recurringStreams.js';
+
+// Days a charge may land before or after its due date and still count
+const GRACE_DAYS: Record<string, number> = {
+  daily: 0,
+  weekly: 2,
+  biweekly: 3,
+  semi_monthly: 3,
+  monthly: 5,
+  bimonthly: 5,
+  quarterly: 7,
+  semi_annually: 10,
+  annually: 10,
+  yearly: 10,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Never walk more than this many periods in one pass (a daily stream left for years)
+const MAX_PERIODS_PER_PASS = 400;
+
+export function getGraceDays(frequency: string | null | undefined): number {
+  return GRACE_DAYS[(frequency || '').toLowerCase()] ?? GRACE_DAYS.monthly;
+}
+
+/**
+ * Consecutive misses after which a stream is considered ended: three for
+ * monthly and faster, two for streams that bill a few times a year
+ */
+export function getMissesBeforeEnding(frequency: string | null | undefined): number {
+  return ['quarterly', 'semi_annually', 'annually', 'yearly'].includes((frequency || '').toLowerCase()) ? 2 : 3;
+}
+
+const addDays = (dateString: string, days: number) =>
+  new Date(new Date(`${dateString}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+// A stream with its schedule and what earlier passes recorded
+export interface ReconcilableStream extends StreamIdentity {
+  frequency?: string | null;
+  next_due_date?: string | null;
+  last_transaction_date?: string | null;
+  day_of_month?: number | null;
+  missed_count?: number | null;
+  consecutive_missed?: number | null;
+  late_count?: number | null;
+  reconciled_through?: string | null;
+}
+
+// A charge that may pay one of a stream's due dates
+export type ReconcilableCharge = StreamTransaction & { id: string; due_date?: string | null };
+
+// Columns a pass updates on the stream's recurring_transactions row
+export interface StreamChanges {
+  next_due_date: string | null;
+  reconciled_through: string | null;
+  missed_count: number;
+  consecutive_missed: number;
+  late_count: number;
+  is_active?: boolean;
+  end_date?: string | null;
+}
+
+export interface StreamReconciliation {
+  changes: StreamChanges | null;
+  // Charges matched to a due date, to be stamped with expected_date/due_date
+  payments: { transaction_id: string; due_date: string; late: boolean }[];
+  missed: string[];
+}
+
+/**
+ * Settle every due date of one stream whose grace window has closed by `today`
+ */
+export function reconcileStream(
+  stream: ReconcilableStream,
+  transactions: ReconcilableCharge[],
+  today: Date = new Date()
+): StreamReconciliation {
+  const result: StreamReconciliation = { changes: null, payments: [], missed: [] };
+  const frequency = (stream.frequency || '').toLowerCase();
+
+  // Irregular streams have no schedule to miss
+  if (!stream.next_due_date || !SCHEDULED_FREQUENCIES.includes(frequency)) {
+    return result;
+  }
+
+  const todayKey = today.toISOString().split('T')[0];
+  const grace = getGraceDays(frequency);
+  const charges = getStreamCharges(transactions, stream);
+  const used = new Set<string>();
+
+  let dueDate: string = stream.next_due_date;
+  const dayOfMonth = Number(stream.day_of_month) || new Date(`${stream.next_due_date}T00:00:00Z`).getUTCDate();
+  let reconciledThrough: string | null = stream.reconciled_through || null;
+  let consecutiveMissed = Number(stream.consecutive_missed) || 0;
+  let missedCount = Number(stream.missed_count) || 0;
+  let lateCount = Number(stream.late_count) || 0;
+  let firstMissedDue: string | null = null;
+
+  for (let period = 0; period < MAX_PERIODS_PER_PASS && addDays(dueDate, grace) < todayKey; period++) {
+    const windowStart = addDays(dueDate, -grace);
+    const windowEnd = addDays(dueDate, grace);
+    const payment = charges.find((tx) => !used.has(tx.id) && tx.date >= windowStart && tx.date <= windowEnd);
+
+    // Plaid and the detector reset next_due_date from the last charge, so due
+    // dates already settled by an earlier pass are skipped rather than recounted
+    const alreadySettled = reconciledThrough !== null && dueDate <= reconciledThrough;
+
+    if (payment) {
+      used.add(payment.id);
+      const late = payment.date > dueDate;
+      result.payments.push({ transaction_id: payment.id, due_date: dueDate, late });
+      if (!alreadySettled) {
+        consecutiveMissed = 0;
+        if (late) lateCount++;
+      }
+    } else if (!alreadySettled) {
+      result.missed.push(dueDate);
+      missedCount++;
+      consecutiveMissed++;
+      firstMissedDue = firstMissedDue || dueDate;
+    }
+
+    reconciledThrough = reconciledThrough && reconciledThrough > dueDate ? reconciledThrough : dueDate;
+    dueDate = advanceDueDate(dueDate, frequency, dayOfMonth);
+
+    if (consecutiveMissed >= getMissesBeforeEnding(frequency)) break;
+  }
+
+  if (dueDate === stream.next_due_date && reconciledThrough === (stream.reconciled_through || null)) {
+    return result;
+  }
+
+  const changes: StreamChanges = {
+    next_due_date: dueDate,
+    reconciled_through: reconciledThrough,
+    missed_count: missedCount,
+    consecutive_missed: consecutiveMissed,
+    late_count: lateCount,
+  };
+
+  if (consecutiveMissed >= getMissesBeforeEnding(frequency)) {
+    changes.is_active = false;
+    changes.end_date = stream.last_transaction_date || firstMissedDue || reconciledThrough;
+    changes.next_due_date = null;
+  }
+
+  result.changes = changes;
+  return result;
+}
+
+/**
+ * Reconcile every active stream for the user: record missed and late
+ * payments, move next_due_date past settled periods, and end streams that
+ * stopped charging
+ */
+export async function reconcileRecurringPayments(
+  supabase: SupabaseClient,
+  userId: string,
+  today: Date = new Date()
+): Promise<{ missed_count: number; late_count: number; ended_count: number }> {
+  const { data: streams, error: streamsError } = await supabase
+    .from('recurring_transactions')
+    .select<string, ReconcilableStream & { next_due_date: string }>(
+      'id, name, merchant_name, account_id, frequency, transaction_type, next_due_date, last_transaction_date, day_of_month, missed_count, consecutive_missed, late_count, reconciled_through'
+    )
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .eq('is_paused', false)
+    .is('cancellation_status', null)
+    .not('next_due_date', 'is', null)
+    .lt('next_due_date', today.toISOString().split('T')[0]);
+
+  if (streamsError) {
+    throw new Error(`Failed to load recurring transactions: ${streamsError.message}`);
+  }
+  if (!streams || streams.length === 0) {
+    return { missed_count: 0, late_count: 0, ended_count: 0 };
+  }
+
+  // Charges can arrive up to the longest grace window before the earliest due date
+  const earliestDue = streams.reduce(
+    (min, stream) => (stream.next_due_date < min ? stream.next_due_date : min),
+    streams[0].next_due_date
+  );
+  const maxGrace = Math.max(...Object.values(GRACE_DAYS));
+
+  const { data: transactions, error: txError } = await fetchAllRows(() =>
+    supabase
+      .from('transactions')
+      .select<string, ReconcilableCharge>('id, account_id, date, amount, name, merchant_name, recurring_transaction_id, due_date')
+      .eq('user_id', userId)
+      .eq('pending', false)
+      .gte('date', addDays(earliestDue, -maxGrace))
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+  );
+
+  if (txError) {
+    throw new Error(`Failed to load transactions: ${txError.message}`);
+  }
+
+  const dueDates = new Map(transactions.map((tx) => [tx.id, tx.due_date]));
+  let missedTotal = 0;
+  let lateTotal = 0;
+  let endedTotal = 0;
+
+  for (const stream of streams) {
+    const { changes, payments, missed } = reconcileStream(stream, transactions, today);
+
+    for (const payment of payments) {
+      if (dueDates.get(payment.transaction_id) === payment.due_date) continue;
+
+      const { error } = await supabase
+        .from('transactions')
+        .update({ expected_date: payment.due_date, due_date: payment.due_date })
+        .eq('id', payment.transaction_id)
+        .eq('user_id', userId);
+      if (error) {
+        throw new Error(`Failed to record payment: ${error.message}`);
+      }
+    }
+
+    if (!changes) continue;
+
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update(changes)
+      .eq('id', stream.id)
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to update recurring transaction: ${error.message}`);
+    }
+
+    missedTotal += missed.length;
+    lateTotal += changes.late_count - (Number(stream.late_count) || 0);
+    if (changes.is_active === false) endedTotal++;
+  }
+
+  return { missed_count: missedTotal, late_count: lateTotal, ended_count: endedTotal };
+}
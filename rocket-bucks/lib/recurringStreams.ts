@@ -0,0 +1,147 @@
+/**
+ * Helpers for matching transactions to recurring streams
+ */
+import { normalizeMerchant } from './merchantMemory.js';
+
+// The stream fields its charges are recognized by
+export interface StreamIdentity {
+  id: string;
+  name: string;
+  merchant_name?: string | null;
+  account_id?: string | null;
+  transaction_type?: string | null;
+}
+
+// A transaction that may be a charge from a stream
+export interface StreamTransaction {
+  date: string;
+  amount: number | string;
+  name?: string | null;
+  merchant_name?: string | null;
+  account_id?: string | null;
+  recurring_transaction_id?: string | null;
+}
+
+// Frequencies with a fixed schedule (everything in the schema except 'irregular')
+export const SCHEDULED_FREQUENCIES = [
+  'daily', 'weekly', 'biweekly', 'semi_monthly', 'monthly', 'bimonthly',
+  'quarterly', 'semi_annually', 'annually', 'yearly',
+];
+
+// Every frequency a stream may have
+export const RECURRING_FREQUENCIES = [...SCHEDULED_FREQUENCIES, 'irregular'];
+
+// Plaid's stream frequencies; UNKNOWN (and anything newer) is stored as irregular
+const PLAID_FREQUENCIES: Record<string, string> = {
+  WEEKLY: 'weekly',
+  BIWEEKLY: 'biweekly',
+  SEMI_MONTHLY: 'semi_monthly',
+  MONTHLY: 'monthly',
+  ANNUALLY: 'annually',
+};
+
+/**
+ * The frequency and first due date to store for a Plaid recurring stream.
+ * Irregular streams have no due date.
+ */
+export function getPlaidStreamSchedule(
+  plaidFrequency: string | null | undefined,
+  lastDate: string | null | undefined
+): { frequency: string; next_due_date: string | null } {
+  const frequency = PLAID_FREQUENCIES[(plaidFrequency || '').toUpperCase()] || 'irregular';
+  return {
+    frequency,
+    next_due_date: lastDate && frequency !== 'irregular' ? advanceDueDate(lastDate, frequency) : null,
+  };
+}
+
+/**
+ * Whether a transaction is a charge from the given recurring stream: either
+ * linked to it, or from the same merchant on the same account. Income streams
+ * match deposits (negative amounts), everything else matches charges.
+ */
+export function isStreamCharge(tx: StreamTransaction, stream: StreamIdentity): boolean {
+  const amount = Number(tx.amount);
+  if (stream.transaction_type === 'income' ? amount >= 0 : amount <= 0) return false;
+  if (tx.recurring_transaction_id) {
+    return tx.recurring_transaction_id === stream.id;
+  }
+  if (stream.account_id && tx.account_id !== stream.account_id) {
+    return false;
+  }
+  const streamKey = normalizeMerchant(stream.name, stream.merchant_name);
+  return !!streamKey && normalizeMerchant(tx.name, tx.merchant_name) === streamKey;
+}
+
+/**
+ * The stream's charges among `transactions`, oldest first
+ */
+export function getStreamCharges<T extends StreamTransaction>(transactions: T[], stream: StreamIdentity): T[] {
+  return transactions
+    .filter((tx) => isStreamCharge(tx, stream))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The date one billing period after `dateString` (YYYY-MM-DD). Unknown
+ * frequencies are treated as monthly. Month-based frequencies land on
+ * `dayOfMonth` when given, so a stream billed on the 31st returns to the 31st
+ * after February.
+ */
+export function advanceDueDate(
+  dateString: string,
+  frequency: string | null | undefined,
+  dayOfMonth?: number | null
+): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  const addMonths = (months: number) => {
+    const day = dayOfMonth || date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    // Clamp to the end of shorter months (Jan 31 → Feb 28)
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+  };
+
+  switch ((frequency || '').toLowerCase()) {
+    case 'daily':
+      date.setUTCDate(date.getUTCDate() + 1);
+      break;
+    case 'weekly':
+      date.setUTCDate(date.getUTCDate() + 7);
+      break;
+    case 'biweekly':
+      date.setUTCDate(date.getUTCDate() + 14);
+      break;
+    case 'semi_monthly': {
+      // Twice a month: the 1st becomes the 16th, the 15th the 30th, the 16th the 1st
+      const day = date.getUTCDate();
+      if (day <= 15) {
+        const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+        date.setUTCDate(Math.min(day + 15, lastDay));
+      } else {
+        date.setUTCDate(1);
+        date.setUTCMonth(date.getUTCMonth() + 1);
+        date.setUTCDate(Math.min(15, day - 15));
+      }
+      break;
+    }
+    case 'bimonthly':
+      addMonths(2);
+      break;
+    case 'quarterly':
+      addMonths(3);
+      break;
+    case 'semi_annually':
+      addMonths(6);
+      break;
+    case 'annually':
+    case 'yearly':
+      addMonths(12);
+      break;
+    default:
+      addMonths(1);
+  }
+
+  return date.toISOString().split('T')[0];
+}
@@ -0,0 +1,110 @@
+/**
+ * Transaction splits
+ * A split allocates part of a transaction's amount to its own category and
+ * notes. Splits always sum to the parent amount, and spending breakdowns use
+ * the splits in place of the parent transaction.
+ */
+
+// Splits must add up to the parent within half a cent
+export const SPLIT_AMOUNT_TOLERANCE = 0.005;
+
+export interface TransactionSplitInput {
+  amount: number;
+  category_id?: string | null;
+  user_category_name?: string | null;
+  notes?: string | null;
+}
+
+// A saved split as loaded with its transaction
+export interface StoredTransactionSplit {
+  id: string;
+  amount: number | string;
+  category_id: string | null;
+  user_category_name: string | null;
+  notes: string | null;
+  transaction_categories?: { name: string } | null;
+}
+
+// A transaction with its splits loaded. The rows expandSplits creates for each
+// split point back at the transaction they came from.
+export interface SplittableTransaction {
+  id: string;
+  amount: number | string;
+  notes?: string | null;
+  category_id?: string | null;
+  user_category_name?: string | null;
+  plaid_primary_category?: string | null;
+  transaction_categories?: { name: string } | null;
+  transaction_splits?: StoredTransactionSplit[] | null;
+  parent_transaction_id?: string;
+  is_split?: boolean;
+}
+
+/**
+ * Validate splits against the parent amount. Returns an error message, or null if valid.
+ */
+export function validateSplits(parentAmount: number, splits: TransactionSplitInput[]): string | null {
+  if (!Array.isArray(splits) || splits.length < 2) {
+    return 'A split needs at least two parts';
+  }
+
+  for (const split of splits) {
+    const amount = Number(split.amount);
+    if (!Number.isFinite(amount) || amount === 0) {
+      return 'Every split needs a non-zero amount';
+    }
+    if (!split.category_id && !split.user_category_name) {
+      return 'Every split needs a category';
+    }
+  }
+
+  const total = splits.reduce((sum, split) => sum + Number(split.amount), 0);
+  if (Math.abs(total - Number(parentAmount)) > SPLIT_AMOUNT_TOLERANCE) {
+    return `Splits add up to ${total.toFixed(2)} but the transaction is ${Number(parentAmount).toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether saved splits still add up to the parent amount
+ */
+export function splitsMatchAmount(parentAmount: number, splits: { amount: number | string }[]): boolean {
+  const total = splits.reduce((sum, split) => sum + Number(split.amount), 0);
+  return Math.abs(total - Number(parentAmount)) <= SPLIT_AMOUNT_TOLERANCE;
+}
+
+/**
+ * Replace each split transaction with one row per split. Each row keeps the
+ * parent's date, account and merchant but takes the split's amount, category
+ * and notes. Transactions without splits are returned unchanged.
+ */
+export function expandSplits<T extends SplittableTransaction>(transactions: T[]): T[] {
+  const expanded: T[] = [];
+
+  transactions.forEach((tx) => {
+    const splits = tx.transaction_splits;
+    if (!Array.isArray(splits) || splits.length === 0) {
+      expanded.push(tx);
+      return;
+    }
+
+    splits.forEach((split) => {
+      expanded.push({
+        ...tx,
+        id: split.id,
+        parent_transaction_id: tx.id,
+        is_split: true,
+        amount: Number(split.amount),
+        category_id: split.category_id || null,
+        user_category_name: split.user_category_name || split.transaction_categories?.name || null,
+        transaction_categories: split.transaction_categories || null,
+        plaid_primary_category: null,
+        notes: split.notes ?? tx.notes ?? null,
+        transaction_splits: undefined,
+      });
+    });
+  });
+
+  return expanded;
+}
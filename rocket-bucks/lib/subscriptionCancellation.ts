@@ -0,0 +1,255 @@
+/**
+ * Subscription cancellation tracking
+ * A stream moves from cancel_requested to cancelled once a full billing period
+ * passes without a charge, or to charged_after_cancel if one arrives after the
+ * cancel date
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getStreamCharges } from './recurringStreams.js';
+
+export const CANCELLATION_METHODS = ['website', 'email', 'phone', 'mail', 'in_app', 'other'] as const;
+export type CancellationMethod = typeof CANCELLATION_METHODS[number];
+
+export type CancellationStatus = 'cancel_requested' | 'cancelled' | 'charged_after_cancel';
+
+export type CancellationDraftFormat = 'email' | 'letter';
+
+// A recurring stream as tracked for cancellation, with the fields drafts mention
+export interface CancellableStream {
+  id: string;
+  name: string;
+  merchant_name?: string | null;
+  account_id?: string | null;
+  frequency?: string | null;
+  is_active?: boolean;
+  cancellation_status?: CancellationStatus | null;
+  cancellation_method?: CancellationMethod | null;
+  cancellation_contact?: string | null;
+  cancel_date?: string | null;
+  post_cancel_transaction_id?: string | null;
+  last_transaction_date?: string | null;
+  expected_amount?: number | string | null;
+  accounts?: { mask: string | null } | null;
+}
+
+// A charge that may belong to a stream awaiting cancellation
+interface CancellationCharge {
+  id: string;
+  account_id: string | null;
+  date: string;
+  amount: number | string;
+  name: string | null;
+  merchant_name: string | null;
+  recurring_transaction_id: string | null;
+}
+
+// Charges can post a few days after the billing date
+export const CANCELLATION_GRACE_DAYS = 5;
+
+// Longest gap between charges for each frequency, so a late charge isn't missed
+const FREQUENCY_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+  semi_monthly: 16,
+  monthly: 31,
+  bimonthly: 62,
+  quarterly: 92,
+  semi_annually: 184,
+  annually: 366,
+  yearly: 366,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getBillingPeriodDays(frequency: string | null | undefined): number {
+  return FREQUENCY_DAYS[(frequency || '').toLowerCase()] ?? FREQUENCY_DAYS.monthly;
+}
+
+function formatLongDate(dateString: string): string {
+  return new Date(`${dateString}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Status changes for streams awaiting cancellation, given the charges posted
+ * since the earliest cancel date
+ */
+export function getCancellationUpdates(
+  streams: CancellableStream[],
+  transactions: CancellationCharge[],
+  today: Date = new Date()
+) {
+  const updates: { id: string; changes: Record<string, unknown> }[] = [];
+
+  streams.forEach((stream) => {
+    const cancelDate = stream.cancel_date;
+    if (!cancelDate) return;
+
+    const lateCharge = getStreamCharges(transactions, stream).find((tx) => tx.date > cancelDate);
+
+    if (lateCharge) {
+      if (stream.cancellation_status !== 'charged_after_cancel' || stream.post_cancel_transaction_id !== lateCharge.id) {
+        updates.push({
+          id: stream.id,
+          changes: {
+            cancellation_status: 'charged_after_cancel',
+            post_cancel_transaction_id: lateCharge.id,
+            is_active: true,
+            end_date: null,
+          },
+        });
+      }
+      return;
+    }
+
+    // Plaid keeps reporting a stream for a while after its last charge
+    if (stream.cancellation_status === 'cancelled' && stream.is_active) {
+      updates.push({ id: stream.id, changes: { is_active: false } });
+      return;
+    }
+
+    if (stream.cancellation_status !== 'cancel_requested') return;
+
+    const verifyAfter = new Date(`${cancelDate}T00:00:00Z`).getTime() +
+      (getBillingPeriodDays(stream.frequency) + CANCELLATION_GRACE_DAYS) * DAY_MS;
+
+    if (today.getTime() > verifyAfter) {
+      updates.push({
+        id: stream.id,
+        changes: {
+          cancellation_status: 'cancelled',
+          cancellation_verified_at: today.toISOString(),
+          is_active: false,
+          end_date: stream.cancel_date,
+          next_due_date: null,
+        },
+      });
+    }
+  });
+
+  return updates;
+}
+
+/**
+ * Check every stream awaiting cancellation against the user's recent charges
+ * and record which ones stopped billing and which charged again
+ */
+export async function verifyCancellations(
+  supabase: SupabaseClient,
+  userId: string,
+  today: Date = new Date()
+): Promise<{ cancelled_count: number; charged_count: number }> {
+  const { data: streams, error: streamsError } = await supabase
+    .from('recurring_transactions')
+    .select('id, name, merchant_name, account_id, frequency, is_active, cancellation_status, cancel_date, post_cancel_transaction_id')
+    .eq('user_id', userId)
+    .in('cancellation_status', ['cancel_requested', 'cancelled', 'charged_after_cancel'])
+    .not('cancel_date', 'is', null);
+
+  if (streamsError) {
+    throw new Error(`Failed to load cancellations: ${streamsError.message}`);
+  }
+  if (!streams || streams.length === 0) {
+    return { cancelled_count: 0, charged_count: 0 };
+  }
+
+  const earliestCancelDate = streams.reduce(
+    (min: string, stream: CancellableStream) => (stream.cancel_date && stream.cancel_date < min ? stream.cancel_date : min),
+    streams[0].cancel_date
+  );
+
+  const { data: transactions, error: txError } = await supabase
+    .from('transactions')
+    .select('id, account_id, date, amount, name, merchant_name, recurring_transaction_id')
+    .eq('user_id', userId)
+    .gt('date', earliestCancelDate)
+    .gt('amount', 0);
+
+  if (txError) {
+    throw new Error(`Failed to load transactions: ${txError.message}`);
+  }
+
+  const updates = getCancellationUpdates(streams, transactions || [], today);
+  for (const update of updates) {
+    const { error } = await supabase
+      .from('recurring_transactions')
+      .update(update.changes)
+      .eq('id', update.id)
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to update cancellation: ${error.message}`);
+    }
+  }
+
+  return {
+    cancelled_count: updates.filter((u) => u.changes.cancellation_status === 'cancelled').length,
+    charged_count: updates.filter((u) => u.changes.cancellation_status === 'charged_after_cancel').length,
+  };
+}
+
+/**
+ * Email or letter asking the merchant to cancel and confirm in writing
+ */
+export function buildCancellationDraft(
+  stream: CancellableStream,
+  options: { format: CancellationDraftFormat; userName: string; userEmail?: string | null; today?: Date }
+): { format: CancellationDraftFormat; to: string | null; subject: string; body: string } {
+  const merchant = stream.merchant_name || stream.name;
+  const today = options.today || new Date();
+  const effectiveDate = stream.cancel_date || today.toISOString().split('T')[0];
+
+  const details: string[] = [
+    `Please cancel my ${merchant} subscription effective ${formatLongDate(effectiveDate)} and stop all future charges.`,
+  ];
+  if (stream.last_transaction_date && stream.expected_amount) {
+    details.push(
+      `My most recent charge was $${Number(stream.expected_amount).toFixed(2)} on ${formatLongDate(stream.last_transaction_date)}.`
+    );
+  }
+  if (stream.accounts?.mask) {
+    details.push(`It is billed to my card ending in ${stream.accounts.mask}.`);
+  }
+
+  const owner = options.userEmail
+    ? `The subscription is held by ${options.userName} (${options.userEmail}).`
+    : `The subscription is held by ${options.userName}.`;
+
+  const paragraphs = [
+    details.join(' '),
+    owner,
+    'Please confirm in writing that the subscription has been cancelled and that I will not be charged again.',
+  ];
+
+  const subject = `Cancellation request: ${merchant} subscription`;
+
+  if (options.format === 'letter') {
+    const header = [
+      today.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+      '',
+      `${merchant} Customer Service`,
+      ...(stream.cancellation_method === 'mail' && stream.cancellation_contact ? [stream.cancellation_contact] : []),
+      '',
+      `Re: ${subject}`,
+      '',
+      'To whom it may concern,',
+    ];
+    return {
+      format: 'letter',
+      to: stream.cancellation_method === 'mail' ? stream.cancellation_contact || null : null,
+      subject,
+      body: [...header, '', paragraphs.join('\n\n'), '', 'Sincerely,', options.userName].join('\n'),
+    };
+  }
+
+  return {
+    format: 'email',
+    to: stream.cancellation_method === 'email' ? stream.cancellation_contact || null : null,
+    subject,
+    body: [`Hello ${merchant} team,`, '', paragraphs.join('\n\n'), '', 'Thank you,', options.userName].join('\n'),
+  };
+}
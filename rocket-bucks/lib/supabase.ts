@@ -6,7 +6,7 @@
  * to ensure proper access control. Service role key should only be used
  * for admin operations that explicitly need to bypass RLS.
  */
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type PostgrestError } from '@supabase/supabase-js';
 
 const supabaseUrl = process.env.SUPABASE_URL || '';
 const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || '';
@@ -52,3 +52,27 @@ export const createSupabaseClient = (accessToken: string) => {
   });
 };
 
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// A select query that can be narrowed to one page of rows
+interface PagedQuery<Row> {
+  range(from: number, to: number): PromiseLike<{ data: Row[] | null; error: PostgrestError | null }>;
+}
+
+/**
+ * Run a select query page by page and return every row.
+ * buildQuery must return a fresh, ordered query each time it is called.
+ */
+export async function fetchAllRows<Row>(
+  buildQuery: () => PagedQuery<Row>
+): Promise<{ data: Row[]; error: PostgrestError | null }> {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
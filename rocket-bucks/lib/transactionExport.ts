@@ -0,0 +1,344 @@
+/**
+ * Transaction export to CSV, OFX, QIF and JSON
+ * Exports flip Plaid's sign convention so money in is positive and money out
+ * is negative, which is what spreadsheets and tax software expect. Each
+ * exporter turns pages of transactions into text chunks so the handler can
+ * stream them; OFX groups transactions into per-account statements, so it
+ * buffers until the end.
+ */
+
+export type ExportFormat = 'csv' | 'ofx' | 'qif' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ofx', 'qif', 'json'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ofx: 'application/x-ofx',
+  qif: 'application/qif',
+  json: 'application/json; charset=utf-8',
+};
+
+// An account as exported alongside its transactions
+export interface ExportAccount {
+  name?: string | null;
+  mask?: string | null;
+  type?: string | null;
+  subtype?: string | null;
+  institution_name?: string | null;
+  balance_current?: number | string | null;
+  currency_code?: string | null;
+}
+
+export interface ExportSplit {
+  amount: number | string | null;
+  notes?: string | null;
+  user_category_name?: string | null;
+  transaction_categories?: { name: string } | null;
+}
+
+// A transaction with its category, splits and account, as the export handler loads it
+export interface ExportTransaction {
+  id: string;
+  transaction_id?: string | null;
+  account_id: string;
+  date: string;
+  amount: number | string | null;
+  name?: string | null;
+  merchant_name?: string | null;
+  transaction_type?: string | null;
+  pending?: boolean | null;
+  check_number?: string | null;
+  tags?: string[] | null;
+  notes?: string | null;
+  user_category_name?: string | null;
+  plaid_primary_category?: string | null;
+  transaction_categories?: { name: string } | null;
+  transaction_splits?: ExportSplit[] | null;
+  accounts?: ExportAccount | null;
+}
+
+export interface TransactionExporter {
+  start(): string;
+  write(transactions: ExportTransaction[]): string;
+  end(): string;
+}
+
+const CSV_HEADERS = [
+  'Date',
+  'Name',
+  'Merchant',
+  'Category',
+  'Amount',
+  'Type',
+  'Account',
+  'Account Mask',
+  'Institution',
+  'Pending',
+  'Tags',
+  'Notes',
+  'Splits',
+];
+
+// Plaid amounts are positive for money out
+const signedAmount = (tx: ExportTransaction) => -Number(tx.amount || 0);
+
+const formatAmount = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+const getCategory = (tx: ExportTransaction) => tx.user_category_name || tx.transaction_categories?.name || tx.plaid_primary_category || '';
+
+const getSplitCategory = (split: ExportSplit) => split.user_category_name || split.transaction_categories?.name || 'Uncategorized';
+
+const getTags = (tx: ExportTransaction): string[] => (Array.isArray(tx.tags) ? tx.tags : []);
+
+const getSplits = (tx: ExportTransaction): ExportSplit[] => (Array.isArray(tx.transaction_splits) ? tx.transaction_splits : []);
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(tx: ExportTransaction): string {
+  const splits = getSplits(tx)
+    .map(split => `${getSplitCategory(split)}: ${formatAmount(-Number(split.amount || 0))}${split.notes ? ` (${split.notes})` : ''}`)
+    .join('; ');
+
+  return [
+    tx.date,
+    tx.name,
+    tx.merchant_name,
+    getCategory(tx),
+    formatAmount(signedAmount(tx)),
+    tx.transaction_type || 'expense',
+    tx.accounts?.name,
+    tx.accounts?.mask,
+    tx.accounts?.institution_name,
+    tx.pending ? 'Yes' : 'No',
+    getTags(tx).join('; '),
+    tx.notes,
+    splits,
+  ].map(csvField).join(',');
+}
+
+function createCsvExporter(): TransactionExporter {
+  return {
+    // The BOM makes Excel open the file as UTF-8
+    start: () => `\uFEFF${CSV_HEADERS.join(',')}\r\n`,
+    write: (transactions) => transactions.map(tx => `${toCsvRow(tx)}\r\n`).join(''),
+    end: () => '',
+  };
+}
+
+function createJsonExporter(generatedAt: Date): TransactionExporter {
+  let first = true;
+  return {
+    start: () => `{"exported_at":${JSON.stringify(generatedAt.toISOString())},"transactions":[`,
+    write: (transactions) => transactions.map(tx => {
+      const chunk = `${first ? '' : ','}\n${JSON.stringify(tx)}`;
+      first = false;
+      return chunk;
+    }).join(''),
+    end: () => '\n]}\n',
+  };
+}
+
+// QIF dates are MM/DD/YYYY
+const qifDate = (date: string) => {
+  const [year, month, day] = String(date).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+// QIF is line-based, so fields can't contain newlines
+const qifText = (value: unknown) => String(value ?? '').replace(/[\r\n]+/g, ' ').trim();
+
+const qifAccountType = (type?: string | null) => (type === 'credit' ? 'CCard' : type === 'investment' ? 'Invst' : 'Bank');
+
+function qifMemo(tx: ExportTransaction): string {
+  const tags = getTags(tx);
+  return qifText([tx.notes, tags.length > 0 ? `[${tags.join(', ')}]` : ''].filter(Boolean).join(' '));
+}
+
+function toQifEntry(tx: ExportTransaction): string {
+  const lines = [
+    `D${qifDate(tx.date)}`,
+    `T${formatAmount(signedAmount(tx))}`,
+    `P${qifText(tx.merchant_name || tx.name)}`,
+  ];
+  const memo = qifMemo(tx);
+  if (memo) lines.push(`M${memo}`);
+  if (tx.check_number) lines.push(`N${qifText(tx.check_number)}`);
+  if (!tx.pending) lines.push('CX');
+
+  const splits = getSplits(tx);
+  if (splits.length > 0) {
+    for (const split of splits) {
+      lines.push(`S${qifText(getSplitCategory(split))}`);
+      if (split.notes) lines.push(`E${qifText(split.notes)}`);
+      lines.push(`$${formatAmount(-Number(split.amount || 0))}`);
+    }
+  } else if (getCategory(tx)) {
+    lines.push(`L${qifText(getCategory(tx))}`);
+  }
+
+  lines.push('^');
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function createQifExporter(): TransactionExporter {
+  let currentAccountId: string | null = null;
+  return {
+    start: () => '',
+    write: (transactions) => transactions.map(tx => {
+      // A new !Account block whenever the account changes, so one file can hold several accounts
+      let header = '';
+      if (tx.account_id !== currentAccountId) {
+        currentAccountId = tx.account_id;
+        const type = qifAccountType(tx.accounts?.type);
+        const name = qifText(tx.accounts?.name || 'Account') + (tx.accounts?.mask ? ` ${tx.accounts.mask}` : '');
+        header = `!Account\r\nN${name}\r\nT${type}\r\n^\r\n!Type:${type}\r\n`;
+      }
+      return header + toQifEntry(tx);
+    }).join(''),
+    end: () => '',
+  };
+}
+
+const ofxText = (value: unknown, maxLength?: number) => {
+  let text = String(value ?? '').replace(/[\r\n]+/g, ' ').trim();
+  if (maxLength) text = text.slice(0, maxLength);
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const ofxDate = (date: string | Date) =>
+  (typeof date === 'string' ? date : date.toISOString()).replace(/[-:T]/g, '').slice(0, typeof date === 'string' ? 8 : 14);
+
+const ofxAccountType = (subtype?: string | null) => {
+  if (subtype === 'savings') return 'SAVINGS';
+  if (subtype === 'money market') return 'MONEYMRKT';
+  return 'CHECKING';
+};
+
+function ofxMemo(tx: ExportTransaction): string {
+  const tags = getTags(tx);
+  const parts = [
+    getCategory(tx),
+    getSplits(tx).length > 0 ? `Split: ${getSplits(tx).map(split => getSplitCategory(split)).join(', ')}` : '',
+    tx.notes,
+    tags.length > 0 ? `[${tags.join(', ')}]` : '',
+  ];
+  return parts.filter(Boolean).join(' | ');
+}
+
+function toOfxTransaction(tx: ExportTransaction): string {
+  const amount = signedAmount(tx);
+  const memo = ofxMemo(tx);
+  return [
+    '<STMTTRN>',
+    `<TRNTYPE>${tx.check_number ? 'CHECK' : amount < 0 ? 'DEBIT' : 'CREDIT'}</TRNTYPE>`,
+    `<DTPOSTED>${ofxDate(tx.date)}</DTPOSTED>`,
+    `<TRNAMT>${formatAmount(amount)}</TRNAMT>`,
+    `<FITID>${ofxText(tx.transaction_id || tx.id, 255)}</FITID>`,
+    tx.check_number ? `<CHECKNUM>${ofxText(tx.check_number, 12)}</CHECKNUM>` : '',
+    `<NAME>${ofxText(tx.merchant_name || tx.name, 32)}</NAME>`,
+    memo ? `<MEMO>${ofxText(memo, 255)}</MEMO>` : '',
+    '</STMTTRN>',
+  ].filter(Boolean).join('\r\n');
+}
+
+function toOfxStatement(
+  account: ExportAccount & { id: string },
+  transactions: ExportTransaction[],
+  index: number,
+  generatedAt: Date
+): string {
+  const isCredit = account?.type === 'credit';
+  const dates = transactions.map(tx => String(tx.date)).sort();
+  const accountFrom = isCredit
+    ? `<CCACCTFROM>\r\n<ACCTID>${ofxText(account?.mask || account?.id, 22)}</ACCTID>\r\n</CCACCTFROM>`
+    : [
+      '<BANKACCTFROM>',
+      // Plaid doesn't give us routing numbers, and importers only need BANKID to be present
+      '<BANKID>000000000</BANKID>',
+      `<ACCTID>${ofxText(account?.mask || account?.id, 22)}</ACCTID>`,
+      `<ACCTTYPE>${ofxAccountType(account?.subtype)}</ACCTTYPE>`,
+      '</BANKACCTFROM>',
+    ].join('\r\n');
+  // Credit card balances are owed, which OFX shows as negative
+  const balance = Number(account?.balance_current || 0) * (isCredit ? -1 : 1);
+
+  return [
+    isCredit ? '<CCSTMTTRNRS>' : '<STMTTRNRS>',
+    `<TRNUID>${index + 1}</TRNUID>`,
+    '<STATUS>\r\n<CODE>0</CODE>\r\n<SEVERITY>INFO</SEVERITY>\r\n</STATUS>',
+    isCredit ? '<CCSTMTRS>' : '<STMTRS>',
+    `<CURDEF>${ofxText(account?.currency_code || 'USD', 3)}</CURDEF>`,
+    accountFrom,
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(dates[0])}</DTSTART>`,
+    `<DTEND>${ofxDate(dates[dates.length - 1])}</DTEND>`,
+    ...transactions.map(toOfxTransaction),
+    '</BANKTRANLIST>',
+    `<LEDGERBAL>\r\n<BALAMT>${formatAmount(balance)}</BALAMT>\r\n<DTASOF>${ofxDate(generatedAt)}</DTASOF>\r\n</LEDGERBAL>`,
+    isCredit ? '</CCSTMTRS>' : '</STMTRS>',
+    isCredit ? '</CCSTMTTRNRS>' : '</STMTTRNRS>',
+  ].join('\r\n');
+}
+
+function createOfxExporter(generatedAt: Date): TransactionExporter {
+  const byAccount = new Map<string, { account: ExportAccount & { id: string }; transactions: ExportTransaction[] }>();
+  return {
+    start: () => '',
+    write: (transactions) => {
+      for (const tx of transactions) {
+        const entry = byAccount.get(tx.account_id) || { account: { id: tx.account_id, ...tx.accounts }, transactions: [] };
+        entry.transactions.push(tx);
+        byAccount.set(tx.account_id, entry);
+      }
+      return '';
+    },
+    end: () => {
+      const statements = Array.from(byAccount.values());
+      const bank = statements.filter(entry => entry.account?.type !== 'credit');
+      const credit = statements.filter(entry => entry.account?.type === 'credit');
+
+      const parts = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'SECURITY:NONE',
+        'ENCODING:USASCII',
+        'CHARSET:1252',
+        'COMPRESSION:NONE',
+        'OLDFILEUID:NONE',
+        'NEWFILEUID:NONE',
+        '',
+        '<OFX>',
+        '<SIGNONMSGSRSV1>\r\n<SONRS>\r\n<STATUS>\r\n<CODE>0</CODE>\r\n<SEVERITY>INFO</SEVERITY>\r\n</STATUS>',
+        `<DTSERVER>${ofxDate(generatedAt)}</DTSERVER>\r\n<LANGUAGE>ENG</LANGUAGE>\r\n</SONRS>\r\n</SIGNONMSGSRSV1>`,
+      ];
+      if (bank.length > 0) {
+        parts.push('<BANKMSGSRSV1>', ...bank.map((entry, i) => toOfxStatement(entry.account, entry.transactions, i, generatedAt)), '</BANKMSGSRSV1>');
+      }
+      if (credit.length > 0) {
+        parts.push('<CREDITCARDMSGSRSV1>', ...credit.map((entry, i) => toOfxStatement(entry.account, entry.transactions, bank.length + i, generatedAt)), '</CREDITCARDMSGSRSV1>');
+      }
+      parts.push('</OFX>');
+      return `${parts.join('\r\n')}\r\n`;
+    },
+  };
+}
+
+/**
+ * Create an exporter for the given format
+ */
+export function createTransactionExporter(format: ExportFormat, generatedAt = new Date()): TransactionExporter {
+  switch (format) {
+    case 'ofx':
+      return createOfxExporter(generatedAt);
+    case 'qif':
+      return createQifExporter();
+    case 'json':
+      return createJsonExporter(generatedAt);
+    default:
+      return createCsvExporter();
+  }
+}
@@ -0,0 +1,500 @@
+/**
+ * Transaction import from CSV, OFX and QFX files
+ * Used for cash accounts and banks Plaid can't reach. Parsed transactions use
+ * Plaid's sign convention (positive = money out) and are deduplicated against
+ * the account's existing rows by a date/amount/name fingerprint.
+ */
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { autoCategorizeTransaction } from './categorization.js';
+import { fetchAllRows } from './supabase.js';
+
+export type ImportFormat = 'csv' | 'ofx' | 'qfx';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'ofx', 'qfx'];
+
+export interface ImportedTransaction {
+  date: string;
+  amount: number;
+  name: string;
+  merchant_name?: string | null;
+  notes?: string | null;
+  check_number?: string | null;
+}
+
+export interface ImportError {
+  row: number;
+  message: string;
+}
+
+/**
+ * Which CSV column (by index) holds each field. Either `amount` or one or
+ * both of `debit`/`credit` must be set.
+ */
+export interface CsvColumnMapping {
+  date: number;
+  name: number;
+  amount?: number | null;
+  debit?: number | null;
+  credit?: number | null;
+  merchant_name?: number | null;
+  notes?: number | null;
+  // Most bank exports show money out as negative; some card exports flip it
+  amount_sign?: 'negative_is_expense' | 'positive_is_expense';
+  date_format?: 'auto' | 'mdy' | 'dmy' | 'ymd';
+  has_header?: boolean;
+}
+
+export interface OfxStatement {
+  account: {
+    bank_id: string | null;
+    account_id: string;
+    account_type: string | null;
+    institution_name: string | null;
+    currency_code: string | null;
+  } | null;
+  balance: number | null;
+  transactions: ImportedTransaction[];
+  errors: ImportError[];
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and newlines, and detects semicolon or tab delimiters.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+}
+
+// The mapping fields that hold a column index
+type CsvColumnField = 'date' | 'name' | 'amount' | 'debit' | 'credit' | 'merchant_name' | 'notes';
+
+const HEADER_PATTERNS: [CsvColumnField, RegExp][] = [
+  ['date', /^(transaction |posted |posting )?date$|^date/i],
+  ['debit', /debit|withdrawal|money out|outflow/i],
+  ['credit', /credit|deposit|money in|inflow/i],
+  ['amount', /amount/i],
+  ['merchant_name', /merchant/i],
+  ['name', /description|payee|^name$|details/i],
+  ['notes', /memo|note/i],
+];
+
+/**
+ * Guess a column mapping from the header row
+ */
+export function suggestCsvMapping(headers: string[]): Partial<CsvColumnMapping> {
+  const mapping: Partial<CsvColumnMapping> = { has_header: true, amount_sign: 'negative_is_expense', date_format: 'auto' };
+  const used = new Set<number>();
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const index = headers.findIndex((header, i) => !used.has(i) && pattern.test(header.trim()));
+    if (index === -1) continue;
+    mapping[field] = index;
+    used.add(index);
+  }
+
+  // Some exports only have a merchant column
+  if (mapping.name === undefined && typeof mapping.merchant_name === 'number') {
+    mapping.name = mapping.merchant_name;
+    delete mapping.merchant_name;
+  }
+
+  return mapping;
+}
+
+/**
+ * Parse a date cell to YYYY-MM-DD, or null if it isn't a valid date
+ */
+export function parseImportDate(value: string, format: CsvColumnMapping['date_format'] = 'auto'): string | null {
+  const trimmed = (value || '').trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  const parts = trimmed.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+
+  if (compact && !parts) {
+    [year, month, day] = [Number(compact[1]), Number(compact[2]), Number(compact[3])];
+  } else if (parts) {
+    const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    if (format === 'ymd' || parts[1].length === 4) {
+      [year, month, day] = [a, b, c];
+    } else if (format === 'dmy' || (format === 'auto' && a > 12)) {
+      [year, month, day] = [c, b, a];
+    } else {
+      [year, month, day] = [c, a, b];
+    }
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Parse an amount cell such as "-1,234.56", "$12.00", "(45.00)" or "12.00-"
+ */
+export function parseImportAmount(value: string): number {
+  let text = (value || '').trim();
+  if (!text) return NaN;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/-$/.test(text) || /^-/.test(text)) {
+    negative = true;
+    text = text.replace(/^-|-$/g, '');
+  }
+
+  text = text.replace(/[^0-9.,]/g, '');
+  // "1.234,56" style decimals
+  if (/,\d{1,2}$/.test(text) && !/\.\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+}
+
+const cellAt = (row: string[], index: number | null | undefined) =>
+  index === null || index === undefined || index < 0 ? '' : (row[index] || '').trim();
+
+/**
+ * Validate a column mapping against the file's column count. Returns an error
+ * message, or null if valid.
+ */
+export function validateCsvMapping(mapping: Partial<CsvColumnMapping> | null | undefined, columnCount: number): string | null {
+  if (!mapping) return 'A column mapping is required for CSV imports';
+
+  const hasColumn = (index: unknown) => typeof index === 'number' && index >= 0 && index < columnCount;
+  if (!hasColumn(mapping.date)) return 'Choose the date column';
+  if (!hasColumn(mapping.name)) return 'Choose the description column';
+  if (!hasColumn(mapping.amount) && !hasColumn(mapping.debit) && !hasColumn(mapping.credit)) {
+    return 'Choose an amount column, or debit and credit columns';
+  }
+  return null;
+}
+
+/**
+ * Turn CSV rows into transactions using a column mapping. Rows that can't be
+ * read are reported by their 1-based line number in the file.
+ */
+export function mapCsvRows(rows: string[][], mapping: CsvColumnMapping): { transactions: ImportedTransaction[]; errors: ImportError[] } {
+  const transactions: ImportedTransaction[] = [];
+  const errors: ImportError[] = [];
+  const start = mapping.has_header === false ? 0 : 1;
+
+  for (let i = start; i < rows.length; i++) {
+    const row = rows[i];
+    const line = i + 1;
+
+    const date = parseImportDate(cellAt(row, mapping.date), mapping.date_format);
+    if (!date) {
+      errors.push({ row: line, message: `Unrecognized date "${cellAt(row, mapping.date)}"` });
+      continue;
+    }
+
+    const name = cellAt(row, mapping.name);
+    if (!name) {
+      errors.push({ row: line, message: 'Missing description' });
+      continue;
+    }
+
+    let amount: number;
+    if (mapping.amount !== null && mapping.amount !== undefined) {
+      const value = parseImportAmount(cellAt(row, mapping.amount));
+      amount = mapping.amount_sign === 'positive_is_expense' ? value : -value;
+    } else {
+      const debit = cellAt(row, mapping.debit);
+      const credit = cellAt(row, mapping.credit);
+      amount = (debit ? Math.abs(parseImportAmount(debit)) : 0) - (credit ? Math.abs(parseImportAmount(credit)) : 0);
+      if (!debit && !credit) amount = NaN;
+    }
+
+    if (isNaN(amount)) {
+      errors.push({ row: line, message: 'Unrecognized amount' });
+      continue;
+    }
+
+    transactions.push({
+      date,
+      amount: Math.round(amount * 100) / 100,
+      name,
+      merchant_name: cellAt(row, mapping.merchant_name) || null,
+      notes: cellAt(row, mapping.notes) || null,
+    });
+  }
+
+  return { transactions, errors };
+}
+
+// ---------------------------------------------------------------------------
+// OFX / QFX
+// ---------------------------------------------------------------------------
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// OFX 1.x (SGML) leaves leaf tags unclosed, so a value runs to the next tag or line end
+const readTag = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value || null;
+};
+
+/**
+ * Parse an OFX or QFX statement (SGML 1.x or XML 2.x). QFX is OFX with an
+ * extra Intuit header, so both go through the same parser. Only the first
+ * account in the file is read.
+ */
+export function parseOfx(text: string): OfxStatement {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error('Not an OFX or QFX file');
+  }
+
+  const accountBlock = text.match(/<(BANKACCTFROM|CCACCTFROM)>([\s\S]*?)(<\/\1>|<\/?(BANKTRANLIST|STMTTRN|LEDGERBAL)>)/i);
+  const isCreditCard = /<CCSTMTRS>/i.test(text);
+  const accountId = accountBlock ? readTag(accountBlock[2], 'ACCTID') : null;
+
+  const statement: OfxStatement = {
+    account: accountId
+      ? {
+          bank_id: readTag(accountBlock![2], 'BANKID'),
+          account_id: accountId,
+          account_type: isCreditCard ? 'CREDITCARD' : readTag(accountBlock![2], 'ACCTTYPE'),
+          institution_name: readTag(text.match(/<FI>([\s\S]*?)<\/FI>/i)?.[1] || '', 'ORG'),
+          currency_code: readTag(text, 'CURDEF'),
+        }
+      : null,
+    balance: null,
+    transactions: [],
+    errors: [],
+  };
+
+  const ledgerBalance = text.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>)/i);
+  if (ledgerBalance) {
+    const balance = parseFloat(readTag(ledgerBalance[1], 'BALAMT') || '');
+    // Statement balances are signed from the account holder's side; card balances owed are negative
+    if (!isNaN(balance)) statement.balance = isCreditCard ? Math.abs(balance) : balance;
+  }
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    const line = index + 1;
+    const date = parseImportDate(readTag(block, 'DTPOSTED') || '', 'ymd');
+    const amount = parseFloat(readTag(block, 'TRNAMT') || '');
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE') || readTag(block, 'MEMO');
+
+    if (!date || isNaN(amount) || !name) {
+      statement.errors.push({ row: line, message: 'Transaction is missing a date, amount or name' });
+      return;
+    }
+
+    const memo = readTag(block, 'MEMO');
+    statement.transactions.push({
+      date,
+      // OFX amounts are negative for money out; flip to Plaid's convention
+      amount: Math.round(-amount * 100) / 100,
+      name,
+      notes: memo && memo !== name ? memo : null,
+      check_number: readTag(block, 'CHECKNUM'),
+    });
+  });
+
+  return statement;
+}
+
+/**
+ * Map an OFX account type to the accounts table's type and subtype
+ */
+export function mapOfxAccountType(accountType: string | null | undefined): { type: string; subtype: string | null } {
+  switch ((accountType || '').toUpperCase()) {
+    case 'CREDITCARD':
+      return { type: 'credit', subtype: 'credit card' };
+    case 'CREDITLINE':
+      return { type: 'credit', subtype: 'line of credit' };
+    case 'SAVINGS':
+      return { type: 'depository', subtype: 'savings' };
+    case 'MONEYMRKT':
+      return { type: 'depository', subtype: 'money market' };
+    case 'CHECKING':
+      return { type: 'depository', subtype: 'checking' };
+    default:
+      return { type: 'depository', subtype: null };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Deduplication and storage
+// ---------------------------------------------------------------------------
+
+// The fields two transactions must share to count as the same one
+export interface FingerprintFields {
+  date: string;
+  amount: number | string;
+  name: string;
+}
+
+/**
+ * Key identifying the same transaction across imports and statements:
+ * date, amount to the cent and the name with case and punctuation ignored
+ */
+export function importFingerprint(tx: FingerprintFields): string {
+  const name = (tx.name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return `${tx.date}|${Number(tx.amount).toFixed(2)}|${name}`;
+}
+
+export interface ImportPreviewRow extends ImportedTransaction {
+  duplicate: boolean;
+  transaction_id: string;
+}
+
+/**
+ * Flag transactions already in the account. Identical transactions are
+ * counted, so a file with two $3.50 coffees on the same day only skips one if
+ * the account already has one. Each new row gets a stable transaction_id so
+ * importing the same file twice can't insert it twice.
+ */
+export function markDuplicates(accountId: string, transactions: ImportedTransaction[], existing: FingerprintFields[]): ImportPreviewRow[] {
+  const existingCounts = new Map<string, number>();
+  existing.forEach((tx) => {
+    const key = importFingerprint(tx);
+    existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+  });
+
+  const seen = new Map<string, number>();
+  return transactions.map((tx) => {
+    const key = importFingerprint(tx);
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+
+    const hash = crypto.createHash('sha1').update(`${accountId}|${key}|${occurrence}`).digest('hex');
+    return {
+      ...tx,
+      duplicate: occurrence < (existingCounts.get(key) || 0),
+      transaction_id: `import-${hash}`,
+    };
+  });
+}
+
+/**
+ * Load the account's transactions in the file's date range for deduplication
+ */
+export async function loadExistingForImport(
+  supabase: SupabaseClient,
+  userId: string,
+  accountId: string,
+  transactions: ImportedTransaction[]
+): Promise<FingerprintFields[]> {
+  if (transactions.length === 0) return [];
+
+  const dates = transactions.map((tx) => tx.date).sort();
+  const { data, error } = await fetchAllRows(() =>
+    supabase
+      .from('transactions')
+      .select<string, FingerprintFields & { id: string }>('id, date, amount, name')
+      .eq('user_id', userId)
+      .eq('account_id', accountId)
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1])
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+  );
+
+  if (error) {
+    throw new Error(`Failed to load existing transactions: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Map an imported transaction to a transactions row, with the built-in
+ * keyword category as the starting point
+ */
+export function mapImportedTransaction(tx: ImportPreviewRow, userId: string, accountId: string) {
+  const autoCategory = autoCategorizeTransaction(tx.name, tx.merchant_name || undefined);
+
+  return {
+    user_id: userId,
+    account_id: accountId,
+    transaction_id: tx.transaction_id,
+    amount: tx.amount,
+    date: tx.date,
+    posted_date: tx.date,
+    name: tx.name,
+    merchant_name: tx.merchant_name || null,
+    notes: tx.notes || null,
+    check_number: tx.check_number || null,
+    plaid_category: [],
+    user_category_name: autoCategory && autoCategory !== 'Uncategorized' ? autoCategory : null,
+    transaction_type: tx.amount > 0 ? 'expense' : 'income',
+    pending: false,
+    is_transfer: false,
+    source: 'import',
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Internal transfer and credit card payment matching
+ * Pairs an outflow in one account with the opposite inflow in another account
+ * within a few days, and flags both rows with is_transfer and the account on
+ * the other side. Only pairs that look like a transfer are linked on their own;
+ * pairs that could match more than one way, or that are just two unrelated
+ * transactions of the same size, go to a review queue.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllRows } from './supabase.js';
+import { applyRuleChanges } from './categorizationRules.js';
+
+// Bank transfers and card payments usually land within a few business days
+export const TRANSFER_MATCH_WINDOW_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Money moving from a bank account into one of these is a payment or contribution
+const PAYMENT_ACCOUNT_TYPES = ['credit', 'loan', 'investment'];
+
+// Plaid primary categories and our own category for money moving between accounts
+const TRANSFER_CATEGORIES = ['transfer', 'payment'];
+
+const TRANSFER_KEYWORDS = /\b(transfer|xfer|payment|pymt|pmt|autopay|epay)\b/i;
+
+// A transaction as considered for transfer matching, with its account
+export interface TransferCandidate {
+  id: string;
+  account_id: string;
+  amount: number | string;
+  date: string;
+  name?: string | null;
+  merchant_name?: string | null;
+  plaid_primary_category?: string | null;
+  pending?: boolean;
+  transfer_to_account_id?: string | null;
+  accounts?: { type: string | null; archived_at?: string | null } | null;
+  transaction_categories?: { name: string } | null;
+}
+
+// The fields needed to link one side of a transfer
+export type TransferSide = Pick<TransferCandidate, 'id' | 'account_id'>;
+
+export interface TransferPair {
+  outflow: TransferCandidate;
+  inflow: TransferCandidate;
+  day_gap: number;
+}
+
+export interface TransferMatchResult {
+  matched: TransferPair[];
+  ambiguous: TransferPair[];
+}
+
+export function transferPairKey(outflowId: string, inflowId: string): string {
+  return `${outflowId}:${inflowId}`;
+}
+
+function toCents(amount: number | string | null | undefined): number {
+  return Math.round(Math.abs(Number(amount || 0)) * 100);
+}
+
+function dayGap(a: string, b: string): number {
+  return Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS);
+}
+
+function accountType(tx: TransferCandidate): string | null {
+  return tx.accounts?.type || null;
+}
+
+function hasTransferSignal(tx: TransferCandidate): boolean {
+  const categories = [tx.plaid_primary_category, tx.transaction_categories?.name]
+    .filter((category): category is string => !!category)
+    .map((category) => category.toLowerCase());
+  if (categories.some((category) => TRANSFER_CATEGORIES.includes(category))) return true;
+
+  return TRANSFER_KEYWORDS.test(`${tx.name || ''} ${tx.merchant_name || ''}`);
+}
+
+/**
+ * Whether a same-sized pair is more than a coincidence: a bank account paying
+ * a card, loan or brokerage account, or either side categorized or described
+ * as a transfer or payment
+ */
+export function looksLikeTransfer(outflow: TransferCandidate, inflow: TransferCandidate): boolean {
+  const types = [accountType(outflow), accountType(inflow)];
+  if (types.includes('depository') && types.some((type) => type && PAYMENT_ACCOUNT_TYPES.includes(type))) {
+    return true;
+  }
+
+  return hasTransferSignal(outflow) || hasTransferSignal(inflow);
+}
+
+/**
+ * Find candidate transfer pairs among unmatched transactions. Plaid amounts are
+ * positive when money leaves an account and negative when it arrives, so a
+ * transfer is a positive amount in one account and the same negative amount in
+ * another. A pair is matched only when neither side has any other candidate
+ * and it looks like a transfer (see looksLikeTransfer); every other pair is
+ * returned as ambiguous for the user to confirm.
+ */
+export function findTransferPairs(
+  transactions: TransferCandidate[],
+  options: { windowDays?: number; excludedPairs?: Set<string> } = {}
+): TransferMatchResult {
+  const windowDays = options.windowDays ?? TRANSFER_MATCH_WINDOW_DAYS;
+  const excludedPairs = options.excludedPairs || new Set<string>();
+
+  // Archived accounts (an unlinked institution's history) are read-only
+  const eligible = transactions.filter((tx) =>
+    !tx.pending && !tx.transfer_to_account_id && Number(tx.amount) !== 0 && tx.date && tx.account_id &&
+    !tx.accounts?.archived_at
+  );
+
+  // Index inflows by amount so each outflow only looks at same-sized inflows
+  const inflowsByCents = new Map<number, TransferCandidate[]>();
+  eligible
+    .filter((tx) => Number(tx.amount) < 0)
+    .forEach((tx) => {
+      const cents = toCents(tx.amount);
+      if (!inflowsByCents.has(cents)) inflowsByCents.set(cents, []);
+      inflowsByCents.get(cents)!.push(tx);
+    });
+
+  const candidates: TransferPair[] = [];
+  eligible
+    .filter((tx) => Number(tx.amount) > 0)
+    .forEach((outflow) => {
+      (inflowsByCents.get(toCents(outflow.amount)) || []).forEach((inflow) => {
+        if (inflow.account_id === outflow.account_id) return;
+        if (excludedPairs.has(transferPairKey(outflow.id, inflow.id))) return;
+        const gap = dayGap(outflow.date, inflow.date);
+        if (gap > windowDays) return;
+        candidates.push({ outflow, inflow, day_gap: gap });
+      });
+    });
+
+  const countById = new Map<string, number>();
+  candidates.forEach(({ outflow, inflow }) => {
+    countById.set(outflow.id, (countById.get(outflow.id) || 0) + 1);
+    countById.set(inflow.id, (countById.get(inflow.id) || 0) + 1);
+  });
+
+  const matched: TransferPair[] = [];
+  const ambiguous: TransferPair[] = [];
+  candidates.forEach((pair) => {
+    const unique = countById.get(pair.outflow.id) === 1 && countById.get(pair.inflow.id) === 1;
+    if (unique && looksLikeTransfer(pair.outflow, pair.inflow)) {
+      matched.push(pair);
+    } else {
+      ambiguous.push(pair);
+    }
+  });
+
+  ambiguous.sort((a, b) => a.day_gap - b.day_gap);
+
+  return { matched, ambiguous };
+}
+
+/**
+ * Flag both sides of each pair as a transfer pointing at the other account
+ */
+export async function linkTransferPairs(
+  supabase: SupabaseClient,
+  userId: string,
+  pairs: { outflow: TransferSide; inflow: TransferSide }[]
+): Promise<number> {
+  const changes = pairs.flatMap(({ outflow, inflow }) => [
+    { id: outflow.id, changes: { is_transfer: true, transfer_to_account_id: inflow.account_id } },
+    { id: inflow.id, changes: { is_transfer: true, transfer_to_account_id: outflow.account_id } },
+  ]);
+  if (changes.length === 0) return 0;
+
+  return applyRuleChanges(supabase, userId, changes);
+}
+
+/**
+ * Record pairs in transfer_matches with the given status
+ */
+async function saveTransferMatches(supabase: SupabaseClient, userId: string, pairs: TransferPair[], status: string) {
+  if (pairs.length === 0) return;
+
+  const { error } = await supabase
+    .from('transfer_matches')
+    .upsert(pairs.map(({ outflow, inflow, day_gap }) => ({
+      user_id: userId,
+      outflow_transaction_id: outflow.id,
+      inflow_transaction_id: inflow.id,
+      amount: Math.abs(Number(outflow.amount)),
+      day_gap,
+      status,
+    })), { onConflict: 'outflow_transaction_id,inflow_transaction_id' });
+
+  if (error) {
+    console.error(`Error saving ${status} transfer matches:`, error);
+  }
+}
+
+/**
+ * Drop review-queue entries that involve transactions which are now matched
+ */
+export async function clearPendingTransferMatches(supabase: SupabaseClient, userId: string, transactionIds: string[]) {
+  if (transactionIds.length === 0) return;
+
+  for (const column of ['outflow_transaction_id', 'inflow_transaction_id']) {
+    const { error } = await supabase
+      .from('transfer_matches')
+      .update({ status: 'dismissed' })
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .in(column, transactionIds);
+
+    if (error) {
+      console.error('Error clearing pending transfer matches:', error);
+    }
+  }
+}
+
+/**
+ * Match the user's unmatched transactions (optionally only those on or after
+ * `since`): link pairs that are clearly transfers and queue the rest for
+ * review. Pairs the user dismissed are never suggested again.
+ */
+export async function matchTransfers(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { since?: string; windowDays?: number } = {}
+): Promise<{ matched_count: number; review_count: number }> {
+  const { data: transactions, error } = await fetchAllRows(() => {
+    let query = supabase
+      .from('transactions')
+      .select<string, TransferCandidate>(`
+        id, account_id, amount, date, name, merchant_name, plaid_primary_category, pending, transfer_to_account_id,
+        accounts!account_id ( type, archived_at ),
+        transaction_categories ( name )
+      `)
+      .eq('user_id', userId)
+      .is('transfer_to_account_id', null)
+      .eq('pending', false);
+    if (options.since) {
+      query = query.gte('date', options.since);
+    }
+    return query.order('id', { ascending: true });
+  });
+
+  if (error) {
+    console.error('Error loading transactions for transfer matching:', error);
+    throw new Error('Failed to load transactions for transfer matching');
+  }
+
+  const { data: dismissed } = await supabase
+    .from('transfer_matches')
+    .select('outflow_transaction_id, inflow_transaction_id')
+    .eq('user_id', userId)
+    .eq('status', 'dismissed');
+
+  const excludedPairs = new Set<string>(
+    (dismissed || []).map((row: { outflow_transaction_id: string; inflow_transaction_id: string }) => transferPairKey(row.outflow_transaction_id, row.inflow_transaction_id))
+  );
+
+  const { matched, ambiguous } = findTransferPairs(transactions, {
+    windowDays: options.windowDays,
+    excludedPairs,
+  });
+
+  await linkTransferPairs(supabase, userId, matched);
+  await saveTransferMatches(supabase, userId, matched, 'matched');
+  await clearPendingTransferMatches(
+    supabase,
+    userId,
+    matched.flatMap(({ outflow, inflow }) => [outflow.id, inflow.id])
+  );
+  await saveTransferMatches(supabase, userId, ambiguous, 'pending');
+
+  return { matched_count: matched.length, review_count: ambiguous.length };
+}
@@ -4,6 +4,8 @@ import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } fro
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import { encrypt, decrypt } from './lib/encryption.js';
+import { createLlmProvider } from './lib/llmProviders.js';
+import { createContextAudit, loadRedactor, withRedaction } from './lib/aiPrivacy.js';
 
 dotenv.config();
 
@@ -14,11 +16,8 @@ const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.SUPABASE_SE
 // Encryption key for sensitive data (Plaid access tokens)
 // Generate a secure key: openssl rand -base64 32
 const encryptionKey = process.env.ENCRYPTION_KEY || '';
-const openRouterApiKey = process.env.OPENROUTER_API_KEY || '';
-const openRouterModel = process.env.OPENROUTER_MODEL || 'anthropic/claude-3.5-sonnet';
-const openRouterReferer =
-  process.env.OPENROUTER_APP_URL ||
-  (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:5173');
+// Chat model for the AI advisor, chosen by AI_PROVIDER (see lib/llmProviders.js)
+const llmProvider = createLlmProvider();
 const hasNativeFetch = typeof fetch === 'function';
 const MAX_CHAT_HISTORY = 8;
 
@@ -36,8 +35,8 @@ if (!encryptionKey) {
   console.warn('   Add to .env: ENCRYPTION_KEY=your_generated_key');
 }
 
-if (!openRouterApiKey) {
-  console.warn('WARNING: OPENROUTER_API_KEY not set. AI chat responses will be disabled.');
+if (!llmProvider) {
+  console.warn('WARNING: No AI provider configured (set AI_PROVIDER and its API key). AI chat responses will be disabled.');
 }
 
 const app = express();
@@ -272,7 +271,7 @@ function detectRecurringPatterns(transactions, accountMap) {
   return recurring;
 }
 
-const liabilityAccountTypes = new Set(['credit', 'loan', 'mortgage', 'liability', 'other liability']);
+const liabilityAccountTypes = new Set(['credit', 'loan', 'mortgage', 'liability', 'other liability', 'other_debt']);
 
 function normalizeAmount(value) {
   if (typeof value === 'number' && Number.isFinite(value)) {
@@ -346,12 +345,14 @@ async function buildFinancialContext(supabase, userId) {
     const [accountsResult, recurringResult, transactionsResult] = await Promise.all([
       supabase
         .from('accounts')
-        .select('name, institution_name, type, subtype, balance_current, balance_available')
-        .eq('user_id', userId),
+        .select('name, institution_name, type, subtype, balance_current, balance_available, plaid_item_id')
+        .eq('user_id', userId)
+        .is('archived_at', null),
       supabase
         .from('recurring_transactions')
         .select('name, merchant_name, expected_amount, frequency, next_due_date, transaction_type, is_subscription')
         .eq('user_id', userId)
+        .eq('not_recurring', false)
         .order('expected_amount', { ascending: false })
         .limit(20),
       supabase
@@ -406,6 +407,8 @@ async function buildFinancialContext(supabase, userId) {
         name: account.name,
         institution: account.institution_name,
         type: account.type,
+        // Houses, cars and other manual accounts carry the user's own estimate
+        manual: !account.plaid_item_id,
         balance: normalizeAmount(account.balance_current ?? account.balance_available ?? 0),
       }))
       .sort((a, b) => b.balance - a.balance)
@@ -420,27 +423,13 @@ async function buildFinancialContext(supabase, userId) {
 
     // Filter expenses: exclude transfers and income-categorized transactions
     // This matches the Spending page logic
-    // Also exclude credit card payments (even if not categorized as Transfer)
+    // Transfers and credit card payments are flagged by the transfer matcher
     const expenses = transactions.filter((tx) => {
       const categoryName = getCategoryName(tx);
-      const txName = (tx.name || '').toLowerCase();
-      const merchantName = (tx.merchant_name || '').toLowerCase();
-      const fullName = `${txName} ${merchantName}`;
-      
-      // Check if this looks like a credit card payment or transfer
-      const isCreditCardPayment = 
-        /payment.*(american express|amex|chase|discover|capital one|citibank|card)/i.test(fullName) ||
-        /(american express|amex|chase|discover|capital one|citibank).*payment/i.test(fullName) ||
-        /ach.*(payment|transfer)/i.test(fullName) ||
-        /payment.*thank you/i.test(fullName) ||
-        /online transfer/i.test(fullName) ||
-        /zelle|venmo|paypal|cash app/i.test(fullName);
-      
       return tx.transaction_type === 'expense' && 
              normalizeAmount(tx.amount) > 0 && 
              tx.date &&
              !tx.is_transfer &&
-             !isCreditCardPayment &&
              categoryName !== 'Income' && 
              categoryName !== 'Transfer';
     });
@@ -449,7 +438,7 @@ async function buildFinancialContext(supabase, userId) {
     // This matches the Spending page logic (not just transaction_type === 'income')
     const incomes = transactions.filter((tx) => {
       const categoryName = getCategoryName(tx);
-      return categoryName === 'Income' && tx.date;
+      return categoryName === 'Income' && !tx.is_transfer && tx.date;
     });
 
     const expensesLast30 = expenses.filter((tx) => {
@@ -644,7 +633,7 @@ function summarizeContextForPrompt(context) {
     const accountsText = context.accounts.topAccounts
       .map(
         (account) =>
-          `${account.name || account.institution || 'Account'} (${account.type || 'account'}): ${formatCurrency(
+          `${account.name || account.institution || 'Account'} (${(account.type || 'account').replace(/_/g, ' ')}${account.manual ? ', tracked manually' : ''}): ${formatCurrency(
             account.balance
           )}`
       )
@@ -659,32 +648,8 @@ function summarizeContextForPrompt(context) {
   return lines.join('\n');
 }
 
-function extractMessageText(completion) {
-  if (!completion?.choices?.length) {
-    return '';
-  }
-
-  const content = completion.choices[0]?.message?.content;
-  if (typeof content === 'string') {
-    return content;
-  }
-
-  if (Array.isArray(content)) {
-    return content
-      .map((part) => {
-        if (typeof part === 'string') return part;
-        if (part && typeof part.text === 'string') return part.text;
-        return '';
-      })
-      .join('')
-      .trim();
-  }
-
-  if (content && typeof content.text === 'string') {
-    return content.text;
-  }
-
-  return '';
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
 // Create Link Token endpoint
@@ -852,6 +817,7 @@ app.post('/api/exchange_public_token', async (req, res) => {
               existing.mask === newAccount.mask &&
               existing.type === newAccount.type &&
               existing.subtype === newAccount.subtype &&
+              existing.plaid_item_id && // Manual accounts are never replaced by a link
               existing.plaid_item_id !== plaidItem.id // Different item
           );
           
@@ -2503,7 +2469,8 @@ app.post('/api/accounts/cleanup-duplicates', async (req, res) => {
 
     // Group by mask + type + subtype (identifies the same physical account across different plaid_items)
     const accountGroups = new Map();
-    allAccounts.forEach(account => {
+    // Manual accounts have no Plaid item and are never duplicates of a linked one
+    allAccounts.filter(account => account.plaid_item_id).forEach(account => {
       // Use mask + type + subtype as the key (same physical account)
       const key = `${account.mask}_${account.type}_${account.subtype || 'none'}`;
       if (!accountGroups.has(key)) {
@@ -2721,14 +2688,14 @@ app.delete('/api/accounts/delete', async (req, res) => {
 
 app.post('/api/ai/chat', async (req, res) => {
   try {
-    if (!openRouterApiKey) {
+    if (!llmProvider) {
       return res.status(503).json({ error: 'AI advisor is not configured.' });
     }
 
     if (!hasNativeFetch) {
       return res
         .status(500)
-        .json({ error: 'This runtime does not support the Fetch API required for OpenRouter.' });
+        .json({ error: 'This runtime does not support the Fetch API required by the AI provider.' });
     }
 
     const authHeader = req.headers.authorization;
@@ -2736,7 +2703,7 @@ app.post('/api/ai/chat', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { message, conversation } = req.body || {};
+    const { message, conversation, stream } = req.body || {};
     if (!message || typeof message !== 'string' || !message.trim()) {
       return res.status(400).json({ error: 'Message is required' });
     }
@@ -2763,8 +2730,11 @@ app.post('/api/ai/chat', async (req, res) => {
 
     console.log(`AI chat: generating advice for user ${user.id}`);
 
-    const financialContext = await buildFinancialContext(supabase, user.id);
-    const contextSummary = summarizeContextForPrompt(financialContext);
+    const [financialContext, redactor] = await Promise.all([
+      buildFinancialContext(supabase, user.id),
+      loadRedactor(supabase, user.id),
+    ]);
+    const contextSummary = summarizeContextForPrompt(redactor.redactContext(financialContext));
 
     const normalizedHistory = Array.isArray(conversation)
       ? conversation
@@ -2786,8 +2756,7 @@ app.post('/api/ai/chat', async (req, res) => {
     const systemPrompt =
       'You are Rocket Bucks AI, a fiduciary-quality financial coach. Provide concise and actionable guidance covering budgets, savings, debt payoff, investing, and bill negotiation. Use Markdown formatting with short headings, numbered steps, and bullet lists when helpful. Reference exact numbers from the financial snapshot or chat history and acknowledge when information is unavailable. Encourage healthy financial habits and note that users should double-check details before acting.';
 
-    const payload = {
-      model: openRouterModel,
+    const request = {
       messages: [
         { role: 'system', content: systemPrompt },
         {
@@ -2802,34 +2771,74 @@ app.post('/api/ai/chat', async (req, res) => {
       top_p: 0.9,
     };
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openRouterApiKey}`,
-        'HTTP-Referer': openRouterReferer,
-        'X-Title': 'Rocket Bucks AI',
-      },
-      body: JSON.stringify(payload),
-    });
+    // Same events as api/ai/chat.ts: `token` as text arrives, then `done` or `error`
+    const streaming = stream === true;
+    const abortController = new AbortController();
+    const fail = (status, error) => {
+      if (!streaming) {
+        return res.status(status).json({ error });
+      }
+      writeEvent(res, 'error', { error });
+      return res.end();
+    };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter error:', errorText);
-      return res.status(502).json({ error: 'AI advisor is temporarily unavailable.' });
+    if (streaming) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      });
+      // The browser closing the connection (the user pressed Stop) cancels the model request
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          abortController.abort();
+        }
+      });
     }
 
-    const completion = await response.json();
-    const aiMessage = extractMessageText(completion).trim();
+    // Same privacy layer as api/ai/chat.ts: redacted per the user's setting and logged before it is sent
+    const audit = createContextAudit(supabase, user.id, {
+      privacy_level: redactor.level,
+      provider: llmProvider.name,
+      model: llmProvider.model,
+    });
+    const redactedProvider = withRedaction(llmProvider, redactor, { onSend: audit.record });
+
+    let aiMessage = '';
+    let usage = null;
+    try {
+      const completion = streaming
+        ? await redactedProvider.stream(request, {
+            onToken: (text) => writeEvent(res, 'token', { text }),
+            signal: abortController.signal,
+          })
+        : await redactedProvider.complete(request);
+      aiMessage = completion.message.content.trim();
+      usage = completion.usage;
+      if (!aiMessage) {
+        console.error('AI provider returned an empty message payload:', completion);
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`AI chat: user ${user.id} stopped the response`);
+        await audit.finish({ status: 'stopped' });
+        return;
+      }
+      console.error('AI chat: model request failed', error);
+      await audit.finish({ status: 'failed' });
+      return fail(502, 'AI advisor is temporarily unavailable.');
+    }
 
+    await audit.finish({ status: aiMessage ? 'answered' : 'failed', token_usage: usage });
     if (!aiMessage) {
-      console.error('OpenRouter returned an empty message payload:', completion);
-      return res.status(502).json({ error: 'AI advisor returned an empty response.' });
+      return fail(502, 'AI advisor returned an empty response.');
     }
 
-    res.json({
+    const result = {
       message: aiMessage,
-      model: openRouterModel,
+      model: llmProvider.model,
+      usage,
+      privacy_level: redactor.level,
       context: {
         netWorth: financialContext.totals.netWorth,
         totalAssets: financialContext.totals.totalAssets,
@@ -2841,9 +2850,19 @@ app.post('/api/ai/chat', async (req, res) => {
         generatedAt: financialContext.generatedAt,
       },
       context_summary: contextSummary,
-    });
+    };
+
+    if (streaming) {
+      writeEvent(res, 'done', result);
+      return res.end();
+    }
+    res.json(result);
   } catch (error) {
     console.error('Error generating AI advice:', error);
+    if (res.headersSent) {
+      writeEvent(res, 'error', { error: 'Failed to generate AI advice' });
+      return res.end();
+    }
     res.status(500).json({ error: 'Failed to generate AI advice' });
   }
 });
@@ -8,11 +8,13 @@ import AuthCallback from './pages/AuthCallback';
 import Dashboard from './pages/Dashboard';
 import Recurring from './pages/Recurring';
 import Spending from './pages/Spending';
+import Budget from './pages/Budget';
 import NetWorth from './pages/NetWorth';
 import Transactions from './pages/Transactions';
 import AIChat from './pages/AIChat';
 import ConnectAccounts from './pages/ConnectAccounts';
 import DeleteAccount from './pages/DeleteAccount';
+import Settings from './pages/Settings';
 import Performance from './pages/Performance';
 
 function App() {
@@ -32,11 +34,13 @@ function App() {
           <Route path="/" element={<Dashboard />} />
           <Route path="/recurring" element={<Recurring />} />
           <Route path="/spending" element={<Spending />} />
+          <Route path="/budget" element={<Budget />} />
           <Route path="/net-worth" element={<NetWorth />} />
           <Route path="/transactions" element={<Transactions />} />
           <Route path="/ai-chat" element={<AIChat />} />
           <Route path="/connect-accounts" element={<ConnectAccounts />} />
           <Route path="/deleteaccount" element={<DeleteAccount />} />
+          <Route path="/settings" element={<Settings />} />
           <Route path="/performance" element={<Performance />} />
                     <Route path="*" element={<Navigate to="/" replace />} />
                   </Routes>
@@ -5,17 +5,24 @@ import { renderWithRouter, userEvent } from '../test/utils';
 
 vi.mock('../utils/api', () => ({
   api: {
-    askFinancialAdvisor: vi.fn(),
+    streamFinancialAdvisor: vi.fn(),
+    getChatConversations: vi.fn(),
+    getChatConversation: vi.fn(),
+    renameChatConversation: vi.fn(),
+    deleteChatConversation: vi.fn(),
   },
 }));
 
 describe('AIChat page', () => {
   beforeEach(() => {
-    vi.mocked(api.askFinancialAdvisor).mockReset();
+    vi.mocked(api.streamFinancialAdvisor).mockReset();
+    vi.mocked(api.getChatConversation).mockReset();
+    vi.mocked(api.getChatConversations).mockReset();
+    vi.mocked(api.getChatConversations).mockResolvedValue({ conversations: [] });
   });
 
   it('sends a user question and renders the AI reply with snapshot data', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Your spending is on track. Try saving $200 more each month.',
       context: {
         netWorth: 50000,
@@ -33,13 +40,15 @@ describe('AIChat page', () => {
     await user.click(screen.getByRole('button', { name: /send/i }));
 
     await waitFor(() =>
-      expect(api.askFinancialAdvisor).toHaveBeenCalledWith(
+      expect(api.streamFinancialAdvisor).toHaveBeenCalledWith(
         expect.objectContaining({
           message: 'How am I doing this month?',
           conversation: expect.arrayContaining([
             expect.objectContaining({ role: 'assistant' }),
           ]),
         }),
+        expect.any(Object),
+        expect.any(AbortSignal),
       ),
     );
 
@@ -52,8 +61,157 @@ describe('AIChat page', () => {
     ).not.toBeInTheDocument();
   });
 
+  it('shows the queries the advisor ran alongside its reply', async () => {
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
+      message: "You spent $62.50 at Trader Joe's in March.",
+      tool_calls: [
+        {
+          name: 'search_transactions',
+          arguments: { query: 'trader joe', start_date: '2026-03-01', end_date: '2026-03-31' },
+          result: { match_count: 2, total_amount: 62.5 },
+        },
+      ],
+    });
+
+    renderWithRouter(<AIChat />, { route: '/ai-chat' });
+
+    const user = userEvent.setup();
+    await user.type(
+      screen.getByPlaceholderText(/ask me anything/i),
+      "How much did I spend at Trader Joe's in March?",
+    );
+    await user.click(screen.getByRole('button', { name: /send/i }));
+
+    expect(await screen.findByText(/You spent \$62.50/)).toBeInTheDocument();
+    expect(screen.getByText(/Searched transactions/)).toBeInTheDocument();
+    expect(screen.getByText(/query: trader joe, start date: 2026-03-01/)).toBeInTheDocument();
+    expect(screen.getByText(/"total_amount": 62.5/)).toBeInTheDocument();
+  });
+
+  it('resumes a saved conversation and continues it', async () => {
+    const conversation = {
+      id: 'conv-1',
+      title: 'Grocery budget',
+      created_at: '2026-03-01T10:00:00Z',
+      updated_at: '2026-03-01T10:05:00Z',
+    };
+    vi.mocked(api.getChatConversations).mockResolvedValue({ conversations: [conversation] });
+    vi.mocked(api.getChatConversation).mockResolvedValue({
+      conversation,
+      messages: [
+        { id: 'm1', role: 'user', content: 'How much do I spend on groceries?', tool_calls: null, created_at: '2026-03-01T10:00:00Z' },
+        {
+          id: 'm2',
+          role: 'assistant',
+          content: 'About $400 a month.',
+          tool_calls: [{ name: 'aggregate_transactions', arguments: { group_by: 'category' }, result: { total: 400 } }],
+          created_at: '2026-03-01T10:00:01Z',
+        },
+      ],
+    });
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
+      message: 'Try a $350 limit.',
+      conversation,
+    });
+
+    renderWithRouter(<AIChat />, { route: '/ai-chat' });
+
+    const user = userEvent.setup();
+    await user.click(await screen.findByText('Grocery budget'));
+
+    expect(await screen.findByText('How much do I spend on groceries?')).toBeInTheDocument();
+    expect(screen.getByText('About $400 a month.')).toBeInTheDocument();
+    expect(screen.getByText(/Totaled transactions/)).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText(/ask me anything/i), 'What limit should I set?');
+    await user.click(screen.getByRole('button', { name: /send/i }));
+
+    await waitFor(() =>
+      expect(api.streamFinancialAdvisor).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'What limit should I set?', conversation_id: 'conv-1' }),
+        expect.any(Object),
+        expect.any(AbortSignal),
+      ),
+    );
+    expect(await screen.findByText('Try a $350 limit.')).toBeInTheDocument();
+  });
+
+  it('starts a new thread and refreshes the history after the first answer', async () => {
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
+      message: 'Here is your plan.',
+      conversation: { id: 'conv-new', title: 'Plan my month', created_at: '2026-03-02T00:00:00Z', updated_at: '2026-03-02T00:00:00Z' },
+    });
+
+    renderWithRouter(<AIChat />, { route: '/ai-chat' });
+    await waitFor(() => expect(api.getChatConversations).toHaveBeenCalledTimes(1));
+
+    const user = userEvent.setup();
+    await user.type(screen.getByPlaceholderText(/ask me anything/i), 'Plan my month');
+    await user.click(screen.getByRole('button', { name: /send/i }));
+
+    await screen.findByText('Here is your plan.');
+    expect(api.streamFinancialAdvisor).toHaveBeenCalledWith(
+      expect.objectContaining({ conversation_id: undefined }),
+      expect.any(Object),
+      expect.any(AbortSignal),
+    );
+    await waitFor(() => expect(api.getChatConversations).toHaveBeenCalledTimes(2));
+
+    await user.click(screen.getByRole('button', { name: /new chat/i }));
+    expect(screen.queryByText('Here is your plan.')).not.toBeInTheDocument();
+    expect(screen.getAllByText(/Analyze my spending/i).length).toBeGreaterThan(0);
+  });
+
+  it('renders the answer as it streams in', async () => {
+    let finish: (value: any) => void = () => {};
+    vi.mocked(api.streamFinancialAdvisor).mockImplementation((_payload, handlers) => {
+      handlers.onToolCall?.({ name: 'get_account_balances', arguments: {}, result: { accounts: [] } });
+      handlers.onToken('## Your plan\n');
+      handlers.onToken('1. Build an emergency fund');
+      return new Promise((resolve) => { finish = resolve; });
+    });
+
+    renderWithRouter(<AIChat />, { route: '/ai-chat' });
+
+    const user = userEvent.setup();
+    await user.type(screen.getByPlaceholderText(/ask me anything/i), 'Make me a plan');
+    await user.click(screen.getByRole('button', { name: /send/i }));
+
+    // Markdown is parsed into blocks before the answer is complete
+    expect(await screen.findByText('Your plan')).toBeInTheDocument();
+    expect(screen.getByRole('listitem')).toHaveTextContent('Build an emergency fund');
+    expect(screen.getByText(/Checked account balances/)).toBeInTheDocument();
+
+    finish({ message: '## Your plan\n1. Build an emergency fund\n2. Pay down the card' });
+
+    expect(await screen.findByText('Pay down the card')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /send/i })).toBeInTheDocument();
+  });
+
+  it('stops a streaming answer and keeps what was written', async () => {
+    vi.mocked(api.streamFinancialAdvisor).mockImplementation((_payload, handlers, signal) => {
+      handlers.onToken('Start by listing');
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    });
+
+    renderWithRouter(<AIChat />, { route: '/ai-chat' });
+
+    const user = userEvent.setup();
+    await user.type(screen.getByPlaceholderText(/ask me anything/i), 'Help me budget');
+    await user.click(screen.getByRole('button', { name: /send/i }));
+
+    await screen.findByText('Start by listing');
+    await user.click(screen.getByRole('button', { name: /stop/i }));
+
+    expect(await screen.findByText('Stopped')).toBeInTheDocument();
+    expect(screen.getByText('Start by listing')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText(/ask me anything/i)).not.toBeDisabled();
+  });
+
   it('shows an error bubble when the advisor endpoint fails', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockRejectedValue(
+    vi.mocked(api.streamFinancialAdvisor).mockRejectedValue(
       new Error('Service is unavailable'),
     );
 
@@ -72,7 +230,7 @@ describe('AIChat page', () => {
   });
 
   it('shows quick actions initially and allows clicking them', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Here is your spending analysis.',
     });
 
@@ -86,16 +244,18 @@ describe('AIChat page', () => {
     fireEvent.click(analyzeButtons[0]);
 
     await waitFor(() => {
-      expect(api.askFinancialAdvisor).toHaveBeenCalledWith(
+      expect(api.streamFinancialAdvisor).toHaveBeenCalledWith(
         expect.objectContaining({
           message: 'Tell me about my spending patterns',
         }),
+        expect.any(Object),
+        expect.any(AbortSignal),
       );
     });
   });
 
   it('handles Enter key to send message', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Response to your query.',
     });
 
@@ -106,7 +266,7 @@ describe('AIChat page', () => {
     fireEvent.keyPress(input, { key: 'Enter', code: 'Enter', charCode: 13 });
 
     await waitFor(() => {
-      expect(api.askFinancialAdvisor).toHaveBeenCalled();
+      expect(api.streamFinancialAdvisor).toHaveBeenCalled();
     });
   });
 
@@ -117,12 +277,12 @@ describe('AIChat page', () => {
     fireEvent.change(input, { target: { value: 'Test message' } });
     fireEvent.keyPress(input, { key: 'Enter', code: 'Enter', charCode: 13, shiftKey: true });
 
-    expect(api.askFinancialAdvisor).not.toHaveBeenCalled();
+    expect(api.streamFinancialAdvisor).not.toHaveBeenCalled();
   });
 
   it('shows typing indicator while waiting for response', async () => {
     let resolveResponse: (value: any) => void;
-    vi.mocked(api.askFinancialAdvisor).mockImplementation(
+    vi.mocked(api.streamFinancialAdvisor).mockImplementation(
       () => new Promise((resolve) => { resolveResponse = resolve; })
     );
 
@@ -146,7 +306,7 @@ describe('AIChat page', () => {
   });
 
   it('displays spending change with positive value in red', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Analysis complete.',
       context: {
         netWorth: 10000,
@@ -168,7 +328,7 @@ describe('AIChat page', () => {
   });
 
   it('displays spending change with negative value in green', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Analysis complete.',
       context: {
         netWorth: 10000,
@@ -189,7 +349,7 @@ describe('AIChat page', () => {
   });
 
   it('displays tracking message when spending change is not available', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Analysis complete.',
       context: {
         netWorth: 10000,
@@ -209,7 +369,7 @@ describe('AIChat page', () => {
   });
 
   it('renders ordered list from AI response', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Here are some tips:\n1. Save money\n2. Track expenses\n3. Budget wisely',
     });
 
@@ -226,7 +386,7 @@ describe('AIChat page', () => {
   });
 
   it('renders unordered list from AI response', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Key points:\n- First point\n- Second point\n- Third point',
     });
 
@@ -242,7 +402,7 @@ describe('AIChat page', () => {
   });
 
   it('renders heading from AI response', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: '# Financial Summary\n\nYour finances look good.',
     });
 
@@ -258,7 +418,7 @@ describe('AIChat page', () => {
   });
 
   it('shows fallback message when response message is empty', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: '',
     });
 
@@ -274,7 +434,7 @@ describe('AIChat page', () => {
   });
 
   it('shows fallback message when error has no message', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockRejectedValue({});
+    vi.mocked(api.streamFinancialAdvisor).mockRejectedValue({});
 
     renderWithRouter(<AIChat />, { route: '/ai-chat' });
 
@@ -294,12 +454,12 @@ describe('AIChat page', () => {
     expect(sendButton).toBeDisabled();
 
     fireEvent.click(sendButton);
-    expect(api.askFinancialAdvisor).not.toHaveBeenCalled();
+    expect(api.streamFinancialAdvisor).not.toHaveBeenCalled();
   });
 
   it('does not allow actions while typing', async () => {
     let resolveResponse: (value: any) => void;
-    vi.mocked(api.askFinancialAdvisor).mockImplementation(
+    vi.mocked(api.streamFinancialAdvisor).mockImplementation(
       () => new Promise((resolve) => { resolveResponse = resolve; })
     );
 
@@ -322,7 +482,7 @@ describe('AIChat page', () => {
   });
 
   it('displays data refreshed timestamp', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Here is your data.',
       context: {
         netWorth: 25000,
@@ -342,7 +502,7 @@ describe('AIChat page', () => {
   });
 
   it('formats currency with proper decimal places', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'Your summary.',
       context: {
         netWorth: 500, // Small value should show decimals
@@ -362,7 +522,7 @@ describe('AIChat page', () => {
   });
 
   it('handles spending change of zero', async () => {
-    vi.mocked(api.askFinancialAdvisor).mockResolvedValue({
+    vi.mocked(api.streamFinancialAdvisor).mockResolvedValue({
       message: 'No change.',
       context: {
         netWorth: 10000,
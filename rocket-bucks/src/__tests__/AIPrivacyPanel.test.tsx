@@ -0,0 +1,92 @@
+import { screen, waitFor } from '@testing-library/react';
+import AIPrivacyPanel from '../components/AIPrivacyPanel';
+import { api } from '../utils/api';
+import { renderWithRouter, userEvent } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getAIPrivacy: vi.fn(),
+    updateAIPrivacy: vi.fn(),
+    getAIContextAudit: vi.fn(),
+  },
+}));
+
+const auditEntry = {
+  id: 'audit-1',
+  conversation_id: 'conv-1',
+  conversation_title: 'Coffee spending',
+  message_id: 'msg-2',
+  privacy_level: 'anonymized',
+  provider: 'local',
+  model: 'llama3.1',
+  status: 'answered',
+  sent_messages: [
+    { role: 'system', content: 'Key accounts: [Account 1] (depository): $2,400' },
+    { role: 'user', content: 'How much at [Merchant 1]?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ function: { name: 'search_transactions', arguments: '{"query":"[Merchant 1]"}' } }],
+    },
+  ],
+  rounds: 2,
+  token_usage: { prompt_tokens: 1200, completion_tokens: 80, total_tokens: 1280 },
+  created_at: '2024-03-05T10:00:00Z',
+};
+
+describe('AIPrivacyPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getAIPrivacy).mockResolvedValue({ privacy_level: 'anonymized' });
+    vi.mocked(api.getAIContextAudit).mockResolvedValue({ entries: [auditEntry] as any });
+  });
+
+  it('shows the current level and the log of what was sent', async () => {
+    renderWithRouter(<AIPrivacyPanel />);
+
+    expect(await screen.findByRole('radio', { name: /Anonymized names/ })).toBeChecked();
+    expect(api.getAIContextAudit).toHaveBeenCalledWith({ limit: 20 });
+    expect(screen.getByText('Coffee spending')).toBeInTheDocument();
+    expect(screen.getByText(/llama3.1 via local · Answered · 1,280 tokens/)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByText('View what was sent'));
+    expect(screen.getByText('Key accounts: [Account 1] (depository): $2,400')).toBeInTheDocument();
+    expect(screen.getByText('How much at [Merchant 1]?')).toBeInTheDocument();
+    expect(screen.getByText('Asked for search_transactions {"query":"[Merchant 1]"}')).toBeInTheDocument();
+  });
+
+  it('saves a new level', async () => {
+    vi.mocked(api.updateAIPrivacy).mockResolvedValue({ privacy_level: 'aggregates' });
+
+    renderWithRouter(<AIPrivacyPanel />);
+
+    await userEvent.click(await screen.findByRole('radio', { name: /Totals only/ }));
+
+    await waitFor(() => {
+      expect(api.updateAIPrivacy).toHaveBeenCalledWith('aggregates');
+      expect(screen.getByText('✓ Saved. Applies to your next question.')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('radio', { name: /Totals only/ })).toBeChecked();
+  });
+
+  it('goes back to the saved level when the update fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(api.updateAIPrivacy).mockRejectedValue(new Error('Failed to update AI privacy setting'));
+
+    renderWithRouter(<AIPrivacyPanel />);
+
+    await userEvent.click(await screen.findByRole('radio', { name: /Full detail/ }));
+
+    expect(await screen.findByText('Failed to update AI privacy setting')).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: /Anonymized names/ })).toBeChecked();
+    consoleError.mockRestore();
+  });
+
+  it('says when nothing has been shared yet', async () => {
+    vi.mocked(api.getAIContextAudit).mockResolvedValue({ entries: [] });
+
+    renderWithRouter(<AIPrivacyPanel />);
+
+    expect(await screen.findByText('Nothing has been sent to the AI model yet.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,72 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import AmountHistoryPanel from '../components/AmountHistoryPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getRecurringAmountChanges: vi.fn(),
+    detectRecurringAmountChanges: vi.fn(),
+    updateAmountChange: vi.fn(),
+    setAmountAlertThreshold: vi.fn(),
+  },
+}));
+
+const subscription = {
+  id: 'rec-1',
+  name: 'Netflix',
+  average_amount: 15.49,
+  expected_amount: 17.99,
+  frequency: 'monthly',
+  amount_alert_threshold: null,
+};
+
+const priceIncrease = {
+  id: 'chg-1',
+  transaction_date: '2024-03-05',
+  previous_amount: 15.49,
+  new_amount: 17.99,
+  change_percent: 16.1,
+  kind: 'price_increase',
+  status: 'new',
+};
+
+describe('AmountHistoryPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getRecurringAmountChanges).mockResolvedValue({ changes: [priceIncrease] });
+  });
+
+  it('lists amount changes and dismisses one', async () => {
+    vi.mocked(api.updateAmountChange).mockResolvedValue({ change: { ...priceIncrease, status: 'dismissed' } });
+    const onSaved = vi.fn();
+
+    renderWithRouter(<AmountHistoryPanel recurring={subscription} onClose={vi.fn()} onSaved={onSaved} />);
+
+    expect(await screen.findByText('Price increase · Mar 5, 2024')).toBeInTheDocument();
+    expect(screen.getByText('$15.49 → $17.99 (+16.1%)')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Dismiss'));
+
+    await waitFor(() => {
+      expect(api.updateAmountChange).toHaveBeenCalledWith('chg-1', 'dismissed');
+      expect(screen.getByText('Restore')).toBeInTheDocument();
+    });
+    expect(onSaved).toHaveBeenCalled();
+  });
+
+  it('saves a custom threshold and re-checks the stream', async () => {
+    vi.mocked(api.setAmountAlertThreshold).mockResolvedValue({ recurring: { id: 'rec-1' } });
+    vi.mocked(api.detectRecurringAmountChanges).mockResolvedValue({ success: true, detected_count: 1 });
+
+    renderWithRouter(<AmountHistoryPanel recurring={subscription} onClose={vi.fn()} />);
+
+    await screen.findByText('Price increase · Mar 5, 2024');
+    fireEvent.change(screen.getByLabelText('Alert threshold (%)'), { target: { value: '2.5' } });
+    fireEvent.click(screen.getByText('Save threshold'));
+
+    expect(await screen.findByText('Threshold saved. Found 1 new charge above it.')).toBeInTheDocument();
+    expect(api.setAmountAlertThreshold).toHaveBeenCalledWith('rec-1', 2.5);
+    expect(api.detectRecurringAmountChanges).toHaveBeenCalledWith('rec-1');
+  });
+});
@@ -0,0 +1,174 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import Budget from '../pages/Budget';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getBudgets: vi.fn(),
+    getCategories: vi.fn(),
+    createBudget: vi.fn(),
+    updateBudget: vi.fn(),
+    deleteBudget: vi.fn(),
+  },
+}));
+
+const budgetSample = [
+  {
+    id: 'budget-1',
+    category_id: 'cat-groceries',
+    category_name: 'Groceries',
+    monthly_limit: 400,
+    rollover: true,
+    spent: 250,
+    rollover_amount: 50,
+    available: 450,
+    remaining: 200,
+    percent_used: 56,
+    transaction_categories: { name: 'Groceries', icon: '🛒' },
+  },
+  {
+    id: 'budget-2',
+    user_category_name: 'Restaurants',
+    category_name: 'Restaurants',
+    monthly_limit: 100,
+    rollover: false,
+    spent: 130,
+    rollover_amount: 0,
+    available: 100,
+    remaining: -30,
+    percent_used: 130,
+  },
+];
+
+const categoriesSample = [
+  { id: 'cat-groceries', name: 'Groceries', icon: '🛒' },
+  { id: 'cat-travel', name: 'Travel', icon: '✈️' },
+  { id: 'cat-income', name: 'Income', icon: '💰' },
+];
+
+describe('Budget page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getBudgets).mockResolvedValue({
+      budgets: budgetSample,
+      month: '2024-03',
+      totals: { limit: 500, available: 550, spent: 380, remaining: 170 },
+    });
+    vi.mocked(api.getCategories).mockResolvedValue({ categories: categoriesSample });
+  });
+
+  it('shows loading state initially', () => {
+    vi.mocked(api.getBudgets).mockImplementation(() => new Promise(() => {}));
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    expect(document.querySelector('.animate-spin')).toBeInTheDocument();
+  });
+
+  it('renders spent vs. limit for each budget', async () => {
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    expect(await screen.findByText('Groceries')).toBeInTheDocument();
+    expect(screen.getByText(/\$250\.00 of \$450\.00/)).toBeInTheDocument();
+    expect(screen.getByText(/includes \$50\.00 rollover/)).toBeInTheDocument();
+    expect(screen.getByText('$200.00 left')).toBeInTheDocument();
+    expect(screen.getByText('$30.00 over')).toBeInTheDocument();
+    expect(screen.getAllByTestId('budget-progress')[1]).toHaveStyle({ width: '100%' });
+  });
+
+  it('shows an empty state when no budgets exist', async () => {
+    vi.mocked(api.getBudgets).mockResolvedValue({
+      budgets: [],
+      month: '2024-03',
+      totals: { limit: 0, available: 0, spent: 0, remaining: 0 },
+    });
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    expect(await screen.findByText('No budgets yet.')).toBeInTheDocument();
+  });
+
+  it('reloads budgets when changing month', async () => {
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    await screen.findByText('Groceries');
+    const initialMonth = vi.mocked(api.getBudgets).mock.calls[0][0] as string;
+
+    fireEvent.click(screen.getByLabelText('Previous month'));
+
+    await waitFor(() => {
+      expect(api.getBudgets).toHaveBeenCalledTimes(2);
+    });
+    const previousMonth = vi.mocked(api.getBudgets).mock.calls[1][0] as string;
+    expect(previousMonth < initialMonth).toBe(true);
+  });
+
+  it('creates a budget using the category id when one exists', async () => {
+    vi.mocked(api.createBudget).mockResolvedValue({ budget: { id: 'budget-3' } });
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    await screen.findByText('Groceries');
+    fireEvent.click(screen.getByText('+ Add Budget'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('option', { name: /Travel/ })).toBeInTheDocument();
+    });
+    expect(screen.queryByRole('option', { name: /Income/ })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'Travel' } });
+    fireEvent.change(screen.getByPlaceholderText('0.00'), { target: { value: '300' } });
+    fireEvent.click(screen.getByLabelText('Roll over unspent amounts'));
+    fireEvent.click(screen.getByText('Save Budget'));
+
+    await waitFor(() => {
+      expect(api.createBudget).toHaveBeenCalledWith({
+        category_id: 'cat-travel',
+        monthly_limit: 300,
+        rollover: true,
+      });
+    });
+  });
+
+  it('updates an existing budget limit', async () => {
+    vi.mocked(api.updateBudget).mockResolvedValue({ budget: { id: 'budget-1' } });
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    await screen.findByText('Groceries');
+    fireEvent.click(screen.getAllByTitle('Edit budget')[0]);
+    fireEvent.change(screen.getByPlaceholderText('0.00'), { target: { value: '500' } });
+    fireEvent.click(screen.getByText('Save Budget'));
+
+    await waitFor(() => {
+      expect(api.updateBudget).toHaveBeenCalledWith('budget-1', {
+        monthly_limit: 500,
+        rollover: true,
+      });
+    });
+  });
+
+  it('deletes a budget after confirmation', async () => {
+    vi.mocked(api.deleteBudget).mockResolvedValue({ success: true });
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    await screen.findByText('Restaurants');
+    fireEvent.click(screen.getAllByTitle('Delete budget')[1]);
+
+    await waitFor(() => {
+      expect(api.deleteBudget).toHaveBeenCalledWith('budget-2');
+    });
+  });
+
+  it('shows an error when budgets fail to load', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(api.getBudgets).mockRejectedValue(new Error('Failed to fetch budgets'));
+
+    renderWithRouter(<Budget />, { route: '/budget' });
+
+    expect(await screen.findByText('Failed to fetch budgets')).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,75 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import CancellationPanel from '../components/CancellationPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    requestCancellation: vi.fn(),
+    updateCancellationStatus: vi.fn(),
+    withdrawCancellation: vi.fn(),
+    getCancellationDraft: vi.fn(),
+  },
+}));
+
+const subscription = {
+  id: 'rec-1',
+  name: 'Netflix',
+  expected_amount: 15.49,
+  frequency: 'monthly',
+  next_due_date: '2024-04-05',
+};
+
+describe('CancellationPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes a cancellation email draft', async () => {
+    vi.mocked(api.getCancellationDraft).mockResolvedValue({
+      draft: {
+        format: 'email',
+        to: null,
+        subject: 'Cancellation request: Netflix subscription',
+        body: 'Hello Netflix team,\n\nPlease cancel my Netflix subscription.',
+      },
+    });
+
+    renderWithRouter(<CancellationPanel recurring={subscription} onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Write draft'));
+
+    await waitFor(() => {
+      expect(api.getCancellationDraft).toHaveBeenCalledWith('rec-1', 'email');
+    });
+    expect(await screen.findByText(/Subject: Cancellation request: Netflix subscription/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Cancellation draft')).toHaveValue('Hello Netflix team,\n\nPlease cancel my Netflix subscription.');
+  });
+
+  it('shows the charge that arrived after cancelling and keeps watching', async () => {
+    const onSaved = vi.fn();
+    vi.mocked(api.updateCancellationStatus).mockResolvedValue({ recurring: { id: 'rec-1' } });
+
+    renderWithRouter(
+      <CancellationPanel
+        recurring={{
+          ...subscription,
+          cancellation_status: 'charged_after_cancel',
+          cancel_date: '2024-03-01',
+          post_cancel_transaction: { id: 'tx-9', date: '2024-03-05', amount: 15.49 },
+        }}
+        onClose={vi.fn()}
+        onSaved={onSaved}
+      />
+    );
+
+    expect(screen.getByText('⚠️ Charged after cancelling: $15.49 on Mar 5, 2024')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Keep watching'));
+
+    await waitFor(() => {
+      expect(api.updateCancellationStatus).toHaveBeenCalledWith('rec-1', 'cancel_requested');
+      expect(onSaved).toHaveBeenCalled();
+    });
+  });
+});
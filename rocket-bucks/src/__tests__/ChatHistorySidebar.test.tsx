@@ -0,0 +1,103 @@
+import { screen, waitFor } from '@testing-library/react';
+import { renderWithRouter, userEvent } from '../test/utils';
+import ChatHistorySidebar from '../components/ChatHistorySidebar';
+import { api } from '../utils/api';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getChatConversations: vi.fn(),
+    renameChatConversation: vi.fn(),
+    deleteChatConversation: vi.fn(),
+  },
+}));
+
+const conversations = [
+  { id: 'conv-1', title: 'Grocery budget', created_at: '2026-03-01T10:00:00Z', updated_at: '2026-03-01T10:05:00Z' },
+  { id: 'conv-2', title: 'Paying off my card', created_at: '2026-02-01T10:00:00Z', updated_at: '2026-02-01T10:05:00Z' },
+];
+
+const renderSidebar = (overrides: Partial<Parameters<typeof ChatHistorySidebar>[0]> = {}) => {
+  const props = {
+    activeId: null,
+    refreshKey: 0,
+    onSelect: vi.fn(),
+    onNewChat: vi.fn(),
+    onDeleted: vi.fn(),
+    ...overrides,
+  };
+  renderWithRouter(<ChatHistorySidebar {...props} />);
+  return props;
+};
+
+describe('ChatHistorySidebar', () => {
+  beforeEach(() => {
+    vi.mocked(api.getChatConversations).mockReset();
+    vi.mocked(api.getChatConversations).mockResolvedValue({ conversations });
+    vi.mocked(api.renameChatConversation).mockReset();
+    vi.mocked(api.deleteChatConversation).mockReset();
+  });
+
+  it('lists saved conversations and opens one', async () => {
+    const props = renderSidebar();
+    const user = userEvent.setup();
+
+    await user.click(await screen.findByText('Paying off my card'));
+
+    expect(props.onSelect).toHaveBeenCalledWith(conversations[1]);
+    expect(screen.getByText('Grocery budget')).toBeInTheDocument();
+  });
+
+  it('searches old answers and shows the matching snippet', async () => {
+    renderSidebar();
+    const user = userEvent.setup();
+    await screen.findByText('Grocery budget');
+
+    vi.mocked(api.getChatConversations).mockResolvedValue({
+      conversations: [{ ...conversations[0], snippet: '…put $50 a week toward groceries…' }],
+    });
+    await user.type(screen.getByRole('searchbox', { name: /search conversations/i }), 'groceries{Enter}');
+
+    expect(await screen.findByText('…put $50 a week toward groceries…')).toBeInTheDocument();
+    expect(api.getChatConversations).toHaveBeenLastCalledWith('groceries');
+    expect(screen.queryByText('Paying off my card')).not.toBeInTheDocument();
+  });
+
+  it('renames a conversation', async () => {
+    vi.mocked(api.renameChatConversation).mockResolvedValue({
+      conversation: { ...conversations[0], title: 'Food budget' },
+    });
+    renderSidebar();
+    const user = userEvent.setup();
+
+    await user.click(await screen.findByRole('button', { name: 'Rename Grocery budget' }));
+    const input = screen.getByRole('textbox', { name: /conversation title/i });
+    await user.clear(input);
+    await user.type(input, 'Food budget{Enter}');
+
+    await waitFor(() => expect(api.renameChatConversation).toHaveBeenCalledWith('conv-1', 'Food budget'));
+    expect(await screen.findByText('Food budget')).toBeInTheDocument();
+  });
+
+  it('deletes a conversation after confirming', async () => {
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(api.deleteChatConversation).mockResolvedValue({ success: true });
+    const props = renderSidebar({ activeId: 'conv-1' });
+    const user = userEvent.setup();
+
+    await user.click(await screen.findByRole('button', { name: 'Delete Grocery budget' }));
+
+    await waitFor(() => expect(props.onDeleted).toHaveBeenCalledWith('conv-1'));
+    expect(api.deleteChatConversation).toHaveBeenCalledWith('conv-1');
+    expect(screen.queryByText('Grocery budget')).not.toBeInTheDocument();
+    confirmSpy.mockRestore();
+  });
+
+  it('starts a new chat', async () => {
+    const props = renderSidebar();
+    const user = userEvent.setup();
+
+    await user.click(screen.getByRole('button', { name: /new chat/i }));
+
+    expect(props.onNewChat).toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,10 @@ vi.mock('../utils/api', () => ({
   api: {
     getAccounts: vi.fn(),
     exchangePublicToken: vi.fn(),
+    markItemReconnected: vi.fn(),
+    syncTransactions: vi.fn(),
+    getUnlinkPreview: vi.fn(),
+    unlinkInstitution: vi.fn(),
   },
 }));
 
@@ -61,6 +65,99 @@ describe('ConnectAccounts page', () => {
     expect(screen.getByText(/Connected Accounts/i)).toBeInTheDocument();
   });
 
+  it('flags institutions that need to be reconnected', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({
+      accounts: [
+        {
+          id: 'acc-1',
+          name: 'Everyday Checking',
+          type: 'depository',
+          subtype: 'checking',
+          mask: '1234',
+          balance_current: 2500,
+          institution_name: 'First Bank',
+          plaid_item_id: 'item-1',
+        },
+      ],
+      items: [
+        {
+          id: 'item-1',
+          institution_name: 'First Bank',
+          status: 'login_required',
+          error_code: 'ITEM_LOGIN_REQUIRED',
+          error_message: null,
+          consent_expires_at: null,
+          last_synced_at: null,
+        },
+      ],
+    });
+
+    renderWithRouter(<ConnectAccounts />, { route: '/connect-accounts' });
+
+    expect(await screen.findByText('Institutions')).toBeInTheDocument();
+    expect(screen.getAllByText(/Sign-in required/)).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'Reconnect First Bank' })).toBeInTheDocument();
+    expect(screen.queryByText('✓ Connected')).not.toBeInTheDocument();
+  });
+
+  it('lists archived accounts apart and opens the unlink confirmation', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({
+      accounts: [
+        {
+          id: 'acc-1',
+          name: 'Everyday Checking',
+          type: 'depository',
+          subtype: 'checking',
+          mask: '1234',
+          balance_current: 2500,
+          institution_name: 'First Bank',
+          plaid_item_id: 'item-1',
+        },
+        {
+          id: 'acc-old',
+          name: 'Closed Card',
+          type: 'credit',
+          subtype: 'credit card',
+          mask: '9999',
+          balance_current: 0,
+          institution_name: 'Old Bank',
+          plaid_item_id: null,
+          archived_at: '2026-09-01T00:00:00Z',
+        },
+      ],
+      items: [
+        {
+          id: 'item-1',
+          institution_name: 'First Bank',
+          status: 'healthy',
+          error_code: null,
+          error_message: null,
+          consent_expires_at: null,
+          last_synced_at: null,
+        },
+      ],
+    });
+    vi.mocked(api.getUnlinkPreview).mockResolvedValue({
+      institution_name: 'First Bank',
+      accounts: 1,
+      transactions: 40,
+      recurring: 0,
+    });
+
+    renderWithRouter(<ConnectAccounts />, { route: '/connect-accounts' });
+
+    expect(await screen.findByText('Archived Accounts')).toBeInTheDocument();
+    expect(api.getAccounts).toHaveBeenCalledWith({ includeArchived: true });
+    expect(screen.getByText(/Old Bank Closed Card/)).toBeInTheDocument();
+    // The institution row and its one active account
+    expect(screen.getAllByText('✓ Connected')).toHaveLength(2);
+
+    const user = userEvent.setup();
+    await user.click(screen.getByRole('button', { name: 'Unlink First Bank' }));
+
+    expect(await screen.findByText(/has 1 account, 40 transactions/)).toBeInTheDocument();
+  });
+
   it('exchanges the Plaid token and refreshes the account list', async () => {
     vi.mocked(api.getAccounts)
       .mockResolvedValueOnce({
@@ -9,6 +9,7 @@ vi.mock('../utils/api', () => ({
     getAccounts: vi.fn(),
     searchTransactions: vi.fn(),
     getRecurring: vi.fn(),
+    getInsights: vi.fn(),
   },
 }));
 
@@ -119,6 +120,7 @@ describe('Dashboard page', () => {
     vi.clearAllMocks();
     mockPerformanceNow.mockReturnValue(0);
     localStorage.clear();
+    vi.mocked(api.getInsights).mockResolvedValue({ series: { group_by: 'month', points: [] } });
     
     // Set default mock for useAuth
     mockUseAuth.mockReturnValue({
@@ -188,6 +190,30 @@ describe('Dashboard page', () => {
     expect(screen.getByText(/Netflix Subscription/i)).toBeInTheDocument();
   });
 
+  it('flags upcoming charges that came in higher than usual', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: [] });
+    vi.mocked(api.searchTransactions).mockResolvedValue({
+      transactions: [],
+      count: 0,
+    });
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [
+        {
+          ...mockRecurring[0],
+          recurring_amount_changes: [
+            { id: 'chg-1', transaction_date: '2024-01-01', previous_amount: 13.99, new_amount: 15.99, change_percent: 14.3, kind: 'price_increase', status: 'dismissed' },
+            { id: 'chg-2', transaction_date: '2024-02-01', previous_amount: 15.49, new_amount: 15.99, change_percent: 3.2, kind: 'price_increase', status: 'new' },
+          ],
+        },
+      ],
+    });
+
+    renderDashboard();
+
+    expect(await screen.findByText('↑ $15.49 → $15.99 (+3.2%)')).toBeInTheDocument();
+    expect(screen.queryByText('↑ $13.99 → $15.99 (+14.3%)')).not.toBeInTheDocument();
+  });
+
   it('displays greeting with first name from full_name', async () => {
     vi.mocked(api.getAccounts).mockResolvedValue({ accounts: [] });
     vi.mocked(api.searchTransactions).mockResolvedValue({
@@ -466,55 +492,32 @@ describe('Dashboard page', () => {
   });
 
   it('calculates and displays monthly spending', async () => {
-    const now = new Date();
-    const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-    
-    const transactions = [
-      {
-        id: 'tx-1',
-        date: now.toISOString().split('T')[0] + 'T00:00:00Z',
-        name: 'Grocery',
-        amount: -100,
-        transaction_type: 'expense',
-        user_category_name: 'Groceries',
-      },
-      {
-        id: 'tx-2',
-        date: now.toISOString().split('T')[0] + 'T00:00:00Z',
-        name: 'Gas',
-        amount: -50,
-        transaction_type: 'expense',
-        user_category_name: 'Transportation',
-      },
-    ];
-
     vi.mocked(api.getAccounts).mockResolvedValue({ accounts: [] });
-    vi.mocked(api.searchTransactions)
-      .mockResolvedValueOnce({
-        transactions: [],
-        count: 0,
-      })
-      .mockResolvedValueOnce({
-        transactions,
-        count: 2,
-      });
+    vi.mocked(api.searchTransactions).mockResolvedValue({
+      transactions: [],
+      count: 0,
+    });
     vi.mocked(api.getRecurring).mockResolvedValue({ recurring: [] });
+    vi.mocked(api.getInsights).mockResolvedValue({
+      series: {
+        group_by: 'month',
+        points: [
+          { date: '2024-02', amount: 410.25 },
+          { date: '2024-03', amount: 150 },
+        ],
+      },
+    });
 
     renderDashboard();
 
     await waitFor(() => {
-      // Wait for the spending calculation to complete (second API call)
-      expect(api.searchTransactions).toHaveBeenCalledTimes(2);
-    }, { timeout: 3000 });
+      expect(api.getInsights).toHaveBeenCalledWith(expect.objectContaining({ group_by: 'month' }));
+    });
 
     await waitFor(() => {
-      // Wait for the spending amount to appear - it's in the h2 element
+      // The current month is the last bucket in the series
       const spendingHeading = screen.getByText('Current spend this month').nextElementSibling;
-      expect(spendingHeading).toBeInTheDocument();
-      // The amount should be displayed (might be 0.00 if calculation hasn't completed yet)
-      expect(spendingHeading?.textContent).toBeTruthy();
+      expect(spendingHeading?.textContent).toContain('150');
     });
   });
 
@@ -0,0 +1,46 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import DataExportPanel from '../components/DataExportPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    exportAllData: vi.fn(),
+  },
+}));
+
+describe('DataExportPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:data'), revokeObjectURL: vi.fn() });
+  });
+
+  it('downloads the archive in the chosen format', async () => {
+    vi.mocked(api.exportAllData).mockResolvedValue(new Blob(['{}']));
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    renderWithRouter(<DataExportPanel />);
+
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'json' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Download my data' }));
+
+    await waitFor(() => {
+      expect(api.exportAllData).toHaveBeenCalledWith('json');
+      expect(screen.getByText('✓ Download started')).toBeInTheDocument();
+    });
+    expect(clickSpy).toHaveBeenCalled();
+    clickSpy.mockRestore();
+  });
+
+  it('shows an error when the export fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(api.exportAllData).mockRejectedValue(new Error('Failed to export data'));
+
+    renderWithRouter(<DataExportPanel />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download my data' }));
+
+    expect(await screen.findByText('Failed to export data')).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
@@ -6,6 +6,7 @@ import { renderWithRouter } from '../test/utils';
 vi.mock('../utils/api', () => ({
   api: {
     getAccounts: vi.fn(),
+    exportAllData: vi.fn(),
     getApiUrl: vi.fn(() => 'http://localhost:3001/api'),
     getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json', Authorization: 'Bearer test-token' })),
   },
@@ -329,5 +330,13 @@ describe('DeleteAccount page', () => {
     expect(screen.getByText(/All spending insights and analytics/i)).toBeInTheDocument();
     expect(screen.getByText(/All net worth tracking data/i)).toBeInTheDocument();
   });
-});
 
+  it('offers a data export before deleting', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: mockAccounts });
+
+    renderWithRouter(<DeleteAccount />, { route: '/deleteaccount' });
+
+    expect(await screen.findByText('Download your data')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Download my data' })).toBeInTheDocument();
+  });
+});
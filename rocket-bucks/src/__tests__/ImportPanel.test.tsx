@@ -0,0 +1,147 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import ImportPanel from '../components/ImportPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    importTransactions: vi.fn(),
+  },
+}));
+
+const accounts = [
+  { id: 'acc-plaid', name: 'Chase Checking', plaid_item_id: 'item-1' },
+  { id: 'acc-cash', name: 'Cash wallet', plaid_item_id: null },
+];
+
+const csvFile = new File(['Date,Description,Amount\n01/05/2024,Coffee,-4.50\n'], 'export.csv', { type: 'text/csv' });
+
+const csvPreview = {
+  success: true,
+  dry_run: true,
+  format: 'csv',
+  account: { id: 'acc-cash', name: 'Cash wallet', is_new: false },
+  total_count: 2,
+  new_count: 1,
+  duplicate_count: 1,
+  error_count: 0,
+  errors: [],
+  transactions: [
+    { transaction_id: 'import-1', date: '2024-01-05', name: 'Coffee', amount: 4.5, duplicate: false, user_category_name: 'Food & Drink' },
+    { transaction_id: 'import-2', date: '2024-01-04', name: 'Lunch', amount: 12, duplicate: true, user_category_name: null },
+  ],
+};
+
+const chooseFile = async (file: File) => {
+  fireEvent.change(screen.getByLabelText('File'), { target: { files: [file] } });
+  expect(await screen.findByText(file.name)).toBeInTheDocument();
+};
+
+describe('ImportPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('only offers manual accounts', () => {
+    renderWithRouter(<ImportPanel accounts={accounts} onClose={vi.fn()} />);
+
+    expect(screen.getByRole('option', { name: 'Cash wallet' })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Chase Checking' })).not.toBeInTheDocument();
+  });
+
+  it('maps CSV columns, previews and imports', async () => {
+    vi.mocked(api.importTransactions)
+      .mockResolvedValueOnce({
+        success: true,
+        dry_run: true,
+        format: 'csv',
+        headers: ['Date', 'Description', 'Amount'],
+        sample_rows: [['01/05/2024', 'Coffee', '-4.50']],
+        suggested_mapping: { date: 0, name: 1, amount: 2, has_header: true },
+      })
+      .mockResolvedValueOnce(csvPreview)
+      .mockResolvedValueOnce({ success: true, message: 'Imported 1 transaction, skipped 1 already in Cash wallet', imported_count: 1 });
+    const onImported = vi.fn();
+
+    renderWithRouter(<ImportPanel accounts={accounts} onClose={vi.fn()} onImported={onImported} />);
+
+    await chooseFile(csvFile);
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    expect(await screen.findByLabelText('Description')).toHaveValue('1');
+    expect(api.importTransactions).toHaveBeenLastCalledWith(expect.objectContaining({
+      format: 'csv',
+      account_id: 'acc-cash',
+      dry_run: true,
+    }));
+
+    fireEvent.change(screen.getByLabelText('Amounts'), { target: { value: 'positive_is_expense' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('Already imported')).toBeInTheDocument();
+    expect(screen.getByText('Food & Drink')).toBeInTheDocument();
+    expect(api.importTransactions).toHaveBeenLastCalledWith(expect.objectContaining({
+      mapping: expect.objectContaining({ date: 0, name: 1, amount: 2, amount_sign: 'positive_is_expense' }),
+      dry_run: true,
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 1 transaction' }));
+
+    expect(await screen.findByText('Imported 1 transaction, skipped 1 already in Cash wallet')).toBeInTheDocument();
+    expect(api.importTransactions).toHaveBeenLastCalledWith(expect.objectContaining({ dry_run: false }));
+    expect(onImported).toHaveBeenCalled();
+  });
+
+  it('previews an OFX file into a new account named by the statement', async () => {
+    vi.mocked(api.importTransactions).mockResolvedValueOnce({
+      ...csvPreview,
+      format: 'ofx',
+      account: { name: 'My Bank ••••4321', type: 'depository', is_new: true },
+    });
+
+    renderWithRouter(<ImportPanel accounts={[]} onClose={vi.fn()} />);
+
+    await chooseFile(new File(['<OFX></OFX>'], 'statement.ofx'));
+    expect(screen.queryByLabelText('Account type')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    expect(await screen.findByText('My Bank ••••4321')).toBeInTheDocument();
+    expect(api.importTransactions).toHaveBeenCalledWith(expect.objectContaining({
+      format: 'ofx',
+      account_name: undefined,
+      account_type: undefined,
+      dry_run: true,
+    }));
+  });
+
+  it('requires a name for a new account from a CSV', async () => {
+    renderWithRouter(<ImportPanel accounts={[]} onClose={vi.fn()} />);
+
+    await chooseFile(csvFile);
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    expect(screen.getByText('Name the new account')).toBeInTheDocument();
+    expect(api.importTransactions).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsupported files', async () => {
+    renderWithRouter(<ImportPanel accounts={accounts} onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('File'), { target: { files: [new File(['x'], 'report.pdf')] } });
+
+    expect(await screen.findByText('Choose a .csv, .ofx or .qfx file')).toBeInTheDocument();
+  });
+
+  it('shows server errors', async () => {
+    vi.mocked(api.importTransactions).mockRejectedValue(new Error('Not an OFX or QFX file'));
+
+    renderWithRouter(<ImportPanel accounts={accounts} onClose={vi.fn()} />);
+
+    await chooseFile(new File(['garbage'], 'statement.qfx'));
+    fireEvent.click(screen.getByRole('button', { name: 'Continue' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Not an OFX or QFX file')).toBeInTheDocument();
+    });
+  });
+});
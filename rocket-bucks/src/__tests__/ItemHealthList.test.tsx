@@ -0,0 +1,103 @@
+import { screen, waitFor } from '@testing-library/react';
+import { renderWithRouter, userEvent } from '../test/utils';
+import ItemHealthList from '../components/ItemHealthList';
+import { api } from '../utils/api';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    markItemReconnected: vi.fn(),
+    syncTransactions: vi.fn(),
+  },
+}));
+
+vi.mock('../components/PlaidLink', async () => {
+  const React = await import('react');
+  return {
+    default: ({ onSuccess, itemId, children }: any) =>
+      React.cloneElement(children, {
+        'data-item-id': itemId,
+        onClick: () => onSuccess('mock-public-token', {}),
+      }),
+  };
+});
+
+const items = [
+  {
+    id: 'item-1',
+    institution_name: 'First Bank',
+    status: 'healthy' as const,
+    error_code: null,
+    error_message: null,
+    consent_expires_at: null,
+    last_synced_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+  },
+  {
+    id: 'item-2',
+    institution_name: 'Credit Union',
+    status: 'login_required' as const,
+    error_code: 'ITEM_LOGIN_REQUIRED',
+    error_message: 'Your password changed. Sign in again to keep syncing.',
+    consent_expires_at: null,
+    last_synced_at: '2026-01-01T00:00:00Z',
+  },
+];
+
+describe('ItemHealthList', () => {
+  beforeEach(() => {
+    vi.mocked(api.markItemReconnected).mockReset();
+    vi.mocked(api.syncTransactions).mockReset();
+  });
+
+  it('shows each institution with its status and last sync', () => {
+    renderWithRouter(<ItemHealthList items={items} onReconnected={vi.fn()} />);
+
+    expect(screen.getByText('First Bank')).toBeInTheDocument();
+    expect(screen.getByText(/Synced 2 hours ago/)).toBeInTheDocument();
+    expect(screen.getByText(/Sign-in required/)).toBeInTheDocument();
+    expect(screen.getByText(/Your password changed/)).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /reconnect/i })).toHaveLength(1);
+  });
+
+  it('only lists institutions that need attention when asked', () => {
+    renderWithRouter(<ItemHealthList items={items} problemsOnly onReconnected={vi.fn()} />);
+
+    expect(screen.queryByText('First Bank')).not.toBeInTheDocument();
+    expect(screen.getByText(/Credit Union/)).toBeInTheDocument();
+  });
+
+  it('marks the institution reconnected and syncs after Link update mode', async () => {
+    vi.mocked(api.markItemReconnected).mockResolvedValue({ success: true });
+    vi.mocked(api.syncTransactions).mockResolvedValue({
+      success: true,
+      message: 'ok',
+      synced_count: 3,
+      synced_at: '2026-10-19T00:00:00Z',
+    });
+    const onReconnected = vi.fn();
+
+    renderWithRouter(<ItemHealthList items={items} onReconnected={onReconnected} />);
+
+    const button = screen.getByRole('button', { name: 'Reconnect Credit Union' });
+    expect(button).toHaveAttribute('data-item-id', 'item-2');
+
+    const user = userEvent.setup();
+    await user.click(button);
+
+    await waitFor(() => expect(onReconnected).toHaveBeenCalled());
+    expect(api.markItemReconnected).toHaveBeenCalledWith('item-2');
+    expect(api.syncTransactions).toHaveBeenCalled();
+  });
+
+  it('shows an error when reconnecting fails', async () => {
+    vi.mocked(api.markItemReconnected).mockRejectedValue(new Error('Institution not found'));
+    const onReconnected = vi.fn();
+
+    renderWithRouter(<ItemHealthList items={items} onReconnected={onReconnected} />);
+
+    const user = userEvent.setup();
+    await user.click(screen.getByRole('button', { name: 'Reconnect Credit Union' }));
+
+    expect(await screen.findByText('Institution not found')).toBeInTheDocument();
+    expect(onReconnected).not.toHaveBeenCalled();
+  });
+});
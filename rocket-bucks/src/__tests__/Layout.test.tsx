@@ -31,6 +31,7 @@ describe('Layout component', () => {
     expect(screen.getByText('Dashboard')).toBeInTheDocument();
     expect(screen.getByText('Recurring')).toBeInTheDocument();
     expect(screen.getByText('Spending')).toBeInTheDocument();
+    expect(screen.getByText('Budget')).toBeInTheDocument();
     expect(screen.getByText('Net Worth')).toBeInTheDocument();
     expect(screen.getByText('Transactions')).toBeInTheDocument();
     expect(screen.getByText('AI Chatbot')).toBeInTheDocument();
@@ -116,5 +117,17 @@ describe('Layout component', () => {
     const main = container.querySelector('main');
     expect(main).toHaveClass('overflow-auto');
   });
-});
 
+  it('links to settings', () => {
+    renderWithRouter(
+      <Layout>
+        <div>Test Content</div>
+      </Layout>,
+      { route: '/settings' },
+    );
+
+    const settingsLink = screen.getByText('Settings').closest('a');
+    expect(settingsLink).toHaveAttribute('href', '/settings');
+    expect(settingsLink).toHaveClass('bg-red-50', 'text-red-600');
+  });
+});
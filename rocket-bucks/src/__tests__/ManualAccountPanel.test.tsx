@@ -0,0 +1,97 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import ManualAccountPanel from '../components/ManualAccountPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    createManualAccount: vi.fn(),
+    updateManualAccount: vi.fn(),
+    deleteManualAccount: vi.fn(),
+    getAccountValueHistory: vi.fn(),
+  },
+}));
+
+const house = { id: 'man-1', name: 'Our house', type: 'real_estate', balance_current: 300000, plaid_item_id: null };
+
+describe('ManualAccountPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getAccountValueHistory).mockResolvedValue({
+      history: [
+        { snapshot_date: '2026-09-01', balance_current: 300000, source: 'manual', note: 'Zillow estimate' },
+        { snapshot_date: '2026-01-15', balance_current: 285000, source: 'manual', note: null },
+      ],
+    });
+  });
+
+  it('creates a manual account', async () => {
+    vi.mocked(api.createManualAccount).mockResolvedValue({ account: house });
+    const onSaved = vi.fn();
+    const onClose = vi.fn();
+
+    renderWithRouter(<ManualAccountPanel initialType="vehicle" onClose={onClose} onSaved={onSaved} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Honda Civic' } });
+    fireEvent.change(screen.getByLabelText('Current value'), { target: { value: '18500' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add account' }));
+
+    await waitFor(() => {
+      expect(api.createManualAccount).toHaveBeenCalledWith({
+        name: 'Honda Civic',
+        type: 'vehicle',
+        balance: 18500,
+        as_of: null,
+        note: null,
+      });
+      expect(onSaved).toHaveBeenCalled();
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  it('requires a value', () => {
+    renderWithRouter(<ManualAccountPanel onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Bitcoin' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add account' }));
+
+    expect(screen.getByText('Enter a valid value')).toBeInTheDocument();
+    expect(api.createManualAccount).not.toHaveBeenCalled();
+  });
+
+  it('shows value history and logs a new value', async () => {
+    vi.mocked(api.updateManualAccount).mockResolvedValue({ account: house });
+
+    renderWithRouter(<ManualAccountPanel account={house} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('Entered · Zillow estimate')).toBeInTheDocument();
+    expect(screen.getByText('$285,000.00')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('New value'), { target: { value: '310000' } });
+    fireEvent.change(screen.getByLabelText('Note'), { target: { value: 'Appraisal' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save value' }));
+
+    await waitFor(() => {
+      expect(api.updateManualAccount).toHaveBeenCalledWith('man-1', expect.objectContaining({
+        balance: 310000,
+        note: 'Appraisal',
+      }));
+    });
+  });
+
+  it('deletes the account after confirmation', async () => {
+    vi.mocked(api.deleteManualAccount).mockResolvedValue({ success: true });
+    const confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const onSaved = vi.fn();
+
+    renderWithRouter(<ManualAccountPanel account={house} onClose={vi.fn()} onSaved={onSaved} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete account' }));
+
+    await waitFor(() => {
+      expect(api.deleteManualAccount).toHaveBeenCalledWith('man-1');
+      expect(onSaved).toHaveBeenCalled();
+    });
+    confirmSpy.mockRestore();
+  });
+});
@@ -0,0 +1,47 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import MergeRecurringPanel from '../components/MergeRecurringPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    mergeRecurring: vi.fn(),
+  },
+}));
+
+const netflix = { id: 'rec-1', name: 'Netflix', expected_amount: 15.49, transaction_type: 'expense' };
+const netflixCom = { id: 'rec-2', name: 'NETFLIX.COM', expected_amount: 15.49, transaction_type: 'expense' };
+const paycheck = { id: 'rec-3', name: 'Paycheck', expected_amount: 2000, transaction_type: 'income' };
+
+describe('MergeRecurringPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('merges into a stream of the same type', async () => {
+    vi.mocked(api.mergeRecurring).mockResolvedValue({ recurring: netflix, moved_count: 4 });
+    const onSaved = vi.fn();
+    const onClose = vi.fn();
+
+    renderWithRouter(
+      <MergeRecurringPanel recurring={netflixCom} candidates={[netflix, netflixCom, paycheck]} onClose={onClose} onSaved={onSaved} />
+    );
+
+    expect(screen.queryByRole('option', { name: /Paycheck/ })).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Merge into'), { target: { value: 'rec-1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+
+    await waitFor(() => {
+      expect(api.mergeRecurring).toHaveBeenCalledWith('rec-1', 'rec-2');
+      expect(onSaved).toHaveBeenCalled();
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  it('explains when there is nothing to merge with', () => {
+    renderWithRouter(<MergeRecurringPanel recurring={paycheck} candidates={[netflix, paycheck]} onClose={vi.fn()} />);
+
+    expect(screen.getByText('There are no other recurring deposits to merge with.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Merge' })).toBeDisabled();
+  });
+});
@@ -6,6 +6,8 @@ import { renderWithRouter } from '../test/utils';
 vi.mock('../utils/api', () => ({
   api: {
     getAccounts: vi.fn(),
+    getNetWorthHistory: vi.fn(),
+    getAccountValueHistory: vi.fn(),
   },
 }));
 
@@ -36,6 +38,7 @@ const mockAccounts = [
     type: 'depository',
     subtype: 'checking',
     balance_current: 5000,
+    plaid_item_id: 'item-1',
   },
   {
     id: 'acc-2',
@@ -43,6 +46,7 @@ const mockAccounts = [
     type: 'depository',
     subtype: 'savings',
     balance_current: 10000,
+    plaid_item_id: 'item-1',
   },
   {
     id: 'acc-3',
@@ -50,6 +54,7 @@ const mockAccounts = [
     type: 'investment',
     subtype: 'brokerage',
     balance_current: 25000,
+    plaid_item_id: 'item-1',
   },
   {
     id: 'acc-4',
@@ -57,6 +62,7 @@ const mockAccounts = [
     type: 'credit',
     subtype: 'credit card',
     balance_current: 2500,
+    plaid_item_id: 'item-1',
   },
   {
     id: 'acc-5',
@@ -64,12 +70,14 @@ const mockAccounts = [
     type: 'loan',
     subtype: 'auto',
     balance_current: 15000,
+    plaid_item_id: 'item-1',
   },
 ];
 
 describe('NetWorth page', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(api.getNetWorthHistory).mockResolvedValue({ period: '6M', points: [] });
   });
 
   it('shows loading state initially', () => {
@@ -197,6 +205,37 @@ describe('NetWorth page', () => {
     expect(screen.getByRole('button', { name: '1M' })).toHaveClass('bg-gray-900');
   });
 
+  it('requests net worth history for the selected period', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: mockAccounts });
+
+    renderWithRouter(<NetWorth />, { route: '/net-worth' });
+
+    await waitFor(() => {
+      expect(api.getNetWorthHistory).toHaveBeenCalledWith('6M');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: '1Y' }));
+
+    await waitFor(() => {
+      expect(api.getNetWorthHistory).toHaveBeenCalledWith('1Y');
+    });
+  });
+
+  it('shows the change over the period from balance history', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: mockAccounts });
+    vi.mocked(api.getNetWorthHistory).mockResolvedValue({
+      period: '6M',
+      points: [
+        { date: '2024-01-07', assets: 38000, debts: 18000, net_worth: 20000 },
+        { date: '2024-03-31', assets: 40000, debts: 17500, net_worth: 22500 },
+      ],
+    });
+
+    renderWithRouter(<NetWorth />, { route: '/net-worth' });
+
+    expect(await screen.findByText(/Up \$2,500 over the last 6 months/)).toBeInTheDocument();
+  });
+
   it('displays no debts message when no debt accounts exist', async () => {
     const assetsOnly = mockAccounts.filter(a => a.type !== 'credit' && a.type !== 'loan');
     vi.mocked(api.getAccounts).mockResolvedValue({ accounts: assetsOnly });
@@ -218,4 +257,34 @@ describe('NetWorth page', () => {
       expect(addButton.closest('a')).toHaveAttribute('href', '/connect-accounts');
     });
   });
+
+  it('includes manual assets and debts in totals and breakdowns', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({
+      accounts: [
+        { id: 'acc-1', name: 'Checking', type: 'depository', subtype: 'checking', balance_current: 5000, plaid_item_id: 'item-1' },
+        { id: 'man-1', name: 'Our house', type: 'real_estate', subtype: null, balance_current: 300000, plaid_item_id: null },
+        { id: 'man-2', name: 'Loan from Sam', type: 'other_debt', subtype: null, balance_current: 2000, plaid_item_id: null },
+      ],
+    });
+
+    renderWithRouter(<NetWorth />, { route: '/net-worth' });
+
+    expect(await screen.findByText('Assets with Loans')).toBeInTheDocument();
+    expect(screen.getAllByText('$305,000.00').length).toBeGreaterThan(0);
+    expect(screen.getAllByText('$303,000.00').length).toBeGreaterThan(0);
+    expect(screen.getByText('Other Debts')).toBeInTheDocument();
+    expect(screen.getByText('Tracked manually')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Update Our house' })).toBeInTheDocument();
+  });
+
+  it('opens the manual account form from the financial picture panel', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: mockAccounts });
+
+    renderWithRouter(<NetWorth />, { route: '/net-worth' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Add car or vehicle' }));
+
+    expect(screen.getByRole('heading', { name: 'Add a manual account' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Type')).toHaveValue('vehicle');
+  });
 });
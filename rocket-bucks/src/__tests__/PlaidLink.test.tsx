@@ -84,6 +84,15 @@ describe('PlaidLink component', () => {
     expect(screen.getByRole('button')).toBeDisabled();
   });
 
+  it('requests an update mode link token when reconnecting an institution', async () => {
+    vi.mocked(api.createLinkToken).mockResolvedValue({ link_token: 'update-link' });
+
+    renderWithRouter(<PlaidLink onSuccess={vi.fn()} itemId="item-1" />);
+
+    await waitFor(() => expect(api.createLinkToken).toHaveBeenCalledWith('item-1'));
+    await waitFor(() => expect(capturedConfig.token).toBe('update-link'));
+  });
+
   it('calls onSuccess callback when Plaid succeeds', async () => {
     vi.mocked(api.createLinkToken).mockResolvedValue({ link_token: 'test-link' });
     const onSuccess = vi.fn();
@@ -7,6 +7,23 @@ vi.mock('../utils/api', () => ({
   api: {
     getRecurring: vi.fn(),
     syncRecurringTransactions: vi.fn(),
+    requestCancellation: vi.fn(),
+    updateCancellationStatus: vi.fn(),
+    withdrawCancellation: vi.fn(),
+    getCancellationDraft: vi.fn(),
+    getRecurringAmountChanges: vi.fn(),
+    detectRecurringAmountChanges: vi.fn(),
+    updateAmountChange: vi.fn(),
+    setAmountAlertThreshold: vi.fn(),
+    detectRecurringStreams: vi.fn(),
+    getAccounts: vi.fn(),
+    getCategories: vi.fn(),
+    createRecurring: vi.fn(),
+    updateRecurring: vi.fn(),
+    deleteRecurring: vi.fn(),
+    mergeRecurring: vi.fn(),
+    markNotRecurring: vi.fn(),
+    restoreRecurring: vi.fn(),
   },
 }));
 
@@ -554,4 +571,218 @@ describe('Recurring page', () => {
     // Click previous month
     fireEvent.click(prevButton);
   });
+
+  it('opens the cancellation workflow from a row menu', async () => {
+    vi.mocked(api.requestCancellation).mockResolvedValue({ recurring: { id: 'rec-1' } });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Cancel subscription'));
+
+    expect(screen.getByRole('heading', { name: 'Cancel Spotify Premium' })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('How to cancel'), { target: { value: 'email' } });
+    fireEvent.change(screen.getByLabelText('Email address'), { target: { value: 'support@spotify.com' } });
+    fireEvent.click(screen.getByText('Request cancellation'));
+
+    await waitFor(() => {
+      expect(api.requestCancellation).toHaveBeenCalledWith('rec-1', expect.objectContaining({
+        method: 'email',
+        contact: 'support@spotify.com',
+      }));
+      expect(api.getRecurring).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('flags subscriptions charged after they were cancelled', async () => {
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [
+        { ...recurringSample[0], cancellation_status: 'charged_after_cancel', cancel_date: '2024-03-01' },
+        { ...recurringSample[1], cancellation_status: 'cancel_requested', cancellation_deadline: '2024-03-20' },
+      ],
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    expect(await screen.findByText('⚠️ Charged after cancelling')).toBeInTheDocument();
+    expect(screen.getByText('Cancel requested · by Mar 20')).toBeInTheDocument();
+  });
+
+  it('shows price increase alerts and dismisses them', async () => {
+    vi.mocked(api.updateAmountChange).mockResolvedValue({ change: { id: 'chg-1', status: 'dismissed' } });
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [
+        {
+          ...recurringSample[0],
+          recurring_amount_changes: [
+            {
+              id: 'chg-1',
+              transaction_date: '2024-03-01',
+              previous_amount: 10.99,
+              new_amount: 12.99,
+              change_percent: 18.2,
+              kind: 'price_increase',
+              status: 'new',
+            },
+          ],
+        },
+      ],
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    expect(await screen.findByText('↑ $10.99 → $12.99 (+18.2%)')).toBeInTheDocument();
+    expect(screen.getByText('1 recurring charge came in higher than usual')).toBeInTheDocument();
+    expect(screen.getByText(/Price increase: Spotify Premium/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Dismiss'));
+
+    await waitFor(() => {
+      expect(api.updateAmountChange).toHaveBeenCalledWith('chg-1', 'dismissed');
+      expect(api.getRecurring).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('opens price history from a row menu', async () => {
+    vi.mocked(api.getRecurringAmountChanges).mockResolvedValue({ changes: [] });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Price history'));
+
+    expect(screen.getByRole('heading', { name: 'Spotify Premium price history' })).toBeInTheDocument();
+    expect(await screen.findByText('No charges above the usual amount')).toBeInTheDocument();
+    expect(api.getRecurringAmountChanges).toHaveBeenCalledWith({ recurring_id: 'rec-1' });
+  });
+
+  it('finds recurring charges from transaction history', async () => {
+    vi.mocked(api.detectRecurringStreams).mockResolvedValue({
+      success: true,
+      created_count: 2,
+      updated_count: 0,
+      linked_count: 8,
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByText('Find recurring charges'));
+
+    expect(await screen.findByText('✅ Found 2 new recurring charges')).toBeInTheDocument();
+    expect(api.getRecurring).toHaveBeenCalledTimes(2);
+  });
+
+  it('labels streams found by the in-house detector', async () => {
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [{ ...recurringSample[0], source: 'detected', confidence: 0.87 }],
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    expect(await screen.findByText('Detected · 87%')).toBeInTheDocument();
+  });
+
+  it('flags streams with missed payments', async () => {
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [
+        { ...recurringSample[0], consecutive_missed: 1, missed_count: 3 },
+        { ...recurringSample[1], consecutive_missed: 2, missed_count: 2 },
+      ],
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    expect(await screen.findByText('Missed last payment')).toBeInTheDocument();
+    expect(screen.getByText('Missed 2 payments')).toBeInTheDocument();
+  });
+
+  it('opens the add form from the header', async () => {
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: [] });
+    vi.mocked(api.getCategories).mockResolvedValue({ categories: [] });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Add recurring' }));
+
+    expect(screen.getByRole('heading', { name: 'Add recurring transaction' })).toBeInTheDocument();
+  });
+
+  it('pauses a stream from the row menu', async () => {
+    vi.mocked(api.updateRecurring).mockResolvedValue({ recurring: { id: 'rec-1', is_paused: true } });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Pause'));
+
+    await waitFor(() => {
+      expect(api.updateRecurring).toHaveBeenCalledWith('rec-1', { is_paused: true });
+      expect(api.getRecurring).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('shows paused streams with a badge and offers to resume them', async () => {
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [{ ...recurringSample[0], is_paused: true }],
+    });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    // Paused streams drop out of Upcoming but stay listed under View All
+    expect(await screen.findByText('No upcoming charges')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /View All/i }));
+
+    expect(screen.getByText('Paused')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Actions for Spotify Premium' }));
+    expect(screen.getByText('Resume')).toBeInTheDocument();
+  });
+
+  it('marks a stream as not recurring and can undo it', async () => {
+    vi.mocked(api.markNotRecurring).mockResolvedValue({ recurring: { id: 'rec-1', not_recurring: true } });
+    vi.mocked(api.restoreRecurring).mockResolvedValue({ recurring: { id: 'rec-1', not_recurring: false } });
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Not recurring'));
+
+    expect(await screen.findByText("Spotify Premium marked as not recurring. Sync won't add it back.")).toBeInTheDocument();
+    expect(api.markNotRecurring).toHaveBeenCalledWith('rec-1');
+
+    fireEvent.click(screen.getByText('Undo'));
+
+    await waitFor(() => {
+      expect(api.restoreRecurring).toHaveBeenCalledWith('rec-1');
+    });
+  });
+
+  it('opens the merge panel from a row menu', async () => {
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Merge with...'));
+
+    expect(screen.getByRole('heading', { name: 'Merge Spotify Premium' })).toBeInTheDocument();
+  });
+
+  it('only offers delete for manually added streams', async () => {
+    vi.mocked(api.getRecurring).mockResolvedValue({
+      recurring: [{ ...recurringSample[0], source: 'manual' }, recurringSample[1]],
+    });
+    vi.mocked(api.deleteRecurring).mockResolvedValue({ success: true });
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    renderWithRouter(<Recurring />, { route: '/recurring' });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Actions for Mortgage Payment' }));
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Actions for Spotify Premium' }));
+    fireEvent.click(screen.getByText('Delete'));
+
+    await waitFor(() => {
+      expect(api.deleteRecurring).toHaveBeenCalledWith('rec-1');
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import RecurringFormPanel from '../components/RecurringFormPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getAccounts: vi.fn(),
+    getCategories: vi.fn(),
+    createRecurring: vi.fn(),
+    updateRecurring: vi.fn(),
+  },
+}));
+
+const gym = {
+  id: 'rec-1',
+  name: 'Gym',
+  expected_amount: 40,
+  transaction_type: 'expense',
+  frequency: 'monthly',
+  day_of_month: 3,
+  next_due_date: '2024-04-03',
+  account_id: 'acc-1',
+  category_id: null,
+  is_subscription: true,
+};
+
+describe('RecurringFormPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getAccounts).mockResolvedValue({ accounts: [{ id: 'acc-1', name: 'Checking', mask: '1234' }] });
+    vi.mocked(api.getCategories).mockResolvedValue({ categories: [{ id: 'cat-1', name: 'Fitness' }] });
+  });
+
+  it('creates a recurring transaction', async () => {
+    vi.mocked(api.createRecurring).mockResolvedValue({ recurring: { id: 'rec-2' } });
+    const onSaved = vi.fn();
+    const onClose = vi.fn();
+
+    renderWithRouter(<RecurringFormPanel onClose={onClose} onSaved={onSaved} />);
+
+    await screen.findByRole('option', { name: 'Fitness' });
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Rent' } });
+    fireEvent.change(screen.getByLabelText('Expected amount'), { target: { value: '1500' } });
+    fireEvent.change(screen.getByLabelText('Day of month'), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('Category'), { target: { value: 'cat-1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add recurring' }));
+
+    await waitFor(() => {
+      expect(api.createRecurring).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Rent',
+        expected_amount: 1500,
+        frequency: 'monthly',
+        day_of_month: 1,
+        day_of_week: null,
+        category_id: 'cat-1',
+      }));
+      expect(onSaved).toHaveBeenCalled();
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+
+  it('edits an existing stream and switches to a weekly schedule', async () => {
+    vi.mocked(api.updateRecurring).mockResolvedValue({ recurring: gym });
+
+    renderWithRouter(<RecurringFormPanel recurring={gym} onClose={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { name: 'Edit Gym' })).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Frequency'), { target: { value: 'weekly' } });
+    expect(screen.queryByLabelText('Day of month')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Day of week'), { target: { value: '1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    await waitFor(() => {
+      expect(api.updateRecurring).toHaveBeenCalledWith('rec-1', expect.objectContaining({
+        frequency: 'weekly',
+        day_of_month: null,
+        day_of_week: 1,
+      }));
+    });
+  });
+
+  it('requires a name', async () => {
+    renderWithRouter(<RecurringFormPanel onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add recurring' }));
+
+    expect(await screen.findByText('Name is required')).toBeInTheDocument();
+    expect(api.createRecurring).not.toHaveBeenCalled();
+  });
+
+  it('shows an error when saving fails', async () => {
+    vi.mocked(api.updateRecurring).mockRejectedValue(new Error('Invalid day_of_month'));
+
+    renderWithRouter(<RecurringFormPanel recurring={gym} onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+
+    expect(await screen.findByText('Invalid day_of_month')).toBeInTheDocument();
+  });
+});
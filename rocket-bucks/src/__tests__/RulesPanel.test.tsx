@@ -0,0 +1,156 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import RulesPanel from '../components/RulesPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getCategorizationRules: vi.fn(),
+    createCategorizationRule: vi.fn(),
+    updateCategorizationRule: vi.fn(),
+    deleteCategorizationRule: vi.fn(),
+    applyCategorizationRules: vi.fn(),
+  },
+}));
+
+const categories = [
+  { id: 'cat-coffee', name: 'Coffee', icon: '☕' },
+  { id: 'cat-groceries', name: 'Groceries', icon: '🛒' },
+];
+
+const accounts = [
+  { id: 'acc-1', name: 'Checking', mask: '1234' },
+];
+
+const rulesSample = [
+  {
+    id: 'rule-1',
+    name: 'Coffee shops',
+    priority: 0,
+    is_active: true,
+    name_pattern: 'starbucks|blue bottle',
+    merchant_pattern: null,
+    min_amount: null,
+    max_amount: 20,
+    account_id: null,
+    payment_channel: null,
+    category_id: 'cat-coffee',
+    user_category_name: 'Coffee',
+    tags: ['caffeine'],
+    notes: null,
+    excluded_from_budget: null,
+    is_transfer: null,
+  },
+];
+
+describe('RulesPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getCategorizationRules).mockResolvedValue({ rules: rulesSample });
+  });
+
+  const renderPanel = (onApplied = vi.fn()) =>
+    renderWithRouter(
+      <RulesPanel categories={categories} accounts={accounts} onClose={vi.fn()} onApplied={onApplied} />,
+    );
+
+  it('lists rules with their conditions and actions', async () => {
+    renderPanel();
+
+    expect(await screen.findByText('Coffee shops')).toBeInTheDocument();
+    expect(screen.getByText(/name matches \/starbucks\|blue bottle\/, amount ≤ \$20\.00/)).toBeInTheDocument();
+    expect(screen.getByText(/→ Coffee · tags: caffeine/)).toBeInTheDocument();
+  });
+
+  it('creates a rule referencing the selected category', async () => {
+    vi.mocked(api.createCategorizationRule).mockResolvedValue({ rule: { id: 'rule-2' } });
+
+    renderPanel();
+
+    await screen.findByText('Coffee shops');
+    fireEvent.click(screen.getByText('+ Add Rule'));
+    fireEvent.change(screen.getByPlaceholderText('e.g. Coffee shops'), { target: { value: 'Groceries' } });
+    fireEvent.change(screen.getByPlaceholderText('starbucks|blue bottle'), { target: { value: 'whole foods' } });
+    fireEvent.change(screen.getByLabelText(/Set category/), { target: { value: 'Groceries' } });
+    fireEvent.click(screen.getByLabelText('Exclude from budget'));
+    fireEvent.click(screen.getByText('Save Rule'));
+
+    await waitFor(() => {
+      expect(api.createCategorizationRule).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Groceries',
+          name_pattern: 'whole foods',
+          category_id: 'cat-groceries',
+          user_category_name: 'Groceries',
+          excluded_from_budget: true,
+          is_transfer: null,
+        }),
+      );
+    });
+  });
+
+  it('pauses an active rule', async () => {
+    vi.mocked(api.updateCategorizationRule).mockResolvedValue({ rule: {} });
+
+    renderPanel();
+
+    fireEvent.click(await screen.findByText('Pause'));
+
+    await waitFor(() => {
+      expect(api.updateCategorizationRule).toHaveBeenCalledWith('rule-1', { is_active: false });
+    });
+  });
+
+  it('deletes a rule after confirmation', async () => {
+    vi.mocked(api.deleteCategorizationRule).mockResolvedValue({ success: true });
+
+    renderPanel();
+
+    await screen.findByText('Coffee shops');
+    fireEvent.click(screen.getByTitle('Delete rule'));
+
+    await waitFor(() => {
+      expect(api.deleteCategorizationRule).toHaveBeenCalledWith('rule-1');
+    });
+  });
+
+  it('previews changes before applying them to past transactions', async () => {
+    const onApplied = vi.fn();
+    vi.mocked(api.applyCategorizationRules)
+      .mockResolvedValueOnce({
+        success: true,
+        dry_run: true,
+        matched_count: 1,
+        changed_count: 1,
+        changes: [
+          {
+            id: 'tx-1',
+            name: 'STARBUCKS #123',
+            date: '2024-03-02',
+            amount: 5.75,
+            rule_ids: ['rule-1'],
+            before: { user_category_name: null, tags: [] },
+            after: { user_category_name: 'Coffee', tags: ['caffeine'] },
+          },
+        ],
+      })
+      .mockResolvedValueOnce({ success: true, dry_run: false, matched_count: 1, changed_count: 1, changes: [] });
+
+    renderPanel(onApplied);
+
+    fireEvent.click(await screen.findByText('Preview changes'));
+
+    expect(await screen.findByText('1 transaction would change')).toBeInTheDocument();
+    expect(screen.getByText('STARBUCKS #123')).toBeInTheDocument();
+    expect(screen.getByText(/Uncategorized → Coffee/)).toBeInTheDocument();
+    expect(api.applyCategorizationRules).toHaveBeenCalledWith({ dry_run: true });
+
+    fireEvent.click(screen.getByText('Apply to 1 transaction'));
+
+    await waitFor(() => {
+      expect(api.applyCategorizationRules).toHaveBeenLastCalledWith({ dry_run: false });
+      expect(onApplied).toHaveBeenCalled();
+    });
+    expect(await screen.findByText('Updated 1 transaction')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,29 @@
+import { screen } from '@testing-library/react';
+import Settings from '../pages/Settings';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    exportAllData: vi.fn(),
+    getAIPrivacy: vi.fn().mockResolvedValue({ privacy_level: 'full' }),
+    getAIContextAudit: vi.fn().mockResolvedValue({ entries: [] }),
+  },
+}));
+
+vi.mock('../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { id: 'user-1', email: 'test@example.com', full_name: 'Test User' },
+  }),
+}));
+
+describe('Settings page', () => {
+  it('shows the profile, AI privacy, data export and account deletion', async () => {
+    renderWithRouter(<Settings />, { route: '/settings' });
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Settings' })).toBeInTheDocument();
+    expect(screen.getByText('test@example.com')).toBeInTheDocument();
+    expect(await screen.findByRole('radio', { name: /Full detail/ })).toBeChecked();
+    expect(screen.getByRole('button', { name: 'Download my data' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Delete my account' })).toHaveAttribute('href', '/deleteaccount');
+  });
+});
@@ -5,7 +5,7 @@ import { renderWithRouter } from '../test/utils';
 
 vi.mock('../utils/api', () => ({
   api: {
-    searchTransactions: vi.fn(),
+    getInsights: vi.fn(),
   },
 }));
 
@@ -31,53 +31,68 @@ vi.mock('recharts', async () => {
   };
 });
 
-const createTransaction = (overrides: any = {}) => ({
-  id: `tx-${Math.random()}`,
-  date: new Date().toISOString(),
-  name: 'Test Transaction',
-  merchant_name: 'Test Merchant',
-  amount: 100,
-  transaction_type: 'expense',
-  user_category_name: 'Shopping',
+const createInsights = (overrides: any = {}) => ({
+  start_date: '2024-03-01',
+  end_date: '2024-03-15',
+  spending: 285.49,
+  income: 0,
+  bills: 0,
+  net_cash_flow: -285.49,
+  expense_count: 3,
+  income_count: 0,
+  categories: [
+    { name: 'Food & Drink', amount: 150.5, count: 1, percent: 53 },
+    { name: 'Shopping', amount: 89.99, count: 1, percent: 32 },
+    { name: 'Transportation', amount: 45, count: 1, percent: 16 },
+  ],
+  top_merchants: [
+    { name: 'Whole Foods', amount: 150.5, count: 1, average: 150.5 },
+    { name: 'Amazon', amount: 89.99, count: 1, average: 89.99 },
+    { name: 'Shell', amount: 45, count: 1, average: 45 },
+  ],
+  largest_purchases: [
+    { id: 'tx-1', name: 'Whole Foods', date: '2024-03-05', amount: 150.5, category: 'Food & Drink' },
+    { id: 'tx-3', name: 'Amazon', date: '2024-03-08', amount: 89.99, category: 'Shopping' },
+    { id: 'tx-2', name: 'Shell', date: '2024-03-10', amount: 45, category: 'Transportation' },
+  ],
+  series: {
+    group_by: 'month',
+    points: [
+      { date: '2024-02', amount: 410.25 },
+      { date: '2024-03', amount: 285.49 },
+    ],
+  },
+  previous: {
+    start_date: '2024-02-15',
+    end_date: '2024-02-29',
+    spending: 200,
+    income: 0,
+    bills: 0,
+    net_cash_flow: -200,
+    expense_count: 2,
+    income_count: 0,
+  },
   ...overrides,
 });
 
-const mockTransactions = [
-  createTransaction({
-    id: 'tx-1',
-    name: 'Grocery Store',
-    merchant_name: 'Whole Foods',
-    amount: 150.50,
-    user_category_name: 'Food & Drink',
-  }),
-  createTransaction({
-    id: 'tx-2',
-    name: 'Gas Station',
-    merchant_name: 'Shell',
-    amount: 45.00,
-    user_category_name: 'Transportation',
-  }),
-  createTransaction({
-    id: 'tx-3',
-    name: 'Amazon',
-    merchant_name: 'Amazon',
-    amount: 89.99,
-    user_category_name: 'Shopping',
-  }),
-];
+const emptyInsights = createInsights({
+  spending: 0,
+  net_cash_flow: 0,
+  expense_count: 0,
+  categories: [],
+  top_merchants: [],
+  largest_purchases: [],
+  series: { group_by: 'day', points: [] },
+});
 
 describe('Spending page', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Mock all calls to searchTransactions to return the same data
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: mockTransactions,
-      count: mockTransactions.length,
-    });
+    vi.mocked(api.getInsights).mockResolvedValue(createInsights());
   });
 
   it('shows loading state initially', () => {
-    vi.mocked(api.searchTransactions).mockImplementation(() => new Promise(() => {}));
+    vi.mocked(api.getInsights).mockImplementation(() => new Promise(() => {}));
 
     renderWithRouter(<Spending />, { route: '/spending' });
 
@@ -180,10 +195,7 @@ describe('Spending page', () => {
   });
 
   it('shows empty state when no spending data', async () => {
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: [],
-      count: 0,
-    });
+    vi.mocked(api.getInsights).mockResolvedValue(emptyInsights);
 
     renderWithRouter(<Spending />, { route: '/spending' });
 
@@ -194,7 +206,7 @@ describe('Spending page', () => {
 
   it('handles API errors gracefully', async () => {
     const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
-    vi.mocked(api.searchTransactions).mockRejectedValue(new Error('API Error'));
+    vi.mocked(api.getInsights).mockRejectedValue(new Error('API Error'));
 
     renderWithRouter(<Spending />, { route: '/spending' });
 
@@ -264,7 +276,7 @@ describe('Spending page', () => {
     fireEvent.click(screen.getByRole('button', { name: /Weekly/i }));
 
     await waitFor(() => {
-      expect(api.searchTransactions).toHaveBeenCalled();
+      expect(api.getInsights).toHaveBeenCalled();
     });
   });
 
@@ -287,7 +299,7 @@ describe('Spending page', () => {
     fireEvent.click(screen.getByRole('button', { name: /Quarterly/i }));
 
     await waitFor(() => {
-      expect(api.searchTransactions).toHaveBeenCalled();
+      expect(api.getInsights).toHaveBeenCalled();
     });
   });
 
@@ -310,7 +322,7 @@ describe('Spending page', () => {
     fireEvent.click(screen.getByRole('button', { name: /Yearly/i }));
 
     await waitFor(() => {
-      expect(api.searchTransactions).toHaveBeenCalled();
+      expect(api.getInsights).toHaveBeenCalled();
     });
   });
 
@@ -339,126 +351,62 @@ describe('Spending page', () => {
     }
 
     await waitFor(() => {
-      expect(api.searchTransactions).toHaveBeenCalled();
+      expect(api.getInsights).toHaveBeenCalled();
     });
   });
 
-  it('shows income transactions in summary', async () => {
-    const transactionsWithIncome = [
-      ...mockTransactions,
-      createTransaction({
-        id: 'tx-income',
-        name: 'Paycheck',
-        amount: 5000,
-        transaction_type: 'income',
-        user_category_name: 'Income',
-      }),
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithIncome,
-      count: transactionsWithIncome.length,
-    });
-
+  it('requests the selected period compared with the one before it', async () => {
     renderWithRouter(<Spending />, { route: '/spending' });
 
     await waitFor(() => {
-      expect(screen.getAllByText(/Income/i).length).toBeGreaterThan(0);
+      expect(api.getInsights).toHaveBeenCalledWith(expect.objectContaining({ compare: true, group_by: 'day' }));
+      // This Month also charts the last 6 months
+      expect(api.getInsights).toHaveBeenCalledWith(expect.objectContaining({ group_by: 'month' }));
     });
   });
 
-  it('shows bills transactions in summary', async () => {
-    const transactionsWithBills = [
-      ...mockTransactions,
-      createTransaction({
-        id: 'tx-bill',
-        name: 'Electric Bill',
-        amount: 150,
-        transaction_type: 'expense',
-        user_category_name: 'Bills',
-      }),
-      createTransaction({
-        id: 'tx-recurring',
-        name: 'Netflix',
-        amount: 15.99,
-        transaction_type: 'expense',
-        user_category_name: 'Recurring',
-      }),
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithBills,
-      count: transactionsWithBills.length,
-    });
-
+  it('groups the yearly chart by month', async () => {
     renderWithRouter(<Spending />, { route: '/spending' });
 
+    await screen.findByRole('heading', { level: 1, name: /Spending/i });
+    fireEvent.click(screen.getByRole('button', { name: /Custom/i }));
+    fireEvent.click(await screen.findByRole('button', { name: /Yearly/i }));
+
     await waitFor(() => {
-      expect(screen.getAllByText(/Bills/i).length).toBeGreaterThan(0);
+      expect(api.getInsights).toHaveBeenLastCalledWith(expect.objectContaining({ compare: true, group_by: 'month' }));
     });
   });
 
-  it('shows category breakdown with percentages', async () => {
-    renderWithRouter(<Spending />, { route: '/spending' });
+  it('shows income and bills totals from insights', async () => {
+    vi.mocked(api.getInsights).mockResolvedValue(createInsights({
+      income: 5000,
+      income_count: 2,
+      bills: 165.99,
+    }));
 
-    await waitFor(() => {
-      expect(screen.getByText(/Spending Breakdown/i)).toBeInTheDocument();
-    });
+    renderWithRouter(<Spending />, { route: '/spending' });
 
-    // Categories should show percentages
-    await waitFor(() => {
-      expect(screen.getByText(/Food & Drink/i)).toBeInTheDocument();
-    });
+    expect(await screen.findByText(/5,000/)).toBeInTheDocument();
+    expect(screen.getAllByText(/165\.99/).length).toBeGreaterThan(0);
   });
 
-  it('handles transfer transactions correctly', async () => {
-    const transactionsWithTransfer = [
-      ...mockTransactions,
-      createTransaction({
-        id: 'tx-transfer',
-        name: 'Transfer to Savings',
-        amount: 1000,
-        transaction_type: 'expense',
-        user_category_name: 'Transfer',
-      }),
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithTransfer,
-      count: transactionsWithTransfer.length,
-    });
-
+  it('shows category breakdown with percentages', async () => {
     renderWithRouter(<Spending />, { route: '/spending' });
 
-    // Transfers should be excluded from spending calculations
-    await waitFor(() => {
-      expect(screen.getByRole('heading', { level: 1, name: /Spending/i })).toBeInTheDocument();
-    });
+    expect((await screen.findAllByText('Food & Drink')).length).toBeGreaterThan(0);
+    expect(screen.getAllByText('53% of spend').length).toBeGreaterThan(0);
   });
 
   it('shows largest purchases with correct data', async () => {
-    const transactionsWithLargePurchase = [
-      createTransaction({
-        id: 'tx-large',
-        name: 'Laptop',
-        merchant_name: 'Best Buy',
-        amount: 1500,
-        transaction_type: 'expense',
-        user_category_name: 'Shopping',
-      }),
-      ...mockTransactions,
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithLargePurchase,
-      count: transactionsWithLargePurchase.length,
-    });
+    vi.mocked(api.getInsights).mockResolvedValue(createInsights({
+      largest_purchases: [
+        { id: 'tx-large', name: 'Best Buy', date: '2024-03-12', amount: 1500, category: 'Split' },
+      ],
+    }));
 
     renderWithRouter(<Spending />, { route: '/spending' });
 
-    await waitFor(() => {
-      expect(screen.getByText(/Largest Purchases/i)).toBeInTheDocument();
-    });
+    expect(await screen.findByText('Best Buy')).toBeInTheDocument();
   });
 
   it('displays frequent merchants with totals', async () => {
@@ -467,52 +415,7 @@ describe('Spending page', () => {
     await waitFor(() => {
       expect(screen.getByText(/Frequent Spend/i)).toBeInTheDocument();
     });
-  });
-
-  it('handles transactions with plaid_primary_category', async () => {
-    const transactionsWithPlaidCategory = [
-      createTransaction({
-        id: 'tx-plaid',
-        name: 'Store Name',
-        amount: 50,
-        plaid_primary_category: 'Shopping',
-        user_category_name: 'Shopping',
-      }),
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithPlaidCategory,
-      count: transactionsWithPlaidCategory.length,
-    });
-
-    renderWithRouter(<Spending />, { route: '/spending' });
-
-    await waitFor(() => {
-      expect(screen.getByRole('heading', { level: 1, name: /Spending/i })).toBeInTheDocument();
-    });
-  });
-
-  it('handles transactions with transaction_categories', async () => {
-    const transactionsWithTxCategory = [
-      createTransaction({
-        id: 'tx-cat',
-        name: 'Store Name',
-        amount: 50,
-        transaction_categories: { name: 'Entertainment' },
-        user_category_name: 'Entertainment',
-      }),
-    ];
-
-    vi.mocked(api.searchTransactions).mockResolvedValue({
-      transactions: transactionsWithTxCategory,
-      count: transactionsWithTxCategory.length,
-    });
-
-    renderWithRouter(<Spending />, { route: '/spending' });
-
-    await waitFor(() => {
-      expect(screen.getByRole('heading', { level: 1, name: /Spending/i })).toBeInTheDocument();
-    });
+    expect(screen.getAllByText('Whole Foods').length).toBeGreaterThan(0);
   });
 
   it('displays category colors in breakdown', async () => {
@@ -0,0 +1,85 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import SplitTransactionPanel from '../components/SplitTransactionPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    saveTransactionSplits: vi.fn(),
+    deleteTransactionSplits: vi.fn(),
+  },
+}));
+
+const categories = [
+  { id: 'cat-groceries', name: 'Groceries', icon: '🛒' },
+  { id: 'cat-household', name: 'Household', icon: '🏠' },
+];
+
+const transaction = {
+  id: 'tx-1',
+  name: 'COSTCO WHOLESALE',
+  amount: 100,
+  user_category_name: 'Groceries',
+};
+
+describe('SplitTransactionPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the amount left to allocate and only saves once it balances', async () => {
+    const onSaved = vi.fn();
+    vi.mocked(api.saveTransactionSplits).mockResolvedValue({ splits: [] });
+
+    renderWithRouter(
+      <SplitTransactionPanel transaction={transaction} categories={categories} onClose={vi.fn()} onSaved={onSaved} />,
+    );
+
+    fireEvent.change(screen.getByLabelText('Split 1 amount'), { target: { value: '60' } });
+    fireEvent.change(screen.getByLabelText('Split 2 amount'), { target: { value: '30' } });
+    fireEvent.change(screen.getByLabelText('Split 2 category'), { target: { value: 'Household' } });
+
+    expect(screen.getByText('$10.00 left to allocate')).toBeInTheDocument();
+    expect(screen.getByText('Save Splits')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Split 2 amount'), { target: { value: '40' } });
+    fireEvent.change(screen.getByLabelText('Split 2 notes'), { target: { value: 'Paper towels' } });
+
+    expect(screen.getByText('Fully allocated')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Save Splits'));
+
+    await waitFor(() => {
+      expect(api.saveTransactionSplits).toHaveBeenCalledWith('tx-1', [
+        { amount: 60, category_id: 'cat-groceries', user_category_name: 'Groceries', notes: null },
+        { amount: 40, category_id: 'cat-household', user_category_name: 'Household', notes: 'Paper towels' },
+      ]);
+      expect(onSaved).toHaveBeenCalled();
+    });
+  });
+
+  it('removes existing splits after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    vi.mocked(api.deleteTransactionSplits).mockResolvedValue({ success: true });
+
+    renderWithRouter(
+      <SplitTransactionPanel
+        transaction={{
+          ...transaction,
+          transaction_splits: [
+            { id: 'split-1', amount: 60, user_category_name: 'Groceries' },
+            { id: 'split-2', amount: 40, user_category_name: 'Household' },
+          ],
+        }}
+        categories={categories}
+        onClose={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByLabelText('Split 2 amount')).toHaveValue(40);
+    fireEvent.click(screen.getByText('Remove splits'));
+
+    await waitFor(() => {
+      expect(api.deleteTransactionSplits).toHaveBeenCalledWith('tx-1');
+    });
+  });
+});
@@ -6,11 +6,16 @@ import { renderWithRouter } from '../test/utils';
 vi.mock('../utils/api', () => ({
   api: {
     searchTransactions: vi.fn(),
+    exportTransactions: vi.fn(),
     getAccounts: vi.fn(),
     getCategories: vi.fn(),
     syncTransactions: vi.fn(),
     autoCategorizeTransactions: vi.fn(),
     updateTransaction: vi.fn(),
+    applyMerchantCategory: vi.fn(),
+    saveTransactionSplits: vi.fn(),
+    deleteTransactionSplits: vi.fn(),
+    unlinkTransfer: vi.fn(),
     deleteTransaction: vi.fn(),
   },
 }));
@@ -355,6 +360,86 @@ describe('Transactions page', () => {
     });
   });
 
+  it('offers to apply a category correction to past transactions from the same merchant', async () => {
+    window.confirm = vi.fn(() => true);
+    vi.mocked(api.updateTransaction).mockResolvedValue({
+      transaction: {},
+      learned: { merchant_key: 'netflix', merchant_name: 'Netflix', user_category_name: 'Shopping', confidence: 0.5 },
+      similar_count: 3,
+    });
+    vi.mocked(api.applyMerchantCategory).mockResolvedValue({ success: true, updated_count: 3 });
+
+    renderWithRouter(<Transactions />, { route: '/transactions' });
+
+    await waitFor(() => {
+      expect(screen.getByText(/Netflix/i)).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getAllByTitle(/Edit transaction/i)[0]);
+    const dropdowns = screen.getAllByRole('combobox');
+    fireEvent.change(dropdowns[dropdowns.length - 1], { target: { value: 'Shopping' } });
+
+    await waitFor(() => {
+      expect(window.confirm).toHaveBeenCalledWith('Also categorize 3 other transactions from Netflix as Shopping?');
+      expect(api.applyMerchantCategory).toHaveBeenCalledWith('tx-1');
+    });
+  });
+
+  it('shows split transactions and opens the split editor', async () => {
+    vi.mocked(api.searchTransactions).mockResolvedValue({
+      transactions: [
+        {
+          ...baseTransactions[0],
+          transaction_splits: [
+            { id: 'split-1', amount: 10, user_category_name: 'Subscriptions' },
+            { id: 'split-2', amount: 5.99, user_category_name: 'Shopping' },
+          ],
+        },
+      ],
+      count: 1,
+    });
+
+    renderWithRouter(<Transactions />, { route: '/transactions' });
+
+    expect(await screen.findByText('Split (2)')).toBeInTheDocument();
+    expect(screen.getByText('Subscriptions $10.00 · Shopping $5.99')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Split transaction'));
+
+    expect(screen.getByText('Split Transaction')).toBeInTheDocument();
+    expect(screen.getByLabelText('Split 2 amount')).toHaveValue(5.99);
+    expect(screen.getByText('Fully allocated')).toBeInTheDocument();
+  });
+
+  it('labels matched transfers and unlinks them', async () => {
+    window.confirm = vi.fn(() => true);
+    vi.mocked(api.unlinkTransfer).mockResolvedValue({ success: true, unlinked_count: 2 });
+    vi.mocked(api.searchTransactions).mockResolvedValue({
+      transactions: [
+        {
+          ...baseTransactions[0],
+          id: 'tx-payment',
+          name: 'Credit Card Payment',
+          amount: 300,
+          is_transfer: true,
+          transfer_to_account_id: 'acc-2',
+          transfer_account: { name: 'Savings Account', mask: '5678' },
+        },
+      ],
+      count: 1,
+    });
+
+    renderWithRouter(<Transactions />, { route: '/transactions' });
+
+    expect(await screen.findByText(/Transfer to Savings Account/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Not a transfer'));
+
+    await waitFor(() => {
+      expect(api.unlinkTransfer).toHaveBeenCalledWith('tx-payment');
+    });
+  });
+
   it('exports transactions to CSV', async () => {
     renderWithRouter(<Transactions />, { route: '/transactions' });
 
@@ -367,6 +452,30 @@ describe('Transactions page', () => {
     // Just verify the button exists - clicking it would trigger download
   });
 
+  it('exports the filtered transactions in the chosen format from the server', async () => {
+    vi.mocked(api.exportTransactions).mockResolvedValue(new Blob(['!Type:Bank']));
+    const createObjectURL = vi.fn(() => 'blob:export');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    renderWithRouter(<Transactions />, { route: '/transactions' });
+
+    await waitFor(() => {
+      expect(screen.getByText(/Netflix/i)).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Export format'), { target: { value: 'qif' } });
+    fireEvent.click(screen.getByRole('button', { name: /export/i }));
+
+    await waitFor(() => {
+      expect(api.exportTransactions).toHaveBeenCalledWith('qif', { sort_by: 'date', sort_order: 'desc' });
+      expect(clickSpy).toHaveBeenCalled();
+    });
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    clickSpy.mockRestore();
+  });
+
   it('dismisses sync error message', async () => {
     const syncError = new Error('Sync failed');
     vi.mocked(api.syncTransactions).mockRejectedValue(syncError);
@@ -679,8 +788,22 @@ describe('Transactions page', () => {
     // The dropdown should disappear
     await waitFor(() => {
       const allDropdowns = screen.getAllByRole('combobox');
-      // Should be back to just the 4 filter dropdowns
-      expect(allDropdowns.length).toBe(4);
+      // Should be back to just the 4 filter dropdowns and the export format
+      expect(allDropdowns.length).toBe(5);
+    });
+  });
+
+  it('opens the import wizard', async () => {
+    renderWithRouter(<Transactions />, { route: '/transactions' });
+
+    await waitFor(() => {
+      expect(screen.getByText(/Netflix/i)).toBeInTheDocument();
     });
+
+    fireEvent.click(screen.getByTitle('Import transactions from a CSV, OFX or QFX file'));
+
+    expect(screen.getByRole('heading', { name: 'Import transactions' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Close import' }));
+    expect(screen.queryByRole('heading', { name: 'Import transactions' })).not.toBeInTheDocument();
   });
 });
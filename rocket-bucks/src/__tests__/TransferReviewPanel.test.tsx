@@ -0,0 +1,89 @@
+import { screen, waitFor, fireEvent } from '@testing-library/react';
+import TransferReviewPanel from '../components/TransferReviewPanel';
+import { api } from '../utils/api';
+import { renderWithRouter } from '../test/utils';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getTransferReviewQueue: vi.fn(),
+    reviewTransferMatch: vi.fn(),
+    matchTransfers: vi.fn(),
+  },
+}));
+
+const pendingMatches = [
+  {
+    id: 'match-1',
+    amount: 500,
+    day_gap: 1,
+    status: 'pending',
+    outflow: {
+      id: 'tx-out',
+      name: 'ONLINE PAYMENT',
+      date: '2024-03-01',
+      amount: 500,
+      accounts: { name: 'Checking', mask: '1234', institution_name: 'Chase' },
+    },
+    inflow: {
+      id: 'tx-in',
+      name: 'PAYMENT THANK YOU',
+      date: '2024-03-02',
+      amount: -500,
+      accounts: { name: 'Sapphire', mask: '9876', institution_name: 'Chase' },
+    },
+  },
+];
+
+describe('TransferReviewPanel component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getTransferReviewQueue).mockResolvedValue({ matches: pendingMatches });
+  });
+
+  it('lists possible transfers waiting for review', async () => {
+    renderWithRouter(<TransferReviewPanel onClose={vi.fn()} />);
+
+    expect(await screen.findByText('1 possible transfer to review')).toBeInTheDocument();
+    expect(screen.getByText('$500.00 from Checking ••••1234 to Sapphire ••••9876')).toBeInTheDocument();
+    expect(screen.getByText('ONLINE PAYMENT (Mar 1) → PAYMENT THANK YOU (Mar 2)')).toBeInTheDocument();
+  });
+
+  it('confirms a transfer and refreshes the queue', async () => {
+    const onChanged = vi.fn();
+    vi.mocked(api.reviewTransferMatch).mockResolvedValue({ success: true, status: 'confirmed' });
+
+    renderWithRouter(<TransferReviewPanel onClose={vi.fn()} onChanged={onChanged} />);
+
+    vi.mocked(api.getTransferReviewQueue).mockResolvedValue({ matches: [] });
+    fireEvent.click(await screen.findByText('Confirm transfer'));
+
+    await waitFor(() => {
+      expect(api.reviewTransferMatch).toHaveBeenCalledWith('match-1', 'confirmed');
+      expect(onChanged).toHaveBeenCalled();
+    });
+    expect(await screen.findByText('No possible transfers need review.')).toBeInTheDocument();
+  });
+
+  it('dismisses a pair that is not a transfer', async () => {
+    vi.mocked(api.reviewTransferMatch).mockResolvedValue({ success: true, status: 'dismissed' });
+
+    renderWithRouter(<TransferReviewPanel onClose={vi.fn()} />);
+
+    fireEvent.click(await screen.findByText('Not a transfer'));
+
+    await waitFor(() => {
+      expect(api.reviewTransferMatch).toHaveBeenCalledWith('match-1', 'dismissed');
+    });
+  });
+
+  it('runs the matcher on demand', async () => {
+    vi.mocked(api.matchTransfers).mockResolvedValue({ success: true, matched_count: 3, review_count: 1 });
+
+    renderWithRouter(<TransferReviewPanel onClose={vi.fn()} />);
+
+    await screen.findByText('1 possible transfer to review');
+    fireEvent.click(screen.getByText('Find transfers'));
+
+    expect(await screen.findByText('Matched 3 transfers, 1 to review')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+import { screen, waitFor } from '@testing-library/react';
+import { renderWithRouter, userEvent } from '../test/utils';
+import UnlinkInstitutionPanel from '../components/UnlinkInstitutionPanel';
+import { api } from '../utils/api';
+
+vi.mock('../utils/api', () => ({
+  api: {
+    getUnlinkPreview: vi.fn(),
+    unlinkInstitution: vi.fn(),
+  },
+}));
+
+const item = {
+  id: 'item-1',
+  institution_name: 'First Bank',
+  status: 'healthy' as const,
+  error_code: null,
+  error_message: null,
+  consent_expires_at: null,
+  last_synced_at: null,
+};
+
+describe('UnlinkInstitutionPanel', () => {
+  beforeEach(() => {
+    vi.mocked(api.getUnlinkPreview).mockReset();
+    vi.mocked(api.unlinkInstitution).mockReset();
+    vi.mocked(api.getUnlinkPreview).mockResolvedValue({
+      institution_name: 'First Bank',
+      accounts: 2,
+      transactions: 1250,
+      recurring: 1,
+    });
+  });
+
+  it('shows how much data the institution has', async () => {
+    renderWithRouter(<UnlinkInstitutionPanel item={item} onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/has 2 accounts, 1,250 transactions and/)).toBeInTheDocument();
+    expect(api.getUnlinkPreview).toHaveBeenCalledWith('item-1');
+    expect(screen.getByRole('radio', { name: /keep history/i })).toBeChecked();
+  });
+
+  it('archives the institution by default', async () => {
+    vi.mocked(api.unlinkInstitution).mockResolvedValue({
+      success: true,
+      mode: 'archive',
+      accounts: 2,
+      transactions: 1250,
+      recurring: 1,
+    });
+    const onUnlinked = vi.fn();
+    const onClose = vi.fn();
+
+    renderWithRouter(<UnlinkInstitutionPanel item={item} onClose={onClose} onUnlinked={onUnlinked} />);
+
+    const user = userEvent.setup();
+    await user.click(await screen.findByRole('button', { name: 'Unlink and archive' }));
+
+    await waitFor(() => expect(api.unlinkInstitution).toHaveBeenCalledWith('item-1', 'archive'));
+    expect(onUnlinked).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('deletes everything when chosen', async () => {
+    vi.mocked(api.unlinkInstitution).mockResolvedValue({
+      success: true,
+      mode: 'delete',
+      accounts: 2,
+      transactions: 1250,
+      recurring: 1,
+    });
+
+    renderWithRouter(<UnlinkInstitutionPanel item={item} onClose={vi.fn()} />);
+
+    const user = userEvent.setup();
+    await user.click(screen.getByRole('radio', { name: /delete everything/i }));
+    expect(await screen.findByText(/Permanently deletes 2 accounts, 1,250 transactions and 1 recurring charge\./)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Unlink and delete' }));
+
+    await waitFor(() => expect(api.unlinkInstitution).toHaveBeenCalledWith('item-1', 'delete'));
+  });
+
+  it('shows an error when unlinking fails', async () => {
+    vi.mocked(api.unlinkInstitution).mockRejectedValue(new Error('Failed to unlink institution'));
+    const onClose = vi.fn();
+
+    renderWithRouter(<UnlinkInstitutionPanel item={item} onClose={onClose} />);
+
+    const user = userEvent.setup();
+    await user.click(await screen.findByRole('button', { name: 'Unlink and archive' }));
+
+    expect(await screen.findByText('Failed to unlink institution')).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import handler from '../../api/ai/chat';
+import { createSupabaseClient } from '../../lib/supabase';
+import { runAdvisorTool } from '../../lib/advisorTools';
+import { appendMessages, createConversation } from '../../lib/chatConversations';
+import { addUsage } from '../../lib/llmProviders.js';
+
+vi.mock('../../lib/supabase', () => ({
+  createSupabaseClient: vi.fn(),
+  fetchAllRows: vi.fn(async () => ({ data: [], error: null })),
+}));
+
+vi.mock('../../lib/advisorTools', () => ({
+  ADVISOR_TOOLS: [
+    {
+      type: 'function',
+      function: { name: 'aggregate_transactions', description: 'Totals by category', parameters: { type: 'object' } },
+    },
+  ],
+  runAdvisorTool: vi.fn(),
+}));
+
+vi.mock('../../lib/chatConversations', () => ({
+  appendMessages: vi.fn(),
+  createConversation: vi.fn(),
+  getConversation: vi.fn(),
+  loadRecentMessages: vi.fn(),
+}));
+
+// The real fake provider, optionally scripted, with every request and reply recorded
+const advisor = vi.hoisted(() => ({ requests: [] as any[], replies: [] as any[], respond: undefined as any }));
+vi.mock('../../lib/llmProviders.js', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  return {
+    ...actual,
+    createLlmProvider: () => {
+      const provider = actual.createFakeProvider(advisor.respond ? { respond: advisor.respond } : {});
+      return {
+        ...provider,
+        complete: async (request: any) => {
+          advisor.requests.push(structuredClone(request));
+          const reply = await provider.complete(request);
+          advisor.replies.push(reply);
+          return reply;
+        },
+      };
+    },
+  };
+});
+
+// A Supabase query chain that records audit writes and returns empty results otherwise
+const createSupabase = () => {
+  const auditWrites: any[] = [];
+  const query = (table: string) => {
+    const result = { data: [] as any, error: null };
+    const chain: any = {
+      select: () => chain,
+      eq: () => chain,
+      is: () => chain,
+      not: () => chain,
+      gte: () => chain,
+      lte: () => chain,
+      order: () => chain,
+      limit: () => chain,
+      range: () => chain,
+      insert: (row: any) => {
+        auditWrites.push({ table, insert: row });
+        result.data = { id: 'audit-1' };
+        return chain;
+      },
+      update: (fields: any) => {
+        auditWrites.push({ table, update: fields });
+        return chain;
+      },
+      maybeSingle: async () => ({ data: table === 'users' ? { ai_privacy_level: 'full' } : null, error: null }),
+      single: async () => ({ data: result.data, error: null }),
+      then: (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject),
+    };
+    return chain;
+  };
+
+  return {
+    auditWrites,
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } }, error: null }) },
+    from: vi.fn(query),
+  };
+};
+
+const createResponse = () => {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: any) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+};
+
+describe('AI chat handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    advisor.requests = [];
+    advisor.replies = [];
+    advisor.respond = undefined;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(createConversation).mockResolvedValue({ id: 'conv-1', title: 'How much did I spend?' });
+    vi.mocked(appendMessages).mockResolvedValue([
+      { id: 'msg-1', role: 'user' },
+      { id: 'msg-2', role: 'assistant' },
+    ]);
+    vi.mocked(runAdvisorTool).mockResolvedValue({
+      total: 412.5,
+      groups: [
+        { key: 'Groceries', total: 300 },
+        { key: 'Dining', total: 112.5 },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs the tool the model asks for, then answers from its result', async () => {
+    const supabase = createSupabase();
+    vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+    const res = createResponse();
+
+    await handler(
+      { method: 'POST', headers: { authorization: 'Bearer token-1' }, body: { message: 'How much did I spend?' } } as any,
+      res
+    );
+
+    expect(res.statusCode).toBe(200);
+
+    // Round one asks for a query, round two answers from what it returned
+    expect(advisor.requests).toHaveLength(2);
+    const toolCall = advisor.replies[0].message.tool_calls[0];
+    expect(toolCall.function.name).toBe('aggregate_transactions');
+    expect(runAdvisorTool).toHaveBeenCalledWith(supabase, 'user-1', 'aggregate_transactions', toolCall.function.arguments);
+
+    const followUp = advisor.requests[1].messages.slice(-2);
+    expect(followUp[0]).toMatchObject({ role: 'assistant', tool_calls: [toolCall] });
+    expect(followUp[1]).toEqual({
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      content: JSON.stringify({
+        total: 412.5,
+        groups: [
+          { key: 'Groceries', total: 300 },
+          { key: 'Dining', total: 112.5 },
+        ],
+      }),
+    });
+
+    expect(res.body.message).toBe('Mock advisor: you spent $412.50 across 2 categories in the last 30 days.');
+    expect(res.body.tool_calls).toEqual([
+      { name: 'aggregate_transactions', arguments: JSON.parse(toolCall.function.arguments), result: expect.objectContaining({ total: 412.5 }) },
+    ]);
+    expect(res.body.model).toBe('fake/advisor');
+    expect(res.body.privacy_level).toBe('full');
+  });
+
+  it('reports the tokens of every round, and saves and audits the same totals', async () => {
+    const supabase = createSupabase();
+    vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+    const res = createResponse();
+
+    await handler(
+      { method: 'POST', headers: { authorization: 'Bearer token-1' }, body: { message: 'How much did I spend?' } } as any,
+      res
+    );
+
+    const [first, second] = advisor.replies.map((reply) => reply.usage);
+    const expectedUsage = addUsage(first, second);
+    expect(expectedUsage.total_tokens).toBeGreaterThan(first.total_tokens);
+    expect(res.body.usage).toEqual(expectedUsage);
+
+    expect(appendMessages).toHaveBeenCalledWith(supabase, 'user-1', 'conv-1', [
+      { role: 'user', content: 'How much did I spend?' },
+      expect.objectContaining({ role: 'assistant', token_usage: expectedUsage }),
+    ]);
+    expect(supabase.auditWrites).toContainEqual({
+      table: 'ai_context_audit',
+      update: expect.objectContaining({ status: 'answered', message_id: 'msg-2', token_usage: expectedUsage }),
+    });
+  });
+
+  it('stops offering tools once the round limit is reached', async () => {
+    const supabase = createSupabase();
+    vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+    const res = createResponse();
+    // A model that asks for another query whenever it is offered tools
+    advisor.respond = (request: any, callIndex: number) => request.tools
+      ? { content: '', tool_calls: [{ id: `call_${callIndex}`, type: 'function', function: { name: 'aggregate_transactions', arguments: '{}' } }] }
+      : { content: 'Here is what I found.' };
+
+    await handler(
+      { method: 'POST', headers: { authorization: 'Bearer token-1' }, body: { message: 'Keep digging' } } as any,
+      res
+    );
+
+    expect(advisor.requests).toHaveLength(5);
+    expect(advisor.requests[4].tools).toBeUndefined();
+    expect(res.body.message).toBe('Here is what I found.');
+    expect(runAdvisorTool).toHaveBeenCalledTimes(4);
+  });
+});
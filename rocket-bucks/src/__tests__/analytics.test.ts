@@ -0,0 +1,144 @@
+import { getInsights, isExpense, isIncome } from '../../lib/analytics';
+import { fetchAllRows } from '../../lib/supabase';
+
+// The server Supabase client needs credentials at import time
+vi.mock('../../lib/supabase', () => ({ fetchAllRows: vi.fn() }));
+
+const createTransaction = (overrides: any = {}) => ({
+  id: `tx-${Math.random()}`,
+  date: '2024-03-05',
+  name: 'Test Transaction',
+  merchant_name: 'Test Merchant',
+  amount: 100,
+  transaction_type: 'expense',
+  user_category_name: 'Shopping',
+  is_transfer: false,
+  ...overrides,
+});
+
+const options = { start_date: '2024-03-01', end_date: '2024-03-31' };
+
+describe('analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('breaks split transactions down by their split categories', async () => {
+    vi.mocked(fetchAllRows).mockResolvedValue({
+      data: [
+        createTransaction({
+          id: 'tx-split',
+          name: 'COSTCO WHOLESALE',
+          merchant_name: 'Costco',
+          amount: 100,
+          user_category_name: 'Warehouse Club',
+          transaction_splits: [
+            { id: 'split-1', amount: 70, user_category_name: 'Groceries' },
+            { id: 'split-2', amount: 30, user_category_name: 'Household' },
+          ],
+        }),
+      ],
+      error: null,
+    });
+
+    const insights = await getInsights({}, 'user-1', options);
+
+    expect(insights.categories).toEqual([
+      { name: 'Groceries', amount: 70, count: 1, percent: 70 },
+      { name: 'Household', amount: 30, count: 1, percent: 30 },
+    ]);
+    expect(insights.spending).toBe(100);
+    // The purchase itself still counts once at its full amount
+    expect(insights.top_merchants).toEqual([{ name: 'Costco', amount: 100, count: 1, average: 100 }]);
+    expect(insights.largest_purchases).toEqual([
+      { id: 'tx-split', name: 'Costco', date: '2024-03-05', amount: 100, category: 'Split' },
+    ]);
+  });
+
+  it('leaves matched transfers out of spending and income', async () => {
+    vi.mocked(fetchAllRows).mockResolvedValue({
+      data: [
+        createTransaction({ id: 'tx-rent', name: 'Rent', merchant_name: 'Landlord', amount: 1200, user_category_name: 'Housing' }),
+        createTransaction({
+          id: 'tx-card-payment',
+          name: 'AMEX EPAYMENT',
+          merchant_name: 'Amex',
+          amount: 800,
+          user_category_name: 'Bills & Utilities',
+          is_transfer: true,
+          transfer_to_account_id: 'acc-card',
+        }),
+        createTransaction({
+          id: 'tx-savings',
+          name: 'Transfer from Savings',
+          amount: -500,
+          transaction_type: 'income',
+          user_category_name: 'Income',
+          is_transfer: true,
+          transfer_to_account_id: 'acc-savings',
+        }),
+      ],
+      error: null,
+    });
+
+    const insights = await getInsights({}, 'user-1', options);
+
+    expect(insights.spending).toBe(1200);
+    expect(insights.bills).toBe(0);
+    expect(insights.income).toBe(0);
+    expect(insights.categories.map((category) => category.name)).toEqual(['Housing']);
+    expect(insights.top_merchants.map((merchant) => merchant.name)).toEqual(['Landlord']);
+  });
+
+  it('builds the monthly spending series from split parts and without transfers', async () => {
+    vi.mocked(fetchAllRows).mockResolvedValue({
+      data: [
+        createTransaction({ id: 'tx-feb', date: '2024-02-10', amount: 60 }),
+        createTransaction({
+          id: 'tx-split',
+          date: '2024-03-05',
+          amount: 100,
+          transaction_splits: [
+            { id: 'split-1', amount: 70, user_category_name: 'Groceries' },
+            { id: 'split-2', amount: 30, user_category_name: 'Transfer' },
+          ],
+        }),
+        createTransaction({ id: 'tx-card-payment', date: '2024-03-08', amount: 800, is_transfer: true }),
+      ],
+      error: null,
+    });
+
+    const insights = await getInsights({}, 'user-1', { start_date: '2024-02-01', end_date: '2024-03-31', group_by: 'month' });
+
+    expect(insights.series).toEqual({
+      group_by: 'month',
+      points: [
+        { date: '2024-02', amount: 60 },
+        { date: '2024-03', amount: 70 },
+      ],
+    });
+  });
+
+  describe('isExpense', () => {
+    it('counts debits outside the Income and Transfer categories', () => {
+      expect(isExpense(createTransaction())).toBe(true);
+      expect(isExpense(createTransaction({ amount: -20, transaction_type: 'income' }))).toBe(false);
+      expect(isExpense(createTransaction({ user_category_name: 'Transfer' }))).toBe(false);
+      expect(isExpense(createTransaction({ user_category_name: 'Income' }))).toBe(false);
+    });
+
+    it('leaves out matched transfers whatever their category', () => {
+      expect(isExpense(createTransaction({ is_transfer: true, user_category_name: 'Bills & Utilities' }))).toBe(false);
+    });
+  });
+
+  describe('isIncome', () => {
+    it('counts transactions categorized as Income unless they are transfers', () => {
+      const paycheck = createTransaction({ amount: -2500, transaction_type: 'income', user_category_name: 'Income' });
+
+      expect(isIncome(paycheck)).toBe(true);
+      expect(isIncome({ ...paycheck, is_transfer: true })).toBe(false);
+      expect(isIncome(createTransaction({ amount: -40, transaction_type: 'income', user_category_name: 'Shopping' }))).toBe(false);
+    });
+  });
+});
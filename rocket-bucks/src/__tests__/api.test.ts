@@ -41,6 +41,48 @@ describe('api utility', () => {
     expect(result.link_token).toBe('link-xyz');
   });
 
+  it('creates an update mode link token and marks the institution reconnected', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ link_token: 'link-update' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true }), { status: 200 }));
+
+    await api.createLinkToken('item-1');
+    await api.markItemReconnected('item-1');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/create_link_token',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ item_id: 'item-1' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/accounts?action=reconnected&item_id=item-1',
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('previews and unlinks a single institution', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ accounts: 2, transactions: 10, recurring: 1 }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, mode: 'archive' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Institution not found' }), { status: 404 }));
+
+    await api.getUnlinkPreview('item-1');
+    await api.unlinkInstitution('item-1', 'archive');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/accounts?action=unlink&item_id=item-1',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/accounts?action=unlink&item_id=item-1&mode=archive',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+    await expect(api.unlinkInstitution('missing', 'delete')).rejects.toThrow('Institution not found');
+  });
+
   it('throws a helpful error when the link token call fails', async () => {
     fetchMock.mockResolvedValueOnce(
       new Response(JSON.stringify({ error: 'Plaid unavailable' }), {
@@ -102,6 +144,89 @@ describe('api utility', () => {
     expect(response.message).toBe('Here is advice');
   });
 
+  it('streams advisor tokens and tool calls from server-sent events', async () => {
+    const events =
+      'event: tool_call\ndata: {"name":"list_recurring","arguments":{},"result":{"streams":[]}}\n\n' +
+      'event: token\ndata: {"text":"Hel"}\n\n' +
+      'event: token\ndata: {"text":"lo"}\n\n' +
+      'event: done\ndata: {"message":"Hello","tool_calls":[]}\n\n';
+    fetchMock.mockResolvedValueOnce(
+      new Response(events, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }),
+    );
+
+    const onToken = vi.fn();
+    const onToolCall = vi.fn();
+    const reply = await api.streamFinancialAdvisor({ message: 'Hi' }, { onToken, onToolCall });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/ai/chat',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ message: 'Hi', stream: true }) }),
+    );
+    expect(onToken.mock.calls.map(([text]) => text)).toEqual(['Hel', 'lo']);
+    expect(onToolCall).toHaveBeenCalledWith(expect.objectContaining({ name: 'list_recurring' }));
+    expect(reply.message).toBe('Hello');
+  });
+
+  it('rejects when the advisor stream reports an error', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('event: error\ndata: {"error":"AI advisor is temporarily unavailable."}\n\n', { status: 200 }),
+    );
+
+    await expect(api.streamFinancialAdvisor({ message: 'Hi' }, { onToken: vi.fn() })).rejects.toThrow(
+      'AI advisor is temporarily unavailable.',
+    );
+  });
+
+  it('lists, searches, renames and deletes saved advisor conversations', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(new Response(JSON.stringify({ conversations: [] }), { status: 200 })),
+    );
+
+    await api.getChatConversations();
+    await api.getChatConversations('trader joe');
+    await api.renameChatConversation('conv-1', 'Groceries');
+    await api.deleteChatConversation('conv-1');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'http://localhost:3001/api/ai/conversations', expect.anything());
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/ai/conversations?search=trader+joe',
+      expect.anything(),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/ai/conversations?id=conv-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ title: 'Groceries' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      4,
+      'http://localhost:3001/api/ai/conversations?id=conv-1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('reads and updates the AI privacy setting and its audit log', async () => {
+    fetchMock.mockImplementation(() =>
+      Promise.resolve(new Response(JSON.stringify({ privacy_level: 'anonymized', entries: [] }), { status: 200 })),
+    );
+
+    await api.getAIPrivacy();
+    await api.updateAIPrivacy('aggregates');
+    await api.getAIContextAudit({ conversation_id: 'conv-1', limit: 5 });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1, 'http://localhost:3001/api/ai/privacy', expect.anything());
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/ai/privacy',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ privacy_level: 'aggregates' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/ai/audit?conversation_id=conv-1&limit=5',
+      expect.anything(),
+    );
+  });
+
   it('handles Google login', async () => {
     fetchMock.mockResolvedValueOnce(
       new Response(JSON.stringify({ url: 'https://google.com/oauth' }), {
@@ -595,4 +720,359 @@ describe('api utility', () => {
     const [url] = fetchMock.mock.calls[0];
     expect(url).toContain('/transactions/search');
   });
+
+  it('gets budgets for a month', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          budgets: [{ id: 'budget-1', spent: 120 }],
+          month: '2024-03',
+          totals: { limit: 300, available: 300, spent: 120, remaining: 180 },
+        }),
+        { status: 200 },
+      ),
+    );
+
+    const result = await api.getBudgets('2024-03');
+
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(new URL(url).pathname).toBe('/api/budgets');
+    expect(new URL(url).searchParams.get('month')).toBe('2024-03');
+    expect(options?.method).toBe('GET');
+    expect(result.budgets).toHaveLength(1);
+  });
+
+  it('creates, updates and deletes budgets', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ budget: { id: 'budget-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ budget: { id: 'budget-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true }), { status: 200 }));
+
+    await api.createBudget({ user_category_name: 'Groceries', monthly_limit: 400, rollover: true });
+    await api.updateBudget('budget-1', { monthly_limit: 450 });
+    await api.deleteBudget('budget-1');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/budgets',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ user_category_name: 'Groceries', monthly_limit: 400, rollover: true }),
+      }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/budgets?budget_id=budget-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ monthly_limit: 450 }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/budgets?budget_id=budget-1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('throws when budget creation fails', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: 'A non-negative monthly_limit is required' }), { status: 400 }),
+    );
+
+    await expect(api.createBudget({ user_category_name: 'Groceries', monthly_limit: -1 })).rejects.toThrow(
+      /monthly_limit/,
+    );
+  });
+
+  it('requests net worth history for a period', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ period: '1Y', points: [] }), { status: 200 }),
+    );
+
+    await api.getNetWorthHistory('1Y');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/accounts?action=history&period=1Y',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('exports transactions with filters and a format', async () => {
+    fetchMock.mockResolvedValue(new Response('Date,Name', { status: 200 }));
+
+    const blob = await api.exportTransactions('csv', { account_id: 'acc-1', tags: ['tax'] });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/transactions?account_id=acc-1&tags=%5B%22tax%22%5D&action=export&format=csv',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(await blob.text()).toBe('Date,Name');
+  });
+
+  it('downloads a full data export', async () => {
+    fetchMock.mockResolvedValue(new Response('PK', { status: 200 }));
+
+    const blob = await api.exportAllData('zip');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/accounts?action=export&format=zip',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(await blob.text()).toBe('PK');
+  });
+
+  it('manages manual accounts and their value history', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ account: { id: 'man-1' } }), { status: 201 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ account: { id: 'man-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ history: [] }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true }), { status: 200 }));
+
+    await api.createManualAccount({ name: 'House', type: 'real_estate', balance: 300000 });
+    await api.updateManualAccount('man-1', { balance: 310000, note: 'Appraisal' });
+    await api.getAccountValueHistory('man-1');
+    await api.deleteManualAccount('man-1');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/accounts?action=manual',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ name: 'House', type: 'real_estate', balance: 300000 }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/accounts?action=manual&account_id=man-1',
+      expect.objectContaining({ method: 'PATCH' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/accounts?action=value-history&account_id=man-1',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      4,
+      'http://localhost:3001/api/accounts?action=manual&account_id=man-1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('manages categorization rules and previews applying them', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ rule: { id: 'rule-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ rule: { id: 'rule-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ changed_count: 0, changes: [] }), { status: 200 }));
+
+    await api.createCategorizationRule({ name: 'Coffee', name_pattern: 'starbucks', user_category_name: 'Coffee' });
+    await api.updateCategorizationRule('rule-1', { is_active: false });
+    await api.applyCategorizationRules({ dry_run: true });
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/categories?resource=rules',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/categories?resource=rules&rule_id=rule-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ is_active: false }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/transactions?action=apply-rules',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ dry_run: true }) }),
+    );
+  });
+
+  it('applies a corrected category to past transactions from the same merchant', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ success: true, updated_count: 4 }), { status: 200 }),
+    );
+
+    const result = await api.applyMerchantCategory('tx-1');
+
+    expect(result.updated_count).toBe(4);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/transactions?action=apply-merchant-category',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ transaction_id: 'tx-1' }) }),
+    );
+  });
+
+  it('saves and removes transaction splits', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ splits: [{ id: 'split-1' }, { id: 'split-2' }] }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true }), { status: 200 }));
+
+    const splits = [
+      { amount: 60, user_category_name: 'Groceries' },
+      { amount: 40, user_category_name: 'Household', notes: 'Paper towels' },
+    ];
+    const result = await api.saveTransactionSplits('tx-1', splits);
+    await api.deleteTransactionSplits('tx-1');
+
+    expect(result.splits).toHaveLength(2);
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/transactions?action=splits',
+      expect.objectContaining({ method: 'PUT', body: JSON.stringify({ transaction_id: 'tx-1', splits }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/transactions?action=splits&transaction_id=tx-1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('reviews and unlinks transfer matches', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, matched_count: 2, review_count: 1 }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, status: 'confirmed' }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true, unlinked_count: 2 }), { status: 200 }));
+
+    const result = await api.matchTransfers();
+    await api.reviewTransferMatch('match-1', 'confirmed');
+    await api.unlinkTransfer('tx-1');
+
+    expect(result.matched_count).toBe(2);
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/transactions?action=match-transfers',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/transactions?action=transfers&match_id=match-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ status: 'confirmed' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/transactions?action=transfers&transaction_id=tx-1',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('requests insights for a date range', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ spending: 120 }), { status: 200 }));
+
+    const result = await api.getInsights({ start_date: '2024-03-01', end_date: '2024-03-31', group_by: 'month', compare: true });
+
+    expect(result.spending).toBe(120);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/insights?start_date=2024-03-01&end_date=2024-03-31&group_by=month&compare=true',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('tracks subscription cancellations', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ draft: { subject: 'Cancel' } }), { status: 200 }));
+
+    await api.requestCancellation('rec-1', { method: 'website', cancel_date: '2024-03-01' });
+    await api.getCancellationDraft('rec-1', 'letter');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/recurring?action=cancellation&recurring_id=rec-1',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ method: 'website', cancel_date: '2024-03-01' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/recurring?action=cancellation-draft&recurring_id=rec-1&format=letter',
+      expect.objectContaining({ method: 'GET' }),
+    );
+  });
+
+  it('manages recurring amount change alerts', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ changes: [] }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ change: { id: 'chg-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-1' } }), { status: 200 }));
+
+    await api.getRecurringAmountChanges({ recurring_id: 'rec-1', status: 'new' });
+    await api.updateAmountChange('chg-1', 'dismissed');
+    await api.setAmountAlertThreshold('rec-1', 10);
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://localhost:3001/api/recurring?action=amount-changes&recurring_id=rec-1&status=new',
+      expect.objectContaining({ method: 'GET' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      2,
+      'http://localhost:3001/api/recurring?action=amount-changes&change_id=chg-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ status: 'dismissed' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      3,
+      'http://localhost:3001/api/recurring?recurring_id=rec-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ amount_alert_threshold: 10 }) }),
+    );
+  });
+
+  it('detects recurring streams', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ success: true, created_count: 1, updated_count: 0, linked_count: 3 }), { status: 200 })
+    );
+
+    const result = await api.detectRecurringStreams();
+
+    expect(result.created_count).toBe(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/recurring?action=detect',
+      expect.objectContaining({ method: 'POST' }),
+    );
+  });
+
+  it('edits, merges and hides recurring streams', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-1' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-2' } }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ recurring: { id: 'rec-2' } }), { status: 200 }));
+
+    await api.updateRecurring('rec-1', { is_paused: true });
+    await api.mergeRecurring('rec-1', 'rec-2');
+    await api.markNotRecurring('rec-2');
+    await api.restoreRecurring('rec-2');
+
+    expect(fetchMock).toHaveBeenNthCalledWith(1,
+      'http://localhost:3001/api/recurring?recurring_id=rec-1',
+      expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ is_paused: true }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(2,
+      'http://localhost:3001/api/recurring?action=merge&recurring_id=rec-1',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ merge_id: 'rec-2' }) }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(3,
+      'http://localhost:3001/api/recurring?action=not-recurring&recurring_id=rec-2',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    expect(fetchMock).toHaveBeenNthCalledWith(4,
+      'http://localhost:3001/api/recurring?action=not-recurring&recurring_id=rec-2',
+      expect.objectContaining({ method: 'DELETE' }),
+    );
+  });
+
+  it('imports a transaction file', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ success: true, imported_count: 2, duplicate_count: 0 }), { status: 200 })
+    );
+
+    const result = await api.importTransactions({ format: 'ofx', content: '<OFX></OFX>', account_id: 'acc-1' });
+
+    expect(result.imported_count).toBe(2);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:3001/api/transactions?action=import',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ format: 'ofx', content: '<OFX></OFX>', account_id: 'acc-1' }),
+      }),
+    );
+  });
+
+  it('surfaces import errors', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: 'Files can only be imported into manual accounts' }), { status: 400 })
+    );
+
+    await expect(api.importTransactions({ format: 'csv', content: 'a,b', account_id: 'acc-1' }))
+      .rejects.toThrow('Files can only be imported into manual accounts');
+  });
 });
@@ -0,0 +1,249 @@
+import { addUsage, createFakeProvider, createLlmProvider } from '../../lib/llmProviders.js';
+
+const originalFetch = globalThis.fetch;
+const fetchMock = vi.fn();
+
+const jsonResponse = (body: any, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { status: 200, ...init });
+
+const openAiCompletion = (content: string) => ({
+  choices: [{ message: { role: 'assistant', content } }],
+  usage: { prompt_tokens: 12, completion_tokens: 5 },
+});
+
+const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call][1].body);
+
+describe('llmProviders', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    globalThis.fetch = fetchMock;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('createLlmProvider', () => {
+    it('defaults to OpenRouter when its key is set', () => {
+      const provider = createLlmProvider({ OPENROUTER_API_KEY: 'or-key', OPENROUTER_MODEL: 'openai/gpt-4o' });
+
+      expect(provider).toMatchObject({ name: 'openrouter', model: 'openai/gpt-4o', supportsTools: true });
+    });
+
+    it('picks the backend from AI_PROVIDER, with AI_MODEL overriding its default model', () => {
+      expect(createLlmProvider({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'sk' })).toMatchObject({
+        name: 'openai',
+        model: 'gpt-4o-mini',
+      });
+      expect(createLlmProvider({ AI_PROVIDER: ' Anthropic ', ANTHROPIC_API_KEY: 'ak', AI_MODEL: 'claude-haiku' })).toMatchObject({
+        name: 'anthropic',
+        model: 'claude-haiku',
+      });
+      expect(createLlmProvider({ AI_PROVIDER: 'fake' })).toMatchObject({ name: 'fake', model: 'fake/advisor' });
+    });
+
+    it('returns null when the chosen provider has no key or is unknown', () => {
+      expect(createLlmProvider({})).toBeNull();
+      expect(createLlmProvider({ AI_PROVIDER: 'anthropic', OPENROUTER_API_KEY: 'or-key' })).toBeNull();
+      expect(createLlmProvider({ AI_PROVIDER: 'mystery' })).toBeNull();
+    });
+
+    it('runs a local model without a key and without tools when LOCAL_AI_TOOLS is false', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'local', LOCAL_AI_TOOLS: 'false' });
+      fetchMock.mockResolvedValueOnce(jsonResponse(openAiCompletion('Hello')));
+
+      await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(provider).toMatchObject({ name: 'local', model: 'llama3.1', supportsTools: false });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+      expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+    });
+  });
+
+  describe('retries', () => {
+    it('retries rate limits and server errors, then returns the answer', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'sk' });
+      fetchMock
+        .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(new Response('bad gateway', { status: 502, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(jsonResponse(openAiCompletion('Budget more for groceries.')));
+
+      const result = await provider.complete({ messages: [{ role: 'user', content: 'Help' }] });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(result).toEqual({
+        message: { role: 'assistant', content: 'Budget more for groceries.' },
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      });
+    });
+
+    it('gives up after AI_MAX_RETRIES', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'sk', AI_MAX_RETRIES: '1' });
+      fetchMock.mockImplementation(async () => new Response('unavailable', { status: 503, headers: { 'Retry-After': '0' } }));
+
+      await expect(provider.complete({ messages: [{ role: 'user', content: 'Help' }] })).rejects.toThrow(
+        'OpenAI request failed with status 503'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry requests the provider rejected', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'sk' });
+      fetchMock.mockResolvedValueOnce(new Response('bad request', { status: 400 }));
+
+      await expect(provider.complete({ messages: [{ role: 'user', content: 'Help' }] })).rejects.toThrow(
+        'OpenAI request failed with status 400'
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('aborts a request the model does not answer within AI_TIMEOUT_MS', async () => {
+      const provider = createLlmProvider({
+        AI_PROVIDER: 'openai',
+        OPENAI_API_KEY: 'sk',
+        AI_TIMEOUT_MS: '20',
+        AI_MAX_RETRIES: '0',
+      });
+      // Never answers; only settles when the request is aborted
+      fetchMock.mockImplementation((_url: string, { signal }: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          signal!.addEventListener('abort', () => reject(signal!.reason));
+        })
+      );
+
+      await expect(provider.complete({ messages: [{ role: 'user', content: 'Help' }] })).rejects.toThrow(
+        'OpenAI timed out after 20ms'
+      );
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+  });
+
+  describe('Anthropic', () => {
+    const tools = [
+      {
+        type: 'function',
+        function: {
+          name: 'aggregate_transactions',
+          description: 'Totals by category',
+          parameters: { type: 'object', properties: { start_date: { type: 'string' } } },
+        },
+      },
+    ];
+
+    it('translates OpenAI-shaped messages and tools into a Messages API request', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'ak', AI_MODEL: 'claude-test' });
+      fetchMock.mockResolvedValueOnce(jsonResponse({ content: [{ type: 'text', text: 'Done' }] }));
+
+      await provider.complete({
+        messages: [
+          { role: 'system', content: 'You are a coach.' },
+          { role: 'system', content: 'Snapshot: none.' },
+          { role: 'user', content: 'What did I spend?' },
+          {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'aggregate_transactions', arguments: '{"start_date":"2026-01-01"}' } }],
+          },
+          { role: 'tool', tool_call_id: 'call_1', content: '{"total":42}' },
+          { role: 'user', content: 'And per week?' },
+        ],
+        tools,
+        temperature: 0.35,
+        top_p: 0.9,
+        max_tokens: 600,
+      });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages');
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ 'x-api-key': 'ak', 'anthropic-version': '2023-06-01' });
+      expect(requestBody(0)).toEqual({
+        model: 'claude-test',
+        system: 'You are a coach.\n\nSnapshot: none.',
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'What did I spend?' }] },
+          {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'call_1', name: 'aggregate_transactions', input: { start_date: '2026-01-01' } }],
+          },
+          // The tool result and the next question merge into one user turn
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'call_1', content: '{"total":42}' },
+              { type: 'text', text: 'And per week?' },
+            ],
+          },
+        ],
+        max_tokens: 600,
+        temperature: 0.35,
+        tools: [
+          {
+            name: 'aggregate_transactions',
+            description: 'Totals by category',
+            input_schema: { type: 'object', properties: { start_date: { type: 'string' } } },
+          },
+        ],
+      });
+    });
+
+    it('translates text and tool_use blocks back into an assistant message with usage', async () => {
+      const provider = createLlmProvider({ AI_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'ak' });
+      fetchMock.mockResolvedValueOnce(jsonResponse({
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'aggregate_transactions', input: { group_by: 'month' } },
+        ],
+        usage: { input_tokens: 300, output_tokens: 40 },
+      }));
+
+      const result = await provider.complete({ messages: [{ role: 'user', content: 'Trend?' }], tools });
+
+      expect(result).toEqual({
+        message: {
+          role: 'assistant',
+          content: 'Let me check.',
+          tool_calls: [
+            { id: 'toolu_1', type: 'function', function: { name: 'aggregate_transactions', arguments: '{"group_by":"month"}' } },
+          ],
+        },
+        usage: { prompt_tokens: 300, completion_tokens: 40, total_tokens: 340 },
+      });
+    });
+  });
+
+  describe('addUsage', () => {
+    it('sums token counts and treats a missing side as nothing', () => {
+      const first = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 };
+      const second = { prompt_tokens: 150, completion_tokens: 30, total_tokens: 180 };
+
+      expect(addUsage(null, null)).toBeNull();
+      expect(addUsage(null, first)).toEqual(first);
+      expect(addUsage(null, first)).not.toBe(first);
+      expect(addUsage(first, null)).toBe(first);
+      expect(addUsage(first, second)).toEqual({ prompt_tokens: 250, completion_tokens: 50, total_tokens: 300 });
+    });
+  });
+
+  describe('createFakeProvider', () => {
+    it('plays back scripted replies with stable token counts', async () => {
+      const provider = createFakeProvider({ respond: (_request: any, callIndex: number) => ({ content: `Reply ${callIndex}` }) });
+      const tokens: string[] = [];
+
+      const first = await provider.complete({ messages: [{ role: 'user', content: 'Hello there' }] });
+      const second = await provider.stream({ messages: [{ role: 'user', content: 'Hello there' }] }, {
+        onToken: (text: string) => tokens.push(text),
+      });
+
+      expect(first.message).toEqual({ role: 'assistant', content: 'Reply 1' });
+      expect(second.message).toEqual({ role: 'assistant', content: 'Reply 2' });
+      expect(tokens).toEqual(['Reply ', '2']);
+      expect(first.usage).toEqual(second.usage);
+      expect(first.usage.total_tokens).toBe(first.usage.prompt_tokens + first.usage.completion_tokens);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  confidenceForCount,
+  findMerchantTransactionsToRecategorize,
+  lookupMerchantCategory,
+  normalizeMerchant,
+} from '../../lib/merchantMemory';
+import { fetchAllRows } from '../../lib/supabase';
+
+// The server Supabase client needs credentials at import time
+vi.mock('../../lib/supabase', () => ({ fetchAllRows: vi.fn() }));
+
+// A query chain that records each filter it was given
+const createSupabase = () => {
+  const calls: any[] = [];
+  const chain: any = new Proxy({}, {
+    get: (_target, method: string) => (...args: any[]) => {
+      calls.push([method, ...args]);
+      return chain;
+    },
+  });
+  return { calls, from: (table: string) => { calls.push(['from', table]); return chain; } };
+};
+
+describe('merchantMemory', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('lookupMerchantCategory', () => {
+    const tx = { name: 'STARBUCKS STORE #1234', merchant_name: null };
+    const memoryAfter = (corrections: number) => new Map([
+      [normalizeMerchant(tx.name), { user_category_name: 'Coffee', confidence: confidenceForCount(corrections) }],
+    ]);
+
+    it('ignores a merchant the user has corrected only once', () => {
+      expect(lookupMerchantCategory(memoryAfter(1), tx)).toBeNull();
+    });
+
+    it('applies the category once the user has chosen it again', () => {
+      expect(lookupMerchantCategory(memoryAfter(2), tx)).toMatchObject({ user_category_name: 'Coffee' });
+    });
+  });
+
+  describe('findMerchantTransactionsToRecategorize', () => {
+    it('asks the database for the merchant instead of scanning every transaction', async () => {
+      const supabase = createSupabase();
+      vi.mocked(fetchAllRows).mockImplementation(async (query: any) => {
+        query();
+        return { data: [], error: null };
+      });
+
+      await findMerchantTransactionsToRecategorize(supabase, 'user-1', {
+        id: 'tx-1',
+        name: 'POS DEBIT Blue-Bottle Coffee 0423',
+        merchant_name: null,
+      });
+
+      expect(supabase.calls).toContainEqual(['or', 'merchant_name.ilike.%blue%bottle%coffee%,name.ilike.%blue%bottle%coffee%']);
+    });
+
+    it('keeps only same-merchant transactions with a different category', async () => {
+      const supabase = createSupabase();
+      vi.mocked(fetchAllRows).mockResolvedValue({
+        data: [
+          { id: 'same', name: 'Blue Bottle Coffee #7', merchant_name: null, user_category_name: 'Coffee' },
+          { id: 'other', name: 'Blue Bottle Coffee Roasters', merchant_name: null, user_category_name: 'Dining' },
+          { id: 'match', name: 'BLUE BOTTLE COFFEE 0511', merchant_name: null, user_category_name: 'Dining' },
+          { id: 'archived', name: 'Blue Bottle Coffee', merchant_name: null, user_category_name: 'Dining', accounts: { archived_at: '2026-05-01' } },
+        ],
+        error: null,
+      });
+
+      const { data } = await findMerchantTransactionsToRecategorize(supabase, 'user-1', {
+        id: 'tx-1',
+        name: 'Blue Bottle Coffee 0423',
+        merchant_name: null,
+        user_category_name: 'Coffee',
+      });
+
+      expect(data.map((tx) => tx.id)).toEqual(['match']);
+    });
+  });
+});
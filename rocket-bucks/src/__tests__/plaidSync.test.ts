@@ -0,0 +1,181 @@
+import { syncPlaidItem } from '../../lib/plaidSync';
+
+vi.mock('../../lib/supabase', () => ({ fetchAllRows: vi.fn(), createSupabaseClient: vi.fn() }));
+vi.mock('../../lib/balanceSnapshots', () => ({ recordBalanceSnapshots: vi.fn() }));
+vi.mock('../../lib/categorizationRules', () => ({ loadActiveRules: vi.fn(async () => []), getRuleUpdates: vi.fn() }));
+vi.mock('../../lib/merchantMemory', () => ({ loadMerchantMemory: vi.fn(async () => new Map()), lookupMerchantCategory: vi.fn() }));
+vi.mock('../../lib/transferMatcher', () => ({
+  TRANSFER_MATCH_WINDOW_DAYS: 5,
+  matchTransfers: vi.fn(async () => ({ matched_count: 0, review_count: 0 })),
+}));
+
+// Resolves each awaited query on a table to the next queued result for that table
+const createSupabase = (results: Record<string, any[]>) => {
+  const calls: { table: string; method: string; args: any[] }[] = [];
+  const from = (table: string) => {
+    const chain: any = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          const result = (results[table] || []).shift() || { data: null, error: null };
+          return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+        }
+        return (...args: any[]) => {
+          calls.push({ table, method, args });
+          return chain;
+        };
+      },
+    });
+    return chain;
+  };
+
+  return { calls, from: vi.fn(from) };
+};
+
+const plaidClient = (delta: { added?: any[]; modified?: any[]; removed?: any[] }) => ({
+  transactionsSync: vi.fn(async () => ({
+    data: { added: [], modified: [], removed: [], accounts: [], has_more: false, next_cursor: 'cursor-2', ...delta },
+  })),
+}) as any;
+
+const item = { id: 'item-1', institution_name: 'Bank', sync_cursor: 'cursor-1' };
+
+const plaidTx = (fields: Record<string, any>) => ({
+  account_id: 'plaid-acct',
+  date: '2026-03-02',
+  name: 'Corner Bistro',
+  pending: false,
+  ...fields,
+});
+
+describe('syncPlaidItem splits', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('moves the splits of a pending transaction to its posted version', async () => {
+    const supabase = createSupabase({
+      accounts: [{ data: [{ id: 'acct-1', account_id: 'plaid-acct' }], error: null }],
+      transactions: [
+        { data: [{ id: 'db-pending', transaction_id: 'pending-1', notes: 'Team lunch' }], error: null },
+        { data: [{ id: 'db-posted', transaction_id: 'posted-1' }], error: null },
+        { data: null, error: null },
+      ],
+      transaction_splits: [
+        { data: null, error: null },
+        { data: [{ transaction_id: 'db-posted', amount: 25 }, { transaction_id: 'db-posted', amount: 15 }], error: null },
+      ],
+    });
+
+    const result = await syncPlaidItem(
+      supabase,
+      plaidClient({
+        added: [plaidTx({ transaction_id: 'posted-1', pending_transaction_id: 'pending-1', amount: 40 })],
+        removed: [{ transaction_id: 'pending-1' }],
+      }),
+      item,
+      'access-token',
+      'user-1'
+    );
+
+    const splitCalls = supabase.calls.filter((call) => call.table === 'transaction_splits');
+    expect(splitCalls).toContainEqual({ table: 'transaction_splits', method: 'update', args: [{ transaction_id: 'db-posted' }] });
+    expect(splitCalls).toContainEqual({ table: 'transaction_splits', method: 'eq', args: ['transaction_id', 'db-pending'] });
+    expect(splitCalls.some((call) => call.method === 'delete')).toBe(false);
+    expect(result).toMatchObject({ added: 1, removed: 0, replaced_pending: 1 });
+
+    // The splits are moved before the pending row (and its cascade) is deleted
+    const moveIndex = supabase.calls.findIndex((call) => call.table === 'transaction_splits' && call.method === 'update');
+    const deleteIndex = supabase.calls.findIndex((call) => call.table === 'transactions' && call.method === 'delete');
+    expect(moveIndex).toBeLessThan(deleteIndex);
+  });
+
+  it('clears splits that no longer add up after Plaid changes the amount', async () => {
+    const supabase = createSupabase({
+      accounts: [{ data: [{ id: 'acct-1', account_id: 'plaid-acct' }], error: null }],
+      transactions: [{ data: [{ id: 'db-1', transaction_id: 'tx-1' }], error: null }],
+      transaction_splits: [
+        { data: [{ transaction_id: 'db-1', amount: 30 }, { transaction_id: 'db-1', amount: 20 }], error: null },
+        { data: null, error: null },
+      ],
+    });
+
+    await syncPlaidItem(
+      supabase,
+      plaidClient({ modified: [plaidTx({ transaction_id: 'tx-1', amount: 58.5 })] }),
+      item,
+      'access-token',
+      'user-1'
+    );
+
+    const splitCalls = supabase.calls.filter((call) => call.table === 'transaction_splits');
+    expect(splitCalls).toContainEqual({ table: 'transaction_splits', method: 'delete', args: [] });
+    expect(splitCalls).toContainEqual({ table: 'transaction_splits', method: 'in', args: ['transaction_id', ['db-1']] });
+  });
+
+  it('keeps splits that still add up after a modification', async () => {
+    const supabase = createSupabase({
+      accounts: [{ data: [{ id: 'acct-1', account_id: 'plaid-acct' }], error: null }],
+      transactions: [{ data: [{ id: 'db-1', transaction_id: 'tx-1' }], error: null }],
+      transaction_splits: [
+        { data: [{ transaction_id: 'db-1', amount: 30 }, { transaction_id: 'db-1', amount: 20 }], error: null },
+      ],
+    });
+
+    await syncPlaidItem(
+      supabase,
+      plaidClient({ modified: [plaidTx({ transaction_id: 'tx-1', amount: 50, name: 'Corner Bistro #2' })] }),
+      item,
+      'access-token',
+      'user-1'
+    );
+
+    expect(supabase.calls.some((call) => call.table === 'transaction_splits' && call.method === 'delete')).toBe(false);
+  });
+});
+
+describe('syncPlaidItem storage errors', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails when a refreshed balance cannot be saved', async () => {
+    const supabase = createSupabase({
+      accounts: [
+        { data: [{ id: 'acct-1', account_id: 'plaid-acct' }], error: null },
+        { data: null, error: { message: 'permission denied' } },
+      ],
+    });
+    const client = plaidClient({});
+    client.transactionsSync.mockResolvedValueOnce({
+      data: {
+        added: [], modified: [], removed: [], has_more: false, next_cursor: 'cursor-2',
+        accounts: [{ account_id: 'plaid-acct', balances: { current: 120, available: 100 } }],
+      },
+    });
+
+    await expect(syncPlaidItem(supabase, client, item, 'access-token', 'user-1')).rejects.toThrow(
+      'Failed to update account balances: permission denied'
+    );
+    expect(supabase.calls.some((call) => call.table === 'plaid_items')).toBe(false);
+  });
+
+  it('fails when the new cursor cannot be saved', async () => {
+    const supabase = createSupabase({
+      accounts: [{ data: [], error: null }],
+      plaid_items: [{ data: null, error: { message: 'connection reset' } }],
+    });
+
+    await expect(syncPlaidItem(supabase, plaidClient({}), item, 'access-token', 'user-1')).rejects.toThrow(
+      'Failed to save sync cursor: connection reset'
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { verifyPlaidWebhook } from '../../lib/plaidWebhook';
+
+const body = JSON.stringify({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' });
+const bodyHash = (text: string) => crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+// Plaid's key endpoint returns the public JWK, plus expired_at once a key is rotated out
+const createPlaidClient = (expiredAt: string | null = null) => ({
+  webhookVerificationKeyGet: vi.fn(async ({ key_id }: { key_id: string }) => ({
+    data: { key: { ...publicKey.export({ format: 'jwk' }), alg: 'ES256', kid: key_id, expired_at: expiredAt } },
+  })),
+}) as any;
+
+// A Plaid-Verification JWT, signed the way Plaid signs them
+const signToken = (
+  payload: Record<string, any>,
+  { kid = 'key-1', alg = 'ES256', key = privateKey }: { kid?: string; alg?: string; key?: crypto.KeyObject } = {}
+) => {
+  const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg, kid, typ: 'JWT' })}.${encode(payload)}`;
+  const signature = crypto.sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Verification keys are cached for the life of the module, so each test uses its own key id
+let keyCounter = 0;
+const nextKeyId = () => `key-${++keyCounter}`;
+
+describe('verifyPlaidWebhook', () => {
+  it('accepts a fresh ES256 token signed by Plaid for this body', async () => {
+    const kid = nextKeyId();
+    const token = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid });
+
+    await expect(verifyPlaidWebhook(createPlaidClient(), body, token)).resolves.toBe(true);
+  });
+
+  it('rejects a token signed with a different key', async () => {
+    const kid = nextKeyId();
+    const { privateKey: otherKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const token = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid, key: otherKey });
+
+    await expect(verifyPlaidWebhook(createPlaidClient(), body, token)).resolves.toBe(false);
+  });
+
+  it('rejects tokens that are not ES256, malformed or missing', async () => {
+    const client = createPlaidClient();
+    const hs256 = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: nextKeyId(), alg: 'HS256' });
+
+    await expect(verifyPlaidWebhook(client, body, hs256)).resolves.toBe(false);
+    await expect(verifyPlaidWebhook(client, body, 'not-a-jwt')).resolves.toBe(false);
+    await expect(verifyPlaidWebhook(client, body, undefined)).resolves.toBe(false);
+    expect(client.webhookVerificationKeyGet).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token issued more than five minutes ago', async () => {
+    const client = createPlaidClient();
+    const kid = nextKeyId();
+    const fresh = signToken({ iat: now() - 4 * 60, request_body_sha256: bodyHash(body) }, { kid });
+    const stale = signToken({ iat: now() - 5 * 60 - 1, request_body_sha256: bodyHash(body) }, { kid });
+
+    await expect(verifyPlaidWebhook(client, body, fresh)).resolves.toBe(true);
+    await expect(verifyPlaidWebhook(client, body, stale)).resolves.toBe(false);
+  });
+
+  it('rejects a body that does not match the signed SHA-256', async () => {
+    const token = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: nextKeyId() });
+    const tampered = body.replace('item-1', 'item-2');
+
+    await expect(verifyPlaidWebhook(createPlaidClient(), tampered, token)).resolves.toBe(false);
+  });
+
+  it('rejects a token whose key Plaid has expired', async () => {
+    const token = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: nextKeyId() });
+
+    await expect(verifyPlaidWebhook(createPlaidClient('2026-01-01T00:00:00Z'), body, token)).resolves.toBe(false);
+  });
+
+  it('reuses cached keys and fetches a key it has not seen', async () => {
+    const client = createPlaidClient();
+    const firstKid = nextKeyId();
+    const rotatedKid = nextKeyId();
+
+    await verifyPlaidWebhook(client, body, signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: firstKid }));
+    await verifyPlaidWebhook(client, body, signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: firstKid }));
+    expect(client.webhookVerificationKeyGet).toHaveBeenCalledTimes(1);
+
+    const rotated = signToken({ iat: now(), request_body_sha256: bodyHash(body) }, { kid: rotatedKid });
+    await expect(verifyPlaidWebhook(client, body, rotated)).resolves.toBe(true);
+    expect(client.webhookVerificationKeyGet).toHaveBeenCalledTimes(2);
+    expect(client.webhookVerificationKeyGet).toHaveBeenLastCalledWith({ key_id: rotatedKid });
+  });
+});
@@ -0,0 +1,123 @@
+import { EventEmitter } from 'events';
+import handler from '../../api/plaid/webhook';
+import { markItemHealthy, recordItemError, runRecurringChecks, syncItem } from '../../lib/itemSync';
+import { verifyPlaidWebhook } from '../../lib/plaidWebhook';
+
+const supabase = vi.hoisted(() => ({ item: null as any }));
+
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: () => {
+      const chain: any = {
+        select: () => chain,
+        eq: () => chain,
+        maybeSingle: async () => ({ data: supabase.item, error: null }),
+      };
+      return chain;
+    },
+  },
+}));
+
+vi.mock('../../lib/itemSync', () => ({
+  markItemHealthy: vi.fn(),
+  recordItemError: vi.fn(),
+  runRecurringChecks: vi.fn(),
+  syncItem: vi.fn(),
+}));
+
+vi.mock('../../lib/plaidWebhook', () => ({ verifyPlaidWebhook: vi.fn() }));
+
+// A request that streams its body the way Vercel does when bodyParser is off
+const createRequest = (payload: Record<string, any>, headers: Record<string, string> = { 'plaid-verification': 'signed.jwt.token' }) => {
+  const req: any = new EventEmitter();
+  req.method = 'POST';
+  req.headers = headers;
+  req.rawBody = JSON.stringify(payload);
+  setTimeout(() => {
+    req.emit('data', Buffer.from(req.rawBody));
+    req.emit('end');
+  });
+  return req;
+};
+
+const createResponse = () => {
+  const res: any = { statusCode: 200, body: undefined };
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: any) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+};
+
+const item = { id: 'db-item-1', item_id: 'item-1', user_id: 'user-1', institution_name: 'Bank' };
+
+describe('Plaid webhook handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    supabase.item = item;
+    vi.mocked(verifyPlaidWebhook).mockResolvedValue(true);
+    vi.mocked(syncItem).mockResolvedValue({ added: 2, modified: 1, removed: 0, replaced_pending: 0, cursor: 'cursor-2' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('verifies the exact body Plaid sent and rejects an invalid signature', async () => {
+    vi.mocked(verifyPlaidWebhook).mockResolvedValue(false);
+    const req = createRequest({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' });
+    const res = createResponse();
+
+    await handler(req, res);
+
+    expect(verifyPlaidWebhook).toHaveBeenCalledWith(expect.anything(), req.rawBody, 'signed.jwt.token');
+    expect(res.statusCode).toBe(401);
+    expect(syncItem).not.toHaveBeenCalled();
+  });
+
+  it('syncs just the named item when updates are available', async () => {
+    const res = createResponse();
+
+    await handler(createRequest({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' }), res);
+
+    expect(syncItem).toHaveBeenCalledWith(expect.anything(), expect.anything(), item, 'user-1');
+    expect(runRecurringChecks).toHaveBeenCalledWith(expect.anything(), 'user-1');
+    expect(res.body).toEqual({ received: true });
+  });
+
+  it('records item errors and repaired logins', async () => {
+    const error = { error_code: 'ITEM_LOGIN_REQUIRED' };
+
+    await handler(createRequest({ webhook_type: 'ITEM', webhook_code: 'ERROR', item_id: 'item-1', error }), createResponse());
+    await handler(createRequest({ webhook_type: 'ITEM', webhook_code: 'LOGIN_REPAIRED', item_id: 'item-1' }), createResponse());
+
+    expect(recordItemError).toHaveBeenCalledWith(expect.anything(), 'db-item-1', error);
+    expect(markItemHealthy).toHaveBeenCalledWith(expect.anything(), 'db-item-1');
+  });
+
+  it('acknowledges webhooks for items that no longer exist', async () => {
+    supabase.item = null;
+    const res = createResponse();
+
+    await handler(createRequest({ webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'gone' }), res);
+
+    expect(res.body).toEqual({ received: true });
+    expect(syncItem).not.toHaveBeenCalled();
+  });
+
+  it('answers 500 so Plaid retries when the sync fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(syncItem).mockRejectedValue(new Error('Failed to store transactions'));
+    const res = createResponse();
+
+    await handler(createRequest({ webhook_type: 'TRANSACTIONS', webhook_code: 'DEFAULT_UPDATE', item_id: 'item-1' }), res);
+
+    expect(res.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,87 @@
+import { reconcileStream } from '../../lib/recurringReconciliation';
+import { getPlaidStreamSchedule } from '../../lib/recurringStreams';
+
+// The server Supabase client needs credentials at import time
+vi.mock('../../lib/supabase', () => ({ fetchAllRows: vi.fn() }));
+
+const charge = (id: string, date: string, amount = 50) => ({
+  id,
+  date,
+  amount,
+  account_id: 'acc-1',
+  name: 'City Gym',
+  merchant_name: 'City Gym',
+  recurring_transaction_id: null,
+});
+
+// A stream as item sync stores it from Plaid
+const plaidStream = (plaidFrequency: string, lastDate: string) => ({
+  id: 'stream-1',
+  account_id: 'acc-1',
+  name: 'City Gym',
+  merchant_name: 'City Gym',
+  transaction_type: 'expense',
+  last_transaction_date: lastDate,
+  ...getPlaidStreamSchedule(plaidFrequency, lastDate),
+});
+
+describe('getPlaidStreamSchedule', () => {
+  it('maps each Plaid frequency to its first due date', () => {
+    expect(getPlaidStreamSchedule('WEEKLY', '2026-08-03')).toEqual({ frequency: 'weekly', next_due_date: '2026-08-10' });
+    expect(getPlaidStreamSchedule('BIWEEKLY', '2026-08-03')).toEqual({ frequency: 'biweekly', next_due_date: '2026-08-17' });
+    expect(getPlaidStreamSchedule('SEMI_MONTHLY', '2026-08-16')).toEqual({ frequency: 'semi_monthly', next_due_date: '2026-09-01' });
+    expect(getPlaidStreamSchedule('MONTHLY', '2026-01-31')).toEqual({ frequency: 'monthly', next_due_date: '2026-02-28' });
+    expect(getPlaidStreamSchedule('ANNUALLY', '2026-08-03')).toEqual({ frequency: 'annually', next_due_date: '2027-08-03' });
+  });
+
+  it('stores unknown frequencies as irregular with no due date', () => {
+    expect(getPlaidStreamSchedule('UNKNOWN', '2026-08-03')).toEqual({ frequency: 'irregular', next_due_date: null });
+    expect(getPlaidStreamSchedule('MONTHLY', null)).toEqual({ frequency: 'monthly', next_due_date: null });
+  });
+});
+
+describe('reconcileStream', () => {
+  it('keeps a biweekly Plaid stream that is paid every two weeks active', () => {
+    const stream = plaidStream('BIWEEKLY', '2026-08-03');
+    const charges = [
+      charge('tx-1', '2026-08-03'),
+      charge('tx-2', '2026-08-17'),
+      charge('tx-3', '2026-08-31'),
+      charge('tx-4', '2026-09-14'),
+    ];
+
+    const { changes, missed, payments } = reconcileStream(stream, charges, new Date('2026-09-20T12:00:00Z'));
+
+    expect(missed).toEqual([]);
+    expect(payments.map((payment) => payment.due_date)).toEqual(['2026-08-17', '2026-08-31', '2026-09-14']);
+    expect(changes).toMatchObject({ next_due_date: '2026-09-28', consecutive_missed: 0, missed_count: 0 });
+    expect(changes).not.toHaveProperty('is_active');
+    expect(changes).not.toHaveProperty('end_date');
+  });
+
+  it('keeps a semi-monthly Plaid stream that is paid on the 1st and 16th active', () => {
+    const stream = plaidStream('SEMI_MONTHLY', '2026-08-16');
+    const charges = [
+      charge('tx-1', '2026-08-16'),
+      charge('tx-2', '2026-09-01'),
+      charge('tx-3', '2026-09-16'),
+      charge('tx-4', '2026-10-01'),
+    ];
+
+    const { changes, missed, payments } = reconcileStream(stream, charges, new Date('2026-10-10T12:00:00Z'));
+
+    expect(missed).toEqual([]);
+    expect(payments.map((payment) => payment.due_date)).toEqual(['2026-09-01', '2026-09-16', '2026-10-01']);
+    expect(changes).toMatchObject({ next_due_date: '2026-10-16', consecutive_missed: 0 });
+    expect(changes).not.toHaveProperty('is_active');
+  });
+
+  it('still ends a biweekly stream that stops charging', () => {
+    const stream = plaidStream('BIWEEKLY', '2026-08-03');
+
+    const { changes, missed } = reconcileStream(stream, [charge('tx-1', '2026-08-03')], new Date('2026-09-20T12:00:00Z'));
+
+    expect(missed).toEqual(['2026-08-17', '2026-08-31', '2026-09-14']);
+    expect(changes).toMatchObject({ is_active: false, end_date: '2026-08-03', next_due_date: null });
+  });
+});
@@ -0,0 +1,209 @@
+import handler from '../../api/transactions';
+import { createSupabaseClient } from '../../lib/supabase';
+
+vi.mock('../../lib/supabase', () => ({
+  createSupabaseClient: vi.fn(),
+  fetchAllRows: vi.fn(async () => ({ data: [], error: null })),
+}));
+
+const PAGE_SIZE = 1000;
+
+// Resolves each awaited query on a table to the next queued result for that table
+const createSupabase = (results: Record<string, any[]>) => {
+  const calls: { table: string; method: string; args: any[] }[] = [];
+  const from = (table: string) => {
+    const chain: any = new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'then') {
+          const result = (results[table] || []).shift() || { data: null, error: null };
+          return (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+        }
+        return (...args: any[]) => {
+          calls.push({ table, method, args });
+          return chain;
+        };
+      },
+    });
+    return chain;
+  };
+
+  return {
+    calls,
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1', email: 'user@example.com' } }, error: null }) },
+    from: vi.fn(from),
+  };
+};
+
+const createResponse = () => {
+  const res: any = { statusCode: 200, headersSent: false, chunks: [] as string[], ended: false, destroyed: null };
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: any) => {
+    res.body = body;
+    return res;
+  });
+  res.setHeader = vi.fn();
+  res.write = vi.fn((chunk: string) => {
+    res.headersSent = true;
+    res.chunks.push(chunk);
+  });
+  res.end = vi.fn((chunk?: string) => {
+    if (chunk) res.chunks.push(chunk);
+    res.ended = true;
+  });
+  res.destroy = vi.fn((error: Error) => {
+    res.destroyed = error;
+  });
+  return res;
+};
+
+const request = (overrides: any = {}) => ({
+  method: 'GET',
+  headers: { authorization: 'Bearer token-1' },
+  query: {},
+  body: {},
+  ...overrides,
+});
+
+const exportRow = (index: number) => ({
+  id: `tx-${index}`,
+  date: '2026-03-01',
+  name: `Purchase ${index}`,
+  amount: 10,
+  accounts: { name: 'Checking' },
+});
+
+describe('transactions API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('export', () => {
+    it('streams every page and closes the file', async () => {
+      const supabase = createSupabase({
+        transactions: [
+          { data: Array.from({ length: PAGE_SIZE }, (_, index) => exportRow(index)), error: null },
+          { data: [exportRow(PAGE_SIZE)], error: null },
+        ],
+      });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({ query: { action: 'export', format: 'json' } }) as any, res);
+
+      expect(res.destroy).not.toHaveBeenCalled();
+      expect(res.ended).toBe(true);
+      expect(JSON.parse(res.chunks.join('')).transactions).toHaveLength(PAGE_SIZE + 1);
+    });
+
+    it('aborts the download instead of finishing the file when a later page fails', async () => {
+      const supabase = createSupabase({
+        transactions: [
+          { data: Array.from({ length: PAGE_SIZE }, (_, index) => exportRow(index)), error: null },
+          { data: null, error: { message: 'canceling statement due to statement timeout' } },
+        ],
+      });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({ query: { action: 'export', format: 'csv' } }) as any, res);
+
+      expect(res.destroy).toHaveBeenCalledWith(expect.any(Error));
+      expect(res.end).not.toHaveBeenCalled();
+      expect(res.chunks.join('')).toContain('Purchase 999');
+    });
+
+    it('returns JSON when the first page fails', async () => {
+      const supabase = createSupabase({ transactions: [{ data: null, error: { message: 'boom' } }] });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({ query: { action: 'export', format: 'csv' } }) as any, res);
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toEqual({ error: 'Failed to export transactions' });
+      expect(res.write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archived accounts', () => {
+    const archived = { id: 'tx-1', amount: 100, accounts: { archived_at: '2026-09-01T00:00:00Z' } };
+    const active = { id: 'tx-1', amount: 100, accounts: { archived_at: null } };
+
+    it('rejects edits to transactions in archived accounts', async () => {
+      const supabase = createSupabase({ transactions: [{ data: archived, error: null }] });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({
+        method: 'PATCH',
+        query: { transaction_id: 'tx-1' },
+        body: { user_category_name: 'Groceries' },
+      }) as any, res);
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toEqual({ error: 'Transactions in archived accounts are read-only' });
+      expect(supabase.calls.some((call) => call.method === 'update')).toBe(false);
+    });
+
+    it('still saves edits to transactions in active accounts', async () => {
+      const supabase = createSupabase({
+        transactions: [
+          { data: active, error: null },
+          { data: { id: 'tx-1', notes: 'Birthday gift' }, error: null },
+        ],
+      });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({ method: 'PATCH', query: { transaction_id: 'tx-1' }, body: { notes: 'Birthday gift' } }) as any, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ transaction: { id: 'tx-1', notes: 'Birthday gift' } });
+      expect(supabase.calls).toContainEqual({ table: 'transactions', method: 'update', args: [{ notes: 'Birthday gift' }] });
+    });
+
+    it('rejects splitting or unsplitting transactions in archived accounts', async () => {
+      const splits = [
+        { amount: 60, user_category_name: 'Groceries' },
+        { amount: 40, user_category_name: 'Household' },
+      ];
+
+      for (const method of ['PUT', 'DELETE']) {
+        const supabase: any = createSupabase({ transactions: [{ data: archived, error: null }] });
+        supabase.rpc = vi.fn();
+        vi.mocked(createSupabaseClient).mockReturnValue(supabase);
+        const res = createResponse();
+
+        await handler(request({ method, query: { action: 'splits', transaction_id: 'tx-1' }, body: { splits } }) as any, res);
+
+        expect(res.statusCode).toBe(400);
+        expect(res.body).toEqual({ error: 'Transactions in archived accounts are read-only' });
+        expect(supabase.rpc).not.toHaveBeenCalled();
+        expect(supabase.calls.some((call: any) => call.table === 'transaction_splits')).toBe(false);
+      }
+    });
+
+    it('still lists the splits of transactions in archived accounts', async () => {
+      const supabase = createSupabase({
+        transactions: [{ data: archived, error: null }],
+        transaction_splits: [{ data: [{ id: 'split-1', amount: 100 }], error: null }],
+      });
+      vi.mocked(createSupabaseClient).mockReturnValue(supabase as any);
+      const res = createResponse();
+
+      await handler(request({ query: { action: 'splits', transaction_id: 'tx-1' } }) as any, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).toEqual({ splits: [{ id: 'split-1', amount: 100 }] });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { findTransferPairs } from '../../lib/transferMatcher';
+
+// The server Supabase client needs credentials at import time
+vi.mock('../../lib/supabase', () => ({ fetchAllRows: vi.fn() }));
+
+const checking = { type: 'depository' };
+const savings = { type: 'depository' };
+const card = { type: 'credit' };
+
+const tx = (fields: Record<string, any>) => ({
+  pending: false,
+  transfer_to_account_id: null,
+  name: 'Purchase',
+  merchant_name: null,
+  plaid_primary_category: null,
+  transaction_categories: null,
+  ...fields,
+});
+
+describe('findTransferPairs', () => {
+  it('links a bank account paying a credit card', () => {
+    const outflow = tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 250, date: '2026-03-01' });
+    const inflow = tx({ id: 'in', account_id: 'card', accounts: card, amount: -250, date: '2026-03-03' });
+
+    const { matched, ambiguous } = findTransferPairs([outflow, inflow]);
+
+    expect(matched).toEqual([{ outflow, inflow, day_gap: 2 }]);
+    expect(ambiguous).toEqual([]);
+  });
+
+  it('links transfers between bank accounts when either side is described as one', () => {
+    const outflow = tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 500, date: '2026-03-01', name: 'Online Transfer to SAV 1234' });
+    const inflow = tx({ id: 'in', account_id: 'savings', accounts: savings, amount: -500, date: '2026-03-01', name: 'Deposit' });
+
+    expect(findTransferPairs([outflow, inflow]).matched).toHaveLength(1);
+  });
+
+  it('links pairs Plaid or the user categorized as a transfer or payment', () => {
+    const byPlaid = findTransferPairs([
+      tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 80, date: '2026-03-01', plaid_primary_category: 'Transfer' }),
+      tx({ id: 'in', account_id: 'savings', accounts: savings, amount: -80, date: '2026-03-01' }),
+    ]);
+    const byUser = findTransferPairs([
+      tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 80, date: '2026-03-01' }),
+      tx({ id: 'in', account_id: 'savings', accounts: savings, amount: -80, date: '2026-03-01', transaction_categories: { name: 'Transfer' } }),
+    ]);
+
+    expect(byPlaid.matched).toHaveLength(1);
+    expect(byUser.matched).toHaveLength(1);
+  });
+
+  it('sends unrelated same-amount transactions to review instead of linking them', () => {
+    const outflow = tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 42.5, date: '2026-03-01', name: 'Grocery Store' });
+    const inflow = tx({ id: 'in', account_id: 'savings', accounts: savings, amount: -42.5, date: '2026-03-02', name: 'Refund' });
+
+    const { matched, ambiguous } = findTransferPairs([outflow, inflow]);
+
+    expect(matched).toEqual([]);
+    expect(ambiguous).toEqual([{ outflow, inflow, day_gap: 1 }]);
+  });
+
+  it('sends pairs with more than one candidate to review even when they look like transfers', () => {
+    const outflow = tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 100, date: '2026-03-01' });
+    const first = tx({ id: 'in-1', account_id: 'card', accounts: card, amount: -100, date: '2026-03-02' });
+    const second = tx({ id: 'in-2', account_id: 'card-2', accounts: card, amount: -100, date: '2026-03-03' });
+
+    const { matched, ambiguous } = findTransferPairs([outflow, first, second]);
+
+    expect(matched).toEqual([]);
+    expect(ambiguous.map(({ inflow }) => inflow.id)).toEqual(['in-1', 'in-2']);
+  });
+
+  it('leaves transactions in archived accounts alone', () => {
+    const outflow = tx({ id: 'out', account_id: 'checking', accounts: checking, amount: 250, date: '2026-03-01' });
+    const inflow = tx({ id: 'in', account_id: 'card', accounts: { ...card, archived_at: '2026-09-01T00:00:00Z' }, amount: -250, date: '2026-03-03' });
+
+    expect(findTransferPairs([outflow, inflow])).toEqual({ matched: [], ambiguous: [] });
+  });
+});
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import {
+  AI_PRIVACY_OPTIONS,
+  AUDIT_ROLE_LABELS,
+  AUDIT_STATUS_LABELS,
+  type AIContextAuditEntry,
+  type AIContextAuditMessage,
+  type AIPrivacyLevel,
+} from '../utils/aiPrivacy';
+
+const AUDIT_LIMIT = 20;
+
+const levelLabel = (level: AIPrivacyLevel) =>
+  AI_PRIVACY_OPTIONS.find((option) => option.value === level)?.label || level;
+
+const describeMessage = (message: AIContextAuditMessage) => {
+  const calls = (message.tool_calls || [])
+    .map((call) => `Asked for ${call.function?.name || 'a query'} ${call.function?.arguments || ''}`.trim())
+    .join('\n');
+  return [message.content, calls].filter(Boolean).join('\n');
+};
+
+/**
+ * The AI advisor's privacy setting, and a log of exactly what it sent to the model
+ */
+const AIPrivacyPanel = () => {
+  const [level, setLevel] = useState<AIPrivacyLevel | null>(null);
+  const [entries, setEntries] = useState<AIContextAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getAIPrivacy(), api.getAIContextAudit({ limit: AUDIT_LIMIT })])
+      .then(([privacy, audit]) => {
+        setLevel(privacy.privacy_level);
+        setEntries(audit.entries || []);
+      })
+      .catch((error) => {
+        console.error('Error loading AI privacy settings:', error);
+        setError(error.message || 'Failed to load AI privacy settings');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const changeLevel = async (nextLevel: AIPrivacyLevel) => {
+    const previous = level;
+    setLevel(nextLevel);
+    setSaved(false);
+    setError(null);
+
+    try {
+      setSaving(true);
+      const { privacy_level } = await api.updateAIPrivacy(nextLevel);
+      setLevel(privacy_level);
+      setSaved(true);
+    } catch (error: any) {
+      console.error('Error updating AI privacy setting:', error);
+      setLevel(previous);
+      setError(error.message || 'Failed to update AI privacy setting');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <h3 className="font-bold text-gray-900 mb-2">AI advisor privacy</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        The AI advisor sends a snapshot of your finances, and the results of any lookups it runs, to an outside
+        AI model. Choose how much detail it may share. What you type yourself is sent as written, except for the
+        names of your accounts, banks and merchants when names are anonymized.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading privacy settings...</p>
+      ) : (
+        <>
+          <fieldset className="space-y-2 mb-2" disabled={saving || !level}>
+            <legend className="sr-only">What the AI advisor may share</legend>
+            {AI_PRIVACY_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                  level === option.value ? 'border-red-300 bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="ai-privacy-level"
+                  value={option.value}
+                  checked={level === option.value}
+                  onChange={() => changeLevel(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-600">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+          <p className="text-sm text-green-700 h-5">{saved && !saving ? '✓ Saved. Applies to your next question.' : ''}</p>
+
+          <h4 className="font-semibold text-gray-900 mt-4 mb-2">What was shared</h4>
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing has been sent to the AI model yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li key={entry.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      {entry.conversation_title || 'AI advisor question'}
+                    </span>
+                    <span className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    {levelLabel(entry.privacy_level)} · {entry.model} via {entry.provider} · {AUDIT_STATUS_LABELS[entry.status]}
+                    {entry.token_usage ? ` · ${entry.token_usage.total_tokens.toLocaleString()} tokens` : ''}
+                  </p>
+                  <details className="mt-2">
+                    <summary className="text-xs text-red-600 cursor-pointer">View what was sent</summary>
+                    <ol className="mt-2 space-y-2">
+                      {entry.sent_messages.map((message, index) => (
+                        <li key={index} className="text-xs">
+                          <p className="font-medium text-gray-700">{AUDIT_ROLE_LABELS[message.role] || message.role}</p>
+                          <pre className="whitespace-pre-wrap break-words bg-gray-50 rounded p-2 text-gray-800 font-sans">
+                            {describeMessage(message)}
+                          </pre>
+                        </li>
+                      ))}
+                    </ol>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AIPrivacyPanel;
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+import { AMOUNT_CHANGE_LABELS, DEFAULT_AMOUNT_ALERT_THRESHOLD, formatAmountChange } from '../utils/amountAlerts';
+
+interface AmountHistoryPanelProps {
+  recurring: any;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const AmountHistoryPanel = ({ recurring, onClose, onSaved }: AmountHistoryPanelProps) => {
+  const [changes, setChanges] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [threshold, setThreshold] = useState<string>(
+    recurring.amount_alert_threshold != null ? String(recurring.amount_alert_threshold) : ''
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChanges = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { changes } = await api.getRecurringAmountChanges({ recurring_id: recurring.id });
+      setChanges(changes || []);
+    } catch (error: any) {
+      console.error('Error loading amount changes:', error);
+      setError(error.message || 'Failed to load price history');
+    } finally {
+      setLoading(false);
+    }
+  }, [recurring.id]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const updateChange = async (changeId: string, status: 'new' | 'dismissed') => {
+    try {
+      setError(null);
+      await api.updateAmountChange(changeId, status);
+      setChanges(changes.map(change => (change.id === changeId ? { ...change, status } : change)));
+      onSaved?.();
+    } catch (error: any) {
+      console.error('Error updating amount change:', error);
+      setError(error.message || 'Failed to update alert');
+    }
+  };
+
+  const saveThreshold = async () => {
+    const value = threshold.trim() === '' ? null : Number(threshold);
+    if (value !== null && (!Number.isFinite(value) || value <= 0 || value >= 1000)) {
+      setError('Enter a percentage between 0 and 1000');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      await api.setAmountAlertThreshold(recurring.id, value);
+      const { detected_count } = await api.detectRecurringAmountChanges(recurring.id);
+      await loadChanges();
+      setMessage(
+        detected_count > 0
+          ? `Threshold saved. Found ${detected_count} new charge${detected_count !== 1 ? 's' : ''} above it.`
+          : 'Threshold saved'
+      );
+      onSaved?.();
+    } catch (error: any) {
+      console.error('Error saving alert threshold:', error);
+      setError(error.message || 'Failed to save threshold');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">{recurring.name} price history</h2>
+          <p className="text-sm text-gray-500">
+            Usually ${Number(recurring.average_amount || recurring.expected_amount || 0).toFixed(2)} {recurring.frequency || 'monthly'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close price history"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+      )}
+
+      <div className="flex items-end gap-3 mb-6">
+        <div>
+          <label htmlFor="amount-alert-threshold" className="block text-sm font-medium text-gray-700 mb-1">
+            Alert threshold (%)
+          </label>
+          <input
+            id="amount-alert-threshold"
+            type="number"
+            min="0"
+            step="0.5"
+            value={threshold}
+            placeholder={String(DEFAULT_AMOUNT_ALERT_THRESHOLD)}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+        </div>
+        <button
+          onClick={saveThreshold}
+          disabled={saving}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save threshold'}
+        </button>
+      </div>
+      <p className="-mt-4 mb-6 text-xs text-gray-500">
+        Charges more than this far above the usual amount are flagged. Leave blank for the default ({DEFAULT_AMOUNT_ALERT_THRESHOLD}%).
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-600">Loading...</p>
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-gray-600">No charges above the usual amount</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {changes.map(change => (
+            <div key={change.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {AMOUNT_CHANGE_LABELS[change.kind] || 'Amount change'} · {formatDate(change.transaction_date)}
+                </p>
+                <p className={`text-xs ${change.status === 'new' ? 'text-orange-700' : 'text-gray-500'}`}>
+                  {formatAmountChange(change)}
+                </p>
+              </div>
+              <button
+                onClick={() => updateChange(change.id, change.status === 'new' ? 'dismissed' : 'new')}
+                className="text-sm font-medium text-blue-600 hover:underline"
+              >
+                {change.status === 'new' ? 'Dismiss' : 'Restore'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AmountHistoryPanel;
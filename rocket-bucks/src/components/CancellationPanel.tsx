@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { api } from '../utils/api';
+
+interface CancellationPanelProps {
+  recurring: any;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+type CancellationMethod = 'website' | 'email' | 'phone' | 'mail' | 'in_app' | 'other';
+
+const METHOD_OPTIONS: { value: CancellationMethod; label: string; contactLabel: string }[] = [
+  { value: 'website', label: 'Website', contactLabel: 'Cancellation page URL' },
+  { value: 'email', label: 'Email', contactLabel: 'Email address' },
+  { value: 'phone', label: 'Phone', contactLabel: 'Phone number' },
+  { value: 'mail', label: 'Mail', contactLabel: 'Mailing address' },
+  { value: 'in_app', label: 'In the app', contactLabel: 'Where to find it' },
+  { value: 'other', label: 'Other', contactLabel: 'Details' },
+];
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const CancellationPanel = ({ recurring, onClose, onSaved }: CancellationPanelProps) => {
+  const [method, setMethod] = useState<CancellationMethod>(recurring.cancellation_method || 'website');
+  const [contact, setContact] = useState<string>(recurring.cancellation_contact || '');
+  const [deadline, setDeadline] = useState<string>(recurring.cancellation_deadline || recurring.next_due_date || '');
+  const [cancelDate, setCancelDate] = useState<string>(recurring.cancel_date || today());
+  const [draftFormat, setDraftFormat] = useState<'email' | 'letter'>(method === 'mail' ? 'letter' : 'email');
+  const [draft, setDraft] = useState<{ to: string | null; subject: string; body: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const status = recurring.cancellation_status;
+  const contactLabel = METHOD_OPTIONS.find(option => option.value === method)?.contactLabel || 'Details';
+
+  const runUpdate = async (update: () => Promise<unknown>, failure: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      await update();
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error updating cancellation:', error);
+      setError(error.message || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const requestCancellation = () =>
+    runUpdate(
+      () => api.requestCancellation(recurring.id, {
+        method,
+        contact: contact.trim() || undefined,
+        deadline: deadline || undefined,
+        cancel_date: cancelDate || undefined,
+      }),
+      'Failed to request cancellation'
+    );
+
+  const withdrawCancellation = () => {
+    if (!confirm(`Stop tracking the cancellation of ${recurring.name}?`)) {
+      return;
+    }
+    runUpdate(() => api.withdrawCancellation(recurring.id), 'Failed to withdraw cancellation');
+  };
+
+  const generateDraft = async () => {
+    try {
+      setDrafting(true);
+      setError(null);
+      setMessage(null);
+      const { draft: generated } = await api.getCancellationDraft(recurring.id, draftFormat);
+      setDraft(generated);
+    } catch (error: any) {
+      console.error('Error drafting cancellation:', error);
+      setError(error.message || 'Failed to draft cancellation');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  const copyDraft = async () => {
+    if (!draft) return;
+    try {
+      await navigator.clipboard.writeText(draftFormat === 'email' ? `Subject: ${draft.subject}\n\n${draft.body}` : draft.body);
+      setMessage('Copied to clipboard');
+    } catch (error) {
+      console.error('Error copying draft:', error);
+      setError('Could not copy the draft. Select the text and copy it instead.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Cancel {recurring.name}</h2>
+          <p className="text-sm text-gray-500">
+            ${Number(recurring.expected_amount || 0).toFixed(2)} {recurring.frequency || 'monthly'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close cancellation"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+      )}
+
+      {status === 'charged_after_cancel' && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+          <p className="font-medium">
+            ⚠️ Charged after cancelling
+            {recurring.post_cancel_transaction &&
+              `: $${Number(recurring.post_cancel_transaction.amount).toFixed(2)} on ${formatDate(recurring.post_cancel_transaction.date)}`}
+          </p>
+          <p className="mt-1">
+            You asked to cancel as of {formatDate(recurring.cancel_date)}. Contact {recurring.name} to stop the charges and ask for a refund.
+          </p>
+        </div>
+      )}
+      {status === 'cancel_requested' && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          Cancel requested. Charges after {formatDate(recurring.cancel_date)} will be flagged, and the cancellation is
+          confirmed once a billing period passes without one.
+        </div>
+      )}
+      {status === 'cancelled' && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-700">
+          ✓ Cancelled as of {formatDate(recurring.cancel_date)}. No charges have arrived since.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="cancellation-method" className="block text-sm font-medium text-gray-700 mb-1">How to cancel</label>
+          <select
+            id="cancellation-method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CancellationMethod)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {METHOD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="cancellation-contact" className="block text-sm font-medium text-gray-700 mb-1">{contactLabel}</label>
+          <input
+            id="cancellation-contact"
+            type="text"
+            value={contact}
+            onChange={(e) => setContact(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="cancellation-deadline" className="block text-sm font-medium text-gray-700 mb-1">Cancel by</label>
+          <input
+            id="cancellation-deadline"
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="cancellation-date" className="block text-sm font-medium text-gray-700 mb-1">Cancelled as of</label>
+          <input
+            id="cancellation-date"
+            type="date"
+            value={cancelDate}
+            onChange={(e) => setCancelDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+        </div>
+      </div>
+
+      <div className="mt-6 border-t border-gray-100 pt-4">
+        <div className="flex items-center gap-3">
+          <p className="text-sm font-medium text-gray-700">Draft a cancellation</p>
+          <select
+            value={draftFormat}
+            onChange={(e) => setDraftFormat(e.target.value as 'email' | 'letter')}
+            aria-label="Draft format"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            <option value="email">Email</option>
+            <option value="letter">Letter</option>
+          </select>
+          <button
+            onClick={generateDraft}
+            disabled={drafting}
+            className="text-sm font-medium text-blue-600 hover:underline disabled:opacity-50"
+          >
+            {drafting ? 'Drafting...' : 'Write draft'}
+          </button>
+        </div>
+        {draft && (
+          <div className="mt-3">
+            {draftFormat === 'email' && (
+              <p className="text-sm text-gray-600 mb-2">
+                {draft.to && <>To: {draft.to} · </>}Subject: {draft.subject}
+              </p>
+            )}
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={10}
+              aria-label="Cancellation draft"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <button onClick={copyDraft} className="mt-2 text-sm font-medium text-blue-600 hover:underline">
+              Copy draft
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-6">
+        {status && (
+          <button
+            onClick={withdrawCancellation}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Withdraw request
+          </button>
+        )}
+        {status === 'charged_after_cancel' && (
+          <button
+            onClick={() => runUpdate(() => api.updateCancellationStatus(recurring.id, 'cancel_requested'), 'Failed to update cancellation')}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Keep watching
+          </button>
+        )}
+        {status && status !== 'cancelled' && (
+          <button
+            onClick={() => runUpdate(() => api.updateCancellationStatus(recurring.id, 'cancelled'), 'Failed to update cancellation')}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Mark cancelled
+          </button>
+        )}
+        <button
+          onClick={requestCancellation}
+          disabled={saving}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          {status ? 'Update request' : 'Request cancellation'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CancellationPanel;
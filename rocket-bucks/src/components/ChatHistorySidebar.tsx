@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
+import { api } from '../utils/api';
+import { formatConversationDate, type ChatConversation } from '../utils/chatConversations';
+
+interface ChatHistorySidebarProps {
+  activeId: string | null;
+  // Bump to reload the list, e.g. after a message starts or continues a thread
+  refreshKey: number;
+  onSelect: (conversation: ChatConversation) => void;
+  onNewChat: () => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+/**
+ * Saved advisor threads with search, rename and delete
+ */
+const ChatHistorySidebar = ({ activeId, refreshKey, onSelect, onNewChat, onDeleted }: ChatHistorySidebarProps) => {
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    api.getChatConversations(search || undefined)
+      .then((data) => {
+        setConversations(data.conversations || []);
+        setError(null);
+      })
+      .catch((error) => {
+        console.error('Error loading conversations:', error);
+        setError(error.message || 'Failed to load conversations');
+      })
+      .finally(() => setLoading(false));
+  }, [search, refreshKey]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const clearSearch = () => {
+    setSearchInput('');
+    setSearch('');
+  };
+
+  const startRename = (conversation: ChatConversation) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const saveRename = async (e: FormEvent) => {
+    e.preventDefault();
+    const title = editTitle.trim();
+    if (!editingId || !title) return;
+
+    try {
+      const { conversation } = await api.renameChatConversation(editingId, title);
+      setConversations((prev) => prev.map((item) => (item.id === conversation.id ? { ...item, title: conversation.title } : item)));
+      setEditingId(null);
+    } catch (error: any) {
+      console.error('Error renaming conversation:', error);
+      setError(error.message || 'Failed to rename conversation');
+    }
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  const deleteConversation = async (conversation: ChatConversation) => {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await api.deleteChatConversation(conversation.id);
+      setConversations((prev) => prev.filter((item) => item.id !== conversation.id));
+      onDeleted(conversation.id);
+    } catch (error: any) {
+      console.error('Error deleting conversation:', error);
+      setError(error.message || 'Failed to delete conversation');
+    }
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 border-r border-gray-200 bg-white flex flex-col">
+      <div className="p-4 border-b border-gray-200 space-y-3">
+        <button
+          onClick={onNewChat}
+          className="w-full px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700"
+        >
+          + New chat
+        </button>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+          {search && (
+            <button type="button" onClick={clearSearch} className="text-xs text-gray-600 hover:text-gray-900">
+              Clear
+            </button>
+          )}
+        </form>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {error && (
+          <div className="m-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+        )}
+        {loading && conversations.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">Loading conversations...</p>
+        ) : conversations.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">
+            {search ? `No conversations mention "${search}".` : 'Your conversations will appear here.'}
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={`group rounded-lg ${conversation.id === activeId ? 'bg-red-50' : 'hover:bg-gray-50'}`}
+              >
+                {editingId === conversation.id ? (
+                  <form onSubmit={saveRename} className="p-2">
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      aria-label="Conversation title"
+                      maxLength={120}
+                      autoFocus
+                      className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                    />
+                  </form>
+                ) : (
+                  <div className="flex items-start gap-1 p-2">
+                    <button
+                      onClick={() => onSelect(conversation)}
+                      className="flex-1 min-w-0 text-left"
+                      aria-current={conversation.id === activeId ? 'true' : undefined}
+                    >
+                      <p className="text-sm font-medium text-gray-900 truncate">{conversation.title}</p>
+                      {conversation.snippet && (
+                        <p className="text-xs text-gray-600 line-clamp-2">{conversation.snippet}</p>
+                      )}
+                      <p className="text-xs text-gray-500">{formatConversationDate(conversation.updated_at)}</p>
+                    </button>
+                    <button
+                      onClick={() => startRename(conversation)}
+                      aria-label={`Rename ${conversation.title}`}
+                      className="px-1 text-xs text-gray-400 hover:text-gray-700"
+                    >
+                      ✎
+                    </button>
+                    <button
+                      onClick={() => deleteConversation(conversation)}
+                      aria-label={`Delete ${conversation.title}`}
+                      className="px-1 text-xs text-gray-400 hover:text-red-600"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ChatHistorySidebar;
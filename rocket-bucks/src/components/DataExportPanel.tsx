@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { api } from '../utils/api';
+
+interface DataExportPanelProps {
+  className?: string;
+}
+
+/**
+ * Download a copy of everything stored for the user
+ */
+const DataExportPanel = ({ className = 'bg-white rounded-2xl shadow-sm p-6 mb-6' }: DataExportPanelProps) => {
+  const [format, setFormat] = useState<'zip' | 'json'>('zip');
+  const [exporting, setExporting] = useState(false);
+  const [exported, setExported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const blob = await api.exportAllData(format);
+
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+      link.setAttribute('href', url);
+      link.setAttribute('download', `rocket-bucks-export-${new Date().toISOString().split('T')[0]}.${format}`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setExported(true);
+    } catch (error: any) {
+      console.error('Error exporting data:', error);
+      setError(error.message || 'Failed to export data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <h3 className="font-bold text-gray-900 mb-2">Download your data</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Get a copy of your profile, accounts, balance history, transactions, categories, rules, budgets and
+        recurring streams. The ZIP has one file per kind of data plus a transactions spreadsheet; JSON puts
+        everything in a single file.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="data-export-format" className="text-sm font-medium text-gray-700">Format</label>
+        <select
+          id="data-export-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as 'zip' | 'json')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          <option value="zip">ZIP</option>
+          <option value="json">JSON</option>
+        </select>
+        <button
+          onClick={download}
+          disabled={exporting}
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 disabled:opacity-50"
+        >
+          {exporting ? 'Preparing export...' : 'Download my data'}
+        </button>
+        {exported && !exporting && <span className="text-sm text-green-700">✓ Download started</span>}
+      </div>
+    </div>
+  );
+};
+
+export default DataExportPanel;
@@ -0,0 +1,411 @@
+import { useState } from 'react';
+import { api } from '../utils/api';
+
+interface ImportPanelProps {
+  accounts: any[];
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+type ImportFormat = 'csv' | 'ofx' | 'qfx';
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+const NEW_ACCOUNT = 'new';
+
+const ACCOUNT_TYPES = [
+  { value: 'depository', label: 'Cash, checking or savings' },
+  { value: 'credit', label: 'Credit card' },
+  { value: 'loan', label: 'Loan' },
+  { value: 'investment', label: 'Investment' },
+];
+
+// Fields the user maps to CSV columns, in the order shown
+const MAPPING_FIELDS = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'name', label: 'Description', required: true },
+  { key: 'amount', label: 'Amount', required: false },
+  { key: 'debit', label: 'Debit (money out)', required: false },
+  { key: 'credit', label: 'Credit (money in)', required: false },
+  { key: 'merchant_name', label: 'Merchant', required: false },
+  { key: 'notes', label: 'Notes', required: false },
+];
+
+const formatAmount = (value: number) => `${value > 0 ? '-' : '+'}$${Math.abs(value).toFixed(2)}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const detectFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'csv' || extension === 'ofx' || extension === 'qfx' ? extension : null;
+};
+
+const readFileText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(new Error('Could not read the file'));
+    reader.readAsText(file);
+  });
+
+const ImportPanel = ({ accounts, onClose, onImported }: ImportPanelProps) => {
+  // Plaid accounts are filled by sync, so only manual accounts take imports
+  const manualAccounts = accounts.filter(account => !account.plaid_item_id);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [content, setContent] = useState('');
+  const [accountId, setAccountId] = useState<string>(manualAccounts[0]?.id || NEW_ACCOUNT);
+  const [accountName, setAccountName] = useState('');
+  const [accountType, setAccountType] = useState('depository');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sampleRows, setSampleRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, any>>({});
+  const [preview, setPreview] = useState<any | null>(null);
+  const [result, setResult] = useState<any | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const chooseFile = async (file: File | undefined) => {
+    setError(null);
+    if (!file) return;
+
+    const fileFormat = detectFormat(file.name);
+    if (!fileFormat) {
+      setError('Choose a .csv, .ofx or .qfx file');
+      return;
+    }
+
+    try {
+      setContent(await readFileText(file));
+      setFileName(file.name);
+      setFormat(fileFormat);
+    } catch (error: any) {
+      setError(error.message);
+    }
+  };
+
+  const buildRequest = (dryRun: boolean) => ({
+    format: format as ImportFormat,
+    content,
+    ...(format === 'csv' && step !== 'upload' ? { mapping } : {}),
+    ...(accountId === NEW_ACCOUNT
+      ? { account_name: accountName.trim() || undefined, account_type: format === 'csv' ? accountType : undefined }
+      : { account_id: accountId }),
+    dry_run: dryRun,
+  });
+
+  const loadPreview = async () => {
+    if (!format) {
+      setError('Choose a file to import');
+      return;
+    }
+    // OFX and QFX files name their own account
+    if (accountId === NEW_ACCOUNT && format === 'csv' && !accountName.trim()) {
+      setError('Name the new account');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      setError(null);
+      const response = await api.importTransactions(buildRequest(true));
+
+      if (response.headers) {
+        setHeaders(response.headers);
+        setSampleRows(response.sample_rows || []);
+        setMapping(response.suggested_mapping || {});
+        setStep('mapping');
+      } else {
+        setPreview(response);
+        setStep('preview');
+      }
+    } catch (error: any) {
+      console.error('Error previewing import:', error);
+      setError(error.message || 'Failed to read the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const commitImport = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      const response = await api.importTransactions(buildRequest(false));
+      setResult(response);
+      setStep('done');
+      onImported?.();
+    } catch (error: any) {
+      console.error('Error importing transactions:', error);
+      setError(error.message || 'Failed to import transactions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const updateMapping = (key: string, value: any) => {
+    setMapping(prev => ({ ...prev, [key]: value }));
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Import transactions</h2>
+          <p className="text-sm text-gray-500">
+            Add transactions from a CSV, OFX or QFX file for cash or accounts Plaid can't connect to.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close import"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-1">File</label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.ofx,.qfx"
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+              className="block text-sm text-gray-700"
+            />
+            {fileName && <p className="text-xs text-gray-500 mt-1">{fileName}</p>}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="import-account" className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+              <select id="import-account" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                {manualAccounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+                <option value={NEW_ACCOUNT}>New manual account</option>
+              </select>
+            </div>
+            {accountId === NEW_ACCOUNT && (
+              <>
+                <div>
+                  <label htmlFor="import-account-name" className="block text-sm font-medium text-gray-700 mb-1">Account name</label>
+                  <input
+                    id="import-account-name"
+                    type="text"
+                    value={accountName}
+                    onChange={(e) => setAccountName(e.target.value)}
+                    placeholder={format === 'csv' ? 'e.g. Cash wallet' : 'From the statement'}
+                    className={inputClass}
+                  />
+                </div>
+                {format !== 'ofx' && format !== 'qfx' && (
+                  <div>
+                    <label htmlFor="import-account-type" className="block text-sm font-medium text-gray-700 mb-1">Account type</label>
+                    <select id="import-account-type" value={accountType} onChange={(e) => setAccountType(e.target.value)} className={inputClass}>
+                      {ACCOUNT_TYPES.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={loadPreview}
+              disabled={working || !format}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+            >
+              {working ? 'Reading...' : 'Continue'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'mapping' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">Match the columns in {fileName} to transaction fields.</p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {MAPPING_FIELDS.map(field => (
+              <div key={field.key}>
+                <label htmlFor={`import-map-${field.key}`} className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <select
+                  id={`import-map-${field.key}`}
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => updateMapping(field.key, e.target.value === '' ? null : Number(e.target.value))}
+                  className={inputClass}
+                >
+                  <option value="">{field.required ? 'Choose a column' : 'Not in file'}</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{mapping.has_header === false ? `Column ${index + 1}` : header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label htmlFor="import-map-sign" className="block text-sm font-medium text-gray-700 mb-1">Amounts</label>
+              <select
+                id="import-map-sign"
+                value={mapping.amount_sign || 'negative_is_expense'}
+                onChange={(e) => updateMapping('amount_sign', e.target.value)}
+                className={inputClass}
+              >
+                <option value="negative_is_expense">Negative means money out</option>
+                <option value="positive_is_expense">Positive means money out</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="import-map-date-format" className="block text-sm font-medium text-gray-700 mb-1">Date format</label>
+              <select
+                id="import-map-date-format"
+                value={mapping.date_format || 'auto'}
+                onChange={(e) => updateMapping('date_format', e.target.value)}
+                className={inputClass}
+              >
+                <option value="auto">Detect</option>
+                <option value="mdy">Month/Day/Year</option>
+                <option value="dmy">Day/Month/Year</option>
+                <option value="ymd">Year-Month-Day</option>
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={mapping.has_header !== false}
+              onChange={(e) => updateMapping('has_header', e.target.checked)}
+            />
+            First row is a header
+          </label>
+
+          {sampleRows.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-xs text-gray-700">
+                <tbody>
+                  {sampleRows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-b border-gray-100 last:border-0">
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-3 py-2 whitespace-nowrap">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setStep('upload')}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={loadPreview}
+              disabled={working}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+            >
+              {working ? 'Reading...' : 'Preview'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && preview && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            {preview.new_count} new transaction{preview.new_count !== 1 ? 's' : ''} for{' '}
+            <span className="font-medium">{preview.account?.name}</span>
+            {preview.account?.is_new ? ' (new account)' : ''}
+            {preview.duplicate_count > 0 && `, ${preview.duplicate_count} already imported`}
+            {preview.error_count > 0 && `, ${preview.error_count} row${preview.error_count !== 1 ? 's' : ''} couldn't be read`}
+          </p>
+
+          {preview.errors?.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-1">
+              {preview.errors.slice(0, 5).map((rowError: any) => (
+                <li key={rowError.row}>Row {rowError.row}: {rowError.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2">Date</th>
+                  <th className="px-3 py-2">Description</th>
+                  <th className="px-3 py-2">Category</th>
+                  <th className="px-3 py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.transactions.map((tx: any) => (
+                  <tr key={tx.transaction_id} className={`border-t border-gray-100 ${tx.duplicate ? 'text-gray-400' : 'text-gray-900'}`}>
+                    <td className="px-3 py-2 whitespace-nowrap">{formatDate(tx.date)}</td>
+                    <td className="px-3 py-2">
+                      {tx.name}
+                      {tx.duplicate && (
+                        <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-500 rounded text-xs">Already imported</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{tx.user_category_name || 'Uncategorized'}</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">{formatAmount(tx.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.total_count > preview.transactions.length && (
+            <p className="text-xs text-gray-500">Showing the first {preview.transactions.length} of {preview.total_count} rows.</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setStep(format === 'csv' ? 'mapping' : 'upload')}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={commitImport}
+              disabled={working || preview.new_count === 0}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${preview.new_count} transaction${preview.new_count !== 1 ? 's' : ''}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{result.message}</div>
+          <div className="flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import PlaidLink from './PlaidLink';
+import { api } from '../utils/api';
+import { formatLastSynced, ITEM_STATUS_LABELS, needsReconnect, type PlaidItemHealth } from '../utils/itemHealth';
+
+interface ItemHealthListProps {
+  items: PlaidItemHealth[];
+  onReconnected: () => void;
+  // Shows an Unlink button for each institution
+  onUnlink?: (item: PlaidItemHealth) => void;
+  // Only list institutions that need attention
+  problemsOnly?: boolean;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  healthy: 'text-green-600',
+  login_required: 'text-red-600',
+  error: 'text-red-600',
+  pending_expiration: 'text-amber-600',
+};
+
+/**
+ * Connection status per linked institution, with a Reconnect button for
+ * any that have stopped syncing
+ */
+const ItemHealthList = ({ items, onReconnected, onUnlink, problemsOnly = false }: ItemHealthListProps) => {
+  const [reconnectingId, setReconnectingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const visibleItems = problemsOnly ? items.filter(needsReconnect) : items;
+  if (visibleItems.length === 0) return null;
+
+  const handleReconnected = async (item: PlaidItemHealth) => {
+    try {
+      setReconnectingId(item.id);
+      setError(null);
+      await api.markItemReconnected(item.id);
+      // Pull in whatever was missed while the connection was down
+      try {
+        await api.syncTransactions();
+      } catch (syncError) {
+        console.error('Error syncing after reconnect:', syncError);
+      }
+      onReconnected();
+    } catch (error: any) {
+      console.error('Error reconnecting institution:', error);
+      setError(error.message || 'Failed to reconnect');
+    } finally {
+      setReconnectingId(null);
+    }
+  };
+
+  const describe = (item: PlaidItemHealth) => {
+    if (item.status === 'pending_expiration' && item.consent_expires_at) {
+      return `Access expires ${new Date(item.consent_expires_at).toLocaleDateString()}`;
+    }
+    if (needsReconnect(item)) {
+      return item.error_message || 'This institution stopped syncing.';
+    }
+    return formatLastSynced(item.last_synced_at);
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+      {visibleItems.map((item) => {
+        const status = item.status || 'healthy';
+        return (
+          <div
+            key={item.id}
+            className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+              needsReconnect(item) ? 'border-red-200 bg-red-50' : 'border-gray-200'
+            }`}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900">
+                {item.institution_name || 'Bank'}{' '}
+                <span className={`text-xs font-medium ${STATUS_STYLES[status] || 'text-gray-600'}`}>
+                  {needsReconnect(item) ? '⚠️' : '✓'} {ITEM_STATUS_LABELS[status] || status}
+                </span>
+              </p>
+              <p className="text-xs text-gray-600 truncate">{describe(item)}</p>
+              {needsReconnect(item) && item.last_synced_at && (
+                <p className="text-xs text-gray-500">Last {formatLastSynced(item.last_synced_at).toLowerCase()}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {needsReconnect(item) && (
+                reconnectingId === item.id ? (
+                  <span className="text-xs text-gray-600">Reconnecting...</span>
+                ) : (
+                  <PlaidLink itemId={item.id} onSuccess={() => handleReconnected(item)}>
+                    <button
+                      type="button"
+                      aria-label={`Reconnect ${item.institution_name || 'institution'}`}
+                      className="px-3 py-1.5 bg-red-600 text-white rounded-lg text-xs font-medium hover:bg-red-700"
+                    >
+                      Reconnect
+                    </button>
+                  </PlaidLink>
+                )
+              )}
+              {onUnlink && (
+                <button
+                  type="button"
+                  onClick={() => onUnlink(item)}
+                  aria-label={`Unlink ${item.institution_name || 'institution'}`}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:text-red-600"
+                >
+                  Unlink
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ItemHealthList;
@@ -9,6 +9,7 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
     { path: '/', label: 'Dashboard', icon: '📊' },
     { path: '/recurring', label: 'Recurring', icon: '🔄' },
     { path: '/spending', label: 'Spending', icon: '💳' },
+    { path: '/budget', label: 'Budget', icon: '🎯' },
     { path: '/net-worth', label: 'Net Worth', icon: '💰' },
     { path: '/transactions', label: 'Transactions', icon: '📝' },
     { path: '/ai-chat', label: 'AI Chatbot', icon: '🤖' },
@@ -53,6 +54,15 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
           <div className="px-4 py-2 text-sm text-gray-600">
             <p className="font-medium">{user?.email}</p>
           </div>
+          <Link
+            to="/settings"
+            className={`w-full flex items-center px-4 py-3 rounded-lg transition-colors ${
+              location.pathname === '/settings' ? 'bg-red-50 text-red-600' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <span className="mr-3 text-xl">⚙️</span>
+            <span className="font-medium">Settings</span>
+          </Link>
           <button
             onClick={logout}
             className="w-full flex items-center px-4 py-3 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
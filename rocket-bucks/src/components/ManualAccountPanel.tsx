@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import { MANUAL_ACCOUNT_TYPE_OPTIONS } from '../utils/accountTypes';
+
+interface ManualAccountPanelProps {
+  account?: any;
+  initialType?: string;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Entered',
+  import: 'Imported',
+  backfill: 'Estimated',
+  sync: 'Synced',
+};
+
+const formatMoney = (value: number) =>
+  `$${Number(value || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Add a manually tracked account, or log a new value for an existing one
+ */
+const ManualAccountPanel = ({ account, initialType, onClose, onSaved }: ManualAccountPanelProps) => {
+  const editing = !!account;
+  const [name, setName] = useState<string>(account?.name || '');
+  const [type, setType] = useState<string>(account?.type || initialType || 'real_estate');
+  const [value, setValue] = useState<string>(account?.balance_current != null ? String(account.balance_current) : '');
+  const [asOf, setAsOf] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [history, setHistory] = useState<any[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!account) return;
+    api.getAccountValueHistory(account.id)
+      .then(({ history }) => setHistory(history || []))
+      .catch((error) => {
+        console.error('Error loading value history:', error);
+      });
+  }, [account]);
+
+  const save = async () => {
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (value === '' || isNaN(Number(value))) {
+      setError('Enter a valid value');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const fields = {
+        name: name.trim(),
+        type,
+        balance: Number(value),
+        as_of: asOf || null,
+        note: note.trim() || null,
+      };
+      if (editing) {
+        await api.updateManualAccount(account.id, fields);
+      } else {
+        await api.createManualAccount(fields);
+      }
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving manual account:', error);
+      setError(error.message || 'Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm(`Delete ${account.name} and its value history?`)) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await api.deleteManualAccount(account.id);
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error deleting manual account:', error);
+      setError(error.message || 'Failed to delete account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900">{editing ? `Update ${account.name}` : 'Add a manual account'}</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close manual account"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {!editing && (
+        <p className="text-sm text-gray-600 mb-4">
+          Track things your bank doesn't know about, like your home, your car or money you owe a friend.
+          You enter the value and update it whenever it changes.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="manual-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input id="manual-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="manual-type" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select id="manual-type" value={type} onChange={(e) => setType(e.target.value)} className={inputClass}>
+            {MANUAL_ACCOUNT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.icon} {option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="manual-value" className="block text-sm font-medium text-gray-700 mb-1">
+            {editing ? 'New value' : 'Current value'}
+          </label>
+          <input
+            id="manual-value"
+            type="number"
+            step="0.01"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="manual-as-of" className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+          <input id="manual-as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="manual-note" className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+          <input
+            id="manual-note"
+            type="text"
+            value={note}
+            placeholder="e.g. Zillow estimate"
+            onChange={(e) => setNote(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {editing && history.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Value history</h3>
+          <div className="divide-y divide-gray-100 max-h-60 overflow-y-auto">
+            {history.map(entry => (
+              <div key={entry.snapshot_date} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="text-gray-900">{entry.snapshot_date}</p>
+                  <p className="text-xs text-gray-500">
+                    {SOURCE_LABELS[entry.source] || entry.source}{entry.note ? ` · ${entry.note}` : ''}
+                  </p>
+                </div>
+                <span className="font-medium text-gray-900">{formatMoney(entry.balance_current)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between items-center gap-2 mt-6">
+        <div>
+          {editing && (
+            <button
+              onClick={remove}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              Delete account
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : editing ? 'Save value' : 'Add account'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ManualAccountPanel;
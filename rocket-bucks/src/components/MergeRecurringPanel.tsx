@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { api } from '../utils/api';
+
+interface MergeRecurringPanelProps {
+  recurring: any;
+  candidates: any[];
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const MergeRecurringPanel = ({ recurring, candidates, onClose, onSaved }: MergeRecurringPanelProps) => {
+  const options = candidates.filter(
+    candidate => candidate.id !== recurring.id && (candidate.transaction_type || 'expense') === (recurring.transaction_type || 'expense')
+  );
+  const [targetId, setTargetId] = useState<string>(options[0]?.id || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const merge = async () => {
+    if (!targetId) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await api.mergeRecurring(targetId, recurring.id);
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error merging recurring transactions:', error);
+      setError(error.message || 'Failed to merge recurring transactions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900">Merge {recurring.name}</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close merge"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {options.length === 0 ? (
+        <p className="text-sm text-gray-600">There are no other recurring {recurring.transaction_type === 'income' ? 'deposits' : 'charges'} to merge with.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            Use this when two streams are really the same bill. {recurring.name}'s transactions move to the one
+            you pick, and {recurring.name} is hidden so sync won't bring it back.
+          </p>
+          <label htmlFor="merge-target" className="block text-sm font-medium text-gray-700 mb-1">Merge into</label>
+          <select
+            id="merge-target"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {options.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name} · ${Number(option.expected_amount || 0).toFixed(2)}
+                {option.accounts?.mask ? ` · ••••${option.accounts.mask}` : ''}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2 mt-6">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={merge}
+          disabled={saving || !targetId}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Merging...' : 'Merge'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MergeRecurringPanel;
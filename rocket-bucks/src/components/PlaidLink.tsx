@@ -4,18 +4,20 @@ import { api } from '../utils/api';
 
 interface PlaidLinkProps {
   onSuccess: (publicToken: string, metadata: any) => void;
+  // Reconnect this institution (Link update mode) instead of adding a new one
+  itemId?: string;
   onExit?: () => void;
   children?: React.ReactNode;
 }
 
-const PlaidLink = ({ onSuccess, onExit, children }: PlaidLinkProps) => {
+const PlaidLink = ({ onSuccess, itemId, onExit, children }: PlaidLinkProps) => {
   const [linkToken, setLinkToken] = useState<string | null>(null);
 
   useEffect(() => {
     const createLinkToken = async () => {
       try {
         console.log('🔗 Creating Plaid link token...');
-        const data = await api.createLinkToken();
+        const data = await api.createLinkToken(itemId);
         console.log('✅ Link token created');
         setLinkToken(data.link_token);
       } catch (error: any) {
@@ -41,7 +43,7 @@ const PlaidLink = ({ onSuccess, onExit, children }: PlaidLinkProps) => {
     };
 
     createLinkToken();
-  }, []);
+  }, [itemId]);
 
   const config = {
     token: linkToken,
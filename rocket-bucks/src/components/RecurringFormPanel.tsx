@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+
+interface RecurringFormPanelProps {
+  recurring?: any;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+const FREQUENCY_OPTIONS = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'semi_monthly', label: 'Twice a month' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'bimonthly', label: 'Every 2 months' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'semi_annually', label: 'Every 6 months' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'irregular', label: 'Irregular' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Frequencies scheduled by day of the week rather than day of the month
+const WEEKLY_FREQUENCIES = ['weekly', 'biweekly'];
+const MONTHLY_FREQUENCIES = ['semi_monthly', 'monthly', 'bimonthly', 'quarterly', 'semi_annually', 'yearly', 'annually'];
+
+const RecurringFormPanel = ({ recurring, onClose, onSaved }: RecurringFormPanelProps) => {
+  const editing = !!recurring;
+  const [name, setName] = useState<string>(recurring?.name || '');
+  const [amount, setAmount] = useState<string>(recurring?.expected_amount != null ? String(recurring.expected_amount) : '');
+  const [transactionType, setTransactionType] = useState<'expense' | 'income'>(recurring?.transaction_type || 'expense');
+  const [frequency, setFrequency] = useState<string>(recurring?.frequency || 'monthly');
+  const [dayOfMonth, setDayOfMonth] = useState<string>(recurring?.day_of_month != null ? String(recurring.day_of_month) : '');
+  const [dayOfWeek, setDayOfWeek] = useState<string>(recurring?.day_of_week != null ? String(recurring.day_of_week) : '');
+  const [nextDueDate, setNextDueDate] = useState<string>(recurring?.next_due_date || '');
+  const [accountId, setAccountId] = useState<string>(recurring?.account_id || '');
+  const [categoryId, setCategoryId] = useState<string>(recurring?.category_id || '');
+  const [isSubscription, setIsSubscription] = useState<boolean>(!!recurring?.is_subscription);
+  const [notes, setNotes] = useState<string>(recurring?.notes || '');
+  const [accounts, setAccounts] = useState<any[]>([]);
+  const [categories, setCategories] = useState<any[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getAccounts(), api.getCategories()])
+      .then(([accountsRes, categoriesRes]) => {
+        setAccounts(accountsRes.accounts || []);
+        setCategories(categoriesRes.categories || []);
+      })
+      .catch((error) => {
+        console.error('Error loading accounts and categories:', error);
+      });
+  }, []);
+
+  const save = async () => {
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (amount !== '' && !(Number(amount) >= 0)) {
+      setError('Enter a valid amount');
+      return;
+    }
+
+    const fields = {
+      name: name.trim(),
+      expected_amount: amount === '' ? null : Number(amount),
+      transaction_type: transactionType,
+      frequency,
+      day_of_month: MONTHLY_FREQUENCIES.includes(frequency) && dayOfMonth ? Number(dayOfMonth) : null,
+      day_of_week: WEEKLY_FREQUENCIES.includes(frequency) && dayOfWeek !== '' ? Number(dayOfWeek) : null,
+      next_due_date: nextDueDate || null,
+      account_id: accountId || null,
+      category_id: categoryId || null,
+      is_subscription: transactionType === 'expense' && isSubscription,
+      notes: notes.trim() || null,
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (editing) {
+        await api.updateRecurring(recurring.id, fields);
+      } else {
+        await api.createRecurring(fields);
+      }
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving recurring transaction:', error);
+      setError(error.message || 'Failed to save recurring transaction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900">{editing ? `Edit ${recurring.name}` : 'Add recurring transaction'}</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close recurring form"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recurring-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input id="recurring-name" type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="recurring-amount" className="block text-sm font-medium text-gray-700 mb-1">Expected amount</label>
+          <input
+            id="recurring-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="recurring-type" className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            id="recurring-type"
+            value={transactionType}
+            onChange={(e) => setTransactionType(e.target.value as 'expense' | 'income')}
+            className={inputClass}
+          >
+            <option value="expense">Expense</option>
+            <option value="income">Income</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="recurring-frequency" className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+          <select id="recurring-frequency" value={frequency} onChange={(e) => setFrequency(e.target.value)} className={inputClass}>
+            {FREQUENCY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {MONTHLY_FREQUENCIES.includes(frequency) && (
+          <div>
+            <label htmlFor="recurring-day-of-month" className="block text-sm font-medium text-gray-700 mb-1">Day of month</label>
+            <input
+              id="recurring-day-of-month"
+              type="number"
+              min="1"
+              max="31"
+              value={dayOfMonth}
+              onChange={(e) => setDayOfMonth(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {WEEKLY_FREQUENCIES.includes(frequency) && (
+          <div>
+            <label htmlFor="recurring-day-of-week" className="block text-sm font-medium text-gray-700 mb-1">Day of week</label>
+            <select id="recurring-day-of-week" value={dayOfWeek} onChange={(e) => setDayOfWeek(e.target.value)} className={inputClass}>
+              <option value="">Any day</option>
+              {WEEKDAYS.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="recurring-next-due" className="block text-sm font-medium text-gray-700 mb-1">Next due date</label>
+          <input
+            id="recurring-next-due"
+            type="date"
+            value={nextDueDate}
+            onChange={(e) => setNextDueDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="recurring-account" className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+          <select id="recurring-account" value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+            <option value="">No account</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {account.name}{account.mask ? ` ••••${account.mask}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="recurring-category" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+          <select id="recurring-category" value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+            <option value="">No category</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="recurring-notes" className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <input id="recurring-notes" type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+        </div>
+        {transactionType === 'expense' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={isSubscription} onChange={(e) => setIsSubscription(e.target.checked)} />
+            Subscription
+          </label>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-6">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : editing ? 'Save changes' : 'Add recurring'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringFormPanel;
@@ -0,0 +1,527 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+interface RulesPanelProps {
+  categories: any[];
+  accounts: any[];
+  onClose: () => void;
+  onApplied?: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  name_pattern: '',
+  merchant_pattern: '',
+  min_amount: '',
+  max_amount: '',
+  account_id: '',
+  payment_channel: '',
+  user_category_name: '',
+  tags: '',
+  notes: '',
+  excluded_from_budget: false,
+  is_transfer: false,
+  priority: '0',
+};
+
+const PAYMENT_CHANNELS = [
+  { value: 'online', label: 'Online' },
+  { value: 'in store', label: 'In store' },
+  { value: 'other', label: 'Other' },
+];
+
+const formatAmount = (value: any) => `$${Number(value).toFixed(2)}`;
+
+const RulesPanel = ({ categories, accounts, onClose, onApplied }: RulesPanelProps) => {
+  const [rules, setRules] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<any | null>(null);
+  const [form, setForm] = useState<typeof emptyForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<any | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [applyMessage, setApplyMessage] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { rules: ruleData } = await api.getCategorizationRules();
+      setRules(ruleData || []);
+    } catch (error: any) {
+      console.error('Error loading rules:', error);
+      setError(error.message || 'Failed to load rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateForm = (field: keyof typeof emptyForm, value: any) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openCreateForm = () => {
+    setEditingRule(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEditForm = (rule: any) => {
+    setEditingRule(rule);
+    setForm({
+      name: rule.name || '',
+      name_pattern: rule.name_pattern || '',
+      merchant_pattern: rule.merchant_pattern || '',
+      min_amount: rule.min_amount ?? '',
+      max_amount: rule.max_amount ?? '',
+      account_id: rule.account_id || '',
+      payment_channel: rule.payment_channel || '',
+      user_category_name: rule.user_category_name || '',
+      tags: (rule.tags || []).join(', '),
+      notes: rule.notes || '',
+      excluded_from_budget: !!rule.excluded_from_budget,
+      is_transfer: !!rule.is_transfer,
+      priority: String(rule.priority ?? 0),
+    });
+    setShowForm(true);
+  };
+
+  const saveRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Reference the category row when one exists, otherwise the category name
+    const category = categories.find(c => c.name === form.user_category_name);
+    const tags = form.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+    const payload = {
+      name: form.name.trim(),
+      name_pattern: form.name_pattern,
+      merchant_pattern: form.merchant_pattern,
+      min_amount: form.min_amount,
+      max_amount: form.max_amount,
+      account_id: form.account_id,
+      payment_channel: form.payment_channel,
+      category_id: category ? category.id : '',
+      user_category_name: form.user_category_name,
+      tags: tags.length > 0 ? tags : null,
+      notes: form.notes,
+      // Unchecked boxes leave the flag alone rather than clearing it
+      excluded_from_budget: form.excluded_from_budget ? true : null,
+      is_transfer: form.is_transfer ? true : null,
+      priority: Number(form.priority) || 0,
+    };
+
+    try {
+      setSaving(true);
+      if (editingRule) {
+        await api.updateCategorizationRule(editingRule.id, payload);
+      } else {
+        await api.createCategorizationRule(payload);
+      }
+      setShowForm(false);
+      setPreview(null);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error saving rule:', error);
+      alert('Failed to save rule: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: any) => {
+    try {
+      await api.updateCategorizationRule(rule.id, { is_active: !rule.is_active });
+      setPreview(null);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error updating rule:', error);
+      alert('Failed to update rule: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const deleteRule = async (rule: any) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) {
+      return;
+    }
+
+    try {
+      await api.deleteCategorizationRule(rule.id);
+      setPreview(null);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error deleting rule:', error);
+      alert('Failed to delete rule: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const previewRules = async () => {
+    try {
+      setPreviewing(true);
+      setApplyMessage(null);
+      const result = await api.applyCategorizationRules({ dry_run: true });
+      setPreview(result);
+    } catch (error: any) {
+      console.error('Error previewing rules:', error);
+      alert('Failed to preview rules: ' + (error.message || 'Unknown error'));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const applyRules = async () => {
+    try {
+      setApplying(true);
+      const result = await api.applyCategorizationRules({ dry_run: false });
+      setPreview(null);
+      setApplyMessage(`Updated ${result.changed_count} transaction${result.changed_count !== 1 ? 's' : ''}`);
+      onApplied?.();
+    } catch (error: any) {
+      console.error('Error applying rules:', error);
+      alert('Failed to apply rules: ' + (error.message || 'Unknown error'));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const describeConditions = (rule: any) => {
+    const parts: string[] = [];
+    if (rule.name_pattern) parts.push(`name matches /${rule.name_pattern}/`);
+    if (rule.merchant_pattern) parts.push(`merchant matches /${rule.merchant_pattern}/`);
+    if (rule.min_amount !== null && rule.min_amount !== undefined && rule.max_amount !== null && rule.max_amount !== undefined) {
+      parts.push(`amount ${formatAmount(rule.min_amount)}–${formatAmount(rule.max_amount)}`);
+    } else if (rule.min_amount !== null && rule.min_amount !== undefined) {
+      parts.push(`amount ≥ ${formatAmount(rule.min_amount)}`);
+    } else if (rule.max_amount !== null && rule.max_amount !== undefined) {
+      parts.push(`amount ≤ ${formatAmount(rule.max_amount)}`);
+    }
+    if (rule.account_id) {
+      const account = accounts.find(a => a.id === rule.account_id);
+      parts.push(`account ${account ? `${account.name} ••••${account.mask}` : 'removed'}`);
+    }
+    if (rule.payment_channel) parts.push(`paid ${rule.payment_channel}`);
+    return parts.join(', ');
+  };
+
+  const describeActions = (rule: any) => {
+    const parts: string[] = [];
+    if (rule.user_category_name) parts.push(`→ ${rule.user_category_name}`);
+    if (rule.tags && rule.tags.length > 0) parts.push(`tags: ${rule.tags.join(', ')}`);
+    if (rule.notes) parts.push('adds a note');
+    if (rule.excluded_from_budget) parts.push('excluded from budget');
+    if (rule.is_transfer) parts.push('marked as transfer');
+    return parts.join(' · ');
+  };
+
+  const describeChange = (change: any) => {
+    const parts: string[] = [];
+    if ('user_category_name' in change.after) {
+      parts.push(`${change.before.user_category_name || 'Uncategorized'} → ${change.after.user_category_name}`);
+    }
+    if ('tags' in change.after) parts.push(`tags: ${(change.after.tags || []).join(', ')}`);
+    if ('notes' in change.after) parts.push('note added');
+    if ('excluded_from_budget' in change.after) {
+      parts.push(change.after.excluded_from_budget ? 'excluded from budget' : 'included in budget');
+    }
+    if ('is_transfer' in change.after) parts.push(change.after.is_transfer ? 'transfer' : 'not a transfer');
+    return parts.join(' · ');
+  };
+
+  const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Categorization Rules</h2>
+          <p className="text-sm text-gray-500">
+            Rules run on every sync and take priority over automatic categories.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700"
+          >
+            + Add Rule
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-gray-400 hover:text-gray-600"
+            aria-label="Close rules"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {showForm && (
+        <form onSubmit={saveRule} className="border border-gray-200 rounded-xl p-4 mb-4">
+          <h3 className="text-sm font-bold text-gray-900 mb-3">{editingRule ? 'Edit Rule' : 'New Rule'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-xs text-gray-600">Rule name</span>
+              <input
+                value={form.name}
+                onChange={(e) => updateForm('name', e.target.value)}
+                placeholder="e.g. Coffee shops"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Name matches (regex)</span>
+              <input
+                value={form.name_pattern}
+                onChange={(e) => updateForm('name_pattern', e.target.value)}
+                placeholder="starbucks|blue bottle"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Merchant matches (regex)</span>
+              <input
+                value={form.merchant_pattern}
+                onChange={(e) => updateForm('merchant_pattern', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Min amount</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.min_amount}
+                onChange={(e) => updateForm('min_amount', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Max amount</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.max_amount}
+                onChange={(e) => updateForm('max_amount', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Account</span>
+              <select
+                value={form.account_id}
+                onChange={(e) => updateForm('account_id', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any account</option>
+                {accounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>{acc.name} ••••{acc.mask}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Payment channel</span>
+              <select
+                value={form.payment_channel}
+                onChange={(e) => updateForm('payment_channel', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any channel</option>
+                {PAYMENT_CHANNELS.map((channel) => (
+                  <option key={channel.value} value={channel.value}>{channel.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Set category</span>
+              <select
+                value={form.user_category_name}
+                onChange={(e) => updateForm('user_category_name', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Don't change</option>
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.name}>{cat.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Add tags (comma separated)</span>
+              <input
+                value={form.tags}
+                onChange={(e) => updateForm('tags', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Add note</span>
+              <input
+                value={form.notes}
+                onChange={(e) => updateForm('notes', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-600">Priority</span>
+              <input
+                type="number"
+                step="1"
+                value={form.priority}
+                onChange={(e) => updateForm('priority', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex flex-col justify-end gap-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.excluded_from_budget}
+                  onChange={(e) => updateForm('excluded_from_budget', e.target.checked)}
+                  className="h-4 w-4"
+                />
+                <span className="text-sm text-gray-700">Exclude from budget</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.is_transfer}
+                  onChange={(e) => updateForm('is_transfer', e.target.checked)}
+                  className="h-4 w-4"
+                />
+                <span className="text-sm text-gray-700">Mark as transfer</span>
+              </label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading && rules.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-8 h-8 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No rules yet. Add one to categorize matching transactions automatically.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {rules.map((rule) => (
+            <div key={rule.id} className={`flex items-center justify-between py-3 ${rule.is_active ? '' : 'opacity-50'}`}>
+              <div>
+                <p className="text-sm font-medium text-gray-900">{rule.name}</p>
+                <p className="text-xs text-gray-500">When {describeConditions(rule)}</p>
+                <p className="text-xs text-gray-700">{describeActions(rule)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleRule(rule)}
+                  className="px-3 py-1 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+                >
+                  {rule.is_active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => openEditForm(rule)}
+                  className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                  title="Edit rule"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={() => deleteRule(rule)}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                  title="Delete rule"
+                >
+                  🗑️
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rules.some(rule => rule.is_active) && (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {applyMessage || 'Apply your rules to transactions you already have.'}
+            </p>
+            <button
+              onClick={previewRules}
+              disabled={previewing}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {previewing ? 'Checking...' : 'Preview changes'}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="mt-4">
+              {preview.changed_count === 0 ? (
+                <p className="text-sm text-gray-500">No transactions would change.</p>
+              ) : (
+                <>
+                  <p className="text-sm font-medium text-gray-900 mb-2">
+                    {preview.changed_count} transaction{preview.changed_count !== 1 ? 's' : ''} would change
+                  </p>
+                  <div className="max-h-64 overflow-y-auto border border-gray-100 rounded-lg">
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {preview.changes.map((change: any) => (
+                          <tr key={change.id} className="border-b border-gray-100">
+                            <td className="py-2 px-3 text-gray-500">{change.date}</td>
+                            <td className="py-2 px-3 text-gray-900">{change.name}</td>
+                            <td className="py-2 px-3 text-gray-700">{describeChange(change)}</td>
+                            <td className="py-2 px-3 text-right text-gray-900">{formatAmount(Math.abs(change.amount || 0))}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <button
+                      onClick={applyRules}
+                      disabled={applying}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                    >
+                      {applying ? 'Applying...' : `Apply to ${preview.changed_count} transaction${preview.changed_count !== 1 ? 's' : ''}`}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RulesPanel;
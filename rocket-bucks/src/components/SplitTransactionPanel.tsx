@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { api } from '../utils/api';
+import { getUnallocatedAmount, SPLIT_AMOUNT_TOLERANCE } from '../utils/splits';
+
+interface SplitTransactionPanelProps {
+  transaction: any;
+  categories: any[];
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+interface SplitRow {
+  amount: string;
+  user_category_name: string;
+  notes: string;
+}
+
+const formatAmount = (value: number) => `$${Math.abs(value).toFixed(2)}`;
+
+// Amounts are edited as positive numbers and take the parent's sign when saved
+const SplitTransactionPanel = ({ transaction, categories, onClose, onSaved }: SplitTransactionPanelProps) => {
+  const parentAmount = Number(transaction.amount || 0);
+  const sign = parentAmount < 0 ? -1 : 1;
+  const total = Math.abs(parentAmount);
+
+  const [rows, setRows] = useState<SplitRow[]>(() => {
+    const existing = transaction.transaction_splits || [];
+    if (existing.length > 0) {
+      return existing.map((split: any) => ({
+        amount: Math.abs(Number(split.amount)).toFixed(2),
+        user_category_name: split.user_category_name || split.transaction_categories?.name || '',
+        notes: split.notes || '',
+      }));
+    }
+    return [
+      { amount: total.toFixed(2), user_category_name: transaction.user_category_name || '', notes: '' },
+      { amount: '', user_category_name: '', notes: '' },
+    ];
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSplit = (transaction.transaction_splits || []).length > 0;
+  const remaining = getUnallocatedAmount(total, rows);
+  const balanced = Math.abs(remaining) <= SPLIT_AMOUNT_TOLERANCE;
+  const complete = rows.length >= 2 &&
+    rows.every(row => Number(row.amount) > 0 && row.user_category_name);
+
+  const updateRow = (index: number, field: keyof SplitRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const addRow = () => {
+    setRows(prev => [
+      ...prev,
+      { amount: remaining > 0 ? remaining.toFixed(2) : '', user_category_name: '', notes: '' },
+    ]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveSplits = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await api.saveTransactionSplits(
+        transaction.id,
+        rows.map(row => {
+          const category = categories.find(cat => cat.name === row.user_category_name);
+          return {
+            amount: sign * Number(row.amount),
+            category_id: category?.id || null,
+            user_category_name: row.user_category_name,
+            notes: row.notes || null,
+          };
+        })
+      );
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving splits:', error);
+      setError(error.message || 'Failed to save splits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeSplits = async () => {
+    if (!confirm('Remove the splits and go back to a single transaction?')) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await api.deleteTransactionSplits(transaction.id);
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error removing splits:', error);
+      setError(error.message || 'Failed to remove splits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Split Transaction</h2>
+          <p className="text-sm text-gray-500">
+            {transaction.name} · {formatAmount(parentAmount)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close split"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      <div className="space-y-3">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-12 gap-3 items-center">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={row.amount}
+              onChange={(e) => updateRow(index, 'amount', e.target.value)}
+              aria-label={`Split ${index + 1} amount`}
+              className="col-span-3 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <select
+              value={row.user_category_name}
+              onChange={(e) => updateRow(index, 'user_category_name', e.target.value)}
+              aria-label={`Split ${index + 1} category`}
+              className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              <option value="">Choose category</option>
+              {categories.map((cat) => (
+                <option key={cat.id} value={cat.name}>{cat.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={row.notes}
+              onChange={(e) => updateRow(index, 'notes', e.target.value)}
+              placeholder="Notes"
+              aria-label={`Split ${index + 1} notes`}
+              className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <button
+              onClick={() => removeRow(index)}
+              disabled={rows.length <= 2}
+              className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+              title="Remove split"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center mt-4">
+        <button onClick={addRow} className="text-sm font-medium text-blue-600 hover:underline">
+          + Add split
+        </button>
+        <p className={`text-sm font-medium ${balanced ? 'text-green-600' : 'text-red-600'}`}>
+          {balanced
+            ? 'Fully allocated'
+            : remaining > 0
+              ? `${formatAmount(remaining)} left to allocate`
+              : `${formatAmount(remaining)} over the transaction amount`}
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-6">
+        {isSplit && (
+          <button
+            onClick={removeSplits}
+            disabled={saving}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Remove splits
+          </button>
+        )}
+        <button
+          onClick={saveSplits}
+          disabled={saving || !balanced || !complete}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Splits'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SplitTransactionPanel;
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+interface TransferReviewPanelProps {
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+const formatAmount = (value: any) => `$${Math.abs(Number(value || 0)).toFixed(2)}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const describeAccount = (tx: any) =>
+  tx?.accounts ? `${tx.accounts.name} ••••${tx.accounts.mask}` : 'Unknown account';
+
+const TransferReviewPanel = ({ onClose, onChanged }: TransferReviewPanelProps) => {
+  const [matches, setMatches] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [matching, setMatching] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMatches = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { matches: matchData } = await api.getTransferReviewQueue();
+      setMatches(matchData || []);
+    } catch (error: any) {
+      console.error('Error loading transfer review queue:', error);
+      setError(error.message || 'Failed to load transfers to review');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMatches();
+  }, [loadMatches]);
+
+  const findTransfers = async () => {
+    try {
+      setMatching(true);
+      setError(null);
+      const { matched_count, review_count } = await api.matchTransfers();
+      setMessage(
+        `Matched ${matched_count} transfer${matched_count !== 1 ? 's' : ''}` +
+        (review_count > 0 ? `, ${review_count} to review` : '')
+      );
+      await loadMatches();
+      onChanged?.();
+    } catch (error: any) {
+      console.error('Error matching transfers:', error);
+      setError(error.message || 'Failed to match transfers');
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const reviewMatch = async (matchId: string, status: 'confirmed' | 'dismissed') => {
+    try {
+      setUpdatingId(matchId);
+      setError(null);
+      await api.reviewTransferMatch(matchId, status);
+      // Confirming a pair rules out every other pair involving either transaction
+      await loadMatches();
+      if (status === 'confirmed') {
+        onChanged?.();
+      }
+    } catch (error: any) {
+      console.error('Error reviewing transfer match:', error);
+      setError(error.message || 'Failed to update transfer');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Transfers</h2>
+          <p className="text-sm text-gray-500">
+            Money moving between your own accounts, like credit card payments, is left out of spending and income.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={findTransfers}
+            disabled={matching}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+          >
+            {matching ? 'Matching...' : 'Find transfers'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-2 text-gray-400 hover:text-gray-600"
+            aria-label="Close transfers"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">{message}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-8 h-8 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No possible transfers need review.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700">
+            {matches.length} possible transfer{matches.length !== 1 ? 's' : ''} to review
+          </p>
+          {matches.map((match) => (
+            <div key={match.id} className="border border-gray-200 rounded-lg p-4 flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">
+                  {formatAmount(match.amount)} from {describeAccount(match.outflow)} to {describeAccount(match.inflow)}
+                </p>
+                <p className="text-gray-500">
+                  {match.outflow?.name} ({formatDate(match.outflow?.date)}) → {match.inflow?.name} ({formatDate(match.inflow?.date)})
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => reviewMatch(match.id, 'confirmed')}
+                  disabled={updatingId === match.id}
+                  className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  Confirm transfer
+                </button>
+                <button
+                  onClick={() => reviewMatch(match.id, 'dismissed')}
+                  disabled={updatingId === match.id}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Not a transfer
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransferReviewPanel;
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { api } from '../utils/api';
+import type { PlaidItemHealth } from '../utils/itemHealth';
+
+interface UnlinkInstitutionPanelProps {
+  item: PlaidItemHealth;
+  onClose: () => void;
+  onUnlinked?: () => void;
+}
+
+interface UnlinkPreview {
+  accounts: number;
+  transactions: number;
+  recurring: number;
+}
+
+const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count !== 1 ? 's' : ''}`;
+
+/**
+ * Disconnect one institution, keeping its history as archived accounts or deleting it
+ */
+const UnlinkInstitutionPanel = ({ item, onClose, onUnlinked }: UnlinkInstitutionPanelProps) => {
+  const institutionName = item.institution_name || 'this institution';
+  const [preview, setPreview] = useState<UnlinkPreview | null>(null);
+  const [mode, setMode] = useState<'archive' | 'delete'>('archive');
+  const [unlinking, setUnlinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getUnlinkPreview(item.id)
+      .then((data) => setPreview(data))
+      .catch((error) => {
+        console.error('Error loading unlink preview:', error);
+        setError(error.message || 'Failed to load institution details');
+      });
+  }, [item.id]);
+
+  const unlink = async () => {
+    try {
+      setUnlinking(true);
+      setError(null);
+      await api.unlinkInstitution(item.id, mode);
+      onUnlinked?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Error unlinking institution:', error);
+      setError(error.message || 'Failed to unlink institution');
+    } finally {
+      setUnlinking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm p-6 mb-6 border border-red-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-gray-900">Unlink {institutionName}</h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-gray-400 hover:text-gray-600"
+          aria-label="Close unlink institution"
+        >
+          ✕
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {preview ? (
+        <p className="text-sm text-gray-700 mb-4">
+          {institutionName} has {plural(preview.accounts, 'account')}, {plural(preview.transactions, 'transaction')} and{' '}
+          {plural(preview.recurring, 'recurring charge')}. Unlinking stops syncing and revokes this app's access at Plaid.
+        </p>
+      ) : (
+        !error && <p className="text-sm text-gray-500 mb-4">Counting accounts and transactions...</p>
+      )}
+
+      <div className="space-y-2 mb-6">
+        <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer">
+          <input
+            type="radio"
+            name="unlink-mode"
+            value="archive"
+            checked={mode === 'archive'}
+            onChange={() => setMode('archive')}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Keep history</span>
+            <span className="block text-xs text-gray-600">
+              Accounts are archived: their transactions stay in your history and exports, but they no longer count
+              toward balances or net worth.
+            </span>
+          </span>
+        </label>
+        <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer">
+          <input
+            type="radio"
+            name="unlink-mode"
+            value="delete"
+            checked={mode === 'delete'}
+            onChange={() => setMode('delete')}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Delete everything</span>
+            <span className="block text-xs text-gray-600">
+              {preview
+                ? `Permanently deletes ${plural(preview.accounts, 'account')}, ${plural(preview.transactions, 'transaction')} and ${plural(preview.recurring, 'recurring charge')}.`
+                : 'Permanently deletes its accounts, transactions and recurring charges.'}
+            </span>
+          </span>
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={unlink}
+          disabled={unlinking || !preview}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+        >
+          {unlinking ? 'Unlinking...' : mode === 'delete' ? 'Unlink and delete' : 'Unlink and archive'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UnlinkInstitutionPanel;
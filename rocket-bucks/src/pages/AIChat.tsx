@@ -1,13 +1,18 @@
 import { useState, useRef, useEffect } from 'react';
 import type { KeyboardEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
+import ChatHistorySidebar from '../components/ChatHistorySidebar';
+import type { AdvisorToolCall, ChatConversation, StoredChatMessage } from '../utils/chatConversations';
 
 interface Message {
-  id: number;
+  id: number | string;
   text: string;
   sender: 'user' | 'ai';
   timestamp: Date;
-  status?: 'error';
+  // 'stopped' when the user cut the answer off while it streamed
+  status?: 'error' | 'stopped';
+  toolCalls?: AdvisorToolCall[];
 }
 
 interface FinancialSnapshot {
@@ -29,8 +34,30 @@ type ContentBlock =
 
 const MAX_HISTORY_MESSAGES = 8;
 
+const TOOL_LABELS: Record<string, string> = {
+  search_transactions: 'Searched transactions',
+  aggregate_transactions: 'Totaled transactions',
+  list_recurring: 'Listed recurring charges',
+  get_account_balances: 'Checked account balances',
+};
+
 const createMessageId = () => Date.now() + Math.floor(Math.random() * 1000);
 
+const createGreeting = (): Message => ({
+  id: 1,
+  text: "Hello! I'm your personal financial advisor. I can help you with budgeting, analyzing your spending patterns, providing savings tips, and answering any questions about your finances. How can I assist you today?",
+  sender: 'ai',
+  timestamp: new Date(),
+});
+
+const fromStoredMessage = (message: StoredChatMessage): Message => ({
+  id: message.id,
+  text: message.content,
+  sender: message.role === 'user' ? 'user' : 'ai',
+  timestamp: new Date(message.created_at),
+  toolCalls: message.tool_calls?.length ? message.tool_calls : undefined,
+});
+
 const formatCurrencyValue = (value?: number) => {
   const numericValue =
     typeof value === 'number' && Number.isFinite(value) ? value : 0;
@@ -175,19 +202,49 @@ const renderAssistantContent = (text: string) => {
   );
 };
 
+const describeToolArguments = (args: any) => {
+  if (!args || typeof args !== 'object') {
+    return typeof args === 'string' ? args : '';
+  }
+  return Object.entries(args)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`)
+    .join(', ');
+};
+
+const renderToolCalls = (toolCalls: AdvisorToolCall[]) => (
+  <div className="mb-3 space-y-1">
+    {toolCalls.map((call, index) => {
+      const argumentText = describeToolArguments(call.arguments);
+      return (
+        <details key={`tool-${index}`} className="text-xs bg-gray-50 border border-gray-200 rounded-lg px-3 py-2">
+          <summary className="cursor-pointer text-gray-700">
+            <span className="font-medium">🔎 {TOOL_LABELS[call.name] || call.name}</span>
+            {argumentText && <span className="text-gray-500"> ({argumentText})</span>}
+          </summary>
+          <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap break-words text-gray-700">
+            {JSON.stringify(call.result, null, 2)}
+          </pre>
+        </details>
+      );
+    })}
+  </div>
+);
+
 const AIChat = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: 1,
-      text: "Hello! I'm your personal financial advisor. I can help you with budgeting, analyzing your spending patterns, providing savings tips, and answering any questions about your finances. How can I assist you today?",
-      sender: 'ai',
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => [createGreeting()]);
   const [inputMessage, setInputMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [snapshot, setSnapshot] = useState<FinancialSnapshot | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [loadingConversation, setLoadingConversation] = useState(false);
+  const [streamingReplyId, setStreamingReplyId] = useState<number | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any answer still streaming when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -197,8 +254,46 @@ const AIChat = () => {
     scrollToBottom();
   }, [messages]);
 
-  const handleSendMessage = async (overrideMessage?: string) => {
+  const startNewChat = () => {
     if (isTyping) return;
+    setConversationId(null);
+    setMessages([createGreeting()]);
+  };
+
+  const openConversation = async (conversation: ChatConversation) => {
+    if (isTyping || conversation.id === conversationId) return;
+
+    try {
+      setLoadingConversation(true);
+      const data = await api.getChatConversation(conversation.id);
+      setConversationId(conversation.id);
+      setMessages(data.messages.length ? data.messages.map(fromStoredMessage) : [createGreeting()]);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: createMessageId(),
+          text: error instanceof Error && error.message ? error.message : 'Failed to load conversation',
+          sender: 'ai',
+          timestamp: new Date(),
+          status: 'error',
+        },
+      ]);
+    } finally {
+      setLoadingConversation(false);
+    }
+  };
+
+  const handleConversationDeleted = (deletedId: string) => {
+    if (deletedId === conversationId) {
+      setConversationId(null);
+      setMessages([createGreeting()]);
+    }
+  };
+
+  const handleSendMessage = async (overrideMessage?: string) => {
+    if (isTyping || loadingConversation) return;
 
     const outgoing = (overrideMessage ?? inputMessage).trim();
     if (!outgoing) return;
@@ -227,11 +322,40 @@ const AIChat = () => {
         content: msg.text,
       })) as { role: 'user' | 'assistant'; content: string }[];
 
+    const replyId = createMessageId();
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    setStreamingReplyId(replyId);
+
+    // The reply bubble appears with the first token or tool call
+    const updateReply = (update: (message: Message) => Message) => {
+      setMessages((prev) =>
+        prev.some((msg) => msg.id === replyId)
+          ? prev.map((msg) => (msg.id === replyId ? update(msg) : msg))
+          : [...prev, update({ id: replyId, text: '', sender: 'ai', timestamp: new Date() })],
+      );
+    };
+
     try {
-      const response = await api.askFinancialAdvisor({
-        message: outgoing,
-        conversation: conversationHistory,
-      });
+      const response = await api.streamFinancialAdvisor(
+        {
+          message: outgoing,
+          conversation_id: conversationId ?? undefined,
+          conversation: conversationHistory,
+        },
+        {
+          onToken: (text) => updateReply((msg) => ({ ...msg, text: msg.text + text })),
+          // Text written before a lookup is only a preamble; the answer comes after the results
+          onToolCall: (toolCall) =>
+            updateReply((msg) => ({ ...msg, text: '', toolCalls: [...(msg.toolCalls || []), toolCall] })),
+        },
+        abortController.signal,
+      );
+
+      if (response.conversation) {
+        setConversationId(response.conversation.id);
+        setHistoryRefreshKey((key) => key + 1);
+      }
 
       if (response.context) {
         setSnapshot(response.context);
@@ -241,14 +365,17 @@ const AIChat = () => {
         response.message?.trim() ||
         "I'm reviewing your finances. Try asking another question in a moment.";
 
-      const aiMessage: Message = {
-        id: createMessageId(),
+      updateReply((msg) => ({
+        ...msg,
         text: replyText,
-        sender: 'ai',
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+        toolCalls: response.tool_calls?.length ? response.tool_calls : msg.toolCalls,
+      }));
     } catch (error) {
+      if (abortController.signal.aborted) {
+        updateReply((msg) => ({ ...msg, status: 'stopped' }));
+        return;
+      }
+
       const fallbackMessage: Message = {
         id: createMessageId(),
         text:
@@ -259,12 +386,19 @@ const AIChat = () => {
         timestamp: new Date(),
         status: 'error',
       };
-      setMessages((prev) => [...prev, fallbackMessage]);
+      // A half-written answer is replaced by the error
+      setMessages((prev) => [...prev.filter((msg) => msg.id !== replyId), fallbackMessage]);
     } finally {
+      abortRef.current = null;
+      setStreamingReplyId(null);
       setIsTyping(false);
     }
   };
 
+  const stopResponse = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -347,8 +481,15 @@ const AIChat = () => {
       </div>
 
       {/* Chat Container */}
-      <div className="flex-1 overflow-hidden">
-        <div className="max-w-4xl mx-auto h-full flex flex-col">
+      <div className="flex-1 overflow-hidden flex">
+        <ChatHistorySidebar
+          activeId={conversationId}
+          refreshKey={historyRefreshKey}
+          onSelect={openConversation}
+          onNewChat={startNewChat}
+          onDeleted={handleConversationDeleted}
+        />
+        <div className="flex-1 min-w-0 max-w-4xl mx-auto h-full flex flex-col">
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto px-8 py-6 space-y-4">
             {messages.map((message) => {
@@ -373,6 +514,7 @@ const AIChat = () => {
                         <span className="text-xs font-semibold text-gray-900">Rocket Bucks AI</span>
                       </div>
                     )}
+                    {message.toolCalls && renderToolCalls(message.toolCalls)}
                     {message.sender === 'ai' && !isErrorMessage ? (
                       renderAssistantContent(message.text)
                     ) : (
@@ -388,6 +530,9 @@ const AIChat = () => {
                         {message.text}
                       </p>
                     )}
+                    {message.status === 'stopped' && (
+                      <p className="text-xs italic text-gray-500 mt-2">Stopped</p>
+                    )}
                     <p className={`text-xs mt-2 ${message.sender === 'user' ? 'text-red-200' : 'text-gray-500'}`}>
                       {message.timestamp.toLocaleTimeString([], {
                         hour: '2-digit',
@@ -399,7 +544,11 @@ const AIChat = () => {
               );
             })}
 
-            {isTyping && (
+            {loadingConversation && (
+              <p className="text-sm text-gray-500 text-center">Loading conversation...</p>
+            )}
+
+            {isTyping && !messages.some((msg) => msg.id === streamingReplyId) && (
               <div className="flex justify-start">
                 <div className="max-w-2xl rounded-2xl px-6 py-4 bg-white shadow-sm border border-gray-200">
                   <div className="flex items-center gap-2 mb-2">
@@ -450,18 +599,30 @@ const AIChat = () => {
                 onKeyPress={handleKeyPress}
                 placeholder="Ask me anything about your finances..."
                 className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
-                disabled={isTyping}
+                disabled={isTyping || loadingConversation}
               />
-              <button
-                onClick={() => handleSendMessage()}
-                disabled={!inputMessage.trim() || isTyping}
-                className="px-6 py-3 bg-red-600 text-white rounded-xl font-medium hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
-              >
-                Send
-              </button>
+              {isTyping ? (
+                <button
+                  onClick={stopResponse}
+                  className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputMessage.trim() || loadingConversation}
+                  className="px-6 py-3 bg-red-600 text-white rounded-xl font-medium hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  Send
+                </button>
+              )}
             </div>
             <p className="text-xs text-gray-500 mt-2 text-center">
-              Tip: Ask about spending, savings, investments, or bill negotiations
+              Tip: Ask about spending, savings, investments, or bill negotiations ·{' '}
+              <Link to="/settings" className="underline hover:text-gray-700">
+                Choose what the advisor shares
+              </Link>
             </p>
           </div>
         </div>
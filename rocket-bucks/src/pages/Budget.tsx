@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../utils/api';
+
+const getMonthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const Budget = () => {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [budgets, setBudgets] = useState<any[]>([]);
+  const [categories, setCategories] = useState<any[]>([]);
+  const [totals, setTotals] = useState({ limit: 0, available: 0, spent: 0, remaining: 0 });
+  const [month, setMonth] = useState(() => getMonthKey(new Date()));
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<any | null>(null);
+  const [formCategory, setFormCategory] = useState('');
+  const [formLimit, setFormLimit] = useState('');
+  const [formRollover, setFormRollover] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await api.getBudgets(month);
+      setBudgets(result.budgets || []);
+      setTotals(result.totals || { limit: 0, available: 0, spent: 0, remaining: 0 });
+    } catch (error: any) {
+      console.error('Error loading budgets:', error);
+      setError(error.message || 'Failed to load budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  // Load categories for the budget form (only once)
+  useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const { categories: categoryData } = await api.getCategories();
+        // Deduplicate categories by name (keep first occurrence)
+        const uniqueCategories = (categoryData || []).reduce((acc: any[], cat: any) => {
+          if (!acc.find(c => c.name === cat.name) && cat.name !== 'Income' && cat.name !== 'Transfer') {
+            acc.push(cat);
+          }
+          return acc;
+        }, []);
+        setCategories(uniqueCategories);
+      } catch (error) {
+        console.error('Error loading categories:', error);
+      }
+    };
+
+    loadCategories();
+  }, []);
+
+  const changeMonth = (offset: number) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    setMonth(getMonthKey(new Date(year, monthIndex - 1 + offset, 1)));
+  };
+
+  const openCreateForm = () => {
+    setEditingBudget(null);
+    setFormCategory('');
+    setFormLimit('');
+    setFormRollover(false);
+    setShowForm(true);
+  };
+
+  const openEditForm = (budget: any) => {
+    setEditingBudget(budget);
+    setFormCategory(budget.category_name);
+    setFormLimit(String(budget.monthly_limit));
+    setFormRollover(!!budget.rollover);
+    setShowForm(true);
+  };
+
+  const saveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = Number(formLimit);
+    if (!formCategory || formLimit === '' || Number.isNaN(limit) || limit < 0) {
+      alert('Please choose a category and enter a valid monthly limit');
+      return;
+    }
+
+    // Budgets reference a category row when one exists, otherwise the category name
+    const category = categories.find(c => c.name === formCategory);
+    const categoryFields = category
+      ? { category_id: category.id }
+      : { user_category_name: formCategory };
+
+    try {
+      setSaving(true);
+      if (editingBudget) {
+        await api.updateBudget(editingBudget.id, {
+          ...(formCategory !== editingBudget.category_name ? categoryFields : {}),
+          monthly_limit: limit,
+          rollover: formRollover,
+        });
+      } else {
+        await api.createBudget({
+          ...categoryFields,
+          monthly_limit: limit,
+          rollover: formRollover,
+        });
+      }
+      setShowForm(false);
+      loadBudgets();
+    } catch (error: any) {
+      console.error('Error saving budget:', error);
+      alert('Failed to save budget: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteBudget = async (budget: any) => {
+    if (!confirm(`Delete the ${budget.category_name} budget?`)) {
+      return;
+    }
+
+    try {
+      await api.deleteBudget(budget.id);
+      loadBudgets();
+    } catch (error: any) {
+      console.error('Error deleting budget:', error);
+      alert('Failed to delete budget: ' + (error.message || 'Unknown error'));
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    `$${Math.abs(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const monthLabel = (() => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  })();
+
+  if (loading && budgets.length === 0) {
+    return (
+      <div className="p-8 max-w-7xl mx-auto">
+        <div className="flex items-center justify-center h-64">
+          <div className="w-16 h-16 border-4 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Budget</h1>
+        <div className="flex gap-3 items-center">
+          <button
+            onClick={() => changeMonth(-1)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            aria-label="Previous month"
+          >
+            ‹
+          </button>
+          <span className="text-sm font-medium text-gray-900 w-36 text-center">{monthLabel}</span>
+          <button
+            onClick={() => changeMonth(1)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            aria-label="Next month"
+          >
+            ›
+          </button>
+          <button
+            onClick={openCreateForm}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700"
+          >
+            + Add Budget
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <span className="text-red-500 text-xl">⚠️</span>
+          <div className="flex-1">
+            <h3 className="text-sm font-medium text-red-800">Budget Error</h3>
+            <p className="text-sm text-red-600 mt-1">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white rounded-2xl shadow-sm p-6">
+          <p className="text-sm text-gray-600 mb-1">Budgeted</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.available)}</p>
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm p-6">
+          <p className="text-sm text-gray-600 mb-1">Spent</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(totals.spent)}</p>
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm p-6">
+          <p className="text-sm text-gray-600 mb-1">{totals.remaining < 0 ? 'Over budget' : 'Remaining'}</p>
+          <p className={`text-2xl font-bold ${totals.remaining < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(totals.remaining)}
+          </p>
+        </div>
+      </div>
+
+      {/* Budget form */}
+      {showForm && (
+        <form onSubmit={saveBudget} className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-4">
+            {editingBudget ? 'Edit Budget' : 'New Budget'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <label className="block">
+              <span className="text-sm text-gray-600">Category</span>
+              <select
+                value={formCategory}
+                onChange={(e) => setFormCategory(e.target.value)}
+                className="mt-1 w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-gray-700"
+              >
+                <option value="">Select a category</option>
+                {editingBudget && !categories.find(c => c.name === editingBudget.category_name) && (
+                  <option value={editingBudget.category_name}>{editingBudget.category_name}</option>
+                )}
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.name}>{cat.icon ? `${cat.icon} ` : ''}{cat.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Monthly limit</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formLimit}
+                onChange={(e) => setFormLimit(e.target.value)}
+                placeholder="0.00"
+                className="mt-1 w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </label>
+            <label className="flex items-center gap-2 py-3">
+              <input
+                type="checkbox"
+                checked={formRollover}
+                onChange={(e) => setFormRollover(e.target.checked)}
+                className="h-4 w-4"
+              />
+              <span className="text-sm text-gray-700">Roll over unspent amounts</span>
+            </label>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Budget'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Budget list */}
+      <div className="bg-white rounded-2xl shadow-sm p-6">
+        {budgets.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p className="mb-2">No budgets yet.</p>
+            <p className="text-sm">Add a monthly limit for a category to start tracking your spending against it.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {budgets.map((budget) => {
+              const overBudget = budget.remaining < 0;
+              const barWidth = Math.min(100, budget.percent_used || 0);
+              return (
+                <div key={budget.id}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-3">
+                      <span className="text-xl">{budget.transaction_categories?.icon || '📊'}</span>
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{budget.category_name}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatCurrency(budget.spent)} of {formatCurrency(budget.available)}
+                          {budget.rollover_amount > 0 && ` (includes ${formatCurrency(budget.rollover_amount)} rollover)`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className={`text-sm font-medium ${overBudget ? 'text-red-600' : 'text-gray-900'}`}>
+                        {overBudget
+                          ? `${formatCurrency(budget.remaining)} over`
+                          : `${formatCurrency(budget.remaining)} left`}
+                      </span>
+                      <button
+                        onClick={() => openEditForm(budget)}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded"
+                        title="Edit budget"
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        onClick={() => deleteBudget(budget)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                        title="Delete budget"
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  </div>
+                  <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      data-testid="budget-progress"
+                      className={`h-full rounded-full ${
+                        overBudget ? 'bg-red-600' : budget.percent_used >= 80 ? 'bg-yellow-500' : 'bg-green-500'
+                      }`}
+                      style={{ width: `${barWidth}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Budget;
@@ -1,35 +1,49 @@
 import { useState, useEffect } from 'react';
 import PlaidLink from '../components/PlaidLink';
+import ItemHealthList from '../components/ItemHealthList';
+import UnlinkInstitutionPanel from '../components/UnlinkInstitutionPanel';
 import { api } from '../utils/api';
+import { getAccountTypeIcon } from '../utils/accountTypes';
+import { ITEM_STATUS_LABELS, needsReconnect, type PlaidItemHealth } from '../utils/itemHealth';
 
 interface Account {
   id: string;
   name: string;
   type: string;
-  subtype: string;
-  mask: string;
+  subtype: string | null;
+  mask: string | null;
   balance_current: number;
   institution_name?: string;
+  plaid_item_id?: string | null;
+  archived_at?: string | null;
 }
 
 const ConnectAccounts = () => {
   const [connectedAccounts, setConnectedAccounts] = useState<Account[]>([]);
+  const [archivedAccounts, setArchivedAccounts] = useState<Account[]>([]);
+  const [items, setItems] = useState<PlaidItemHealth[]>([]);
+  const [unlinkingItem, setUnlinkingItem] = useState<PlaidItemHealth | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
+  const loadAccounts = async () => {
+    try {
+      const data = await api.getAccounts({ includeArchived: true });
+      const accounts: Account[] = data.accounts || [];
+      setConnectedAccounts(accounts.filter((account) => !account.archived_at));
+      setArchivedAccounts(accounts.filter((account) => account.archived_at));
+      setItems(data.items || []);
+    } catch (error) {
+      console.error('Error loading accounts:', error);
+    }
+  };
+
   // Load existing accounts from database
   useEffect(() => {
-    const loadAccounts = async () => {
-      try {
-        const data = await api.getAccounts();
-        setConnectedAccounts(data.accounts || []);
-      } catch (error) {
-        console.error('Error loading accounts:', error);
-      }
-    };
-
     loadAccounts();
   }, []);
 
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
   const handlePlaidSuccess = async (publicToken: string, metadata: any) => {
     setIsLoading(true);
     try {
@@ -42,8 +56,7 @@ const ConnectAccounts = () => {
       console.log('✅ Account connected:', result.institution_name);
       
       // Reload accounts from database
-      const data = await api.getAccounts();
-      setConnectedAccounts(data.accounts || []);
+      await loadAccounts();
       
       // Show success message
       const txCount = result.transactions_synced ? 'Transactions have been synced automatically!' : '';
@@ -56,7 +69,7 @@ const ConnectAccounts = () => {
     }
   };
 
-  const getAccountIcon = (type: string, subtype: string) => {
+  const getAccountIcon = (type: string, subtype: string | null) => {
     if (type === 'depository') {
       if (subtype === 'checking') return '🏦';
       if (subtype === 'savings') return '💰';
@@ -64,13 +77,14 @@ const ConnectAccounts = () => {
     if (type === 'credit') return '💳';
     if (type === 'investment') return '📈';
     if (type === 'loan') return '🏠';
+    if (type !== 'depository') return getAccountTypeIcon(type);
     return '💵';
   };
 
-  const getAccountTypeLabel = (type: string, subtype: string) => {
-    return `${type.charAt(0).toUpperCase() + type.slice(1)} - ${
-      subtype.charAt(0).toUpperCase() + subtype.slice(1)
-    }`;
+  // Manual accounts have no subtype, and their types use underscores
+  const getAccountTypeLabel = (type: string, subtype: string | null) => {
+    const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ');
+    return subtype ? `${capitalize(type)} - ${capitalize(subtype)}` : capitalize(type);
   };
 
   return (
@@ -105,35 +119,86 @@ const ConnectAccounts = () => {
         </div>
       </div>
 
+      {/* Institutions */}
+      {items.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Institutions</h2>
+          <ItemHealthList items={items} onReconnected={loadAccounts} onUnlink={setUnlinkingItem} />
+        </div>
+      )}
+
+      {unlinkingItem && (
+        <UnlinkInstitutionPanel
+          key={unlinkingItem.id}
+          item={unlinkingItem}
+          onClose={() => setUnlinkingItem(null)}
+          onUnlinked={loadAccounts}
+        />
+      )}
+
       {/* Connected Accounts */}
       {connectedAccounts.length > 0 && (
         <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
           <h2 className="text-xl font-bold text-gray-900 mb-4">Connected Accounts</h2>
           <div className="space-y-3">
-            {connectedAccounts.map((account) => (
-              <div
-                key={account.id}
-                className="flex items-center justify-between p-4 border border-gray-200 rounded-xl hover:border-red-300 transition-colors"
-              >
-                <div className="flex items-center gap-4">
-                  <div className="w-12 h-12 bg-gradient-to-br from-red-500 to-orange-500 rounded-full flex items-center justify-center text-2xl">
-                    {getAccountIcon(account.type, account.subtype)}
+            {connectedAccounts.map((account) => {
+              const item = account.plaid_item_id ? itemsById.get(account.plaid_item_id) : undefined;
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between p-4 border border-gray-200 rounded-xl hover:border-red-300 transition-colors"
+                >
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-gradient-to-br from-red-500 to-orange-500 rounded-full flex items-center justify-center text-2xl">
+                      {getAccountIcon(account.type, account.subtype)}
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {account.institution_name || 'Bank'} {account.name}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {getAccountTypeLabel(account.type, account.subtype)}{account.mask ? ` ••••${account.mask}` : ''}
+                      </p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="font-medium text-gray-900">
-                      {account.institution_name || 'Bank'} {account.name}
-                    </p>
-                    <p className="text-sm text-gray-600">
-                      {getAccountTypeLabel(account.type, account.subtype)} ••••{account.mask}
+                  <div className="text-right">
+                    <p className="text-lg font-bold text-gray-900">
+                      ${(account.balance_current || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </p>
+                    {item && needsReconnect(item) ? (
+                      <p className="text-xs text-red-600">⚠️ {ITEM_STATUS_LABELS[item.status!] || 'Needs attention'}</p>
+                    ) : (
+                      <p className="text-xs text-green-600">✓ Connected</p>
+                    )}
                   </div>
                 </div>
-                <div className="text-right">
-                  <p className="text-lg font-bold text-gray-900">
-                    ${(account.balance_current || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Accounts kept from unlinked institutions */}
+      {archivedAccounts.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 mb-1">Archived Accounts</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            History from institutions you unlinked. Their transactions stay searchable but no longer count toward your balances.
+          </p>
+          <div className="space-y-2">
+            {archivedAccounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-sm">
+                <div>
+                  <p className="font-medium text-gray-700">
+                    {account.institution_name || 'Bank'} {account.name}{account.mask ? ` ••••${account.mask}` : ''}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Archived {new Date(account.archived_at!).toLocaleDateString()} · Read-only
                   </p>
-                  <p className="text-xs text-green-600">✓ Connected</p>
                 </div>
+                <p className="text-gray-500">
+                  ${(account.balance_current || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </p>
               </div>
             ))}
           </div>
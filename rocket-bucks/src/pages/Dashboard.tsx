@@ -4,10 +4,14 @@ import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
 import { useAuth } from '../contexts/AuthContext';
 import { latencyTracker } from '../utils/latencyTracker';
+import { AMOUNT_CHANGE_LABELS, formatAmountChange, getActiveAmountAlert } from '../utils/amountAlerts';
+import ItemHealthList from '../components/ItemHealthList';
+import { needsReconnect, type PlaidItemHealth } from '../utils/itemHealth';
 
 const Dashboard = () => {
   const [loading, setLoading] = useState(true);
   const [accounts, setAccounts] = useState<any[]>([]);
+  const [items, setItems] = useState<PlaidItemHealth[]>([]);
   const [recentTransactions, setRecentTransactions] = useState<any[]>([]);
   const [upcomingCharges, setUpcomingCharges] = useState<any[]>([]);
   const [spendingData, setSpendingData] = useState<any[]>([]);
@@ -22,14 +26,6 @@ const Dashboard = () => {
   // Ref to prevent duplicate measurements (React StrictMode double-invocation)
   const isMeasuringRef = useRef(false);
 
-  // Helper function to get category name (same as Spending page)
-  const getCategoryName = (transaction: any) => {
-    return transaction.user_category_name ||
-           transaction.transaction_categories?.name ||
-           transaction.plaid_primary_category ||
-           'Uncategorized';
-  };
-
   useEffect(() => {
     // Prevent duplicate measurements (React StrictMode double-invocation)
     if (isMeasuringRef.current) {
@@ -100,6 +96,7 @@ const Dashboard = () => {
 
       // Set accounts
       setAccounts(accountsRes.accounts || []);
+      setItems(accountsRes.items || []);
 
       // Set recent transactions
       setRecentTransactions(transactionsRes.transactions || []);
@@ -114,7 +111,7 @@ const Dashboard = () => {
                !name.includes('interest') && 
                !name.includes('interest payment');
       }) || [];
-      setUpcomingCharges(next30Days);
+      setUpcomingCharges(next30Days.map((r: any) => ({ ...r, amount_alert: getActiveAmountAlert(r) })));
 
       // Measure spending trends calculation latency
       const spendingTrendsStartTime = performance.now();
@@ -157,86 +154,24 @@ const Dashboard = () => {
   const calculateSpendingTrends = async () => {
     try {
       const now = new Date();
-      
-      // Fetch last 6 months of transactions (same date range logic as Spending page)
-      const sixMonthsAgo = new Date();
-      sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-      
-      // Use exact same date range calculation as Spending page for "This Month"
-      const endDate = now; // Same as Spending page: endDate = now
-      
-      const { transactions } = await api.searchTransactions({
-        start_date: sixMonthsAgo.toISOString().split('T')[0],
-        end_date: endDate.toISOString().split('T')[0], // Same as Spending page
-        limit: 10000,
-      });
+      const fiveMonthsStart = new Date(now.getFullYear(), now.getMonth() - 4, 1);
 
-      // Calculate spending for each month using exact month boundaries (same as Spending page)
-      const monthlyData: { [key: string]: number } = {};
-      const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      
-      // Calculate spending for each of the last 5 months
-      for (let i = 4; i >= 0; i--) {
-        const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const monthName = months[monthDate.getMonth()];
-        const monthYear = monthDate.getFullYear();
-        const monthNum = monthDate.getMonth();
-        
-        // Calculate exact month boundaries (same as Spending page "Last Month" logic)
-        let monthStart: Date;
-        let monthEnd: Date;
-        
-        if (i === 0) {
-          // Current month: from first day to today
-          monthStart = new Date(monthYear, monthNum, 1);
-          monthEnd = now;
-        } else {
-          // Past months: full month (first day to last day)
-          monthStart = new Date(monthYear, monthNum, 1);
-          monthEnd = new Date(monthYear, monthNum + 1, 0); // Last day of the month
-        }
-        
-        const monthStartStr = monthStart.toISOString().split('T')[0];
-        const monthEndStr = monthEnd.toISOString().split('T')[0];
-        
-        // Filter transactions for this specific month
-        const monthSpendingRaw = transactions
-          .filter((tx: any) => {
-            const txDateStr = tx.date.split('T')[0]; // Get date part only
-            const categoryName = getCategoryName(tx);
-            return tx.transaction_type === 'expense' &&
-                   tx.amount > 0 &&
-                   categoryName !== 'Income' &&
-                   categoryName !== 'Transfer' &&
-                   txDateStr >= monthStartStr &&
-                   txDateStr <= monthEndStr;
-          })
-          .reduce((sum: number, tx: any) => sum + tx.amount, 0);
-        
-        // Round to 2 decimal places
-        monthlyData[monthName] = Math.round(monthSpendingRaw * 100) / 100;
-      }
+      // Monthly spending from the shared insights endpoint, so it matches the Spending page
+      const { series } = await api.getInsights({
+        start_date: fiveMonthsStart.toISOString().split('T')[0],
+        end_date: now.toISOString().split('T')[0],
+        group_by: 'month',
+      });
 
-      // Convert to chart data (last 5 months)
-      const chartData = [];
-      
-      for (let i = 4; i >= 0; i--) {
-        const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const monthName = months[date.getMonth()];
-        // Round to 2 decimal places to avoid floating point precision issues
-        const amount = monthlyData[monthName] || 0;
-        chartData.push({
-          month: monthName,
-          amount: Math.round(amount * 100) / 100,
-        });
-      }
+      const chartData = series.points.map((point: any) => ({
+        month: new Date(`${point.date}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' }),
+        amount: point.amount,
+      }));
 
       setSpendingData(chartData);
-      
-      // Set current month spending from chart data
-      const currentMonthName = now.toLocaleDateString('en-US', { month: 'short' });
-      const currentMonthSpending = monthlyData[currentMonthName] || 0;
-      setMonthlySpend(currentMonthSpending);
+
+      // Current month spending is the last bucket in the series
+      setMonthlySpend(chartData.length > 0 ? chartData[chartData.length - 1].amount : 0);
     } catch (error) {
       console.error('Error calculating spending trends:', error);
     }
@@ -444,6 +379,13 @@ const Dashboard = () => {
               </Link>
             </div>
 
+            {/* Institutions that stopped syncing */}
+            {items.some(needsReconnect) && (
+              <div className="mb-4">
+                <ItemHealthList items={items} problemsOnly onReconnected={loadDashboardData} />
+              </div>
+            )}
+
             {groupedAccounts.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-sm text-gray-600 mb-3">No accounts connected yet</p>
@@ -495,6 +437,14 @@ const Dashboard = () => {
                         <div>
                           <p className="text-sm font-medium text-gray-900">{charge.name}</p>
                           <p className="text-xs text-gray-600">{charge.due_in}</p>
+                          {charge.amount_alert && (
+                            <span
+                              className="px-2 py-0.5 bg-orange-100 text-orange-800 rounded text-xs font-medium"
+                              title={AMOUNT_CHANGE_LABELS[charge.amount_alert.kind]}
+                            >
+                              ↑ {formatAmountChange(charge.amount_alert)}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <span className="text-sm font-medium text-gray-900">
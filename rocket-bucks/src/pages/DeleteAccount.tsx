@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { api } from '../utils/api';
+import DataExportPanel from '../components/DataExportPanel';
 
 interface Account {
   id: string;
@@ -120,6 +121,9 @@ const DeleteAccount = () => {
         </p>
       </div>
 
+      {/* Take data out before it's gone */}
+      <DataExportPanel />
+
       {/* Danger Zone */}
       <div className="bg-red-50 border-2 border-red-300 rounded-2xl p-8">
         <div className="flex items-start gap-4 mb-6">
@@ -179,6 +183,10 @@ const DeleteAccount = () => {
               <span className="text-red-600">✗</span>
               <span className="text-gray-700">All net worth tracking data</span>
             </li>
+            <li className="flex items-start gap-2">
+              <span className="text-red-600">✗</span>
+              <span className="text-gray-700">All AI advisor conversations and the log of what was shared with the AI model</span>
+            </li>
           </ul>
         </div>
 
@@ -2,6 +2,14 @@ import { useState, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
+import ManualAccountPanel from '../components/ManualAccountPanel';
+import {
+  isAssetAccount,
+  isDebtAccount,
+  isManualAccount,
+  getAccountTypeIcon,
+  MANUAL_ACCOUNT_TYPE_OPTIONS,
+} from '../utils/accountTypes';
 
 const NetWorth = () => {
   const [activeTab, setActiveTab] = useState<'summary' | 'assets' | 'debt'>('summary');
@@ -12,6 +20,16 @@ const NetWorth = () => {
   const [totalDebts, setTotalDebts] = useState(0);
   const [netWorth, setNetWorth] = useState(0);
   const [selectedPeriod, setSelectedPeriod] = useState<'1M' | '3M' | '6M' | '1Y' | 'ALL'>('6M');
+  // null = closed; otherwise the manual account being updated, or a type to start a new one with
+  const [manualPanel, setManualPanel] = useState<{ account?: any; type?: string } | null>(null);
+
+  const periodLabels = {
+    '1M': 'over the last month',
+    '3M': 'over the last 3 months',
+    '6M': 'over the last 6 months',
+    '1Y': 'over the last year',
+    'ALL': 'since your first balance',
+  };
 
   useEffect(() => {
     loadNetWorthData();
@@ -49,12 +67,12 @@ const NetWorth = () => {
     accountsData.forEach((account: any) => {
       const balance = account.balance_current || 0;
       
-      // Assets: depository (checking, savings), investment
-      if (account.type === 'depository' || account.type === 'investment') {
+      // Assets: bank and investment accounts plus manually tracked property
+      if (isAssetAccount(account)) {
         assets += Math.abs(balance);
       }
-      // Debts: credit cards, loans
-      else if (account.type === 'credit' || account.type === 'loan') {
+      // Debts: credit cards, loans, private debts
+      else if (isDebtAccount(account)) {
         debts += Math.abs(balance);
       }
     });
@@ -64,24 +82,44 @@ const NetWorth = () => {
     setNetWorth(assets - debts);
   };
 
-  const calculateHistoricalNetWorth = async (accountsData: any[], _period: '1M' | '3M' | '6M' | '1Y' | 'ALL' = '6M') => {
+  const calculateHistoricalNetWorth = async (accountsData: any[], period: '1M' | '3M' | '6M' | '1Y' | 'ALL' = '6M') => {
     const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
     const now = new Date();
-    const chartData = [];
     
     // Get current net worth
     const currentAssets = accountsData
-      .filter(a => a.type === 'depository' || a.type === 'investment')
+      .filter(isAssetAccount)
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
     
     const currentDebts = accountsData
-      .filter(a => a.type === 'credit' || a.type === 'loan')
+      .filter(isDebtAccount)
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
     
     const currentNetWorth = currentAssets - currentDebts;
 
-    // Only show data we actually have - just the current month
-    // In the future, if we have historical balance snapshots, we can add those here
+    // Use balance snapshots for the selected period when we have them
+    try {
+      const { points } = await api.getNetWorthHistory(period);
+      if (points && points.length > 0) {
+        // Daily points for short periods, month labels for long ones
+        const useMonthLabels = period === '1Y' || period === 'ALL';
+        setNetWorthData(points.map((point) => {
+          const [year, month, day] = point.date.split('-').map(Number);
+          return {
+            month: useMonthLabels
+              ? `${months[month - 1]} ${String(year).slice(2)}`
+              : `${months[month - 1]} ${day}`,
+            value: point.net_worth,
+          };
+        }));
+        return;
+      }
+    } catch (error) {
+      console.error('Error loading net worth history:', error);
+    }
+
+    // No history yet - just show the current month
+    const chartData = [];
     if (accountsData.length > 0 && currentNetWorth !== 0) {
       const monthName = months[now.getMonth()];
       chartData.push({
@@ -94,12 +132,11 @@ const NetWorth = () => {
   };
 
   const getAssetsByType = () => {
-    const assetAccounts = accounts.filter(a => 
-      a.type === 'depository' || a.type === 'investment'
-    );
+    const assetAccounts = accounts.filter(isAssetAccount);
 
+    // Manual cash accounts have no subtype, so anything that isn't savings counts as cash
     const checkingTotal = assetAccounts
-      .filter(a => a.subtype === 'checking')
+      .filter(a => a.type === 'depository' && a.subtype !== 'savings')
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
     
     const savingsTotal = assetAccounts
@@ -107,15 +144,28 @@ const NetWorth = () => {
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
     
     const investmentTotal = assetAccounts
-      .filter(a => a.type === 'investment')
+      .filter(a => a.type === 'investment' || a.type === 'crypto')
+      .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
+
+    // Houses and cars, which usually carry a mortgage or auto loan
+    const propertyTotal = assetAccounts
+      .filter(a => a.type === 'real_estate' || a.type === 'vehicle')
+      .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
+
+    const otherTotal = assetAccounts
+      .filter(a => a.type === 'other_asset')
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
 
     const cashTotal = checkingTotal;
 
-    const total = checkingTotal + savingsTotal + investmentTotal;
+    const total = checkingTotal + savingsTotal + investmentTotal + propertyTotal + otherTotal;
 
     return [
-      { name: 'Assets with Loans', percent: 0, amount: 0 },
+      { 
+        name: 'Assets with Loans', 
+        percent: total > 0 ? Math.round((propertyTotal / total) * 100) : 0, 
+        amount: propertyTotal 
+      },
       investmentTotal > 0 && { 
         name: 'Investments', 
         percent: total > 0 ? Math.round((investmentTotal / total) * 100) : 0, 
@@ -131,14 +181,16 @@ const NetWorth = () => {
         percent: total > 0 ? Math.round((cashTotal / total) * 100) : 0, 
         amount: cashTotal 
       },
-      { name: 'Other Assets', percent: 0, amount: 0 },
+      { 
+        name: 'Other Assets', 
+        percent: total > 0 ? Math.round((otherTotal / total) * 100) : 0, 
+        amount: otherTotal 
+      },
     ].filter(Boolean);
   };
 
   const getDebtsByType = () => {
-    const debtAccounts = accounts.filter(a => 
-      a.type === 'credit' || a.type === 'loan'
-    );
+    const debtAccounts = accounts.filter(isDebtAccount);
 
     const creditCardTotal = debtAccounts
       .filter(a => a.type === 'credit')
@@ -148,7 +200,11 @@ const NetWorth = () => {
       .filter(a => a.type === 'loan')
       .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
 
-    const total = creditCardTotal + loanTotal;
+    const otherTotal = debtAccounts
+      .filter(a => a.type === 'other_debt')
+      .reduce((sum, a) => sum + Math.abs(a.balance_current || 0), 0);
+
+    const total = creditCardTotal + loanTotal + otherTotal;
 
     return [
       loanTotal > 0 && { 
@@ -162,7 +218,11 @@ const NetWorth = () => {
         amount: creditCardTotal 
       },
       { name: 'Long Term Debts', percent: 0, amount: 0 },
-      { name: 'Other Debts', percent: 0, amount: 0 },
+      { 
+        name: 'Other Debts', 
+        percent: total > 0 ? Math.round((otherTotal / total) * 100) : 0, 
+        amount: otherTotal 
+      },
     ].filter(Boolean);
   };
 
@@ -178,12 +238,21 @@ const NetWorth = () => {
 
   const assets = getAssetsByType();
   const debts = getDebtsByType();
+  const assetCount = accounts.filter(isAssetAccount).length;
+  const debtCount = accounts.filter(isDebtAccount).length;
+  const manualAccounts = accounts.filter(isManualAccount);
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold text-gray-900">Net Worth</h1>
         <div className="flex gap-3">
+          <button
+            onClick={() => setManualPanel({})}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Add Asset
+          </button>
           <Link to="/connect-accounts">
             <button className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800">
               Add Account
@@ -192,6 +261,16 @@ const NetWorth = () => {
         </div>
       </div>
 
+      {manualPanel && (
+        <ManualAccountPanel
+          key={manualPanel.account?.id || 'new'}
+          account={manualPanel.account}
+          initialType={manualPanel.type}
+          onClose={() => setManualPanel(null)}
+          onSaved={loadNetWorthData}
+        />
+      )}
+
       {/* Tabs */}
       <div className="flex gap-6 mb-6 border-b border-gray-200">
         <button 
@@ -243,14 +322,14 @@ const NetWorth = () => {
                       <>
                         <span className="text-green-600">↑</span>
                         <p className="text-sm text-gray-600">
-                          Up ${(netWorthData[netWorthData.length - 1].value - netWorthData[0].value).toLocaleString()} over the last 6 months
+                          Up ${(netWorthData[netWorthData.length - 1].value - netWorthData[0].value).toLocaleString()} {periodLabels[selectedPeriod]}
                         </p>
                       </>
                     ) : (
                       <>
                         <span className="text-red-600">↓</span>
                         <p className="text-sm text-gray-600">
-                          Down ${Math.abs(netWorthData[netWorthData.length - 1].value - netWorthData[0].value).toLocaleString()} over the last 6 months
+                          Down ${Math.abs(netWorthData[netWorthData.length - 1].value - netWorthData[0].value).toLocaleString()} {periodLabels[selectedPeriod]}
                         </p>
                       </>
                     )}
@@ -314,9 +393,9 @@ const NetWorth = () => {
             <div className="bg-white rounded-2xl shadow-sm p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-bold text-gray-900">Assets</h3>
-                {accounts.filter(a => a.type === 'depository' || a.type === 'investment').length > 0 && (
+                {assetCount > 0 && (
                   <p className="text-sm text-gray-600">
-                    {accounts.filter(a => a.type === 'depository' || a.type === 'investment').length} account{accounts.filter(a => a.type === 'depository' || a.type === 'investment').length !== 1 ? 's' : ''}
+                    {assetCount} account{assetCount !== 1 ? 's' : ''}
                   </p>
                 )}
               </div>
@@ -324,11 +403,19 @@ const NetWorth = () => {
             {assets.length === 0 || totalAssets === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-600 mb-3">No assets connected yet</p>
-                <Link to="/connect-accounts">
-                  <button className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">
-                    Connect Accounts
+                <div className="flex justify-center gap-2">
+                  <Link to="/connect-accounts">
+                    <button className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">
+                      Connect Accounts
+                    </button>
+                  </Link>
+                  <button
+                    onClick={() => setManualPanel({})}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Add manually
                   </button>
-                </Link>
+                </div>
               </div>
             ) : (
               <>
@@ -343,7 +430,7 @@ const NetWorth = () => {
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
                           <span className="text-blue-600 text-xl">
-                            {asset.name.includes('Savings') ? '💰' : asset.name.includes('Cash') ? '💵' : '📊'}
+                            {asset.name.includes('Savings') ? '💰' : asset.name.includes('Cash') ? '💵' : asset.name.includes('Loans') ? '🏠' : '📊'}
                           </span>
                         </div>
                         <div>
@@ -381,9 +468,9 @@ const NetWorth = () => {
             <div className="bg-white rounded-2xl shadow-sm p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-bold text-gray-900">Debt</h3>
-                {accounts.filter(a => a.type === 'credit' || a.type === 'loan').length > 0 && (
+                {debtCount > 0 && (
                   <p className="text-sm text-gray-600">
-                    {accounts.filter(a => a.type === 'credit' || a.type === 'loan').length} account{accounts.filter(a => a.type === 'credit' || a.type === 'loan').length !== 1 ? 's' : ''}
+                    {debtCount} account{debtCount !== 1 ? 's' : ''}
                   </p>
                 )}
               </div>
@@ -440,25 +527,72 @@ const NetWorth = () => {
         {/* Sidebar */}
         <div className="space-y-6">
           {/* Complete accounts card */}
-          {accounts.length === 0 && (
+          {manualAccounts.length === 0 && (
             <div className="bg-white rounded-2xl shadow-sm p-6">
               <div className="space-y-4">
                 <h3 className="text-lg font-bold text-gray-900">Complete your financial picture</h3>
                 <p className="text-sm text-gray-600">
-                  To get a complete sense of your net worth, add all the accounts that make up your full financial picture.
+                  To get a complete sense of your net worth, add the things your bank doesn't track, like your home,
+                  your car or a loan from family.
                 </p>
-                <div className="flex gap-2 mb-4">
-                  {['🏦', '💳', '💰', '📈', '🏠'].map((icon, i) => (
-                    <div key={i} className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center">
-                      <span className="text-lg">{icon}</span>
-                    </div>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {MANUAL_ACCOUNT_TYPE_OPTIONS.filter(option => ['real_estate', 'vehicle', 'crypto', 'other_asset', 'other_debt'].includes(option.value)).map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setManualPanel({ type: option.value })}
+                      title={`Add ${option.label.toLowerCase()}`}
+                      aria-label={`Add ${option.label.toLowerCase()}`}
+                      className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center hover:bg-gray-200"
+                    >
+                      <span className="text-lg">{option.icon}</span>
+                    </button>
                   ))}
                 </div>
-                <Link to="/connect-accounts">
-                  <button className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800">
-                    Add more accounts
-                  </button>
-                </Link>
+                <button
+                  onClick={() => setManualPanel({})}
+                  className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800"
+                >
+                  Add more accounts
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Manually tracked accounts */}
+          {manualAccounts.length > 0 && (
+            <div className="bg-white rounded-2xl shadow-sm p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-bold text-gray-900">Tracked manually</h3>
+                <button
+                  onClick={() => setManualPanel({})}
+                  className="text-sm font-medium text-red-600 hover:text-red-700"
+                >
+                  + Add
+                </button>
+              </div>
+              <div className="space-y-3">
+                {manualAccounts.map(account => (
+                  <div key={account.id} className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0">
+                        <span className="text-lg">{getAccountTypeIcon(account.type)}</span>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{account.name}</p>
+                        <p className={`text-xs ${isDebtAccount(account) ? 'text-red-600' : 'text-gray-600'}`}>
+                          {isDebtAccount(account) ? '-' : ''}${Math.abs(account.balance_current || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setManualPanel({ account })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-xs font-medium text-gray-700 hover:bg-gray-50"
+                      aria-label={`Update ${account.name}`}
+                    >
+                      Update
+                    </button>
+                  </div>
+                ))}
               </div>
             </div>
           )}
@@ -484,7 +618,7 @@ const NetWorth = () => {
                     </p>
                   </div>
                   <p className="text-xs text-gray-600">
-                    {accounts.filter(a => a.type === 'depository' || a.type === 'investment').length} account{accounts.filter(a => a.type === 'depository' || a.type === 'investment').length !== 1 ? 's' : ''}
+                    {assetCount} account{assetCount !== 1 ? 's' : ''}
                   </p>
                 </div>
               </div>
@@ -502,7 +636,7 @@ const NetWorth = () => {
                     </p>
                   </div>
                   <p className="text-xs text-gray-600">
-                    {accounts.filter(a => a.type === 'credit' || a.type === 'loan').length} account{accounts.filter(a => a.type === 'credit' || a.type === 'loan').length !== 1 ? 's' : ''}
+                    {debtCount} account{debtCount !== 1 ? 's' : ''}
                   </p>
                 </div>
               </div>
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { api } from '../utils/api';
+import CancellationPanel from '../components/CancellationPanel';
+import AmountHistoryPanel from '../components/AmountHistoryPanel';
+import RecurringFormPanel from '../components/RecurringFormPanel';
+import MergeRecurringPanel from '../components/MergeRecurringPanel';
+import { AMOUNT_CHANGE_LABELS, formatAmountChange, getActiveAmountAlert } from '../utils/amountAlerts';
 
 const Recurring = () => {
   const [activeTab, setActiveTab] = useState<'upcoming' | 'viewAll' | 'calendar'>('upcoming');
@@ -11,6 +16,14 @@ const Recurring = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'type' | 'name' | 'amount' | 'due'>('type');
   const [showSortDropdown, setShowSortDropdown] = useState(false);
+  const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+  const [cancellingRecurring, setCancellingRecurring] = useState<any | null>(null);
+  const [historyRecurring, setHistoryRecurring] = useState<any | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  // { recurring: undefined } adds a new item, { recurring } edits one
+  const [recurringForm, setRecurringForm] = useState<{ recurring?: any } | null>(null);
+  const [mergingRecurring, setMergingRecurring] = useState<any | null>(null);
+  const [hiddenRecurring, setHiddenRecurring] = useState<any | null>(null);
 
   useEffect(() => {
     loadRecurringData();
@@ -33,6 +46,23 @@ const Recurring = () => {
     }
   }, [showSortDropdown]);
 
+  // Close a row's action menu when clicking outside it
+  useEffect(() => {
+    if (!openMenuId) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (!target.closest('.row-menu-container')) {
+        setOpenMenuId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [openMenuId]);
+
   const loadRecurringData = async () => {
     try {
       setLoading(true);
@@ -404,7 +434,7 @@ const Recurring = () => {
 
   const getUpcomingCharges = () => {
     const upcoming = recurringTransactions.filter(r => 
-      r.days_until_due !== undefined && r.days_until_due >= 0
+      r.days_until_due !== undefined && r.days_until_due >= 0 && !r.is_paused
     );
     
     const next7Days = upcoming.filter(r => r.days_until_due <= 7);
@@ -413,7 +443,220 @@ const Recurring = () => {
     return { next7Days, comingLater };
   };
 
+  const renderCancellationBadge = (item: any) => {
+    if (item.cancellation_status === 'charged_after_cancel') {
+      return <span className="px-2 py-0.5 bg-red-100 text-red-700 rounded text-xs font-medium">⚠️ Charged after cancelling</span>;
+    }
+    if (item.cancellation_status === 'cancel_requested') {
+      return (
+        <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded text-xs font-medium">
+          Cancel requested
+          {item.cancellation_deadline &&
+            ` · by ${new Date(item.cancellation_deadline).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`}
+        </span>
+      );
+    }
+    if (item.cancellation_status === 'cancelled') {
+      return <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs font-medium">Cancelled</span>;
+    }
+    return null;
+  };
+
+  const detectRecurring = async () => {
+    try {
+      setDetecting(true);
+      setSyncMessage(null);
+      const { created_count, linked_count } = await api.detectRecurringStreams();
+      setSyncMessage(
+        created_count > 0
+          ? `✅ Found ${created_count} new recurring charge${created_count !== 1 ? 's' : ''}`
+          : `✅ No new recurring charges found${linked_count > 0 ? `, linked ${linked_count} transaction${linked_count !== 1 ? 's' : ''}` : ''}`
+      );
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error detecting recurring transactions:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to detect recurring transactions'}`);
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const togglePaused = async (item: any) => {
+    try {
+      await api.updateRecurring(item.id, { is_paused: !item.is_paused });
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error pausing recurring transaction:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to update recurring transaction'}`);
+    }
+  };
+
+  const markNotRecurring = async (item: any) => {
+    try {
+      await api.markNotRecurring(item.id);
+      setHiddenRecurring(item);
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error marking as not recurring:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to mark as not recurring'}`);
+    }
+  };
+
+  const undoNotRecurring = async () => {
+    if (!hiddenRecurring) return;
+    try {
+      await api.restoreRecurring(hiddenRecurring.id);
+      setHiddenRecurring(null);
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error restoring recurring transaction:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to restore recurring transaction'}`);
+    }
+  };
+
+  const deleteRecurring = async (item: any) => {
+    if (!confirm(`Delete ${item.name}? Its transactions will be kept.`)) {
+      return;
+    }
+    try {
+      await api.deleteRecurring(item.id);
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error deleting recurring transaction:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to delete recurring transaction'}`);
+    }
+  };
+
+  const renderPausedBadge = (item: any) =>
+    item.is_paused ? <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs font-medium">Paused</span> : null;
+
+  const renderMissedBadge = (item: any) => {
+    const missed = Number(item.consecutive_missed) || 0;
+    if (missed === 0 || item.cancellation_status) return null;
+    return (
+      <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded text-xs font-medium">
+        Missed {missed > 1 ? `${missed} payments` : 'last payment'}
+      </span>
+    );
+  };
+
+  const renderDetectedBadge = (item: any) => {
+    if (item.source !== 'detected') return null;
+    return (
+      <span
+        className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded text-xs font-medium"
+        title="Found from your transaction history"
+      >
+        Detected{item.confidence != null && ` · ${Math.round(Number(item.confidence) * 100)}%`}
+      </span>
+    );
+  };
+
+  const renderAmountAlertBadge = (item: any) => {
+    const alert = getActiveAmountAlert(item);
+    if (!alert) return null;
+    return (
+      <span className="px-2 py-0.5 bg-orange-100 text-orange-800 rounded text-xs font-medium">
+        ↑ {formatAmountChange(alert)}
+      </span>
+    );
+  };
+
+  const dismissAmountAlert = async (change: any) => {
+    try {
+      await api.updateAmountChange(change.id, 'dismissed');
+      await loadRecurringData();
+    } catch (error: any) {
+      console.error('Error dismissing amount alert:', error);
+      setSyncMessage(`❌ ${error.message || 'Failed to dismiss alert'}`);
+    }
+  };
+
+  const renderRowMenu = (item: any, menuKey: string) => (
+    <div className="relative row-menu-container">
+      <button
+        onClick={() => setOpenMenuId(openMenuId === menuKey ? null : menuKey)}
+        className="text-gray-400 hover:text-gray-600"
+        aria-label={`Actions for ${item.name}`}
+      >
+        ⋮
+      </button>
+      {openMenuId === menuKey && (
+        <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-10 text-left">
+          <button
+            onClick={() => {
+              setCancellingRecurring(item);
+              setOpenMenuId(null);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            {item.cancellation_status ? 'Manage cancellation' : 'Cancel subscription'}
+          </button>
+          <button
+            onClick={() => {
+              setHistoryRecurring(item);
+              setOpenMenuId(null);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            Price history
+          </button>
+          <button
+            onClick={() => {
+              setRecurringForm({ recurring: item });
+              setOpenMenuId(null);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => {
+              setOpenMenuId(null);
+              togglePaused(item);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            {item.is_paused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={() => {
+              setMergingRecurring(item);
+              setOpenMenuId(null);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            Merge with...
+          </button>
+          <button
+            onClick={() => {
+              setOpenMenuId(null);
+              markNotRecurring(item);
+            }}
+            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            Not recurring
+          </button>
+          {item.source === 'manual' && (
+            <button
+              onClick={() => {
+                setOpenMenuId(null);
+                deleteRecurring(item);
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-gray-50"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   const { subscriptions, bills } = groupByType();
+  const amountAlerts = recurringTransactions
+    .map(item => ({ item, alert: getActiveAmountAlert(item) }))
+    .filter(({ item, alert }) => alert && item.is_active !== false);
   const { next7Days, comingLater } = getUpcomingCharges();
 
   // Calendar data - map recurring to calendar events
@@ -521,6 +764,21 @@ const Recurring = () => {
     <div className="p-8 max-w-7xl mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold text-gray-900">Recurring</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={detectRecurring}
+            disabled={detecting}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {detecting ? 'Scanning...' : 'Find recurring charges'}
+          </button>
+          <button
+            onClick={() => setRecurringForm({})}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700"
+          >
+            Add recurring
+          </button>
+        </div>
       </div>
 
       {/* Sync Message */}
@@ -542,6 +800,89 @@ const Recurring = () => {
         </div>
       )}
 
+      {hiddenRecurring && (
+        <div className="mb-6 rounded-lg p-4 bg-gray-50 border border-gray-200 text-gray-800">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">{hiddenRecurring.name} marked as not recurring. Sync won't add it back.</p>
+            <div className="flex gap-3">
+              <button onClick={undoNotRecurring} className="text-sm font-medium text-blue-600 hover:underline">
+                Undo
+              </button>
+              <button
+                onClick={() => setHiddenRecurring(null)}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {recurringForm && (
+        <RecurringFormPanel
+          key={recurringForm.recurring?.id || 'new'}
+          recurring={recurringForm.recurring}
+          onClose={() => setRecurringForm(null)}
+          onSaved={loadRecurringData}
+        />
+      )}
+
+      {mergingRecurring && (
+        <MergeRecurringPanel
+          key={mergingRecurring.id}
+          recurring={mergingRecurring}
+          candidates={recurringTransactions}
+          onClose={() => setMergingRecurring(null)}
+          onSaved={loadRecurringData}
+        />
+      )}
+
+      {/* Price increase and unusual charge alerts */}
+      {amountAlerts.length > 0 && (
+        <div className="mb-6 bg-orange-50 border border-orange-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-orange-900 mb-2">
+            {amountAlerts.length} recurring charge{amountAlerts.length !== 1 ? 's' : ''} came in higher than usual
+          </p>
+          <div className="space-y-2">
+            {amountAlerts.map(({ item, alert }) => (
+              <div key={alert.id} className="flex items-center justify-between text-sm text-orange-800">
+                <span>
+                  {AMOUNT_CHANGE_LABELS[alert.kind] || 'Amount change'}: {item.name} {formatAmountChange(alert)}
+                </span>
+                <div className="flex gap-3">
+                  <button onClick={() => setHistoryRecurring(item)} className="font-medium hover:underline">
+                    Price history
+                  </button>
+                  <button onClick={() => dismissAmountAlert(alert)} className="font-medium hover:underline">
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {historyRecurring && (
+        <AmountHistoryPanel
+          key={historyRecurring.id}
+          recurring={historyRecurring}
+          onClose={() => setHistoryRecurring(null)}
+          onSaved={loadRecurringData}
+        />
+      )}
+
+      {cancellingRecurring && (
+        <CancellationPanel
+          key={cancellingRecurring.id}
+          recurring={cancellingRecurring}
+          onClose={() => setCancellingRecurring(null)}
+          onSaved={loadRecurringData}
+        />
+      )}
+
       {/* Tabs */}
       <div className="flex gap-6 mb-6 border-b border-gray-200">
         <button 
@@ -602,6 +943,11 @@ const Recurring = () => {
                             <div>
                               <p className="text-sm font-medium text-gray-900">{item.name}</p>
                               <p className="text-xs text-gray-600">{item.due_in}</p>
+                              {renderCancellationBadge(item)}
+                              {renderAmountAlertBadge(item)}
+                              {renderPausedBadge(item)}
+                              {renderMissedBadge(item)}
+                              {renderDetectedBadge(item)}
                             </div>
                           </div>
                           <div className="flex items-center gap-3">
@@ -614,7 +960,7 @@ const Recurring = () => {
                               </div>
                             )}
                             <span className="text-sm font-medium text-gray-900">${(item.expected_amount || 0).toFixed(2)}</span>
-                            <button className="text-gray-400 hover:text-gray-600">⋮</button>
+                            {renderRowMenu(item, `next7-${item.id}`)}
                           </div>
                         </div>
                       ))}
@@ -643,6 +989,11 @@ const Recurring = () => {
                             <div>
                               <p className="text-sm font-medium text-gray-900">{item.name}</p>
                               <p className="text-xs text-gray-600">{item.due_in}</p>
+                              {renderCancellationBadge(item)}
+                              {renderAmountAlertBadge(item)}
+                              {renderPausedBadge(item)}
+                              {renderMissedBadge(item)}
+                              {renderDetectedBadge(item)}
                             </div>
                           </div>
                           <div className="flex items-center gap-3">
@@ -655,7 +1006,7 @@ const Recurring = () => {
                               </div>
                             )}
                             <span className="text-sm font-medium text-gray-900">${(item.expected_amount || 0).toFixed(2)}</span>
-                            <button className="text-gray-400 hover:text-gray-600">⋮</button>
+                            {renderRowMenu(item, `later-${item.id}`)}
                           </div>
                         </div>
                       ))}
@@ -894,6 +1245,11 @@ const Recurring = () => {
                             <div>
                               <p className="text-sm font-medium text-gray-900">{sub.name}</p>
                               <p className="text-xs text-gray-600">{sub.frequency || 'Monthly'}</p>
+                              {renderCancellationBadge(sub)}
+                              {renderAmountAlertBadge(sub)}
+                              {renderPausedBadge(sub)}
+                              {renderMissedBadge(sub)}
+                              {renderDetectedBadge(sub)}
                             </div>
                           </div>
                         </td>
@@ -908,7 +1264,7 @@ const Recurring = () => {
                         <td className="py-4 px-4 text-right">
                           <div className="flex items-center justify-end gap-2">
                             <span className="text-sm font-medium text-gray-900">${(sub.expected_amount || 0).toFixed(2)}</span>
-                            <button className="text-gray-400 hover:text-gray-600">⋮</button>
+                            {renderRowMenu(sub, `sub-${sub.id}`)}
                           </div>
                         </td>
                       </tr>
@@ -954,6 +1310,11 @@ const Recurring = () => {
                             <div>
                               <p className="text-sm font-medium text-gray-900">{bill.name}</p>
                               <p className="text-xs text-gray-600">{bill.frequency || 'Monthly'}</p>
+                              {renderCancellationBadge(bill)}
+                              {renderAmountAlertBadge(bill)}
+                              {renderPausedBadge(bill)}
+                              {renderMissedBadge(bill)}
+                              {renderDetectedBadge(bill)}
                             </div>
                           </div>
                         </td>
@@ -966,7 +1327,7 @@ const Recurring = () => {
                         <td className="py-4 px-4 text-right">
                           <div className="flex items-center justify-end gap-2">
                             <span className="text-sm font-medium text-gray-900">${(bill.expected_amount || 0).toFixed(2)}</span>
-                            <button className="text-gray-400 hover:text-gray-600">⋮</button>
+                            {renderRowMenu(bill, `bill-${bill.id}`)}
                           </div>
                         </td>
                       </tr>
@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import DataExportPanel from '../components/DataExportPanel';
+import AIPrivacyPanel from '../components/AIPrivacyPanel';
+
+const Settings = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Settings</h1>
+
+      {/* Profile */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
+        <h3 className="font-bold text-gray-900 mb-4">Profile</h3>
+        <div className="space-y-3">
+          <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+            <span className="text-gray-700">Email Address</span>
+            <span className="font-medium text-gray-900">{user?.email}</span>
+          </div>
+          {user?.full_name && (
+            <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-700">Name</span>
+              <span className="font-medium text-gray-900">{user.full_name}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* AI advisor privacy */}
+      <AIPrivacyPanel />
+
+      {/* Data export */}
+      <DataExportPanel />
+
+      {/* Danger zone */}
+      <div className="bg-white rounded-2xl shadow-sm p-6 border border-red-200">
+        <h3 className="font-bold text-red-900 mb-2">Delete account</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Permanently delete your Rocket Bucks account and all of its data. Download your data first if you want to keep it.
+        </p>
+        <Link
+          to="/deleteaccount"
+          className="inline-block px-4 py-2 border border-red-300 text-red-600 rounded-lg text-sm font-medium hover:bg-red-50"
+        >
+          Delete my account
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
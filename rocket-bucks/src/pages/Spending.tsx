@@ -2,6 +2,16 @@ import { useState, useEffect } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { api } from '../utils/api';
 
+const CATEGORY_COLORS = ['#f97316', '#3b82f6', '#06b6d4', '#8b5cf6', '#ef4444', '#10b981', '#f59e0b', '#6b7280'];
+
+// Series keys are 'YYYY-MM' for monthly buckets and 'YYYY-MM-DD' for daily ones
+const formatSeriesLabel = (key: string) => {
+  if (key.length === 7) {
+    return new Date(`${key}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' });
+  }
+  return new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
 const Spending = () => {
   const [activeTab, setActiveTab] = useState<'lastMonth' | 'thisMonth' | 'custom'>('thisMonth');
   const [customPeriod, setCustomPeriod] = useState<'weekly' | 'monthly' | 'quarterly' | 'yearly' | null>(null);
@@ -73,44 +83,60 @@ const Spending = () => {
         endDate = now; // Use current date/time to include all of today
       }
 
-      // Fetch transactions for the selected period
-      const { transactions: txData } = await api.searchTransactions({
-        start_date: startDate.toISOString().split('T')[0],
-        end_date: endDate.toISOString().split('T')[0],
-        limit: 10000,
-      });
+      const today = now.toISOString().split('T')[0];
+      const groupBy = customPeriod === 'quarterly' || customPeriod === 'yearly' ? 'month' : 'day';
+
+      // Totals come from the shared insights endpoint so they match the Dashboard, budgets and AI
+      const [insights, history] = await Promise.all([
+        api.getInsights({
+          start_date: startDate.toISOString().split('T')[0],
+          end_date: endDate.toISOString().split('T')[0],
+          group_by: groupBy,
+          compare: true,
+        }),
+        // "Last Month" and "This Month" chart the last 6 months for context
+        activeTab !== 'custom'
+          ? api.getInsights({
+              start_date: new Date(now.getFullYear(), now.getMonth() - 5, 1).toISOString().split('T')[0],
+              end_date: today,
+              group_by: 'month',
+            }).catch((error) => {
+              console.error('Error fetching historical data for monthly trends:', error);
+              return null;
+            })
+          : Promise.resolve(null),
+      ]);
+
+      const series = (history || insights).series;
+      setMonthlySpending(series.points.map((point: any) => ({
+        month: formatSeriesLabel(point.date),
+        amount: point.amount,
+      })));
+
+      setCategoryData(insights.categories.slice(0, 8).map((category: any, index: number) => ({
+        name: category.name,
+        spend: category.amount,
+        count: category.count,
+        percent: category.percent,
+        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+      })));
+
+      setFrequentMerchants(insights.top_merchants);
+
+      setLargestPurchases(insights.largest_purchases.map((purchase: any) => ({
+        name: purchase.name,
+        date: new Date(purchase.date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' }),
+        amount: purchase.amount,
+      })));
 
-
-      // Calculate spending first to get the correct value for the selected period
-      const periodSpending = (txData || [])
-        .filter((tx: any) => {
-          const categoryName = getCategoryName(tx);
-          return tx.transaction_type === 'expense' && 
-                 tx.amount > 0 && 
-                 categoryName !== 'Income' && 
-                 categoryName !== 'Transfer';
-        })
-        .reduce((sum: number, tx: any) => sum + tx.amount, 0);
-
-      // Determine which month to override in the bar chart based on active tab
-      let targetMonthKey: string | null = null;
-      if (activeTab === 'lastMonth') {
-        // For "Last Month", override the previous month
-        const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        targetMonthKey = lastMonth.toLocaleDateString('en-US', { month: 'short' });
-      } else if (activeTab === 'thisMonth') {
-        // For "This Month", override the current month
-        targetMonthKey = now.toLocaleDateString('en-US', { month: 'short' });
-      }
-      // For custom periods, targetMonthKey stays null and we'll use period-specific logic
-
-      // Calculate all metrics using the same spending value for consistency
-      const roundedSpending = Math.round(periodSpending * 100) / 100;
-      calculateMonthlyTrends(txData || [], roundedSpending, targetMonthKey, activeTab, customPeriod, endDate);
-      calculateCategoryBreakdown(txData || [], roundedSpending);
-      calculateTopMerchants(txData || []);
-      calculateLargestPurchases(txData || []);
-      calculateSummary(txData || [], startDate, endDate);
+      setSummaryData({
+        income: insights.income,
+        bills: insights.bills,
+        spending: insights.spending,
+        incomeCount: insights.income_count,
+        billsChange: insights.previous ? Math.round((insights.bills - insights.previous.bills) * 100) / 100 : 0,
+        spendingChange: insights.previous ? Math.round((insights.spending - insights.previous.spending) * 100) / 100 : 0,
+      });
 
     } catch (error) {
       console.error('Error loading spending data:', error);
@@ -119,391 +145,6 @@ const Spending = () => {
     }
   };
 
-  const calculateMonthlyTrends = (
-    currentTxData: any[], 
-    periodSpendingValue: number, 
-    targetMonthKey: string | null,
-    activeTab: string,
-    customPeriod: string | null,
-    endDate: Date
-  ) => {
-    try {
-      const now = new Date();
-      let chartData: { month: string; amount: number }[] = [];
-
-      // Filter transactions (exclude Income and Transfer)
-      const filteredTx = currentTxData.filter((tx: any) => {
-        const categoryName = getCategoryName(tx);
-        return tx.transaction_type === 'expense' && 
-               tx.amount > 0 && 
-               categoryName !== 'Income' && 
-               categoryName !== 'Transfer';
-      });
-
-      if (activeTab === 'custom' && customPeriod) {
-        // Custom period - show data for that specific period
-        if (customPeriod === 'weekly') {
-          // Group by day for the last 7 days
-          const dailyData: { [key: string]: number } = {};
-          filteredTx.forEach((tx: any) => {
-            const date = new Date(tx.date);
-            const dayKey = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-            dailyData[dayKey] = (dailyData[dayKey] || 0) + tx.amount;
-          });
-
-          // Generate last 7 days
-          for (let i = 6; i >= 0; i--) {
-            const date = new Date(endDate);
-            date.setDate(date.getDate() - i);
-            const dayKey = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-            chartData.push({
-              month: dayKey,
-              amount: dailyData[dayKey] || 0,
-            });
-          }
-        } else if (customPeriod === 'quarterly') {
-          // Group by month for the current quarter
-          const monthlyData: { [key: string]: number } = {};
-          filteredTx.forEach((tx: any) => {
-            const date = new Date(tx.date);
-            const monthKey = date.toLocaleDateString('en-US', { month: 'short' });
-            monthlyData[monthKey] = (monthlyData[monthKey] || 0) + tx.amount;
-          });
-
-          // Generate current quarter months
-          const currentQuarter = Math.floor(now.getMonth() / 3);
-          const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-          for (let i = 0; i < 3; i++) {
-            const monthIndex = currentQuarter * 3 + i;
-            const monthName = months[monthIndex];
-            chartData.push({
-              month: monthName,
-              amount: monthlyData[monthName] || 0,
-            });
-          }
-        } else if (customPeriod === 'yearly') {
-          // Group by month for the current year
-          const monthlyData: { [key: string]: number } = {};
-          filteredTx.forEach((tx: any) => {
-            const date = new Date(tx.date);
-            const monthKey = date.toLocaleDateString('en-US', { month: 'short' });
-            monthlyData[monthKey] = (monthlyData[monthKey] || 0) + tx.amount;
-          });
-
-          // Generate all months of current year
-          const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-          for (let i = 0; i < 12; i++) {
-            chartData.push({
-              month: months[i],
-              amount: monthlyData[months[i]] || 0,
-            });
-          }
-        } else {
-          // Monthly - show daily breakdown for the current month
-          const dailyData: { [key: string]: number } = {};
-          filteredTx.forEach((tx: any) => {
-            const date = new Date(tx.date);
-            const dayKey = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-            dailyData[dayKey] = (dailyData[dayKey] || 0) + tx.amount;
-          });
-
-          // Generate all days of the current month
-          const currentDay = now.getDate();
-          
-          // Show days from start of month to today
-          for (let day = 1; day <= currentDay; day++) {
-            const date = new Date(now.getFullYear(), now.getMonth(), day);
-            const dayKey = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-            chartData.push({
-              month: dayKey,
-              amount: dailyData[dayKey] || 0,
-            });
-          }
-        }
-      } else {
-        // For "Last Month" and "This Month" tabs, show last 6 months with override
-        const monthlyData: { [key: string]: number } = {};
-        filteredTx.forEach((tx: any) => {
-          const date = new Date(tx.date);
-          const monthKey = date.toLocaleDateString('en-US', { month: 'short' });
-          monthlyData[monthKey] = (monthlyData[monthKey] || 0) + tx.amount;
-        });
-
-        // Fetch last 6 months for historical context
-        const sixMonthsAgo = new Date();
-        sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-        
-        api.searchTransactions({
-          start_date: sixMonthsAgo.toISOString().split('T')[0],
-          end_date: now.toISOString().split('T')[0],
-          limit: 10000,
-        }).then(({ transactions: allTx }) => {
-          // Group by month from all historical data
-          const historicalMonthlyData: { [key: string]: number } = {};
-          allTx?.forEach((tx: any) => {
-            const categoryName = getCategoryName(tx);
-            if (tx.transaction_type === 'expense' && 
-                tx.amount > 0 && 
-                categoryName !== 'Income' && 
-                categoryName !== 'Transfer') {
-              const date = new Date(tx.date);
-              const monthKey = date.toLocaleDateString('en-US', { month: 'short' });
-              historicalMonthlyData[monthKey] = (historicalMonthlyData[monthKey] || 0) + tx.amount;
-            }
-          });
-
-          // Override the target month with the calculated spending value
-          if (targetMonthKey) {
-            historicalMonthlyData[targetMonthKey] = periodSpendingValue;
-          }
-
-          // Convert to chart data (last 6 months)
-          const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-          const chartData = [];
-          
-          for (let i = 5; i >= 0; i--) {
-            const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-            const monthName = months[date.getMonth()];
-            chartData.push({
-              month: monthName,
-              amount: historicalMonthlyData[monthName] || 0,
-            });
-          }
-
-          setMonthlySpending(chartData);
-        }).catch((error) => {
-          console.error('Error fetching historical data for monthly trends:', error);
-          // Fallback: use only current filtered data
-          const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-          const chartData = [];
-          
-          for (let i = 5; i >= 0; i--) {
-            const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-            const monthName = months[date.getMonth()];
-            chartData.push({
-              month: monthName,
-              amount: monthlyData[monthName] || 0,
-            });
-          }
-          setMonthlySpending(chartData);
-        });
-        return; // Early return for async case
-      }
-
-      // For custom periods, set data directly
-      setMonthlySpending(chartData);
-    } catch (error) {
-      console.error('Error calculating trends:', error);
-    }
-  };
-
-  const calculateCategoryBreakdown = (txData: any[], totalSpendingValue: number) => {
-    const categoryTotals: { [key: string]: { amount: number; count: number } } = {};
-    
-    // Group by category - use same filter as spending calculation (exclude Income and Transfer)
-    txData.forEach((tx: any) => {
-      const categoryName = getCategoryName(tx);
-      if (tx.transaction_type === 'expense' && 
-          tx.amount > 0 && 
-          categoryName !== 'Income' && 
-          categoryName !== 'Transfer') {
-        const category = categoryName;
-        if (!categoryTotals[category]) {
-          categoryTotals[category] = { amount: 0, count: 0 };
-        }
-        categoryTotals[category].amount += tx.amount;
-        categoryTotals[category].count += 1;
-      }
-    });
-
-    // Use the total spending value passed in to ensure consistency
-    const totalSpending = totalSpendingValue;
-    
-    const colors = ['#f97316', '#3b82f6', '#06b6d4', '#8b5cf6', '#ef4444', '#10b981', '#f59e0b', '#6b7280'];
-    const categoryArray = Object.entries(categoryTotals)
-      .map(([name, data], index) => ({
-        name,
-        spend: data.amount,
-        count: data.count,
-        percent: totalSpending > 0 ? Math.round((data.amount / totalSpending) * 100) : 0,
-        color: colors[index % colors.length],
-      }))
-      .sort((a, b) => b.spend - a.spend)
-      .slice(0, 8); // Top 8 categories for display
-
-    setCategoryData(categoryArray);
-  };
-
-  const calculateTopMerchants = (txData: any[]) => {
-    const merchantTotals: { [key: string]: { amount: number; count: number; amounts: number[] } } = {};
-    
-    txData.forEach((tx: any) => {
-      const categoryName = getCategoryName(tx);
-      // Exclude Income and Transfer categories, same as spending calculation
-      if (tx.transaction_type === 'expense' && 
-          tx.amount > 0 && 
-          categoryName !== 'Income' && 
-          categoryName !== 'Transfer') {
-        const merchant = tx.merchant_name || tx.name;
-        if (!merchantTotals[merchant]) {
-          merchantTotals[merchant] = { amount: 0, count: 0, amounts: [] };
-        }
-        merchantTotals[merchant].amount += tx.amount;
-        merchantTotals[merchant].count += 1;
-        merchantTotals[merchant].amounts.push(tx.amount);
-      }
-    });
-
-    // Get top 3 merchants
-    const topMerchants = Object.entries(merchantTotals)
-      .map(([name, data]) => ({
-        name,
-        amount: data.amount,
-        average: data.amount / data.count,
-      }))
-      .sort((a, b) => b.amount - a.amount)
-      .slice(0, 3);
-
-    setFrequentMerchants(topMerchants);
-  };
-
-  const calculateLargestPurchases = (txData: any[]) => {
-    const largest = txData
-      .filter((tx: any) => {
-        const categoryName = getCategoryName(tx);
-        // Exclude Income and Transfer categories, same as spending calculation
-        return tx.transaction_type === 'expense' && 
-               tx.amount > 0 && 
-               categoryName !== 'Income' && 
-               categoryName !== 'Transfer';
-      })
-      .sort((a, b) => b.amount - a.amount)
-      .slice(0, 3)
-      .map((tx: any) => ({
-        name: tx.merchant_name || tx.name,
-        date: new Date(tx.date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' }),
-        amount: tx.amount,
-      }));
-
-    setLargestPurchases(largest);
-  };
-
-  const getCategoryName = (transaction: any) => {
-    return transaction.user_category_name || 
-           transaction.transaction_categories?.name || 
-           transaction.plaid_primary_category || 
-           'Uncategorized';
-  };
-
-  const calculateSummary = async (txData: any[], startDate: Date, endDate: Date) => {
-    // Current period
-    // Income should be calculated based on transactions categorized as "Income"
-    // not just transaction_type, since users can categorize transactions differently
-    const incomeRaw = txData
-      .filter((tx: any) => {
-        const categoryName = getCategoryName(tx);
-        return categoryName === 'Income';
-      })
-      .reduce((sum, tx) => {
-        // Income transactions are stored as negative amounts (Plaid convention)
-        // So we need to take absolute value
-        return sum + Math.abs(tx.amount || 0);
-      }, 0);
-    // Round final result to 2 decimal places to avoid floating point precision issues
-    const income = Math.round(incomeRaw * 100) / 100;
-    
-    // Bills should include transactions categorized as "Bills & Utilities" 
-    // or transactions marked as recurring (to catch bills that Plaid identified as recurring)
-    const billsRaw = txData
-      .filter((tx: any) => {
-        const categoryName = getCategoryName(tx);
-        return tx.transaction_type === 'expense' && 
-               tx.amount > 0 &&
-               (tx.is_recurring || 
-                categoryName === 'Bills & Utilities' || 
-                categoryName === 'Bills and Utilities');
-      })
-      .reduce((sum, tx) => sum + tx.amount, 0);
-    // Round to avoid floating point precision issues
-    const bills = Math.round(billsRaw * 100) / 100;
-    
-    // Spending: all expenses (excluding income and transfers)
-    const spendingRaw = txData
-      .filter((tx: any) => {
-        // Exclude transactions categorized as Income or Transfer
-        const categoryName = getCategoryName(tx);
-        return tx.transaction_type === 'expense' && 
-               tx.amount > 0 && 
-               categoryName !== 'Income' && 
-               categoryName !== 'Transfer';
-      })
-      .reduce((sum, tx) => sum + tx.amount, 0);
-    // Round to avoid floating point precision issues
-    const spending = Math.round(spendingRaw * 100) / 100;
-
-    const incomeCount = txData.filter((tx: any) => {
-      const categoryName = getCategoryName(tx);
-      return categoryName === 'Income';
-    }).length;
-
-    // Previous period for comparison
-    const periodLength = endDate.getTime() - startDate.getTime();
-    const prevEndDate = new Date(startDate.getTime() - 1);
-    const prevStartDate = new Date(prevEndDate.getTime() - periodLength);
-
-    try {
-      const { transactions: prevTx } = await api.searchTransactions({
-        start_date: prevStartDate.toISOString().split('T')[0],
-        end_date: prevEndDate.toISOString().split('T')[0],
-        limit: 10000,
-      });
-
-      const prevBillsRaw = prevTx
-        .filter((tx: any) => {
-          const categoryName = getCategoryName(tx);
-          return tx.transaction_type === 'expense' && 
-                 tx.amount > 0 &&
-                 (tx.is_recurring || 
-                  categoryName === 'Bills & Utilities' || 
-                  categoryName === 'Bills and Utilities');
-        })
-        .reduce((sum: number, tx: any) => sum + tx.amount, 0);
-      const prevBills = Math.round(prevBillsRaw * 100) / 100;
-      
-      // Previous period spending should use the same filter as current period
-      // (exclude Income and Transfer categories)
-      const prevSpendingRaw = prevTx
-        .filter((tx: any) => {
-          const categoryName = getCategoryName(tx);
-          return tx.transaction_type === 'expense' && 
-                 tx.amount > 0 && 
-                 categoryName !== 'Income' && 
-                 categoryName !== 'Transfer';
-        })
-        .reduce((sum: number, tx: any) => sum + tx.amount, 0);
-      const prevSpending = Math.round(prevSpendingRaw * 100) / 100;
-
-      setSummaryData({
-        income,
-        bills,
-        spending,
-        incomeCount,
-        billsChange: bills - prevBills,
-        spendingChange: spending - prevSpending,
-      });
-    } catch (error) {
-      console.error('Error calculating summary:', error);
-      setSummaryData({
-        income,
-        bills,
-        spending,
-        incomeCount,
-        billsChange: 0,
-        spendingChange: 0,
-      });
-    }
-  };
-
   if (loading) {
     return (
       <div className="p-8 max-w-7xl mx-auto">
@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../utils/api';
+import RulesPanel from '../components/RulesPanel';
+import SplitTransactionPanel from '../components/SplitTransactionPanel';
+import TransferReviewPanel from '../components/TransferReviewPanel';
+import ImportPanel from '../components/ImportPanel';
 
 const Transactions = () => {
   const [transactions, setTransactions] = useState<any[]>([]);
@@ -13,6 +17,11 @@ const Transactions = () => {
   const [categorizing, setCategorizing] = useState(false);
   const [categorizeMessage, setCategorizeMessage] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'ofx' | 'qif' | 'json'>('csv');
+  const [showRules, setShowRules] = useState(false);
+  const [showTransfers, setShowTransfers] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [splittingTransaction, setSplittingTransaction] = useState<any | null>(null);
   const [editingTransaction, setEditingTransaction] = useState<string | null>(null);
   const [deletingTransaction, setDeletingTransaction] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -76,16 +85,13 @@ const Transactions = () => {
   };
 
   // Export transactions to CSV
-  const exportTransactionsToCSV = async () => {
+  const exportTransactions = async () => {
     try {
       setExporting(true);
-      console.log('📥 Exporting transactions to CSV...');
+      console.log(`📥 Exporting transactions as ${exportFormat.toUpperCase()}...`);
       
-      // Build filters (same as loadTransactionsFromDB but without pagination)
-      const filters: any = {
-        limit: 10000, // Large limit to get all transactions
-        offset: 0,
-      };
+      // Same filters as the list, without pagination - the server exports every match
+      const filters: any = {};
       
       if (searchTerm) filters.search = searchTerm;
       if (selectedCategory) filters.user_category_name = selectedCategory;
@@ -113,48 +119,22 @@ const Transactions = () => {
       filters.sort_by = sortBy;
       filters.sort_order = sortOrder;
       
-      // Fetch all transactions
-      const result = await api.searchTransactions(filters);
-      const allTransactions = result.transactions || [];
-      
-      if (allTransactions.length === 0) {
-        alert('No transactions to export');
-        return;
-      }
-      
-      // Convert to CSV
-      const headers = ['Date', 'Name', 'Category', 'Amount', 'Account', 'Pending', 'Transaction Type'];
-      const csvRows = [
-        headers.join(','),
-        ...allTransactions.map((tx: any) => {
-          const date = new Date(tx.date).toLocaleDateString('en-US');
-          const name = `"${(tx.name || '').replace(/"/g, '""')}"`;
-          const category = getCategoryName(tx);
-          const amount = tx.transaction_type === 'income' ? `+${Math.abs(tx.amount || 0).toFixed(2)}` : Math.abs(tx.amount || 0).toFixed(2);
-          const account = tx.accounts ? `"${tx.accounts.name || ''} ••••${tx.accounts.mask || ''}"` : '';
-          const pending = tx.pending ? 'Yes' : 'No';
-          const type = tx.transaction_type || 'expense';
-          
-          return [date, name, category, amount, account, pending, type].join(',');
-        }),
-      ];
-      
-      const csvContent = csvRows.join('\n');
+      const blob = await api.exportTransactions(exportFormat, filters);
       
-      // Create blob and download
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      // Download the file
       const link = document.createElement('a');
       const url = URL.createObjectURL(blob);
       
       link.setAttribute('href', url);
-      link.setAttribute('download', `transactions_${new Date().toISOString().split('T')[0]}.csv`);
+      link.setAttribute('download', `transactions_${new Date().toISOString().split('T')[0]}.${exportFormat}`);
       link.style.visibility = 'hidden';
       
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       
-      console.log(`✅ Exported ${allTransactions.length} transactions to CSV`);
+      console.log(`✅ Exported transactions as ${exportFormat.toUpperCase()}`);
     } catch (error: any) {
       console.error('❌ Error exporting transactions:', error);
       alert('Failed to export transactions: ' + (error.message || 'Unknown error'));
@@ -280,11 +260,21 @@ const Transactions = () => {
   // Update transaction category
   const updateTransactionCategory = async (transactionId: string, categoryName: string) => {
     try {
-      await api.updateTransaction(transactionId, {
+      const result = await api.updateTransaction(transactionId, {
         user_category_name: categoryName || undefined,
       });
       console.log(`✅ Updated transaction ${transactionId} category to ${categoryName}`);
       setEditingTransaction(null);
+
+      // Offer to fix the merchant's other transactions too (new ones follow once the category is chosen again)
+      const similarCount = result.similar_count || 0;
+      if (similarCount > 0 && result.learned) {
+        const merchant = result.learned.merchant_name || 'this merchant';
+        if (confirm(`Also categorize ${similarCount} other transaction${similarCount !== 1 ? 's' : ''} from ${merchant} as ${categoryName}?`)) {
+          const { updated_count } = await api.applyMerchantCategory(transactionId);
+          console.log(`✅ Recategorized ${updated_count} transactions from ${merchant}`);
+        }
+      }
       // Reload transactions to show updated category
       loadTransactionsFromDB();
     } catch (error: any) {
@@ -293,6 +283,22 @@ const Transactions = () => {
     }
   };
 
+  // Unlink a matched transfer so both sides count toward spending and income again
+  const unlinkTransfer = async (transactionId: string) => {
+    if (!confirm('This is not a transfer? Both sides of the transfer will be counted as regular transactions.')) {
+      return;
+    }
+
+    try {
+      await api.unlinkTransfer(transactionId);
+      console.log(`✅ Unlinked transfer ${transactionId}`);
+      loadTransactionsFromDB();
+    } catch (error: any) {
+      console.error('❌ Error unlinking transfer:', error);
+      alert('Failed to unlink transfer: ' + (error.message || 'Unknown error'));
+    }
+  };
+
   // Delete transaction
   const deleteTransaction = async (transactionId: string) => {
     if (!confirm('Are you sure you want to delete this transaction? This action cannot be undone.')) {
@@ -354,14 +360,51 @@ const Transactions = () => {
             {categorizing ? 'Categorizing...' : 'Auto-Categorize'}
           </button>
           <button 
-            onClick={exportTransactionsToCSV}
-            disabled={exporting}
-            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-            title="Export transactions to CSV"
+            onClick={() => setShowRules(prev => !prev)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+            title="Manage categorization rules"
+          >
+            <span>📐</span>
+            Rules
+          </button>
+          <button 
+            onClick={() => setShowTransfers(prev => !prev)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+            title="Review transfers between your accounts"
           >
-            <span className={exporting ? 'animate-spin' : ''}>📥</span>
-            {exporting ? 'Exporting...' : 'Export'}
+            <span>🔁</span>
+            Transfers
           </button>
+          <button 
+            onClick={() => setShowImport(prev => !prev)}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+            title="Import transactions from a CSV, OFX or QFX file"
+          >
+            <span>📂</span>
+            Import
+          </button>
+          <div className="flex">
+            <button 
+              onClick={exportTransactions}
+              disabled={exporting}
+              className="px-4 py-2 border border-gray-300 rounded-l-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              title="Export the filtered transactions, including splits, tags and notes"
+            >
+              <span className={exporting ? 'animate-spin' : ''}>📥</span>
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as 'csv' | 'ofx' | 'qif' | 'json')}
+              aria-label="Export format"
+              className="px-2 py-2 border border-l-0 border-gray-300 rounded-r-lg text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-red-500 cursor-pointer"
+            >
+              <option value="csv">CSV</option>
+              <option value="ofx">OFX</option>
+              <option value="qif">QIF</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
           <select
             value={`${sortBy}-${sortOrder}`}
             onChange={(e) => {
@@ -442,6 +485,50 @@ const Transactions = () => {
         </div>
       )}
 
+      {/* File Import */}
+      {showImport && (
+        <ImportPanel
+          accounts={accounts}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            loadTransactionsFromDB();
+            // An import may have created a manual account
+            api.getAccounts()
+              .then((accountsData) => setAccounts(accountsData.accounts || []))
+              .catch((error) => console.error('Error reloading accounts:', error));
+          }}
+        />
+      )}
+
+      {/* Categorization Rules */}
+      {showRules && (
+        <RulesPanel
+          categories={categories}
+          accounts={accounts}
+          onClose={() => setShowRules(false)}
+          onApplied={loadTransactionsFromDB}
+        />
+      )}
+
+      {/* Transfer Review */}
+      {showTransfers && (
+        <TransferReviewPanel
+          onClose={() => setShowTransfers(false)}
+          onChanged={loadTransactionsFromDB}
+        />
+      )}
+
+      {/* Split Transaction */}
+      {splittingTransaction && (
+        <SplitTransactionPanel
+          key={splittingTransaction.id}
+          transaction={splittingTransaction}
+          categories={categories}
+          onClose={() => setSplittingTransaction(null)}
+          onSaved={loadTransactionsFromDB}
+        />
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-2xl shadow-sm p-6 mb-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -555,6 +642,20 @@ const Transactions = () => {
                           {transaction.pending && (
                             <span className="text-xs text-gray-500">| Pending</span>
                           )}
+                          {transaction.is_transfer && (
+                            <span className="inline-flex items-center gap-1 mr-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+                              🔁 Transfer{transaction.transfer_account ? ` ${transaction.amount > 0 ? 'to' : 'from'} ${transaction.transfer_account.name}` : ''}
+                              {transaction.transfer_to_account_id && (
+                                <button
+                                  onClick={() => unlinkTransfer(transaction.id)}
+                                  className="text-gray-400 hover:text-red-600"
+                                  title="Not a transfer"
+                                >
+                                  ✕
+                                </button>
+                              )}
+                            </span>
+                          )}
                           {transaction.accounts && (
                             <span className="text-xs text-gray-500">
                               {transaction.accounts.institution_name} ••••{transaction.accounts.mask}
@@ -579,6 +680,18 @@ const Transactions = () => {
                           <option key={cat.id} value={cat.name}>{cat.name}</option>
                         ))}
                       </select>
+                    ) : transaction.transaction_splits?.length > 0 ? (
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-lg">✂️</span>
+                          <span className="text-sm text-gray-900">Split ({transaction.transaction_splits.length})</span>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          {transaction.transaction_splits
+                            .map((split: any) => `${split.user_category_name || split.transaction_categories?.name || 'Uncategorized'} $${Math.abs(Number(split.amount)).toFixed(2)}`)
+                            .join(' · ')}
+                        </p>
+                      </div>
                     ) : (
                       <div className="flex items-center gap-2">
                         <span className="text-lg">{getCategoryIcon(transaction)}</span>
@@ -598,6 +711,13 @@ const Transactions = () => {
                         >
                         ✏️
                       </button>
+                      <button
+                        onClick={() => setSplittingTransaction(transaction)}
+                        className="p-2 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded"
+                        title="Split transaction"
+                      >
+                        ✂️
+                      </button>
                       <button 
                         onClick={() => {
                           deleteTransaction(transaction.id);
@@ -0,0 +1,30 @@
+/**
+ * How account types count toward net worth.
+ * Mirrors ASSET_ACCOUNT_TYPES / DEBT_ACCOUNT_TYPES in lib/balanceSnapshots.ts.
+ */
+
+export const ASSET_ACCOUNT_TYPES = ['depository', 'investment', 'real_estate', 'vehicle', 'crypto', 'other_asset'];
+export const DEBT_ACCOUNT_TYPES = ['credit', 'loan', 'other_debt'];
+
+export const isAssetAccount = (account: { type?: string }) => ASSET_ACCOUNT_TYPES.includes(account.type || '');
+export const isDebtAccount = (account: { type?: string }) => DEBT_ACCOUNT_TYPES.includes(account.type || '');
+
+// Accounts without a Plaid item are tracked by hand, unless they are archived history from an unlinked institution
+export const isManualAccount = (account: { plaid_item_id?: string | null; archived_at?: string | null }) =>
+  !account.plaid_item_id && !account.archived_at;
+
+// Types offered when adding a manual account
+export const MANUAL_ACCOUNT_TYPE_OPTIONS = [
+  { value: 'real_estate', label: 'House or property', icon: '🏠' },
+  { value: 'vehicle', label: 'Car or vehicle', icon: '🚗' },
+  { value: 'crypto', label: 'Crypto wallet', icon: '🪙' },
+  { value: 'investment', label: 'Investment', icon: '📈' },
+  { value: 'depository', label: 'Cash or bank account', icon: '🏦' },
+  { value: 'other_asset', label: 'Other asset', icon: '💎' },
+  { value: 'loan', label: 'Loan or mortgage', icon: '🏛️' },
+  { value: 'credit', label: 'Credit card', icon: '💳' },
+  { value: 'other_debt', label: 'Private loan or other debt', icon: '🤝' },
+];
+
+export const getAccountTypeIcon = (type?: string) =>
+  MANUAL_ACCOUNT_TYPE_OPTIONS.find(option => option.value === type)?.icon || '💰';
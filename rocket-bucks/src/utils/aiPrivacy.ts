@@ -0,0 +1,62 @@
+/**
+ * Types and labels for the AI advisor's privacy setting and its log of what
+ * was shared with the model (see lib/aiPrivacy.js)
+ */
+
+export type AIPrivacyLevel = 'full' | 'anonymized' | 'aggregates';
+
+export const AI_PRIVACY_OPTIONS: { value: AIPrivacyLevel; label: string; description: string }[] = [
+  {
+    value: 'full',
+    label: 'Full detail',
+    description: 'The advisor sees account, bank and merchant names along with your amounts, for the most specific advice.',
+  },
+  {
+    value: 'anonymized',
+    label: 'Anonymized names',
+    description:
+      'Account, bank and merchant names are replaced with labels like [Merchant 3] before anything is sent. Answers still show the real names.',
+  },
+  {
+    value: 'aggregates',
+    label: 'Totals only',
+    description:
+      'Only totals by category and time period are shared, with names anonymized. The advisor can\'t look up individual transactions, accounts or bills.',
+  },
+];
+
+export interface AIContextAuditMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: { function?: { name?: string; arguments?: string } }[];
+}
+
+export interface AIContextAuditEntry {
+  id: string;
+  conversation_id: string | null;
+  conversation_title: string | null;
+  message_id: string | null;
+  privacy_level: AIPrivacyLevel;
+  provider: string;
+  model: string;
+  status: 'sent' | 'answered' | 'stopped' | 'failed';
+  // Exactly what the model provider received, after redaction
+  sent_messages: AIContextAuditMessage[];
+  rounds: number;
+  token_usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  created_at: string;
+}
+
+export const AUDIT_ROLE_LABELS: Record<AIContextAuditMessage['role'], string> = {
+  system: 'Instructions and financial snapshot',
+  user: 'Your message',
+  assistant: 'Advisor',
+  tool: 'Query result',
+};
+
+export const AUDIT_STATUS_LABELS: Record<AIContextAuditEntry['status'], string> = {
+  sent: 'In progress',
+  answered: 'Answered',
+  stopped: 'Stopped',
+  failed: 'Failed',
+};
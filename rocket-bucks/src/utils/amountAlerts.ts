@@ -0,0 +1,28 @@
+/**
+ * Helpers for showing price increases and unusual charges on recurring streams.
+ * Detection runs server-side (see lib/recurringAlerts.ts).
+ */
+
+export const DEFAULT_AMOUNT_ALERT_THRESHOLD = 5;
+
+export const AMOUNT_CHANGE_LABELS: Record<string, string> = {
+  price_increase: 'Price increase',
+  anomaly: 'Unusual charge',
+};
+
+/**
+ * The newest amount change on a stream that hasn't been dismissed
+ */
+export const getActiveAmountAlert = (recurring: any): any | null => {
+  const changes = (recurring.recurring_amount_changes || []).filter((change: any) => change.status === 'new');
+  if (changes.length === 0) return null;
+  return changes.reduce((latest: any, change: any) =>
+    change.transaction_date > latest.transaction_date ? change : latest
+  );
+};
+
+/**
+ * "$15.49 → $17.99 (+16.1%)"
+ */
+export const formatAmountChange = (change: any): string =>
+  `$${Number(change.previous_amount).toFixed(2)} → $${Number(change.new_amount).toFixed(2)} (+${Number(change.change_percent).toFixed(1)}%)`;
@@ -2,6 +2,9 @@
  * API utility for making requests to the backend
  * Automatically handles localhost vs production URLs and authentication
  */
+import type { PlaidItemHealth } from './itemHealth';
+import type { AdvisorReply, AdvisorRequest, AdvisorToolCall, ChatConversation, StoredChatMessage } from './chatConversations';
+import type { AIContextAuditEntry, AIPrivacyLevel } from './aiPrivacy';
 
 const getApiUrl = () => {
   // In development, use localhost server if running
@@ -97,9 +100,10 @@ export const api = {
   },
 
   /**
-   * Create a Plaid link token
+   * Create a Plaid link token. Pass a Plaid item id to open Link in update
+   * mode and reconnect that institution.
    */
-  createLinkToken: async (): Promise<{ link_token: string }> => {
+  createLinkToken: async (itemId?: string): Promise<{ link_token: string }> => {
     const apiUrl = `${getApiUrl()}/create_link_token`;
     console.log('🌐 Calling create link token API:', apiUrl);
     
@@ -107,6 +111,7 @@ export const api = {
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: getAuthHeaders(),
+        ...(itemId ? { body: JSON.stringify({ item_id: itemId }) } : {}),
       });
 
       console.log('📡 Response status:', response.status, response.statusText);
@@ -173,10 +178,11 @@ export const api = {
   },
 
   /**
-   * Get user's accounts from database
+   * Get user's accounts from database, with the connection health of each institution
    */
-  getAccounts: async (): Promise<{ accounts: any[] }> => {
-    const response = await fetch(`${getApiUrl()}/accounts`, {
+  getAccounts: async (options: { includeArchived?: boolean } = {}): Promise<{ accounts: any[]; items?: PlaidItemHealth[] }> => {
+    const query = options.includeArchived ? '?include_archived=true' : '';
+    const response = await fetch(`${getApiUrl()}/accounts${query}`, {
       method: 'GET',
       headers: getAuthHeaders(),
     });
@@ -189,6 +195,223 @@ export const api = {
     return response.json();
   },
 
+  /**
+   * Clear an institution's error after the user reconnects it through Link
+   */
+  markItemReconnected: async (itemId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=reconnected&item_id=${encodeURIComponent(itemId)}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update institution status');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Count the accounts, transactions and recurring streams unlinking an institution would affect
+   */
+  getUnlinkPreview: async (itemId: string): Promise<{
+    institution_name: string | null;
+    accounts: number;
+    transactions: number;
+    recurring: number;
+  }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=unlink&item_id=${encodeURIComponent(itemId)}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load institution details');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Disconnect one institution, archiving its history or deleting it
+   */
+  unlinkInstitution: async (itemId: string, mode: 'archive' | 'delete'): Promise<{
+    success: boolean;
+    mode: string;
+    accounts: number;
+    transactions: number;
+    recurring: number;
+  }> => {
+    const response = await fetch(
+      `${getApiUrl()}/accounts?action=unlink&item_id=${encodeURIComponent(itemId)}&mode=${mode}`,
+      {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to unlink institution');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get net worth over time from daily balance snapshots
+   */
+  getNetWorthHistory: async (
+    period: '1M' | '3M' | '6M' | '1Y' | 'ALL' = '6M'
+  ): Promise<{ period: string; points: { date: string; assets: number; debts: number; net_worth: number }[] }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=history&period=${period}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch net worth history');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Download everything stored for the user as a ZIP or JSON archive
+   */
+  exportAllData: async (format: 'zip' | 'json' = 'zip'): Promise<Blob> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=export&format=${format}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to export data');
+    }
+
+    return response.blob();
+  },
+
+  /**
+   * Add a manually tracked account such as a house, car or private loan
+   */
+  createManualAccount: async (fields: {
+    name: string;
+    type: string;
+    balance: number;
+    as_of?: string | null;
+    note?: string | null;
+    institution_name?: string | null;
+  }): Promise<{ account: any }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=manual`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(fields),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create account');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Rename a manual account or log a new value for it
+   */
+  updateManualAccount: async (accountId: string, updates: {
+    name?: string;
+    type?: string;
+    balance?: number;
+    as_of?: string | null;
+    note?: string | null;
+  }): Promise<{ account: any }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=manual&account_id=${encodeURIComponent(accountId)}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update account');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a manual account and its value history
+   */
+  deleteManualAccount: async (accountId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=manual&account_id=${encodeURIComponent(accountId)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete account');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the logged values of an account, newest first
+   */
+  getAccountValueHistory: async (accountId: string): Promise<{
+    history: { snapshot_date: string; balance_current: number; source: string; note: string | null }[];
+  }> => {
+    const response = await fetch(`${getApiUrl()}/accounts?action=value-history&account_id=${encodeURIComponent(accountId)}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch value history');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get spending, income, bills, cash flow, category breakdown, top merchants
+   * and largest purchases for a date range
+   */
+  getInsights: async (params: {
+    start_date?: string;
+    end_date?: string;
+    group_by?: 'day' | 'month';
+    compare?: boolean;
+    limit?: number;
+  } = {}): Promise<any> => {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        queryParams.append(key, String(value));
+      }
+    });
+
+    const response = await fetch(`${getApiUrl()}/insights?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch insights');
+    }
+
+    return response.json();
+  },
+
   /**
    * Get transactions for the authenticated user (from database, no syncing)
    */
@@ -213,6 +436,8 @@ export const api = {
     success: boolean; 
     message: string; 
     synced_count: number;
+    removed_count?: number;
+    replaced_pending_count?: number;
     synced_at: string;
   }> => {
     const response = await fetch(`${getApiUrl()}/transactions?action=sync`, {
@@ -290,6 +515,50 @@ export const api = {
     return response.json();
   },
 
+  /**
+   * Download every transaction matching the search filters as a CSV, OFX, QIF or JSON file
+   */
+  exportTransactions: async (
+    format: 'csv' | 'ofx' | 'qif' | 'json',
+    filters: {
+      search?: string;
+      category_id?: string;
+      user_category_name?: string;
+      merchant_name?: string;
+      account_id?: string;
+      start_date?: string;
+      end_date?: string;
+      transaction_type?: string;
+      pending?: boolean;
+      tags?: string[];
+      min_amount?: number;
+      max_amount?: number;
+      sort_by?: string;
+      sort_order?: string;
+    } = {}
+  ): Promise<Blob> => {
+    const queryParams = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        queryParams.append(key, Array.isArray(value) ? JSON.stringify(value) : String(value));
+      }
+    });
+
+    queryParams.append('action', 'export');
+    queryParams.append('format', format);
+    const response = await fetch(`${getApiUrl()}/transactions?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to export transactions');
+    }
+
+    return response.blob();
+  },
+
   /**
    * Update a transaction
    */
@@ -300,7 +569,11 @@ export const api = {
     tags?: string[];
     excluded_from_budget?: boolean;
     is_recurring?: boolean;
-  }): Promise<{ transaction: any }> => {
+  }): Promise<{
+    transaction: any;
+    learned?: { merchant_key: string; merchant_name: string; user_category_name: string | null; confidence: number } | null;
+    similar_count?: number;
+  }> => {
     const response = await fetch(`${getApiUrl()}/transactions?transaction_id=${transactionId}`, {
       method: 'PATCH',
       headers: getAuthHeaders(),
@@ -316,162 +589,989 @@ export const api = {
   },
 
   /**
-   * Delete a transaction
+   * Apply a corrected transaction's category to all other transactions from the same merchant
    */
-  deleteTransaction: async (transactionId: string): Promise<{ success: boolean }> => {
-    const response = await fetch(`${getApiUrl()}/transactions/delete?transaction_id=${transactionId}`, {
-      method: 'DELETE',
+  applyMerchantCategory: async (transactionId: string): Promise<{ success: boolean; updated_count: number }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=apply-merchant-category`, {
+      method: 'POST',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ transaction_id: transactionId }),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to delete transaction');
+      throw new Error(error.error || 'Failed to apply category to past transactions');
     }
 
     return response.json();
   },
 
   /**
-   * Get recurring transactions
+   * Get the splits of a transaction
    */
-  getRecurring: async (options?: {
-    active_only?: boolean;
-    upcoming_only?: boolean;
-  }): Promise<{ recurring: any[] }> => {
-    const queryParams = new URLSearchParams();
-    if (options?.active_only) queryParams.append('active_only', 'true');
-    if (options?.upcoming_only) queryParams.append('upcoming_only', 'true');
+  getTransactionSplits: async (transactionId: string): Promise<{ splits: any[] }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=splits&transaction_id=${transactionId}`, {
+      headers: getAuthHeaders(),
+    });
 
-    const response = await fetch(`${getApiUrl()}/recurring?${queryParams.toString()}`, {
-      method: 'GET',
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch transaction splits');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Split a transaction, replacing any existing splits. Split amounts must sum to the transaction amount.
+   */
+  saveTransactionSplits: async (
+    transactionId: string,
+    splits: { amount: number; category_id?: string | null; user_category_name?: string | null; notes?: string | null }[]
+  ): Promise<{ splits: any[] }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=splits`, {
+      method: 'PUT',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ transaction_id: transactionId, splits }),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to fetch recurring transactions');
+      throw new Error(error.error || 'Failed to save transaction splits');
     }
 
     return response.json();
   },
 
   /**
-   * Get categories
+   * Remove a transaction's splits
    */
-  getCategories: async (): Promise<{ categories: any[] }> => {
-    const response = await fetch(`${getApiUrl()}/categories`, {
-      method: 'GET',
+  deleteTransactionSplits: async (transactionId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=splits&transaction_id=${transactionId}`, {
+      method: 'DELETE',
       headers: getAuthHeaders(),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to fetch categories');
+      throw new Error(error.error || 'Failed to remove transaction splits');
     }
 
     return response.json();
   },
 
   /**
-   * Clean up duplicate accounts
+   * Pair transfers and credit card payments across the user's accounts
    */
-  cleanupDuplicateAccounts: async (): Promise<{ 
-    success: boolean; 
-    message: string; 
-    removed: number 
-  }> => {
-    const response = await fetch(`${getApiUrl()}/accounts/cleanup-duplicates`, {
+  matchTransfers: async (): Promise<{ success: boolean; matched_count: number; review_count: number }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=match-transfers`, {
       method: 'POST',
       headers: getAuthHeaders(),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to cleanup duplicates');
+      throw new Error(error.error || 'Failed to match transfers');
     }
 
     return response.json();
   },
 
   /**
-   * Sync recurring transactions from Plaid
+   * Import a CSV, OFX or QFX file into a manual account. With dry_run nothing
+   * is saved: a CSV without a mapping returns its columns, otherwise the parsed
+   * rows come back flagged as new or already imported.
    */
-  syncRecurringTransactions: async (): Promise<{
-    success: boolean;
-    message: string;
-    recurring_count: number;
-    synced_at: string;
-  }> => {
-    const response = await fetch(`${getApiUrl()}/recurring/sync`, {
+  importTransactions: async (request: {
+    format: 'csv' | 'ofx' | 'qfx';
+    content: string;
+    mapping?: Record<string, any>;
+    account_id?: string;
+    account_name?: string;
+    account_type?: string;
+    dry_run?: boolean;
+  }): Promise<any> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=import`, {
       method: 'POST',
       headers: getAuthHeaders(),
+      body: JSON.stringify(request),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to sync recurring transactions');
+      throw new Error(error.error || 'Failed to import transactions');
     }
 
     return response.json();
   },
 
-  askFinancialAdvisor: async (payload: {
-    message: string;
-    conversation?: { role: 'user' | 'assistant'; content: string }[];
-  }): Promise<{
-    message: string;
-    model?: string;
-    context?: {
-      netWorth?: number;
-      totalAssets?: number;
-      totalLiabilities?: number;
-      monthlySpending?: number;
-      monthlyIncome?: number;
-      spendingChange?: number;
-      recurringTotal?: number;
-      generatedAt?: string;
-    };
-    context_summary?: string;
-  }> => {
-    const response = await fetch(`${getApiUrl()}/ai/chat`, {
-      method: 'POST',
+  /**
+   * Get possible transfer pairs that need the user's review
+   */
+  getTransferReviewQueue: async (): Promise<{ matches: any[] }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=transfers`, {
       headers: getAuthHeaders(),
-      body: JSON.stringify(payload),
     });
 
     if (!response.ok) {
-      let errorMessage = 'Failed to generate AI advice';
-      try {
-        const error = await response.json();
-        errorMessage = error.error || errorMessage;
-      } catch (err) {
-        // ignore body parsing issues
-      }
-      throw new Error(errorMessage);
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch transfer review queue');
     }
 
     return response.json();
   },
 
   /**
-   * Auto-categorize uncategorized transactions
+   * Confirm or dismiss a possible transfer pair
    */
-  autoCategorizeTransactions: async (): Promise<{
-    success: boolean;
-    message: string;
-    total_checked: number;
-    categorized_count: number;
-    uncategorized_count: number;
-  }> => {
-    const response = await fetch(`${getApiUrl()}/transactions?action=auto-categorize`, {
-      method: 'POST',
+  reviewTransferMatch: async (matchId: string, status: 'confirmed' | 'dismissed'): Promise<{ success: boolean; status: string }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=transfers&match_id=${matchId}`, {
+      method: 'PATCH',
       headers: getAuthHeaders(),
+      body: JSON.stringify({ status }),
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to auto-categorize transactions');
+      throw new Error(error.error || 'Failed to update transfer match');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Unlink a matched transfer so both sides count as regular transactions
+   */
+  unlinkTransfer: async (transactionId: string): Promise<{ success: boolean; unlinked_count: number }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=transfers&transaction_id=${transactionId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to unlink transfer');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a transaction
+   */
+  deleteTransaction: async (transactionId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/transactions/delete?transaction_id=${transactionId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete transaction');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get recurring transactions
+   */
+  getRecurring: async (options?: {
+    active_only?: boolean;
+    upcoming_only?: boolean;
+  }): Promise<{ recurring: any[] }> => {
+    const queryParams = new URLSearchParams();
+    if (options?.active_only) queryParams.append('active_only', 'true');
+    if (options?.upcoming_only) queryParams.append('upcoming_only', 'true');
+
+    const response = await fetch(`${getApiUrl()}/recurring?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch recurring transactions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Add a recurring transaction by hand
+   */
+  createRecurring: async (recurring: {
+    name: string;
+    frequency: string;
+    expected_amount?: number | null;
+    account_id?: string | null;
+    category_id?: string | null;
+    day_of_month?: number | null;
+    day_of_week?: number | null;
+    start_date?: string;
+    next_due_date?: string | null;
+    transaction_type?: 'expense' | 'income';
+    is_subscription?: boolean;
+    merchant_name?: string | null;
+    notes?: string | null;
+  }): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(recurring),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create recurring transaction');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Edit, pause or resume a recurring transaction
+   */
+  updateRecurring: async (recurringId: string, updates: Record<string, any>): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?recurring_id=${recurringId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update recurring transaction');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a recurring transaction (its transactions are kept)
+   */
+  deleteRecurring: async (recurringId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?recurring_id=${recurringId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete recurring transaction');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Merge one recurring transaction into another that is really the same bill
+   */
+  mergeRecurring: async (keepId: string, mergeId: string): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=merge&recurring_id=${keepId}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ merge_id: mergeId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to merge recurring transactions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Mark a stream as not recurring so sync won't recreate it
+   */
+  markNotRecurring: async (recurringId: string): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=not-recurring&recurring_id=${recurringId}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to mark as not recurring');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Undo marking a stream as not recurring
+   */
+  restoreRecurring: async (recurringId: string): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=not-recurring&recurring_id=${recurringId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to restore recurring transaction');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Mark a subscription as cancel requested and record how and when to cancel
+   */
+  requestCancellation: async (
+    recurringId: string,
+    cancellation: {
+      method?: 'website' | 'email' | 'phone' | 'mail' | 'in_app' | 'other';
+      contact?: string;
+      deadline?: string;
+      cancel_date?: string;
+      notes?: string;
+    }
+  ): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=cancellation&recurring_id=${recurringId}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(cancellation),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to request cancellation');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Confirm a cancellation, or keep waiting after a charge arrived past the cancel date
+   */
+  updateCancellationStatus: async (
+    recurringId: string,
+    status: 'cancelled' | 'cancel_requested'
+  ): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=cancellation&recurring_id=${recurringId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update cancellation');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Withdraw a cancellation request
+   */
+  withdrawCancellation: async (recurringId: string): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=cancellation&recurring_id=${recurringId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to withdraw cancellation');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Draft a cancellation email or letter for a subscription
+   */
+  getCancellationDraft: async (
+    recurringId: string,
+    format: 'email' | 'letter'
+  ): Promise<{ draft: { format: string; to: string | null; subject: string; body: string } }> => {
+    const response = await fetch(
+      `${getApiUrl()}/recurring?action=cancellation-draft&recurring_id=${recurringId}&format=${format}`,
+      {
+        method: 'GET',
+        headers: getAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to draft cancellation');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Find recurring charges in transaction history, including imported transactions,
+   * and record missed or late payments
+   */
+  detectRecurringStreams: async (): Promise<{
+    success: boolean;
+    created_count: number;
+    updated_count: number;
+    linked_count: number;
+    missed_count: number;
+    late_count: number;
+    ended_count: number;
+  }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=detect`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to detect recurring transactions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get price increases and unusual charges on recurring streams, newest first
+   */
+  getRecurringAmountChanges: async (options?: {
+    recurring_id?: string;
+    status?: 'new' | 'dismissed';
+  }): Promise<{ changes: any[] }> => {
+    const queryParams = new URLSearchParams({ action: 'amount-changes' });
+    if (options?.recurring_id) queryParams.append('recurring_id', options.recurring_id);
+    if (options?.status) queryParams.append('status', options.status);
+
+    const response = await fetch(`${getApiUrl()}/recurring?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch amount changes');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Check recurring streams for charges above their usual amount
+   */
+  detectRecurringAmountChanges: async (recurringId?: string): Promise<{ success: boolean; detected_count: number }> => {
+    const queryParams = new URLSearchParams({ action: 'amount-changes' });
+    if (recurringId) queryParams.append('recurring_id', recurringId);
+
+    const response = await fetch(`${getApiUrl()}/recurring?${queryParams.toString()}`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to check for amount changes');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Dismiss an amount change alert, or restore a dismissed one
+   */
+  updateAmountChange: async (changeId: string, status: 'new' | 'dismissed'): Promise<{ change: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?action=amount-changes&change_id=${changeId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update amount change');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Set how far above its usual amount a charge must be to raise an alert
+   * (percent; null restores the default)
+   */
+  setAmountAlertThreshold: async (recurringId: string, threshold: number | null): Promise<{ recurring: any }> => {
+    const response = await fetch(`${getApiUrl()}/recurring?recurring_id=${recurringId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ amount_alert_threshold: threshold }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update alert threshold');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get categories
+   */
+  getCategories: async (): Promise<{ categories: any[] }> => {
+    const response = await fetch(`${getApiUrl()}/categories`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch categories');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get budgets with spent vs. limit for a month (YYYY-MM, defaults to current month)
+   */
+  getBudgets: async (month?: string): Promise<{
+    budgets: any[];
+    month: string;
+    totals: { limit: number; available: number; spent: number; remaining: number };
+  }> => {
+    const queryParams = new URLSearchParams();
+    if (month) queryParams.append('month', month);
+
+    const response = await fetch(`${getApiUrl()}/budgets?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch budgets');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a monthly budget for a category
+   */
+  createBudget: async (budget: {
+    category_id?: string;
+    user_category_name?: string;
+    monthly_limit: number;
+    rollover?: boolean;
+  }): Promise<{ budget: any }> => {
+    const response = await fetch(`${getApiUrl()}/budgets`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(budget),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create budget');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Update a budget's limit, rollover setting or category
+   */
+  updateBudget: async (budgetId: string, updates: {
+    category_id?: string;
+    user_category_name?: string;
+    monthly_limit?: number;
+    rollover?: boolean;
+  }): Promise<{ budget: any }> => {
+    const response = await fetch(`${getApiUrl()}/budgets?budget_id=${budgetId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update budget');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a budget
+   */
+  deleteBudget: async (budgetId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/budgets?budget_id=${budgetId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete budget');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Clean up duplicate accounts
+   */
+  cleanupDuplicateAccounts: async (): Promise<{ 
+    success: boolean; 
+    message: string; 
+    removed: number 
+  }> => {
+    const response = await fetch(`${getApiUrl()}/accounts/cleanup-duplicates`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to cleanup duplicates');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Sync recurring transactions from Plaid
+   */
+  syncRecurringTransactions: async (): Promise<{
+    success: boolean;
+    message: string;
+    recurring_count: number;
+    synced_at: string;
+  }> => {
+    const response = await fetch(`${getApiUrl()}/recurring/sync`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to sync recurring transactions');
+    }
+
+    return response.json();
+  },
+
+  askFinancialAdvisor: async (payload: AdvisorRequest): Promise<AdvisorReply> => {
+    const response = await fetch(`${getApiUrl()}/ai/chat`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to generate AI advice';
+      try {
+        const error = await response.json();
+        errorMessage = error.error || errorMessage;
+      } catch (err) {
+        // ignore body parsing issues
+      }
+      throw new Error(errorMessage);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Ask the advisor with the answer streamed back as Server-Sent Events.
+   * onToken gets text as the model writes it and onToolCall each query it runs;
+   * resolves to the same reply as askFinancialAdvisor. Abort the signal to stop.
+   */
+  streamFinancialAdvisor: async (
+    payload: AdvisorRequest,
+    handlers: { onToken: (text: string) => void; onToolCall?: (toolCall: AdvisorToolCall) => void },
+    signal?: AbortSignal
+  ): Promise<AdvisorReply> => {
+    const response = await fetch(`${getApiUrl()}/ai/chat`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ...payload, stream: true }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      let errorMessage = 'Failed to generate AI advice';
+      try {
+        const error = await response.json();
+        errorMessage = error.error || errorMessage;
+      } catch {
+        // ignore body parsing issues
+      }
+      throw new Error(errorMessage);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Events are separated by a blank line, each with an `event:` and a `data:` line
+    const handleEvent = (rawEvent: string): AdvisorReply | null => {
+      let event = 'message';
+      let data = '';
+      rawEvent.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      });
+      if (!data) return null;
+
+      const parsed = JSON.parse(data);
+      if (event === 'token') handlers.onToken(parsed.text);
+      else if (event === 'tool_call') handlers.onToolCall?.(parsed);
+      else if (event === 'error') throw new Error(parsed.error || 'Failed to generate AI advice');
+      else if (event === 'done') return parsed;
+      return null;
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const rawEvent of events) {
+        const reply = handleEvent(rawEvent);
+        if (reply) return reply;
+      }
+    }
+
+    const reply = buffer.trim() ? handleEvent(buffer) : null;
+    if (!reply) {
+      throw new Error('The advisor stopped before finishing its answer');
+    }
+    return reply;
+  },
+
+  /**
+   * Saved AI advisor threads, most recent first. A search matches titles and message text.
+   */
+  getChatConversations: async (search?: string): Promise<{ conversations: ChatConversation[] }> => {
+    const params = new URLSearchParams();
+    if (search) params.append('search', search);
+    const query = params.toString();
+
+    const response = await fetch(`${getApiUrl()}/ai/conversations${query ? `?${query}` : ''}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch conversations');
+    }
+
+    return response.json();
+  },
+
+  getChatConversation: async (id: string): Promise<{ conversation: ChatConversation; messages: StoredChatMessage[] }> => {
+    const response = await fetch(`${getApiUrl()}/ai/conversations?id=${encodeURIComponent(id)}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch conversation');
+    }
+
+    return response.json();
+  },
+
+  renameChatConversation: async (id: string, title: string): Promise<{ conversation: ChatConversation }> => {
+    const response = await fetch(`${getApiUrl()}/ai/conversations?id=${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ title }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to rename conversation');
+    }
+
+    return response.json();
+  },
+
+  deleteChatConversation: async (id: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/ai/conversations?id=${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete conversation');
+    }
+
+    return response.json();
+  },
+
+  getAIPrivacy: async (): Promise<{ privacy_level: AIPrivacyLevel }> => {
+    const response = await fetch(`${getApiUrl()}/ai/privacy`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch AI privacy setting');
+    }
+
+    return response.json();
+  },
+
+  updateAIPrivacy: async (privacyLevel: AIPrivacyLevel): Promise<{ privacy_level: AIPrivacyLevel }> => {
+    const response = await fetch(`${getApiUrl()}/ai/privacy`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ privacy_level: privacyLevel }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update AI privacy setting');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * What the advisor sent to its model, newest first
+   */
+  getAIContextAudit: async (params?: { conversation_id?: string; limit?: number }): Promise<{ entries: AIContextAuditEntry[] }> => {
+    const query = new URLSearchParams();
+    if (params?.conversation_id) query.append('conversation_id', params.conversation_id);
+    if (params?.limit) query.append('limit', String(params.limit));
+    const queryString = query.toString();
+
+    const response = await fetch(`${getApiUrl()}/ai/audit${queryString ? `?${queryString}` : ''}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch AI context audit');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Auto-categorize uncategorized transactions
+   */
+  autoCategorizeTransactions: async (): Promise<{
+    success: boolean;
+    message: string;
+    total_checked: number;
+    categorized_count: number;
+    uncategorized_count: number;
+  }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=auto-categorize`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to auto-categorize transactions');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the user's categorization rules (highest priority first)
+   */
+  getCategorizationRules: async (): Promise<{ rules: any[] }> => {
+    const response = await fetch(`${getApiUrl()}/categories?resource=rules`, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch rules');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Create a categorization rule
+   */
+  createCategorizationRule: async (rule: Record<string, any>): Promise<{ rule: any }> => {
+    const response = await fetch(`${getApiUrl()}/categories?resource=rules`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(rule),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to create rule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Update a categorization rule's conditions, actions or active state
+   */
+  updateCategorizationRule: async (ruleId: string, updates: Record<string, any>): Promise<{ rule: any }> => {
+    const response = await fetch(`${getApiUrl()}/categories?resource=rules&rule_id=${ruleId}`, {
+      method: 'PATCH',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to update rule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a categorization rule
+   */
+  deleteCategorizationRule: async (ruleId: string): Promise<{ success: boolean }> => {
+    const response = await fetch(`${getApiUrl()}/categories?resource=rules&rule_id=${ruleId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete rule');
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Run categorization rules over existing transactions.
+   * With dry_run the matching changes are returned without being saved.
+   */
+  applyCategorizationRules: async (options: { dry_run?: boolean; rule_id?: string } = {}): Promise<{
+    success: boolean;
+    dry_run: boolean;
+    matched_count: number;
+    changed_count: number;
+    changes: any[];
+  }> => {
+    const response = await fetch(`${getApiUrl()}/transactions?action=apply-rules`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(options),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to apply rules');
     }
 
     return response.json();
@@ -0,0 +1,70 @@
+/**
+ * Types for the AI advisor chat and its saved conversations (see lib/chatConversations.ts)
+ */
+import type { AIPrivacyLevel } from './aiPrivacy';
+
+export interface AdvisorToolCall {
+  name: string;
+  arguments: any;
+  result: any;
+}
+
+export interface AdvisorRequest {
+  message: string;
+  // Continue a saved thread; its history comes from the server
+  conversation_id?: string;
+  conversation?: { role: 'user' | 'assistant'; content: string }[];
+}
+
+export interface AdvisorReply {
+  message: string;
+  model?: string;
+  // The thread this exchange was saved to (new when no conversation_id was sent)
+  conversation?: ChatConversation | null;
+  // Tokens the answer cost; null when the model provider doesn't report them
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  // How much detail was shared with the model
+  privacy_level?: AIPrivacyLevel;
+  context?: {
+    netWorth?: number;
+    totalAssets?: number;
+    totalLiabilities?: number;
+    monthlySpending?: number;
+    monthlyIncome?: number;
+    spendingChange?: number;
+    recurringTotal?: number;
+    generatedAt?: string;
+  };
+  context_summary?: string;
+  // Read-only queries the advisor ran to answer, in order
+  tool_calls?: AdvisorToolCall[];
+}
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  // First matching message, only set on search results
+  snippet?: string | null;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  tool_calls: AdvisorToolCall[] | null;
+  created_at: string;
+}
+
+/**
+ * "Today", "Yesterday" or a short date for the thread list
+ */
+export const formatConversationDate = (value: string, now = new Date()): string => {
+  const date = new Date(value);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const dayMs = 24 * 60 * 60 * 1000;
+  if (date.getTime() >= startOfToday) return 'Today';
+  if (date.getTime() >= startOfToday - dayMs) return 'Yesterday';
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric', year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric' });
+};
@@ -0,0 +1,44 @@
+/**
+ * Helpers for showing whether each linked institution is still syncing.
+ * Status is kept up to date server-side (see lib/itemSync.ts and the Plaid webhook).
+ */
+
+export type PlaidItemStatus = 'healthy' | 'login_required' | 'error' | 'pending_expiration';
+
+export interface PlaidItemHealth {
+  id: string;
+  institution_name: string | null;
+  status: PlaidItemStatus | null;
+  error_code: string | null;
+  error_message: string | null;
+  consent_expires_at: string | null;
+  last_synced_at: string | null;
+}
+
+export const ITEM_STATUS_LABELS: Record<PlaidItemStatus, string> = {
+  healthy: 'Connected',
+  login_required: 'Sign-in required',
+  error: 'Connection error',
+  pending_expiration: 'Access expiring',
+};
+
+/**
+ * Anything other than a healthy connection is fixed by signing in again through Link
+ */
+export const needsReconnect = (item: PlaidItemHealth): boolean =>
+  !!item.status && item.status !== 'healthy';
+
+/**
+ * "Synced 3 hours ago", "Never synced"
+ */
+export const formatLastSynced = (lastSyncedAt: string | null, now = new Date()): string => {
+  if (!lastSyncedAt) return 'Never synced';
+
+  const minutes = Math.floor((now.getTime() - new Date(lastSyncedAt).getTime()) / 60000);
+  if (minutes < 1) return 'Synced just now';
+  if (minutes < 60) return `Synced ${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Synced ${hours} hour${hours !== 1 ? 's' : ''} ago`;
+  const days = Math.floor(hours / 24);
+  return `Synced ${days} day${days !== 1 ? 's' : ''} ago`;
+};
@@ -0,0 +1,15 @@
+/**
+ * Helpers for editing split transactions.
+ * Category breakdowns expand splits server-side (see lib/analytics.ts).
+ */
+
+// Splits must add up to the parent within half a cent
+export const SPLIT_AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * The part of the parent amount not yet allocated to a split
+ */
+export const getUnallocatedAmount = (parentAmount: number, splits: { amount: any }[]): number => {
+  const allocated = splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0);
+  return Math.round((Number(parentAmount) - allocated) * 100) / 100;
+};
@@ -13,6 +13,9 @@ CREATE TABLE IF NOT EXISTS public.users (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- How much detail the AI advisor may send to its model: full, anonymized names, or totals only
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS ai_privacy_level TEXT DEFAULT 'full' CHECK (ai_privacy_level IN ('full', 'anonymized', 'aggregates'));
+
 -- Plaid Items table (stores Plaid access tokens)
 CREATE TABLE IF NOT EXISTS public.plaid_items (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -21,30 +24,53 @@ CREATE TABLE IF NOT EXISTS public.plaid_items (
   access_token TEXT NOT NULL, -- Encrypted in production
   institution_id TEXT,
   institution_name TEXT,
+  sync_cursor TEXT, -- Plaid /transactions/sync cursor (NULL until first sync)
+  status TEXT DEFAULT 'healthy', -- healthy, login_required, error, pending_expiration
+  error_code TEXT, -- Plaid error_code from the last failed sync or ITEM ERROR webhook
+  error_message TEXT,
+  consent_expires_at TIMESTAMP WITH TIME ZONE,
+  last_synced_at TIMESTAMP WITH TIME ZONE, -- Last successful transaction sync
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id, item_id)
 );
 
+-- Add sync cursor to existing installs
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS sync_cursor TEXT;
+
+-- Add item health to existing installs
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'healthy';
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS error_code TEXT;
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS consent_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.plaid_items ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP WITH TIME ZONE;
+
 -- Accounts table (stores bank accounts from Plaid)
 CREATE TABLE IF NOT EXISTS public.accounts (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
-  plaid_item_id UUID NOT NULL REFERENCES public.plaid_items(id) ON DELETE CASCADE,
-  account_id TEXT NOT NULL, -- Plaid account_id
+  plaid_item_id UUID REFERENCES public.plaid_items(id) ON DELETE CASCADE, -- NULL for manual and archived accounts
+  account_id TEXT NOT NULL, -- Plaid account_id, or a generated id for manual accounts
   name TEXT NOT NULL,
-  type TEXT NOT NULL, -- depository, credit, investment, loan
+  type TEXT NOT NULL, -- depository, credit, investment, loan; manual accounts also use real_estate, vehicle, crypto, other_asset, other_debt
   subtype TEXT, -- checking, savings, credit card, etc.
   mask TEXT, -- Last 4 digits
   balance_current NUMERIC(12, 2) DEFAULT 0,
   balance_available NUMERIC(12, 2),
   currency_code TEXT DEFAULT 'USD',
   institution_name TEXT,
+  archived_at TIMESTAMP WITH TIME ZONE, -- Set when its institution was unlinked but the history kept; read-only
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(plaid_item_id, account_id)
 );
 
+-- Manual accounts (file imports) have no Plaid item
+ALTER TABLE public.accounts ALTER COLUMN plaid_item_id DROP NOT NULL;
+
+-- Add archived accounts to existing installs
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
 -- Transaction Categories table (user-defined and Plaid categories)
 CREATE TABLE IF NOT EXISTS public.transaction_categories (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -87,6 +113,24 @@ CREATE TABLE IF NOT EXISTS public.recurring_transactions (
   -- Tracking
   total_occurrences INTEGER DEFAULT 0, -- How many times this has occurred
   missed_count INTEGER DEFAULT 0, -- How many expected transactions were missed
+  consecutive_missed INTEGER DEFAULT 0, -- Misses since the last payment; the stream ends after a few
+  late_count INTEGER DEFAULT 0, -- Payments that arrived after the due date but within the grace window
+  reconciled_through DATE, -- Latest due date already settled as paid or missed
+  -- Cancellation tracking
+  cancellation_status TEXT CHECK (cancellation_status IN ('cancel_requested', 'cancelled', 'charged_after_cancel')), -- NULL unless the user is cancelling
+  cancellation_method TEXT, -- 'website', 'email', 'phone', 'mail', 'in_app', 'other'
+  cancellation_contact TEXT, -- URL, email address, phone number or mailing address used to cancel
+  cancellation_deadline DATE, -- Last day to cancel before the next charge
+  cancel_date DATE, -- Charges after this date are flagged
+  cancellation_requested_at TIMESTAMP WITH TIME ZONE,
+  cancellation_verified_at TIMESTAMP WITH TIME ZONE, -- When a billing period passed without a charge
+  amount_alert_threshold NUMERIC(5, 2), -- Percent above the usual amount that raises an alert (NULL uses the default)
+  -- Detection
+  source TEXT DEFAULT 'plaid' CHECK (source IN ('plaid', 'detected', 'manual')), -- Who created the stream
+  confidence NUMERIC(4, 3), -- 0-1 score for detected streams (NULL for Plaid and manual streams)
+  is_paused BOOLEAN DEFAULT FALSE, -- Paused by the user: kept, but not expected or counted as missed
+  not_recurring BOOLEAN DEFAULT FALSE, -- Marked "not recurring": hidden, and sync won't recreate it
+  merged_into_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL, -- Stream this one was merged into
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id, name, account_id) -- Prevent duplicates
@@ -97,7 +141,7 @@ CREATE TABLE IF NOT EXISTS public.transactions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
   account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
-  transaction_id TEXT UNIQUE NOT NULL, -- Plaid transaction_id
+  transaction_id TEXT UNIQUE NOT NULL, -- Plaid transaction_id, or a fingerprint hash for imported rows
   amount NUMERIC(12, 2) NOT NULL,
   date DATE NOT NULL, -- Transaction date (when it posted/cleared)
   name TEXT NOT NULL,
@@ -135,12 +179,204 @@ CREATE TABLE IF NOT EXISTS public.transactions (
   posted_date DATE, -- When transaction posted to account (same as date usually)
   expected_date DATE, -- Expected date for recurring transactions
   due_date DATE, -- Due date for bills/subscriptions
+  source TEXT DEFAULT 'plaid' CHECK (source IN ('plaid', 'import')), -- Plaid sync or a CSV/OFX/QFX file import
   -- Timestamps
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(account_id, transaction_id)
 );
 
+-- Add cancellation tracking to existing installs
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_status TEXT CHECK (cancellation_status IN ('cancel_requested', 'cancelled', 'charged_after_cancel'));
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_method TEXT;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_contact TEXT;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_deadline DATE;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancel_date DATE;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_requested_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS cancellation_verified_at TIMESTAMP WITH TIME ZONE;
+-- The first charge seen after cancel_date (declared here because transactions is created after recurring_transactions)
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS post_cancel_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+-- Add price alert threshold to existing installs
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS amount_alert_threshold NUMERIC(5, 2);
+
+-- Add missed/late payment tracking to existing installs
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS consecutive_missed INTEGER DEFAULT 0;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS late_count INTEGER DEFAULT 0;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS reconciled_through DATE;
+
+-- Add in-house detection fields to existing installs
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'plaid' CHECK (source IN ('plaid', 'detected', 'manual'));
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS confidence NUMERIC(4, 3);
+
+-- Add pause, "not recurring" and merge tracking to existing installs
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS is_paused BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS not_recurring BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.recurring_transactions ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+-- Add import source to existing installs
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS source TEXT DEFAULT 'plaid' CHECK (source IN ('plaid', 'import'));
+
+-- Budgets table (monthly spending limits per category)
+CREATE TABLE IF NOT EXISTS public.budgets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.transaction_categories(id) ON DELETE CASCADE,
+  user_category_name TEXT, -- Used when budgeting a custom/Plaid category name without a category row
+  monthly_limit NUMERIC(12, 2) NOT NULL CHECK (monthly_limit >= 0),
+  rollover BOOLEAN DEFAULT FALSE, -- Carry unspent amounts into the next month
+  start_month DATE NOT NULL DEFAULT date_trunc('month', NOW())::DATE, -- First month rollover is counted from
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (category_id IS NOT NULL OR user_category_name IS NOT NULL),
+  UNIQUE(user_id, category_id),
+  UNIQUE(user_id, user_category_name)
+);
+
+-- Categorization rules (user-defined, evaluated before the built-in keyword mappings)
+CREATE TABLE IF NOT EXISTS public.categorization_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER DEFAULT 0, -- Higher priority rules are evaluated first
+  is_active BOOLEAN DEFAULT TRUE,
+  -- Conditions (every condition that is set must match)
+  name_pattern TEXT, -- Case-insensitive regex on the transaction name
+  merchant_pattern TEXT, -- Case-insensitive regex on the merchant name
+  min_amount NUMERIC(12, 2), -- Compared against the absolute amount
+  max_amount NUMERIC(12, 2),
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  payment_channel TEXT,
+  -- Actions
+  category_id UUID REFERENCES public.transaction_categories(id) ON DELETE SET NULL,
+  user_category_name TEXT,
+  tags TEXT[],
+  notes TEXT,
+  excluded_from_budget BOOLEAN,
+  is_transfer BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Merchant category memory (learned from the user's category corrections)
+CREATE TABLE IF NOT EXISTS public.merchant_category_memory (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  merchant_key TEXT NOT NULL, -- Normalized merchant name (store numbers and punctuation removed)
+  merchant_name TEXT, -- Merchant name as last seen, for display
+  category_id UUID REFERENCES public.transaction_categories(id) ON DELETE SET NULL,
+  user_category_name TEXT,
+  correction_count INTEGER DEFAULT 1, -- Consecutive corrections to this category
+  confidence NUMERIC(4, 3) DEFAULT 0.5, -- 1 - 0.5^correction_count
+  last_corrected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, merchant_key)
+);
+
+-- Account balance snapshots (daily balance history for net worth over time)
+CREATE TABLE IF NOT EXISTS public.account_balance_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  balance_current NUMERIC(12, 2) NOT NULL,
+  balance_available NUMERIC(12, 2),
+  source TEXT NOT NULL DEFAULT 'sync', -- 'sync', 'refresh', 'link', 'import', 'manual' (entered by the user) or 'backfill' (reconstructed from transactions)
+  note TEXT, -- Optional note on a manually entered value, e.g. "Zillow estimate"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(account_id, snapshot_date)
+);
+
+-- Add notes on manually entered values to existing installs
+ALTER TABLE public.account_balance_snapshots ADD COLUMN IF NOT EXISTS note TEXT;
+
+-- Transaction splits (allocations of one transaction across several categories)
+CREATE TABLE IF NOT EXISTS public.transaction_splits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL, -- Same sign convention as the parent; splits sum to the parent amount
+  category_id UUID REFERENCES public.transaction_categories(id) ON DELETE SET NULL,
+  user_category_name TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Transfer matches (an outflow in one account paired with the inflow in another)
+CREATE TABLE IF NOT EXISTS public.transfer_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  outflow_transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  inflow_transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL,
+  day_gap INTEGER NOT NULL DEFAULT 0, -- Days between the two sides
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('matched', 'pending', 'confirmed', 'dismissed')), -- 'matched' automatically, 'pending' review, 'confirmed' or 'dismissed' by the user
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(outflow_transaction_id, inflow_transaction_id)
+);
+
+-- Recurring amount changes (charges above a stream's usual amount)
+CREATE TABLE IF NOT EXISTS public.recurring_amount_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  recurring_transaction_id UUID NOT NULL REFERENCES public.recurring_transactions(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  transaction_date DATE NOT NULL,
+  previous_amount NUMERIC(12, 2) NOT NULL, -- Usual amount before this charge
+  new_amount NUMERIC(12, 2) NOT NULL,
+  change_amount NUMERIC(12, 2) NOT NULL,
+  change_percent NUMERIC(7, 1) NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('price_increase', 'anomaly')), -- 'anomaly' when the next charge went back to the usual amount
+  status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(recurring_transaction_id, transaction_id)
+);
+
+-- AI advisor conversations (one row per chat thread)
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL, -- Starts as the first question; the user can rename it
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- Bumped on every new message, so threads sort by last activity
+);
+
+-- AI advisor messages
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  tool_calls JSONB, -- Queries the advisor ran for this answer, as shown in the chat
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Token accounting: { prompt_tokens, completion_tokens, total_tokens } for each answer
+ALTER TABLE public.chat_messages ADD COLUMN IF NOT EXISTS token_usage JSONB;
+
+-- What the AI advisor sent to the model for each question, after privacy redaction
+-- (goes with its thread when the thread is deleted)
+CREATE TABLE IF NOT EXISTS public.ai_context_audit (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL, -- The answer, once saved
+  privacy_level TEXT NOT NULL CHECK (privacy_level IN ('full', 'anonymized', 'aggregates')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'answered', 'stopped', 'failed')),
+  sent_messages JSONB NOT NULL, -- The last request's messages exactly as the provider received them
+  rounds INTEGER DEFAULT 1, -- Requests made for this question (one per round of tool calls)
+  token_usage JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_plaid_items_user_id ON public.plaid_items(user_id);
 CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON public.accounts(user_id);
@@ -170,6 +406,38 @@ CREATE INDEX IF NOT EXISTS idx_recurring_account_id ON public.recurring_transact
 CREATE INDEX IF NOT EXISTS idx_recurring_active ON public.recurring_transactions(user_id, is_active) WHERE is_active = true;
 CREATE INDEX IF NOT EXISTS idx_recurring_next_due ON public.recurring_transactions(user_id, next_due_date) WHERE is_active = true;
 CREATE INDEX IF NOT EXISTS idx_recurring_category ON public.recurring_transactions(user_id, category_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_cancellation ON public.recurring_transactions(user_id, cancellation_status) WHERE cancellation_status IS NOT NULL;
+
+-- Budget indexes
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON public.budgets(user_id);
+
+-- Categorization rule indexes
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user ON public.categorization_rules(user_id, is_active);
+
+-- Merchant memory indexes
+CREATE INDEX IF NOT EXISTS idx_merchant_memory_user ON public.merchant_category_memory(user_id);
+
+-- Balance snapshot indexes
+CREATE INDEX IF NOT EXISTS idx_balance_snapshots_user_date ON public.account_balance_snapshots(user_id, snapshot_date);
+
+-- Transaction split indexes
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_transaction ON public.transaction_splits(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_splits_user ON public.transaction_splits(user_id);
+
+-- Transfer match indexes
+CREATE INDEX IF NOT EXISTS idx_transfer_matches_user_status ON public.transfer_matches(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_transfer_matches_inflow ON public.transfer_matches(inflow_transaction_id);
+
+-- Recurring amount change indexes
+CREATE INDEX IF NOT EXISTS idx_recurring_amount_changes_user_status ON public.recurring_amount_changes(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_recurring_amount_changes_transaction ON public.recurring_amount_changes(transaction_id);
+
+-- Chat indexes
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_updated ON public.chat_conversations(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation ON public.chat_messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_user ON public.chat_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_context_audit_user_created ON public.ai_context_audit(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_context_audit_conversation ON public.ai_context_audit(conversation_id);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
@@ -178,6 +446,16 @@ ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.transaction_categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.account_balance_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.merchant_category_memory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transaction_splits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transfer_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_amount_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_context_audit ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies: Users can only access their own data
 CREATE POLICY "Users can view own profile" ON public.users
@@ -207,6 +485,36 @@ CREATE POLICY "Users can manage own categories" ON public.transaction_categories
 CREATE POLICY "Users can view own recurring transactions" ON public.recurring_transactions
   FOR ALL USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can manage own budgets" ON public.budgets
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own balance snapshots" ON public.account_balance_snapshots
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own categorization rules" ON public.categorization_rules
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own merchant memory" ON public.merchant_category_memory
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own transaction splits" ON public.transaction_splits
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own transfer matches" ON public.transfer_matches
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own recurring amount changes" ON public.recurring_amount_changes
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own chat conversations" ON public.chat_conversations
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own chat messages" ON public.chat_messages
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own AI context audit" ON public.ai_context_audit
+  FOR ALL USING (auth.uid() = user_id);
+
 -- Function to automatically create user profile on signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -246,10 +554,57 @@ CREATE TRIGGER update_recurring_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION public.update_updated_at_column();
 
+-- Trigger to auto-update updated_at on budgets
+DROP TRIGGER IF EXISTS update_budgets_updated_at ON public.budgets;
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trigger to auto-update updated_at on merchant memory
+DROP TRIGGER IF EXISTS update_merchant_memory_updated_at ON public.merchant_category_memory;
+CREATE TRIGGER update_merchant_memory_updated_at
+  BEFORE UPDATE ON public.merchant_category_memory
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trigger to auto-update updated_at on categorization rules
+DROP TRIGGER IF EXISTS update_categorization_rules_updated_at ON public.categorization_rules;
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON public.categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trigger to auto-update updated_at on transaction splits
+DROP TRIGGER IF EXISTS update_transaction_splits_updated_at ON public.transaction_splits;
+CREATE TRIGGER update_transaction_splits_updated_at
+  BEFORE UPDATE ON public.transaction_splits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trigger to auto-update updated_at on transfer matches
+DROP TRIGGER IF EXISTS update_transfer_matches_updated_at ON public.transfer_matches;
+CREATE TRIGGER update_transfer_matches_updated_at
+  BEFORE UPDATE ON public.transfer_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Trigger to auto-update updated_at on recurring amount changes
+DROP TRIGGER IF EXISTS update_recurring_amount_changes_updated_at ON public.recurring_amount_changes;
+CREATE TRIGGER update_recurring_amount_changes_updated_at
+  BEFORE UPDATE ON public.recurring_amount_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
 -- Function to update recurring transaction stats when a transaction is linked
 CREATE OR REPLACE FUNCTION public.update_recurring_transaction_stats()
 RETURNS TRIGGER AS $$
 BEGIN
+  -- Only count a transaction when it is first linked, not on every later edit
+  IF TG_OP = 'UPDATE' AND OLD.recurring_transaction_id IS NOT DISTINCT FROM NEW.recurring_transaction_id THEN
+    RETURN NEW;
+  END IF;
+
   IF NEW.recurring_transaction_id IS NOT NULL THEN
     UPDATE public.recurring_transactions
     SET 
@@ -285,6 +640,28 @@ CREATE TRIGGER on_transaction_recurring_update
   WHEN (NEW.recurring_transaction_id IS NOT NULL)
   EXECUTE FUNCTION public.update_recurring_transaction_stats();
 
+-- Function to replace a transaction's splits in one database transaction, so a
+-- failed insert never leaves the transaction with its old splits deleted
+CREATE OR REPLACE FUNCTION public.replace_transaction_splits(p_transaction_id UUID, p_splits JSONB)
+RETURNS SETOF public.transaction_splits AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.transactions WHERE id = p_transaction_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  DELETE FROM public.transaction_splits
+  WHERE transaction_id = p_transaction_id AND user_id = auth.uid();
+
+  RETURN QUERY
+  INSERT INTO public.transaction_splits (user_id, transaction_id, amount, category_id, user_category_name, notes)
+  SELECT auth.uid(), p_transaction_id, split.amount, split.category_id, split.user_category_name, split.notes
+  FROM jsonb_to_recordset(p_splits) AS split(amount NUMERIC, category_id UUID, user_category_name TEXT, notes TEXT)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Insert default system categories (common Plaid categories)
 INSERT INTO public.transaction_categories (name, icon, color, is_system, user_id)
 VALUES